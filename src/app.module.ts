@@ -12,6 +12,7 @@ import { HealthModule } from './modules/health/health.module';
 import { AuthModule } from './modules/auth/auth.module';
 import { CqrsModule } from '@nestjs/cqrs';
 import { CommunicationModule } from './modules/communication/communication.module';
+import { AquacultureModule } from './modules/aquaculture-system/aquaculture.module';
 
 
 @Module({
@@ -48,6 +49,7 @@ import { CommunicationModule } from './modules/communication/communication.modul
     UserModule,
     AuthModule,
     CommunicationModule,
+    AquacultureModule,
   ],
   controllers: [],
   providers: [],
@@ -0,0 +1,59 @@
+import { Migration } from '@mikro-orm/migrations';
+
+export class Migration20261019122217 extends Migration {
+
+  override async up(): Promise<void> {
+    this.addSql(`create table "farms" ("id" varchar(255) not null, "created_at" timestamptz not null, "updated_at" timestamptz not null, "deleted_at" timestamptz null, "name" varchar(255) not null, "location" varchar(255) not null, constraint "farms_pkey" primary key ("id"));`);
+
+    this.addSql(`create table "tanks" ("id" varchar(255) not null, "created_at" timestamptz not null, "updated_at" timestamptz not null, "deleted_at" timestamptz null, "farm_id" varchar(255) not null, "name" varchar(255) not null, "volume_cubic_meters" double precision not null, "status" text check ("status" in ('ACTIVE', 'MAINTENANCE', 'EMPTY', 'INACTIVE')) not null, constraint "tanks_pkey" primary key ("id"));`);
+    this.addSql(`create index "tanks_farm_id_index" on "tanks" ("farm_id");`);
+
+    this.addSql(`create table "fish_batches" ("id" varchar(255) not null, "created_at" timestamptz not null, "updated_at" timestamptz not null, "deleted_at" timestamptz null, "tank_id" varchar(255) not null, "fish_type_id" varchar(255) not null, "stocked_date" timestamptz not null, "initial_count" int not null, "initial_weight_grams" double precision not null, "fish_count" int not null, "average_weight_grams" double precision not null, "survival_rate" double precision not null, "status" text check ("status" in ('ACTIVE', 'HARVESTED', 'MOVED', 'LOST')) not null, constraint "fish_batches_pkey" primary key ("id"));`);
+    this.addSql(`create index "fish_batches_tank_id_index" on "fish_batches" ("tank_id");`);
+    this.addSql(`create index "fish_batches_fish_type_id_index" on "fish_batches" ("fish_type_id");`);
+
+    this.addSql(`create table "growth_records" ("id" varchar(255) not null, "created_at" timestamptz not null, "updated_at" timestamptz not null, "deleted_at" timestamptz null, "batch_id" varchar(255) not null, "recorded_at" timestamptz not null, "fish_count" int not null, "average_weight_grams" double precision not null, "survival_rate" double precision not null, "weight_gain_grams" double precision not null, "days_in_culture" int not null, "sgr" double precision not null, "adg" double precision not null, constraint "growth_records_pkey" primary key ("id"));`);
+    this.addSql(`create index "growth_records_batch_id_index" on "growth_records" ("batch_id");`);
+
+    this.addSql(`create table "feeding_records" ("id" varchar(255) not null, "created_at" timestamptz not null, "updated_at" timestamptz not null, "deleted_at" timestamptz null, "batch_id" varchar(255) not null, "feed_date" timestamptz not null, "feed_amount_grams" double precision not null, "meals_per_day" int not null, "water_temperature" double precision not null, "water_dissolved_oxygen" double precision not null, "water_ph" double precision not null, "water_total_ammonia" double precision not null, "water_nitrite" double precision not null, "water_measured_at" timestamptz not null, constraint "feeding_records_pkey" primary key ("id"));`);
+    this.addSql(`create index "feeding_records_batch_id_index" on "feeding_records" ("batch_id");`);
+
+    this.addSql(`create table "water_quality_readings" ("id" varchar(255) not null, "created_at" timestamptz not null, "updated_at" timestamptz not null, "deleted_at" timestamptz null, "tank_id" varchar(255) not null, "measured_at" timestamptz not null, "temperature" double precision not null, "dissolved_oxygen" double precision not null, "ph" double precision not null, "total_ammonia" double precision not null, "nitrite" double precision not null, constraint "water_quality_readings_pkey" primary key ("id"));`);
+    this.addSql(`create index "water_quality_readings_tank_id_measured_at_index" on "water_quality_readings" ("tank_id", "measured_at");`);
+
+    this.addSql(`alter table "tanks" add constraint "tanks_farm_id_foreign" foreign key ("farm_id") references "farms" ("id") on update cascade;`);
+
+    this.addSql(`alter table "fish_batches" add constraint "fish_batches_tank_id_foreign" foreign key ("tank_id") references "tanks" ("id") on update cascade;`);
+
+    this.addSql(`alter table "growth_records" add constraint "growth_records_batch_id_foreign" foreign key ("batch_id") references "fish_batches" ("id") on update cascade;`);
+
+    this.addSql(`alter table "feeding_records" add constraint "feeding_records_batch_id_foreign" foreign key ("batch_id") references "fish_batches" ("id") on update cascade;`);
+
+    this.addSql(`alter table "water_quality_readings" add constraint "water_quality_readings_tank_id_foreign" foreign key ("tank_id") references "tanks" ("id") on update cascade;`);
+  }
+
+  override async down(): Promise<void> {
+    this.addSql(`alter table "tanks" drop constraint "tanks_farm_id_foreign";`);
+
+    this.addSql(`alter table "fish_batches" drop constraint "fish_batches_tank_id_foreign";`);
+
+    this.addSql(`alter table "water_quality_readings" drop constraint "water_quality_readings_tank_id_foreign";`);
+
+    this.addSql(`alter table "growth_records" drop constraint "growth_records_batch_id_foreign";`);
+
+    this.addSql(`alter table "feeding_records" drop constraint "feeding_records_batch_id_foreign";`);
+
+    this.addSql(`drop table if exists "farms" cascade;`);
+
+    this.addSql(`drop table if exists "tanks" cascade;`);
+
+    this.addSql(`drop table if exists "fish_batches" cascade;`);
+
+    this.addSql(`drop table if exists "growth_records" cascade;`);
+
+    this.addSql(`drop table if exists "feeding_records" cascade;`);
+
+    this.addSql(`drop table if exists "water_quality_readings" cascade;`);
+  }
+
+}
@@ -0,0 +1,14 @@
+import { Migration } from '@mikro-orm/migrations';
+
+export class Migration20261019122704 extends Migration {
+
+  override async up(): Promise<void> {
+    this.addSql(`create table "fish_types" ("id" varchar(255) not null, "created_at" timestamptz not null, "updated_at" timestamptz not null, "deleted_at" timestamptz null, "name" varchar(255) not null, "scientific_name" varchar(255) null, "do_min" double precision not null, "do_safe" double precision not null, "ph_min" double precision not null, "ph_max" double precision not null, "nh3safe" double precision not null, "nh3critical" double precision not null, "no2max" double precision not null, "temp_min" double precision not null, "temp_max" double precision not null, "temp_optimal" double precision not null, "fcr_min" double precision not null, "fcr_max" double precision not null, "survival_rate" double precision not null, "feeding_rate_matrix" jsonb not null, "meal_frequency_rules" jsonb not null, constraint "fish_types_pkey" primary key ("id"));`);
+    this.addSql(`alter table "fish_types" add constraint "fish_types_name_unique" unique ("name");`);
+  }
+
+  override async down(): Promise<void> {
+    this.addSql(`drop table if exists "fish_types" cascade;`);
+  }
+
+}
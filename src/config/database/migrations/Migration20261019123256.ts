@@ -0,0 +1,27 @@
+import { Migration } from '@mikro-orm/migrations';
+
+export class Migration20261019123256 extends Migration {
+
+  override async up(): Promise<void> {
+    this.addSql(`create table "fish_type_parameter_versions" ("id" varchar(255) not null, "created_at" timestamptz not null, "updated_at" timestamptz not null, "deleted_at" timestamptz null, "fish_type_id" varchar(255) not null, "version" int not null, "effective_from" timestamptz not null, "do_min" double precision not null, "do_safe" double precision not null, "ph_min" double precision not null, "ph_max" double precision not null, "nh3safe" double precision not null, "nh3critical" double precision not null, "no2max" double precision not null, "temp_min" double precision not null, "temp_max" double precision not null, "temp_optimal" double precision not null, "fcr_min" double precision not null, "fcr_max" double precision not null, "survival_rate" double precision not null, "feeding_rate_matrix" jsonb not null, "meal_frequency_rules" jsonb not null, constraint "fish_type_parameter_versions_pkey" primary key ("id"));`);
+    this.addSql(`alter table "fish_type_parameter_versions" add constraint "fish_type_parameter_versions_fish_type_id_version_unique" unique ("fish_type_id", "version");`);
+
+    this.addSql(`alter table "fish_type_parameter_versions" add constraint "fish_type_parameter_versions_fish_type_id_foreign" foreign key ("fish_type_id") references "fish_types" ("id") on update cascade;`);
+
+    // Existing parameter sets become version 1, effective from the fish type's creation
+    this.addSql(`insert into "fish_type_parameter_versions" ("id", "created_at", "updated_at", "fish_type_id", "version", "effective_from", "do_min", "do_safe", "ph_min", "ph_max", "nh3safe", "nh3critical", "no2max", "temp_min", "temp_max", "temp_optimal", "fcr_min", "fcr_max", "survival_rate", "feeding_rate_matrix", "meal_frequency_rules") select gen_random_uuid()::text, now(), now(), "id", 1, "created_at", "do_min", "do_safe", "ph_min", "ph_max", "nh3safe", "nh3critical", "no2max", "temp_min", "temp_max", "temp_optimal", "fcr_min", "fcr_max", "survival_rate", "feeding_rate_matrix", "meal_frequency_rules" from "fish_types";`);
+
+    this.addSql(`alter table "fish_types" drop column "do_min", drop column "do_safe", drop column "ph_min", drop column "ph_max", drop column "nh3safe", drop column "nh3critical", drop column "no2max", drop column "temp_min", drop column "temp_max", drop column "temp_optimal", drop column "fcr_min", drop column "fcr_max", drop column "survival_rate", drop column "feeding_rate_matrix", drop column "meal_frequency_rules";`);
+  }
+
+  override async down(): Promise<void> {
+    this.addSql(`alter table "fish_types" add column "do_min" double precision null, add column "do_safe" double precision null, add column "ph_min" double precision null, add column "ph_max" double precision null, add column "nh3safe" double precision null, add column "nh3critical" double precision null, add column "no2max" double precision null, add column "temp_min" double precision null, add column "temp_max" double precision null, add column "temp_optimal" double precision null, add column "fcr_min" double precision null, add column "fcr_max" double precision null, add column "survival_rate" double precision null, add column "feeding_rate_matrix" jsonb null, add column "meal_frequency_rules" jsonb null;`);
+
+    // Fold the latest version of each fish type back into its row
+    this.addSql(`update "fish_types" ft set "do_min" = v."do_min", "do_safe" = v."do_safe", "ph_min" = v."ph_min", "ph_max" = v."ph_max", "nh3safe" = v."nh3safe", "nh3critical" = v."nh3critical", "no2max" = v."no2max", "temp_min" = v."temp_min", "temp_max" = v."temp_max", "temp_optimal" = v."temp_optimal", "fcr_min" = v."fcr_min", "fcr_max" = v."fcr_max", "survival_rate" = v."survival_rate", "feeding_rate_matrix" = v."feeding_rate_matrix", "meal_frequency_rules" = v."meal_frequency_rules" from (select distinct on ("fish_type_id") * from "fish_type_parameter_versions" order by "fish_type_id", "version" desc) v where v."fish_type_id" = ft."id";`);
+    this.addSql(`alter table "fish_types" alter column "do_min" set not null, alter column "do_safe" set not null, alter column "ph_min" set not null, alter column "ph_max" set not null, alter column "nh3safe" set not null, alter column "nh3critical" set not null, alter column "no2max" set not null, alter column "temp_min" set not null, alter column "temp_max" set not null, alter column "temp_optimal" set not null, alter column "fcr_min" set not null, alter column "fcr_max" set not null, alter column "survival_rate" set not null, alter column "feeding_rate_matrix" set not null, alter column "meal_frequency_rules" set not null;`);
+
+    this.addSql(`drop table if exists "fish_type_parameter_versions" cascade;`);
+  }
+
+}
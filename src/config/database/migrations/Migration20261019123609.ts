@@ -0,0 +1,13 @@
+import { Migration } from '@mikro-orm/migrations';
+
+export class Migration20261019123609 extends Migration {
+
+  override async up(): Promise<void> {
+    this.addSql(`alter table "fish_type_parameter_versions" add column "feeding_rate_interpolation" text check ("feeding_rate_interpolation" in ('NEAREST', 'BILINEAR')) not null default 'NEAREST';`);
+  }
+
+  override async down(): Promise<void> {
+    this.addSql(`alter table "fish_type_parameter_versions" drop column "feeding_rate_interpolation";`);
+  }
+
+}
@@ -0,0 +1,17 @@
+import { Migration } from '@mikro-orm/migrations';
+
+export class Migration20261019124344 extends Migration {
+
+  override async up(): Promise<void> {
+    this.addSql(`alter table "fish_type_parameter_versions" add column "safety_factor_curves" jsonb null;`);
+
+    // Existing versions get the step tables feeding used before curves were configurable
+    this.addSql(`update "fish_type_parameter_versions" set "safety_factor_curves" = jsonb_build_object('temperature', jsonb_build_object('interpolation', 'STEP', 'points', jsonb_build_array(jsonb_build_object('at', -10, 'factor', 0.75), jsonb_build_object('at', -3, 'factor', 0.85), jsonb_build_object('at', -1, 'factor', 1), jsonb_build_object('at', 1, 'factor', 1.05), jsonb_build_object('at', 2, 'factor', 0.95))), 'oxygen', jsonb_build_object('interpolation', 'STEP', 'points', jsonb_build_array(jsonb_build_object('at', 0, 'factor', 0), jsonb_build_object('at', "do_min", 'factor', 0.75), jsonb_build_object('at', greatest(4, "do_min"), 'factor', 0.9), jsonb_build_object('at', greatest(4, "do_safe"), 'factor', 1))), 'ammonia', jsonb_build_object('interpolation', 'STEP', 'points', jsonb_build_array(jsonb_build_object('at', 0, 'factor', 1), jsonb_build_object('at', least("nh3safe", least(0.05, "nh3critical")), 'factor', 0.8), jsonb_build_object('at', least(0.05, "nh3critical"), 'factor', 0.5), jsonb_build_object('at', "nh3critical", 'factor', 0))), 'nitrite', jsonb_build_object('interpolation', 'STEP', 'points', jsonb_build_array(jsonb_build_object('at', 0, 'factor', 1), jsonb_build_object('at', "no2max", 'factor', 0.5), jsonb_build_object('at', "no2max" * 2, 'factor', 0))), 'ph', jsonb_build_object('interpolation', 'STEP', 'points', jsonb_build_array(jsonb_build_object('at', 0, 'factor', 0.75), jsonb_build_object('at', "ph_min", 'factor', 1), jsonb_build_object('at', "ph_max", 'factor', 0.75))));`);
+    this.addSql(`alter table "fish_type_parameter_versions" alter column "safety_factor_curves" set not null;`);
+  }
+
+  override async down(): Promise<void> {
+    this.addSql(`alter table "fish_type_parameter_versions" drop column "safety_factor_curves";`);
+  }
+
+}
@@ -0,0 +1,26 @@
+import { Migration } from '@mikro-orm/migrations';
+
+export class Migration20261019124943 extends Migration {
+
+  override async up(): Promise<void> {
+    this.addSql(`create table "feeding_plans" ("id" varchar(255) not null, "created_at" timestamptz not null, "updated_at" timestamptz not null, "deleted_at" timestamptz null, "tank_id" varchar(255) not null, "plan_date" date not null, "generated_at" timestamptz not null, "water_temperature" double precision not null, "water_dissolved_oxygen" double precision not null, "water_ph" double precision not null, "water_total_ammonia" double precision not null, "water_nitrite" double precision not null, "water_measured_at" timestamptz not null, constraint "feeding_plans_pkey" primary key ("id"));`);
+    this.addSql(`alter table "feeding_plans" add constraint "feeding_plans_tank_id_plan_date_unique" unique ("tank_id", "plan_date");`);
+
+    this.addSql(`create table "feeding_plan_batches" ("id" varchar(255) not null, "created_at" timestamptz not null, "updated_at" timestamptz not null, "deleted_at" timestamptz null, "plan_id" varchar(255) not null, "batch_id" varchar(255) not null, "total_daily_feed_grams" double precision not null, "feed_per_meal_grams" double precision not null, "meals_per_day" int not null, "safety_status" text check ("safety_status" in ('OK', 'WARNING', 'STOPPED')) not null, "factors" jsonb not null, "base_feeding_rate" double precision null, "final_feeding_rate" double precision null, "parameter_version" int null, "interpolation" text check ("interpolation" in ('NEAREST', 'BILINEAR')) null, "meals" jsonb not null, constraint "feeding_plan_batches_pkey" primary key ("id"));`);
+    this.addSql(`create index "feeding_plan_batches_plan_id_index" on "feeding_plan_batches" ("plan_id");`);
+    this.addSql(`create index "feeding_plan_batches_batch_id_index" on "feeding_plan_batches" ("batch_id");`);
+
+    this.addSql(`alter table "feeding_plans" add constraint "feeding_plans_tank_id_foreign" foreign key ("tank_id") references "tanks" ("id") on update cascade;`);
+
+    this.addSql(`alter table "feeding_plan_batches" add constraint "feeding_plan_batches_plan_id_foreign" foreign key ("plan_id") references "feeding_plans" ("id") on update cascade;`);
+  }
+
+  override async down(): Promise<void> {
+    this.addSql(`alter table "feeding_plan_batches" drop constraint "feeding_plan_batches_plan_id_foreign";`);
+
+    this.addSql(`drop table if exists "feeding_plans" cascade;`);
+
+    this.addSql(`drop table if exists "feeding_plan_batches" cascade;`);
+  }
+
+}
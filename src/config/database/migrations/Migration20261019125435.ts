@@ -0,0 +1,13 @@
+import { Migration } from '@mikro-orm/migrations';
+
+export class Migration20261019125435 extends Migration {
+
+  override async up(): Promise<void> {
+    this.addSql(`alter table "feeding_records" add column "meal_number" int null, add column "feed_product" varchar(255) null, add column "uneaten_percent" double precision not null default 0;`);
+  }
+
+  override async down(): Promise<void> {
+    this.addSql(`alter table "feeding_records" drop column "meal_number", drop column "feed_product", drop column "uneaten_percent";`);
+  }
+
+}
@@ -0,0 +1,33 @@
+import { Migration } from '@mikro-orm/migrations';
+
+export class Migration20261019130119 extends Migration {
+
+  override async up(): Promise<void> {
+    this.addSql(`create table "feed_products" ("id" varchar(255) not null, "created_at" timestamptz not null, "updated_at" timestamptz not null, "deleted_at" timestamptz null, "name" varchar(255) not null, "brand" varchar(255) not null, "pellet_size_mm" double precision not null, "protein_percent" double precision not null, "price_per_kg" double precision not null, constraint "feed_products_pkey" primary key ("id"));`);
+    this.addSql(`alter table "feed_products" add constraint "feed_products_brand_name_unique" unique ("brand", "name");`);
+
+    this.addSql(`create table "feed_stock_movements" ("id" varchar(255) not null, "created_at" timestamptz not null, "updated_at" timestamptz not null, "deleted_at" timestamptz null, "farm_id" varchar(255) not null, "feed_product_id" varchar(255) not null, "type" text check ("type" in ('RECEIPT', 'CONSUMPTION')) not null, "quantity_grams" double precision not null, "occurred_at" timestamptz not null, "unit_price_per_kg" double precision null, "batch_id" varchar(255) null, "reference" varchar(255) null, constraint "feed_stock_movements_pkey" primary key ("id"));`);
+    this.addSql(`create index "feed_stock_movements_feed_product_id_index" on "feed_stock_movements" ("feed_product_id");`);
+    this.addSql(`create index "feed_stock_movements_batch_id_index" on "feed_stock_movements" ("batch_id");`);
+    this.addSql(`create index "feed_stock_movements_farm_id_feed_product_id_occurred_at_index" on "feed_stock_movements" ("farm_id", "feed_product_id", "occurred_at");`);
+
+    this.addSql(`alter table "feed_stock_movements" add constraint "feed_stock_movements_farm_id_foreign" foreign key ("farm_id") references "farms" ("id") on update cascade;`);
+    this.addSql(`alter table "feed_stock_movements" add constraint "feed_stock_movements_feed_product_id_foreign" foreign key ("feed_product_id") references "feed_products" ("id") on update cascade;`);
+
+    this.addSql(`alter table "feeding_records" rename column "feed_product" to "feed_product_id";`);
+    this.addSql(`create index "feeding_records_feed_product_id_index" on "feeding_records" ("feed_product_id");`);
+  }
+
+  override async down(): Promise<void> {
+    this.addSql(`alter table "feed_stock_movements" drop constraint "feed_stock_movements_feed_product_id_foreign";`);
+
+    this.addSql(`drop table if exists "feed_products" cascade;`);
+
+    this.addSql(`drop table if exists "feed_stock_movements" cascade;`);
+
+    this.addSql(`drop index "feeding_records_feed_product_id_index";`);
+
+    this.addSql(`alter table "feeding_records" rename column "feed_product_id" to "feed_product";`);
+  }
+
+}
@@ -0,0 +1,32 @@
+import { Migration } from '@mikro-orm/migrations';
+
+export class Migration20261019130731 extends Migration {
+
+  override async up(): Promise<void> {
+    this.addSql(`create table "feed_lots" ("id" varchar(255) not null, "created_at" timestamptz not null, "updated_at" timestamptz not null, "deleted_at" timestamptz null, "feed_product_id" varchar(255) not null, "lot_number" varchar(255) not null, "supplier" varchar(255) not null, "manufactured_at" timestamptz not null, "expires_at" timestamptz not null, constraint "feed_lots_pkey" primary key ("id"));`);
+    this.addSql(`create index "feed_lots_feed_product_id_index" on "feed_lots" ("feed_product_id");`);
+    this.addSql(`alter table "feed_lots" add constraint "feed_lots_feed_product_id_lot_number_unique" unique ("feed_product_id", "lot_number");`);
+
+    this.addSql(`alter table "feed_lots" add constraint "feed_lots_feed_product_id_foreign" foreign key ("feed_product_id") references "feed_products" ("id") on update cascade;`);
+
+    this.addSql(`alter table "feed_stock_movements" add column "feed_lot_id" varchar(255) null;`);
+    this.addSql(`alter table "feed_stock_movements" add constraint "feed_stock_movements_feed_lot_id_foreign" foreign key ("feed_lot_id") references "feed_lots" ("id") on update cascade on delete set null;`);
+    this.addSql(`create index "feed_stock_movements_feed_lot_id_index" on "feed_stock_movements" ("feed_lot_id");`);
+
+    this.addSql(`alter table "feeding_records" add column "feed_lot_id" varchar(255) null;`);
+    this.addSql(`create index "feeding_records_feed_lot_id_index" on "feeding_records" ("feed_lot_id");`);
+  }
+
+  override async down(): Promise<void> {
+    this.addSql(`alter table "feed_stock_movements" drop constraint "feed_stock_movements_feed_lot_id_foreign";`);
+
+    this.addSql(`drop table if exists "feed_lots" cascade;`);
+
+    this.addSql(`drop index "feed_stock_movements_feed_lot_id_index";`);
+    this.addSql(`alter table "feed_stock_movements" drop column "feed_lot_id";`);
+
+    this.addSql(`drop index "feeding_records_feed_lot_id_index";`);
+    this.addSql(`alter table "feeding_records" drop column "feed_lot_id";`);
+  }
+
+}
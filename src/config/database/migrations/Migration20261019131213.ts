@@ -0,0 +1,13 @@
+import { Migration } from '@mikro-orm/migrations';
+
+export class Migration20261019131213 extends Migration {
+
+  override async up(): Promise<void> {
+    this.addSql(`alter table "growth_records" add column "sampled_fish" jsonb null, add column "weight_std_dev_grams" double precision null, add column "weight_cv" double precision null, add column "mean_length_cm" double precision null, add column "mean_condition_factor" double precision null;`);
+  }
+
+  override async down(): Promise<void> {
+    this.addSql(`alter table "growth_records" drop column "sampled_fish", drop column "weight_std_dev_grams", drop column "weight_cv", drop column "mean_length_cm", drop column "mean_condition_factor";`);
+  }
+
+}
@@ -0,0 +1,41 @@
+import { Migration } from '@mikro-orm/migrations';
+
+export class Migration20261019131434 extends Migration {
+
+  override async up(): Promise<void> {
+    this.addSql(`alter table "growth_records" rename column "sgr" to "cumulative_sgr";`);
+    this.addSql(`alter table "growth_records" drop column "adg";`);
+
+    this.addSql(`alter table "growth_records" add column "interval_days" int null, add column "interval_sgr" double precision null, add column "interval_adg" double precision null, add column "cumulative_adg" double precision null;`);
+
+    // Existing rows only had SGR since stocking; work out the rest from the weights on record
+    this.addSql(`with "rates" as (
+      select "g"."id",
+        "g"."days_in_culture" - coalesce(lag("g"."days_in_culture") over "w", 0) as "interval_days",
+        coalesce(lag("g"."average_weight_grams") over "w", "b"."initial_weight_grams") as "previous_grams",
+        "b"."initial_weight_grams" as "initial_grams"
+      from "growth_records" "g" join "fish_batches" "b" on "b"."id" = "g"."batch_id"
+      window "w" as (partition by "g"."batch_id" order by "g"."recorded_at")
+    )
+    update "growth_records" "g" set
+      "interval_days" = "r"."interval_days",
+      "weight_gain_grams" = "g"."average_weight_grams" - "r"."previous_grams",
+      "interval_sgr" = coalesce((ln("g"."average_weight_grams") - ln("r"."previous_grams")) / nullif("r"."interval_days", 0) * 100, 0),
+      "interval_adg" = coalesce(("g"."average_weight_grams" - "r"."previous_grams") / nullif("r"."interval_days", 0), 0),
+      "cumulative_adg" = coalesce(("g"."average_weight_grams" - "r"."initial_grams") / nullif("g"."days_in_culture", 0), 0)
+    from "rates" "r" where "r"."id" = "g"."id";`);
+
+    this.addSql(`alter table "growth_records" alter column "interval_days" set not null, alter column "interval_sgr" set not null, alter column "interval_adg" set not null, alter column "cumulative_adg" set not null;`);
+  }
+
+  override async down(): Promise<void> {
+    this.addSql(`alter table "growth_records" add column "adg" double precision null;`);
+    this.addSql(`update "growth_records" set "adg" = "weight_gain_grams" / nullif("days_in_culture", 0);`);
+    this.addSql(`update "growth_records" set "adg" = 0 where "adg" is null;`);
+    this.addSql(`alter table "growth_records" alter column "adg" set not null;`);
+
+    this.addSql(`alter table "growth_records" drop column "interval_days", drop column "interval_sgr", drop column "interval_adg", drop column "cumulative_adg";`);
+    this.addSql(`alter table "growth_records" rename column "cumulative_sgr" to "sgr";`);
+  }
+
+}
@@ -0,0 +1,13 @@
+import { Migration } from '@mikro-orm/migrations';
+
+export class Migration20261019132350 extends Migration {
+
+  override async up(): Promise<void> {
+    this.addSql(`alter table "farms" add column "temperature_profile" jsonb null;`);
+  }
+
+  override async down(): Promise<void> {
+    this.addSql(`alter table "farms" drop column "temperature_profile";`);
+  }
+
+}
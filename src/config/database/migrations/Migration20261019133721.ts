@@ -0,0 +1,17 @@
+import { Migration } from '@mikro-orm/migrations';
+
+export class Migration20261019133721 extends Migration {
+
+  override async up(): Promise<void> {
+    this.addSql(`create table "market_prices" ("id" varchar(255) not null, "created_at" timestamptz not null, "updated_at" timestamptz not null, "deleted_at" timestamptz null, "fish_type_id" varchar(255) not null, "grade" varchar(255) not null, "min_weight_grams" double precision not null, "max_weight_grams" double precision null, "price_per_kg" double precision not null, "effective_from" timestamptz not null, constraint "market_prices_pkey" primary key ("id"));`);
+    this.addSql(`create index "market_prices_fish_type_id_index" on "market_prices" ("fish_type_id");`);
+    this.addSql(`alter table "market_prices" add constraint "market_prices_fish_type_id_grade_effective_from_unique" unique ("fish_type_id", "grade", "effective_from");`);
+
+    this.addSql(`alter table "market_prices" add constraint "market_prices_fish_type_id_foreign" foreign key ("fish_type_id") references "fish_types" ("id") on update cascade;`);
+  }
+
+  override async down(): Promise<void> {
+    this.addSql(`drop table if exists "market_prices" cascade;`);
+  }
+
+}
@@ -0,0 +1,16 @@
+import { Migration } from '@mikro-orm/migrations';
+
+export class Migration20261019134207 extends Migration {
+
+  override async up(): Promise<void> {
+    this.addSql(`create table "harvest_events" ("id" varchar(255) not null, "created_at" timestamptz not null, "updated_at" timestamptz not null, "deleted_at" timestamptz null, "batch_id" varchar(255) not null, "harvested_at" timestamptz not null, "fish_count" int not null, "biomass_grams" double precision not null, "grades" jsonb not null, "buyer" varchar(255) null, "closed_batch" boolean not null, constraint "harvest_events_pkey" primary key ("id"));`);
+    this.addSql(`create index "harvest_events_batch_id_index" on "harvest_events" ("batch_id");`);
+
+    this.addSql(`alter table "harvest_events" add constraint "harvest_events_batch_id_foreign" foreign key ("batch_id") references "fish_batches" ("id") on update cascade;`);
+  }
+
+  override async down(): Promise<void> {
+    this.addSql(`drop table if exists "harvest_events" cascade;`);
+  }
+
+}
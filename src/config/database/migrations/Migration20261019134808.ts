@@ -0,0 +1,21 @@
+import { Migration } from '@mikro-orm/migrations';
+
+export class Migration20261019134808 extends Migration {
+
+  override async up(): Promise<void> {
+    this.addSql(`create table "batch_transfers" ("id" varchar(255) not null, "created_at" timestamptz not null, "updated_at" timestamptz not null, "deleted_at" timestamptz null, "batch_id" varchar(255) not null, "to_batch_id" varchar(255) not null, "transferred_at" timestamptz not null, "fish_count" int not null, "biomass_grams" double precision not null, "average_weight_grams" double precision not null, constraint "batch_transfers_pkey" primary key ("id"));`);
+    this.addSql(`create index "batch_transfers_batch_id_index" on "batch_transfers" ("batch_id");`);
+    this.addSql(`create index "batch_transfers_to_batch_id_index" on "batch_transfers" ("to_batch_id");`);
+
+    this.addSql(`alter table "batch_transfers" add constraint "batch_transfers_batch_id_foreign" foreign key ("batch_id") references "fish_batches" ("id") on update cascade;`);
+
+    this.addSql(`alter table "fish_batches" add column "parent_batch_ids" jsonb null;`);
+  }
+
+  override async down(): Promise<void> {
+    this.addSql(`drop table if exists "batch_transfers" cascade;`);
+
+    this.addSql(`alter table "fish_batches" drop column "parent_batch_ids";`);
+  }
+
+}
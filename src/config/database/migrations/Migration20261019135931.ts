@@ -0,0 +1,17 @@
+import { Migration } from '@mikro-orm/migrations';
+
+export class Migration20261019135931 extends Migration {
+
+  override async up(): Promise<void> {
+    this.addSql(`alter table "fish_type_parameter_versions" add column "max_stocking_density" double precision null, add column "oxygen_consumption" double precision null;`);
+
+    this.addSql(`alter table "tanks" add column "max_stocking_density" double precision null, add column "oxygen_supply" double precision null;`);
+  }
+
+  override async down(): Promise<void> {
+    this.addSql(`alter table "fish_type_parameter_versions" drop column "max_stocking_density", drop column "oxygen_consumption";`);
+
+    this.addSql(`alter table "tanks" drop column "max_stocking_density", drop column "oxygen_supply";`);
+  }
+
+}
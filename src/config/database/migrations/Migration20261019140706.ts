@@ -0,0 +1,17 @@
+import { Migration } from '@mikro-orm/migrations';
+
+export class Migration20261019140706 extends Migration {
+
+  override async up(): Promise<void> {
+    this.addSql(`create table "mortality_events" ("id" varchar(255) not null, "created_at" timestamptz not null, "updated_at" timestamptz not null, "deleted_at" timestamptz null, "batch_id" varchar(255) not null, "recorded_at" timestamptz not null, "dead_count" int not null, "fish_count_before" int not null, "cause" text check ("cause" in ('DISEASE', 'OXYGEN', 'HANDLING', 'PREDATION', 'UNKNOWN')) not null, "notes" text null, "attachments" jsonb not null, constraint "mortality_events_pkey" primary key ("id"));`);
+    this.addSql(`create index "mortality_events_batch_id_index" on "mortality_events" ("batch_id");`);
+    this.addSql(`create index "mortality_events_recorded_at_index" on "mortality_events" ("recorded_at");`);
+
+    this.addSql(`alter table "mortality_events" add constraint "mortality_events_batch_id_foreign" foreign key ("batch_id") references "fish_batches" ("id") on update cascade;`);
+  }
+
+  override async down(): Promise<void> {
+    this.addSql(`drop table if exists "mortality_events" cascade;`);
+  }
+
+}
@@ -0,0 +1,16 @@
+import { Migration } from '@mikro-orm/migrations';
+
+export class Migration20261019141145 extends Migration {
+
+  override async up(): Promise<void> {
+    this.addSql(`create table "count_reconciliations" ("id" varchar(255) not null, "created_at" timestamptz not null, "updated_at" timestamptz not null, "deleted_at" timestamptz null, "batch_id" varchar(255) not null, "counted_at" timestamptz not null, "book_count" int not null, "counted_count" int not null, "notes" text null, constraint "count_reconciliations_pkey" primary key ("id"));`);
+    this.addSql(`create index "count_reconciliations_batch_id_index" on "count_reconciliations" ("batch_id");`);
+
+    this.addSql(`alter table "count_reconciliations" add constraint "count_reconciliations_batch_id_foreign" foreign key ("batch_id") references "fish_batches" ("id") on update cascade;`);
+  }
+
+  override async down(): Promise<void> {
+    this.addSql(`drop table if exists "count_reconciliations" cascade;`);
+  }
+
+}
@@ -0,0 +1,26 @@
+import { Migration } from '@mikro-orm/migrations';
+
+export class Migration20261019141904 extends Migration {
+
+  override async up(): Promise<void> {
+    this.addSql(`create table "diagnoses" ("id" varchar(255) not null, "created_at" timestamptz not null, "updated_at" timestamptz not null, "deleted_at" timestamptz null, "batch_id" varchar(255) not null, "condition" varchar(255) not null, "diagnosed_at" timestamptz not null, "notes" text null, constraint "diagnoses_pkey" primary key ("id"));`);
+    this.addSql(`create index "diagnoses_batch_id_index" on "diagnoses" ("batch_id");`);
+
+    this.addSql(`create table "treatments" ("id" varchar(255) not null, "created_at" timestamptz not null, "updated_at" timestamptz not null, "deleted_at" timestamptz null, "batch_id" varchar(255) not null, "diagnosis_id" varchar(255) null, "type" text check ("type" in ('BATH', 'ANTIBIOTIC', 'VACCINE', 'OTHER')) not null, "product" varchar(255) not null, "dose" double precision not null, "dose_unit" varchar(255) not null, "started_at" timestamptz not null, "duration_days" double precision not null, "withdrawal_period" double precision not null, "withdrawal_unit" text check ("withdrawal_unit" in ('DAYS', 'DEGREE_DAYS')) not null, "notes" text null, constraint "treatments_pkey" primary key ("id"));`);
+    this.addSql(`create index "treatments_batch_id_index" on "treatments" ("batch_id");`);
+
+    this.addSql(`alter table "diagnoses" add constraint "diagnoses_batch_id_foreign" foreign key ("batch_id") references "fish_batches" ("id") on update cascade;`);
+
+    this.addSql(`alter table "treatments" add constraint "treatments_batch_id_foreign" foreign key ("batch_id") references "fish_batches" ("id") on update cascade;`);
+    this.addSql(`alter table "treatments" add constraint "treatments_diagnosis_id_foreign" foreign key ("diagnosis_id") references "diagnoses" ("id") on update cascade on delete set null;`);
+  }
+
+  override async down(): Promise<void> {
+    this.addSql(`alter table "treatments" drop constraint "treatments_diagnosis_id_foreign";`);
+
+    this.addSql(`drop table if exists "diagnoses" cascade;`);
+
+    this.addSql(`drop table if exists "treatments" cascade;`);
+  }
+
+}
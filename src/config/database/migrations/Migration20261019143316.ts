@@ -0,0 +1,16 @@
+import { Migration } from '@mikro-orm/migrations';
+
+export class Migration20261019143316 extends Migration {
+
+  override async up(): Promise<void> {
+    // Versions on the default step tables keep the old rations at the band limits
+    this.addSql(`update "fish_type_parameter_versions" set "safety_factor_curves" = jsonb_set("safety_factor_curves", '{temperature}', jsonb_build_object('interpolation', 'STEP', 'points', jsonb_build_array(jsonb_build_object('at', -10, 'factor', 0.75), jsonb_build_object('at', -3, 'factor', 0.85), jsonb_build_object('at', -1, 'factor', 1), jsonb_build_object('at', 1, 'factor', 1.05, 'exclusive', true), jsonb_build_object('at', 2, 'factor', 0.95, 'exclusive', true)))) where "safety_factor_curves"->'temperature' = jsonb_build_object('interpolation', 'STEP', 'points', jsonb_build_array(jsonb_build_object('at', -10, 'factor', 0.75), jsonb_build_object('at', -3, 'factor', 0.85), jsonb_build_object('at', -1, 'factor', 1), jsonb_build_object('at', 1, 'factor', 1.05), jsonb_build_object('at', 2, 'factor', 0.95)));`);
+    this.addSql(`update "fish_type_parameter_versions" set "safety_factor_curves" = jsonb_set("safety_factor_curves", '{ammonia}', jsonb_build_object('interpolation', 'STEP', 'points', jsonb_build_array(jsonb_build_object('at', 0, 'factor', 1), jsonb_build_object('at', least("nh3safe", least(0.05, "nh3critical")), 'factor', 0.8, 'exclusive', true), jsonb_build_object('at', least(0.05, "nh3critical"), 'factor', 0.5, 'exclusive', true), jsonb_build_object('at', "nh3critical", 'factor', 0, 'exclusive', true)))) where "safety_factor_curves"->'ammonia' = jsonb_build_object('interpolation', 'STEP', 'points', jsonb_build_array(jsonb_build_object('at', 0, 'factor', 1), jsonb_build_object('at', least("nh3safe", least(0.05, "nh3critical")), 'factor', 0.8), jsonb_build_object('at', least(0.05, "nh3critical"), 'factor', 0.5), jsonb_build_object('at', "nh3critical", 'factor', 0)));`);
+  }
+
+  override async down(): Promise<void> {
+    this.addSql(`update "fish_type_parameter_versions" set "safety_factor_curves" = jsonb_set("safety_factor_curves", '{temperature}', jsonb_build_object('interpolation', 'STEP', 'points', jsonb_build_array(jsonb_build_object('at', -10, 'factor', 0.75), jsonb_build_object('at', -3, 'factor', 0.85), jsonb_build_object('at', -1, 'factor', 1), jsonb_build_object('at', 1, 'factor', 1.05), jsonb_build_object('at', 2, 'factor', 0.95)))) where "safety_factor_curves"->'temperature' = jsonb_build_object('interpolation', 'STEP', 'points', jsonb_build_array(jsonb_build_object('at', -10, 'factor', 0.75), jsonb_build_object('at', -3, 'factor', 0.85), jsonb_build_object('at', -1, 'factor', 1), jsonb_build_object('at', 1, 'factor', 1.05, 'exclusive', true), jsonb_build_object('at', 2, 'factor', 0.95, 'exclusive', true)));`);
+    this.addSql(`update "fish_type_parameter_versions" set "safety_factor_curves" = jsonb_set("safety_factor_curves", '{ammonia}', jsonb_build_object('interpolation', 'STEP', 'points', jsonb_build_array(jsonb_build_object('at', 0, 'factor', 1), jsonb_build_object('at', least("nh3safe", least(0.05, "nh3critical")), 'factor', 0.8), jsonb_build_object('at', least(0.05, "nh3critical"), 'factor', 0.5), jsonb_build_object('at', "nh3critical", 'factor', 0)))) where "safety_factor_curves"->'ammonia' = jsonb_build_object('interpolation', 'STEP', 'points', jsonb_build_array(jsonb_build_object('at', 0, 'factor', 1), jsonb_build_object('at', least("nh3safe", least(0.05, "nh3critical")), 'factor', 0.8, 'exclusive', true), jsonb_build_object('at', least(0.05, "nh3critical"), 'factor', 0.5, 'exclusive', true), jsonb_build_object('at', "nh3critical", 'factor', 0, 'exclusive', true)));`);
+  }
+
+}
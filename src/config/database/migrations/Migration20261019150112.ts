@@ -0,0 +1,15 @@
+import { Migration } from '@mikro-orm/migrations';
+
+export class Migration20261019150112 extends Migration {
+
+  override async up(): Promise<void> {
+    this.addSql(`alter table "feeding_records" add column "protein_percent" double precision null;`);
+    // Earlier feedings take their product's protein content as it stands now
+    this.addSql(`update "feeding_records" as "f" set "protein_percent" = "p"."protein_percent" from "feed_products" as "p" where "p"."id" = "f"."feed_product_id";`);
+  }
+
+  override async down(): Promise<void> {
+    this.addSql(`alter table "feeding_records" drop column "protein_percent";`);
+  }
+
+}
@@ -0,0 +1,26 @@
+import { Migration } from '@mikro-orm/migrations';
+import { EntityManager } from '@mikro-orm/postgresql';
+import {
+  FISH_TYPE_SEEDS,
+  seedFishTypes,
+} from '../../../modules/aquaculture-system/scripts/seed-fish-types';
+
+export class SeedFishTypesMigration extends Migration {
+  async up(): Promise<void> {
+    await seedFishTypes(this.getEntityManager() as EntityManager);
+  }
+
+  async down(): Promise<void> {
+    const names = FISH_TYPE_SEEDS.map((seed) => seed.name);
+    const placeholders = names.map(() => '?').join(', ');
+    const connection = this.getEntityManager().getConnection();
+    await connection.execute(
+      `DELETE FROM fish_type_parameter_versions WHERE fish_type_id IN (SELECT id FROM fish_types WHERE name IN (${placeholders}))`,
+      names,
+    );
+    await connection.execute(
+      `DELETE FROM fish_types WHERE name IN (${placeholders})`,
+      names,
+    );
+  }
+}
@@ -5,3 +5,8 @@ export const JWT_EXPIRES_IN = 'JWT_EXPIRES_IN';
 export const JWT_REFRESH_EXPIRES_IN = 'JWT_REFRESH_EXPIRES_IN';
 
 export const PORT = 'PORT';
+
+export const FEEDING_DAY_START_HOUR = 'FEEDING_DAY_START_HOUR';
+export const FEEDING_DAY_END_HOUR = 'FEEDING_DAY_END_HOUR';
+
+export const MASS_MORTALITY_PERCENT = 'MASS_MORTALITY_PERCENT';
@@ -15,7 +15,8 @@ import { HttpExceptionFilter } from './libs/exceptions/exception.filter';
 async function bootstrap() {
   const app = await NestFactory.create<NestFastifyApplication>(
     AppModule,
-    new FastifyAdapter(),
+    // Mortality photos are uploaded base64 encoded in JSON bodies
+    new FastifyAdapter({ bodyLimit: 20 * 1024 * 1024 }),
   );
   app.enableVersioning({
     type: VersioningType.URI,
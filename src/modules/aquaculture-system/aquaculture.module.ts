@@ -0,0 +1,335 @@
+import { MikroOrmModule } from "@mikro-orm/nestjs";
+import { Module } from "@nestjs/common";
+import { APP_FILTER } from "@nestjs/core";
+import {
+  ATTACHMENT_STORAGE,
+  BATCH_REPOSITORY,
+  DIAGNOSIS_REPOSITORY,
+  FARM_REPOSITORY,
+  FEED_PRODUCT_REPOSITORY,
+  FEED_STOCK_REPOSITORY,
+  FEED_LOT_REPOSITORY,
+  FEEDING_PLAN_REPOSITORY,
+  FISH_TYPE_REPOSITORY,
+  MARKET_PRICE_REPOSITORY,
+  TANK_REPOSITORY,
+  TREATMENT_REPOSITORY,
+  UNIT_OF_WORK,
+} from "./aquaculture.tokens";
+import { FarmController } from "./src/presentation/controllers/FarmController";
+import { TankController } from "./src/presentation/controllers/TankController";
+import { BatchController } from "./src/presentation/controllers/BatchController";
+import { FishTypeController } from "./src/presentation/controllers/FishTypeController";
+import { FeedProductController } from "./src/presentation/controllers/FeedProductController";
+import { FeedStockController } from "./src/presentation/controllers/FeedStockController";
+import { FeedLotController } from "./src/presentation/controllers/FeedLotController";
+import { MarketPriceController } from "./src/presentation/controllers/MarketPriceController";
+import { HealthController } from "./src/presentation/controllers/HealthController";
+import { DomainExceptionFilter } from "./src/presentation/middleware/errorHandler";
+import { FarmRepository } from "./src/infrastructure/repositories/FarmRepository";
+import { TankRepository } from "./src/infrastructure/repositories/TankRepository";
+import { BatchRepository } from "./src/infrastructure/repositories/BatchRepository";
+import { FishTypeRepository } from "./src/infrastructure/repositories/FishTypeRepository";
+import { FeedingPlanRepository } from "./src/infrastructure/repositories/FeedingPlanRepository";
+import { FeedProductRepository } from "./src/infrastructure/repositories/FeedProductRepository";
+import { FeedStockRepository } from "./src/infrastructure/repositories/FeedStockRepository";
+import { FeedLotRepository } from "./src/infrastructure/repositories/FeedLotRepository";
+import { MarketPriceRepository } from "./src/infrastructure/repositories/MarketPriceRepository";
+import { DiagnosisRepository } from "./src/infrastructure/repositories/DiagnosisRepository";
+import { TreatmentRepository } from "./src/infrastructure/repositories/TreatmentRepository";
+import { FarmEntity } from "./src/infrastructure/database/entity/farm.entity";
+import { TankEntity } from "./src/infrastructure/database/entity/tank.entity";
+import { FishBatchEntity } from "./src/infrastructure/database/entity/fish-batch.entity";
+import { GrowthRecordEntity } from "./src/infrastructure/database/entity/growth-record.entity";
+import { HarvestEventEntity } from "./src/infrastructure/database/entity/harvest-event.entity";
+import { CountReconciliationEntity } from "./src/infrastructure/database/entity/count-reconciliation.entity";
+import { MortalityEventEntity } from "./src/infrastructure/database/entity/mortality-event.entity";
+import { BatchTransferEntity } from "./src/infrastructure/database/entity/batch-transfer.entity";
+import { FeedingRecordEntity } from "./src/infrastructure/database/entity/feeding-record.entity";
+import { WaterQualityReadingEntity } from "./src/infrastructure/database/entity/water-quality-reading.entity";
+import { FishTypeEntity } from "./src/infrastructure/database/entity/fish-type.entity";
+import { FishTypeParameterVersionEntity } from "./src/infrastructure/database/entity/fish-type-parameter-version.entity";
+import { FeedingPlanEntity } from "./src/infrastructure/database/entity/feeding-plan.entity";
+import { FeedingPlanBatchEntity } from "./src/infrastructure/database/entity/feeding-plan-batch.entity";
+import { FeedProductEntity } from "./src/infrastructure/database/entity/feed-product.entity";
+import { MarketPriceEntity } from "./src/infrastructure/database/entity/market-price.entity";
+import { FeedStockMovementEntity } from "./src/infrastructure/database/entity/feed-stock-movement.entity";
+import { FeedLotEntity } from "./src/infrastructure/database/entity/feed-lot.entity";
+import { DiagnosisEntity } from "./src/infrastructure/database/entity/diagnosis.entity";
+import { TreatmentEntity } from "./src/infrastructure/database/entity/treatment.entity";
+import { FarmPersistenceMapper } from "./src/infrastructure/database/mapper/farm.mapper";
+import { TankPersistenceMapper } from "./src/infrastructure/database/mapper/tank.mapper";
+import { FishBatchPersistenceMapper } from "./src/infrastructure/database/mapper/fish-batch.mapper";
+import { FishTypePersistenceMapper } from "./src/infrastructure/database/mapper/fish-type.mapper";
+import { FeedingPlanPersistenceMapper } from "./src/infrastructure/database/mapper/feeding-plan.mapper";
+import { FeedProductPersistenceMapper } from "./src/infrastructure/database/mapper/feed-product.mapper";
+import { FeedStockMovementPersistenceMapper } from "./src/infrastructure/database/mapper/feed-stock-movement.mapper";
+import { FeedLotPersistenceMapper } from "./src/infrastructure/database/mapper/feed-lot.mapper";
+import { MarketPricePersistenceMapper } from "./src/infrastructure/database/mapper/market-price.mapper";
+import { DiagnosisPersistenceMapper } from "./src/infrastructure/database/mapper/diagnosis.mapper";
+import { TreatmentPersistenceMapper } from "./src/infrastructure/database/mapper/treatment.mapper";
+import { FarmMapper } from "./src/application/mappers/FarmMapper";
+import { TankMapper } from "./src/application/mappers/TankMapper";
+import { BatchMapper } from "./src/application/mappers/BatchMapper";
+import { FishTypeMapper } from "./src/application/mappers/FishTypeMapper";
+import { FeedingPlanMapper } from "./src/application/mappers/FeedingPlanMapper";
+import { FeedProductMapper } from "./src/application/mappers/FeedProductMapper";
+import { FeedStockMapper } from "./src/application/mappers/FeedStockMapper";
+import { FeedLotMapper } from "./src/application/mappers/FeedLotMapper";
+import { MarketPriceMapper } from "./src/application/mappers/MarketPriceMapper";
+import { HealthMapper } from "./src/application/mappers/HealthMapper";
+import { MassMortalityAlertHandler } from "./src/application/handlers/MassMortalityAlertHandler";
+import { FeedingSchedulerService } from "./src/application/services/FeedingSchedulerService";
+import { GrowthCurveService } from "./src/application/services/GrowthCurveService";
+import { TreatmentWithdrawalService } from "./src/application/services/TreatmentWithdrawalService";
+import { FeedingPlanJob } from "./src/infrastructure/scheduling/FeedingPlanJob";
+import { LocalAttachmentStorage } from "./src/infrastructure/storage/LocalAttachmentStorage";
+import { MikroOrmUnitOfWork } from "./src/infrastructure/database/MikroOrmUnitOfWork";
+import { CreateFarmUseCase } from "./src/application/use-cases/farm/CreateFarm";
+import { GetFarmUseCase } from "./src/application/use-cases/farm/GetFarm";
+import { ListFarmsUseCase } from "./src/application/use-cases/farm/ListFarms";
+import { SetFarmTemperatureProfileUseCase } from "./src/application/use-cases/farm/SetFarmTemperatureProfile";
+import { GetFarmStatisticsUseCase } from "./src/application/use-cases/farm/GetFarmStatistics";
+import { GetFarmFeedingPlanUseCase } from "./src/application/use-cases/farm/GetFarmFeedingPlan";
+import { GetFarmCapacityUseCase } from "./src/application/use-cases/farm/GetFarmCapacity";
+import { GetFarmMortalityReportUseCase } from "./src/application/use-cases/farm/GetFarmMortalityReport";
+import { CreateTankUseCase } from "./src/application/use-cases/tank/CreateTank";
+import { GetTankDetailsUseCase } from "./src/application/use-cases/tank/GetTankDetails";
+import { UpdateWaterQualityUseCase } from "./src/application/use-cases/tank/UpdateWaterQuality";
+import { GetTankFeedingPlanUseCase } from "./src/application/use-cases/tank/GetTankFeedingPlan";
+import { RegenerateTankFeedingPlanUseCase } from "./src/application/use-cases/tank/RegenerateTankFeedingPlan";
+import { SetTankCapacityLimitsUseCase } from "./src/application/use-cases/tank/SetTankCapacityLimits";
+import { GetTankCapacityUseCase } from "./src/application/use-cases/tank/GetTankCapacity";
+import { ForecastTankCapacityUseCase } from "./src/application/use-cases/tank/ForecastTankCapacity";
+import { CreateFishBatchUseCase } from "./src/application/use-cases/batch/CreateFishBatch";
+import { GetBatchDetailsUseCase } from "./src/application/use-cases/batch/GetBatchDetails";
+import { GetBatchFeedingDeviationUseCase } from "./src/application/use-cases/batch/GetBatchFeedingDeviation";
+import { GetBatchFeedTraceUseCase } from "./src/application/use-cases/batch/GetBatchFeedTrace";
+import { GetBatchPerformanceUseCase } from "./src/application/use-cases/batch/GetBatchPerformance";
+import { RecordGrowthUseCase } from "./src/application/use-cases/batch/RecordGrowth";
+import { RecordGrowthSampleUseCase } from "./src/application/use-cases/batch/RecordGrowthSample";
+import { RecordMortalityUseCase } from "./src/application/use-cases/batch/RecordMortality";
+import { ReconcileFishCountUseCase } from "./src/application/use-cases/batch/ReconcileFishCount";
+import { RecordHarvestUseCase } from "./src/application/use-cases/batch/RecordHarvest";
+import { TransferBatchUseCase } from "./src/application/use-cases/batch/TransferBatch";
+import { MergeBatchesUseCase } from "./src/application/use-cases/batch/MergeBatches";
+import { GetBatchLineageUseCase } from "./src/application/use-cases/batch/GetBatchLineage";
+import { RecordFeedingUseCase } from "./src/application/use-cases/batch/RecordFeeding";
+import { FitBatchGrowthCurveUseCase } from "./src/application/use-cases/batch/FitBatchGrowthCurve";
+import { PredictHarvestUseCase } from "./src/application/use-cases/batch/PredictHarvest";
+import { ForecastHarvestByDegreeDaysUseCase } from "./src/application/use-cases/batch/ForecastHarvestByDegreeDays";
+import { SimulateHarvestUseCase } from "./src/application/use-cases/batch/SimulateHarvest";
+import { OptimizeHarvestTimingUseCase } from "./src/application/use-cases/batch/OptimizeHarvestTiming";
+import { GetHarvestEconomicsUseCase } from "./src/application/use-cases/batch/GetHarvestEconomics";
+import { HarvestBatchUseCase } from "./src/application/use-cases/batch/HarvestBatch";
+import { CreateFishTypeUseCase } from "./src/application/use-cases/fish-type/CreateFishType";
+import { GetFishTypeUseCase } from "./src/application/use-cases/fish-type/GetFishType";
+import { ListFishTypesUseCase } from "./src/application/use-cases/fish-type/ListFishTypes";
+import { UpdateFishTypeUseCase } from "./src/application/use-cases/fish-type/UpdateFishType";
+import { DeleteFishTypeUseCase } from "./src/application/use-cases/fish-type/DeleteFishType";
+import { ReviseFishTypeParametersUseCase } from "./src/application/use-cases/fish-type/ReviseFishTypeParameters";
+import { CreateFeedProductUseCase } from "./src/application/use-cases/feed-product/CreateFeedProduct";
+import { GetFeedProductUseCase } from "./src/application/use-cases/feed-product/GetFeedProduct";
+import { ListFeedProductsUseCase } from "./src/application/use-cases/feed-product/ListFeedProducts";
+import { UpdateFeedProductUseCase } from "./src/application/use-cases/feed-product/UpdateFeedProduct";
+import { ReceiveFeedStockUseCase } from "./src/application/use-cases/feed-stock/ReceiveFeedStock";
+import { GetFarmFeedStockUseCase } from "./src/application/use-cases/feed-stock/GetFarmFeedStock";
+import { GetFeedStockLedgerUseCase } from "./src/application/use-cases/feed-stock/GetFeedStockLedger";
+import { CreateFeedLotUseCase } from "./src/application/use-cases/feed-lot/CreateFeedLot";
+import { GetFeedLotUseCase } from "./src/application/use-cases/feed-lot/GetFeedLot";
+import { ListFeedLotsUseCase } from "./src/application/use-cases/feed-lot/ListFeedLots";
+import { RecordMarketPriceUseCase } from "./src/application/use-cases/market-price/RecordMarketPrice";
+import { GetPriceBookUseCase } from "./src/application/use-cases/market-price/GetPriceBook";
+import { ListMarketPriceHistoryUseCase } from "./src/application/use-cases/market-price/ListMarketPriceHistory";
+import { RecordDiagnosisUseCase } from "./src/application/use-cases/health/RecordDiagnosis";
+import { RecordTreatmentUseCase } from "./src/application/use-cases/health/RecordTreatment";
+import { GetBatchHealthLogUseCase } from "./src/application/use-cases/health/GetBatchHealthLog";
+import { GetBatchWithdrawalUseCase } from "./src/application/use-cases/health/GetBatchWithdrawal";
+
+@Module({
+  imports: [
+    MikroOrmModule.forFeature([
+      FarmEntity,
+      TankEntity,
+      FishBatchEntity,
+      GrowthRecordEntity,
+      HarvestEventEntity,
+      MortalityEventEntity,
+      CountReconciliationEntity,
+      BatchTransferEntity,
+      FeedingRecordEntity,
+      WaterQualityReadingEntity,
+      FishTypeEntity,
+      FishTypeParameterVersionEntity,
+      FeedingPlanEntity,
+      FeedingPlanBatchEntity,
+      FeedProductEntity,
+      FeedStockMovementEntity,
+      FeedLotEntity,
+      MarketPriceEntity,
+      DiagnosisEntity,
+      TreatmentEntity,
+    ]),
+  ],
+  controllers: [
+    FarmController,
+    TankController,
+    BatchController,
+    FishTypeController,
+    FeedProductController,
+    FeedStockController,
+    FeedLotController,
+    MarketPriceController,
+    HealthController,
+  ],
+  providers: [
+    {
+      provide: APP_FILTER,
+      useClass: DomainExceptionFilter,
+    },
+    {
+      provide: FARM_REPOSITORY,
+      useClass: FarmRepository,
+    },
+    {
+      provide: TANK_REPOSITORY,
+      useClass: TankRepository,
+    },
+    {
+      provide: BATCH_REPOSITORY,
+      useClass: BatchRepository,
+    },
+    {
+      provide: FISH_TYPE_REPOSITORY,
+      useClass: FishTypeRepository,
+    },
+    {
+      provide: FEEDING_PLAN_REPOSITORY,
+      useClass: FeedingPlanRepository,
+    },
+    {
+      provide: FEED_PRODUCT_REPOSITORY,
+      useClass: FeedProductRepository,
+    },
+    {
+      provide: FEED_STOCK_REPOSITORY,
+      useClass: FeedStockRepository,
+    },
+    {
+      provide: FEED_LOT_REPOSITORY,
+      useClass: FeedLotRepository,
+    },
+    {
+      provide: MARKET_PRICE_REPOSITORY,
+      useClass: MarketPriceRepository,
+    },
+    {
+      provide: DIAGNOSIS_REPOSITORY,
+      useClass: DiagnosisRepository,
+    },
+    {
+      provide: TREATMENT_REPOSITORY,
+      useClass: TreatmentRepository,
+    },
+    {
+      provide: ATTACHMENT_STORAGE,
+      useClass: LocalAttachmentStorage,
+    },
+    {
+      provide: UNIT_OF_WORK,
+      useClass: MikroOrmUnitOfWork,
+    },
+    // mappers
+    FarmMapper,
+    TankMapper,
+    BatchMapper,
+    FishTypeMapper,
+    FeedingPlanMapper,
+    FeedProductMapper,
+    FeedStockMapper,
+    FeedLotMapper,
+    MarketPriceMapper,
+    HealthMapper,
+    FarmPersistenceMapper,
+    TankPersistenceMapper,
+    FishBatchPersistenceMapper,
+    FishTypePersistenceMapper,
+    FeedingPlanPersistenceMapper,
+    FeedProductPersistenceMapper,
+    FeedStockMovementPersistenceMapper,
+    FeedLotPersistenceMapper,
+    MarketPricePersistenceMapper,
+    DiagnosisPersistenceMapper,
+    TreatmentPersistenceMapper,
+    // services
+    FeedingSchedulerService,
+    GrowthCurveService,
+    TreatmentWithdrawalService,
+    FeedingPlanJob,
+    // event handlers
+    MassMortalityAlertHandler,
+    // use-cases
+    CreateFarmUseCase,
+    GetFarmUseCase,
+    ListFarmsUseCase,
+    GetFarmStatisticsUseCase,
+    GetFarmFeedingPlanUseCase,
+    SetFarmTemperatureProfileUseCase,
+    GetFarmCapacityUseCase,
+    GetFarmMortalityReportUseCase,
+    CreateTankUseCase,
+    GetTankDetailsUseCase,
+    UpdateWaterQualityUseCase,
+    GetTankFeedingPlanUseCase,
+    RegenerateTankFeedingPlanUseCase,
+    SetTankCapacityLimitsUseCase,
+    GetTankCapacityUseCase,
+    ForecastTankCapacityUseCase,
+    CreateFishBatchUseCase,
+    GetBatchDetailsUseCase,
+    GetBatchPerformanceUseCase,
+    RecordGrowthUseCase,
+    RecordGrowthSampleUseCase,
+    RecordMortalityUseCase,
+    ReconcileFishCountUseCase,
+    RecordHarvestUseCase,
+    TransferBatchUseCase,
+    MergeBatchesUseCase,
+    GetBatchLineageUseCase,
+    RecordFeedingUseCase,
+    GetBatchFeedingDeviationUseCase,
+    GetBatchFeedTraceUseCase,
+    FitBatchGrowthCurveUseCase,
+    PredictHarvestUseCase,
+    ForecastHarvestByDegreeDaysUseCase,
+    SimulateHarvestUseCase,
+    OptimizeHarvestTimingUseCase,
+    GetHarvestEconomicsUseCase,
+    HarvestBatchUseCase,
+    CreateFishTypeUseCase,
+    GetFishTypeUseCase,
+    ListFishTypesUseCase,
+    UpdateFishTypeUseCase,
+    DeleteFishTypeUseCase,
+    ReviseFishTypeParametersUseCase,
+    CreateFeedProductUseCase,
+    GetFeedProductUseCase,
+    ListFeedProductsUseCase,
+    UpdateFeedProductUseCase,
+    ReceiveFeedStockUseCase,
+    GetFarmFeedStockUseCase,
+    GetFeedStockLedgerUseCase,
+    CreateFeedLotUseCase,
+    GetFeedLotUseCase,
+    ListFeedLotsUseCase,
+    RecordMarketPriceUseCase,
+    GetPriceBookUseCase,
+    ListMarketPriceHistoryUseCase,
+    RecordDiagnosisUseCase,
+    RecordTreatmentUseCase,
+    GetBatchHealthLogUseCase,
+    GetBatchWithdrawalUseCase,
+  ],
+  exports: [],
+})
+export class AquacultureModule {}
@@ -0,0 +1,16 @@
+/**
+ * Constants for NestJS Dependency Injection System.
+ */
+export const FARM_REPOSITORY = "FARM_REPOSITORY";
+export const TANK_REPOSITORY = "TANK_REPOSITORY";
+export const BATCH_REPOSITORY = "BATCH_REPOSITORY";
+export const FISH_TYPE_REPOSITORY = "FISH_TYPE_REPOSITORY";
+export const FEEDING_PLAN_REPOSITORY = "FEEDING_PLAN_REPOSITORY";
+export const FEED_PRODUCT_REPOSITORY = "FEED_PRODUCT_REPOSITORY";
+export const FEED_STOCK_REPOSITORY = "FEED_STOCK_REPOSITORY";
+export const FEED_LOT_REPOSITORY = "FEED_LOT_REPOSITORY";
+export const MARKET_PRICE_REPOSITORY = "MARKET_PRICE_REPOSITORY";
+export const ATTACHMENT_STORAGE = "ATTACHMENT_STORAGE";
+export const UNIT_OF_WORK = "UNIT_OF_WORK";
+export const DIAGNOSIS_REPOSITORY = "DIAGNOSIS_REPOSITORY";
+export const TREATMENT_REPOSITORY = "TREATMENT_REPOSITORY";
@@ -0,0 +1,288 @@
+import { EntityManager, MikroORM } from "@mikro-orm/postgresql";
+import { v4 } from "uuid";
+import mikroOrmConfig from "../../../config/database/mikro-orm.config";
+import { FishType } from "../src/domain/entities/FishType";
+import { FeedingRateInterpolation } from "../src/domain/types/Enums";
+import {
+  FishTypeParametersInput,
+  withDefaultSafetyFactorCurves,
+} from "../src/domain/services/SafetyFactorCurves";
+
+export interface FishTypeSeed {
+  name: string;
+  scientificName: string;
+  parameters: FishTypeParametersInput;
+}
+
+/**
+ * Starting parameters for the species we farm, so feed can be calculated on a
+ * fresh install. Feeding rates are % of biomass per day, densities kg/m³
+ * and oxygen consumption mg O₂/kg/h; tune them per site through the
+ * fish-types API.
+ */
+export const FISH_TYPE_SEEDS: FishTypeSeed[] = [
+  {
+    name: "Nile tilapia",
+    scientificName: "Oreochromis niloticus",
+    parameters: {
+      doMin: 3,
+      doSafe: 5,
+      phMin: 6.5,
+      phMax: 8.5,
+      nh3Safe: 0.02,
+      nh3Critical: 0.1,
+      no2Max: 0.5,
+      tempMin: 22,
+      tempMax: 32,
+      tempOptimal: 28,
+      fcrMin: 1.4,
+      fcrMax: 1.8,
+      survivalRate: 85,
+      maxStockingDensity: 60,
+      oxygenConsumption: 300,
+      feedingRateMatrix: {
+        weight_ranges: [
+          { min: 0, max: 5 },
+          { min: 5, max: 20 },
+          { min: 20, max: 50 },
+          { min: 50, max: 100 },
+          { min: 100, max: 250 },
+          { min: 250, max: 500 },
+          { min: 500, max: 1000 },
+        ],
+        temperatures: [22, 25, 28, 31],
+        rates: [
+          [8, 10, 12, 10],
+          [5, 6, 7, 6],
+          [3.5, 4, 4.5, 4],
+          [2.5, 3, 3.5, 3],
+          [1.8, 2.2, 2.5, 2.2],
+          [1.2, 1.5, 1.8, 1.5],
+          [0.8, 1, 1.2, 1],
+        ],
+      },
+      feedingRateInterpolation: FeedingRateInterpolation.NEAREST,
+      mealFrequencyRules: [
+        { maxWeight: 5, mealsPerDay: 6 },
+        { maxWeight: 20, mealsPerDay: 5 },
+        { maxWeight: 100, mealsPerDay: 4 },
+        { maxWeight: 250, mealsPerDay: 3 },
+        { maxWeight: null, mealsPerDay: 2 },
+      ],
+    },
+  },
+  {
+    name: "African catfish",
+    scientificName: "Clarias gariepinus",
+    parameters: {
+      doMin: 2,
+      doSafe: 4,
+      phMin: 6.5,
+      phMax: 8.5,
+      nh3Safe: 0.05,
+      nh3Critical: 0.2,
+      no2Max: 1,
+      tempMin: 22,
+      tempMax: 32,
+      tempOptimal: 28,
+      fcrMin: 1,
+      fcrMax: 1.5,
+      survivalRate: 80,
+      maxStockingDensity: 150,
+      oxygenConsumption: 200,
+      feedingRateMatrix: {
+        weight_ranges: [
+          { min: 0, max: 10 },
+          { min: 10, max: 50 },
+          { min: 50, max: 150 },
+          { min: 150, max: 400 },
+          { min: 400, max: 800 },
+          { min: 800, max: 1500 },
+        ],
+        temperatures: [22, 25, 28, 31],
+        rates: [
+          [7, 9, 10, 9],
+          [4, 5, 6, 5],
+          [2.5, 3, 3.5, 3],
+          [1.8, 2.2, 2.5, 2.2],
+          [1.2, 1.5, 1.8, 1.5],
+          [0.8, 1, 1.2, 1],
+        ],
+      },
+      feedingRateInterpolation: FeedingRateInterpolation.NEAREST,
+      mealFrequencyRules: [
+        { maxWeight: 10, mealsPerDay: 5 },
+        { maxWeight: 50, mealsPerDay: 4 },
+        { maxWeight: 150, mealsPerDay: 3 },
+        { maxWeight: null, mealsPerDay: 2 },
+      ],
+    },
+  },
+  {
+    name: "Mullet",
+    scientificName: "Mugil cephalus",
+    parameters: {
+      doMin: 3,
+      doSafe: 5,
+      phMin: 6.5,
+      phMax: 8.5,
+      nh3Safe: 0.02,
+      nh3Critical: 0.08,
+      no2Max: 0.5,
+      tempMin: 15,
+      tempMax: 30,
+      tempOptimal: 24,
+      fcrMin: 1.6,
+      fcrMax: 2.2,
+      survivalRate: 80,
+      maxStockingDensity: 25,
+      oxygenConsumption: 300,
+      feedingRateMatrix: {
+        weight_ranges: [
+          { min: 0, max: 5 },
+          { min: 5, max: 25 },
+          { min: 25, max: 100 },
+          { min: 100, max: 300 },
+          { min: 300, max: 800 },
+        ],
+        temperatures: [16, 20, 24, 28],
+        rates: [
+          [5, 7, 8, 7],
+          [3.5, 4.5, 5, 4.5],
+          [2.5, 3, 3.5, 3],
+          [1.5, 2, 2.5, 2],
+          [1, 1.3, 1.5, 1.3],
+        ],
+      },
+      feedingRateInterpolation: FeedingRateInterpolation.NEAREST,
+      mealFrequencyRules: [
+        { maxWeight: 5, mealsPerDay: 5 },
+        { maxWeight: 25, mealsPerDay: 4 },
+        { maxWeight: 100, mealsPerDay: 3 },
+        { maxWeight: null, mealsPerDay: 2 },
+      ],
+    },
+  },
+  {
+    name: "European sea bass",
+    scientificName: "Dicentrarchus labrax",
+    parameters: {
+      doMin: 4,
+      doSafe: 6,
+      phMin: 7.5,
+      phMax: 8.5,
+      nh3Safe: 0.01,
+      nh3Critical: 0.05,
+      no2Max: 0.3,
+      tempMin: 12,
+      tempMax: 28,
+      tempOptimal: 22,
+      fcrMin: 1.3,
+      fcrMax: 1.8,
+      survivalRate: 85,
+      maxStockingDensity: 40,
+      oxygenConsumption: 250,
+      feedingRateMatrix: {
+        weight_ranges: [
+          { min: 0, max: 5 },
+          { min: 5, max: 20 },
+          { min: 20, max: 80 },
+          { min: 80, max: 200 },
+          { min: 200, max: 600 },
+        ],
+        temperatures: [14, 18, 22, 26],
+        rates: [
+          [3.5, 4.5, 5.5, 5],
+          [2.2, 3, 3.5, 3.2],
+          [1.4, 1.9, 2.3, 2],
+          [0.9, 1.3, 1.6, 1.4],
+          [0.6, 0.9, 1.1, 1],
+        ],
+      },
+      feedingRateInterpolation: FeedingRateInterpolation.NEAREST,
+      mealFrequencyRules: [
+        { maxWeight: 5, mealsPerDay: 5 },
+        { maxWeight: 20, mealsPerDay: 4 },
+        { maxWeight: 80, mealsPerDay: 3 },
+        { maxWeight: null, mealsPerDay: 2 },
+      ],
+    },
+  },
+];
+
+/**
+ * Inserts the seed species that are not in the catalogue yet. Existing rows
+ * (matched by name) are left alone so site tuning is never overwritten.
+ */
+export async function seedFishTypes(em: EntityManager): Promise<void> {
+  for (const seed of FISH_TYPE_SEEDS) {
+    // Runs the catalogue's own validation over the seed data
+    const fishType = FishType.create({
+      id: v4(),
+      ...seed,
+      parameters: withDefaultSafetyFactorCurves(seed.parameters),
+    });
+    const version = fishType.getLatestParameterVersion();
+    const params = version.parameters;
+
+    const inserted: { id: string }[] = await em.getConnection().execute(
+      `INSERT INTO fish_types (id, name, scientific_name, created_at, updated_at)
+      VALUES (?, ?, ?, NOW(), NOW())
+      ON CONFLICT (name) DO NOTHING
+      RETURNING id`,
+      [
+        fishType.getId().toString(),
+        fishType.getName(),
+        fishType.getScientificName(),
+      ],
+    );
+    // Already seeded: its versions are managed through the API from here on
+    if (inserted.length === 0) {
+      continue;
+    }
+
+    await em.getConnection().execute(
+      `INSERT INTO fish_type_parameter_versions (id, fish_type_id, version, effective_from, do_min, do_safe, ph_min, ph_max, nh3safe, nh3critical, no2max, temp_min, temp_max, temp_optimal, fcr_min, fcr_max, survival_rate, max_stocking_density, oxygen_consumption, feeding_rate_matrix, feeding_rate_interpolation, safety_factor_curves, meal_frequency_rules, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, NOW(), NOW())`,
+      [
+        v4(),
+        fishType.getId().toString(),
+        version.version,
+        version.effectiveFrom,
+        params.doMin,
+        params.doSafe,
+        params.phMin,
+        params.phMax,
+        params.nh3Safe,
+        params.nh3Critical,
+        params.no2Max,
+        params.tempMin,
+        params.tempMax,
+        params.tempOptimal,
+        params.fcrMin,
+        params.fcrMax,
+        params.survivalRate,
+        params.maxStockingDensity,
+        params.oxygenConsumption,
+        JSON.stringify(params.feedingRateMatrix),
+        params.feedingRateInterpolation,
+        JSON.stringify(params.safetyFactorCurves),
+        JSON.stringify(params.mealFrequencyRules),
+      ],
+    );
+  }
+}
+
+if (require.main === module) {
+  (async () => {
+    const orm = await MikroORM.init(mikroOrmConfig);
+    try {
+      await seedFishTypes(orm.em.fork());
+    } finally {
+      await orm.close();
+    }
+  })().catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,104 @@
+import { BatchStatus } from "../../domain/types/Enums";
+
+export interface CreateFishBatchDto {
+  tankId: string;
+  fishTypeId: string;
+  fishCount: number;
+  initialWeightGrams: number;
+  stockedDate?: Date;
+}
+
+// All of the batch's fish move unless a count is given
+export interface TransferBatchDto {
+  batchId: string;
+  toTankId: string;
+  fishCount?: number;
+  averageWeightGrams?: number; // of graded fish; the batch average otherwise
+  transferredAt?: Date;
+}
+
+export interface MergeBatchesDto {
+  batchIds: string[];
+  toTankId: string;
+  mergedAt?: Date;
+}
+
+export interface RecordFishCountDto {
+  batchId: string;
+  countedCount: number;
+  countedAt?: Date;
+  notes?: string;
+}
+
+export interface BatchDto {
+  id: string;
+  tankId: string;
+  fishTypeId: string;
+  parentBatchIds: string[];
+  status: BatchStatus;
+  stockedDate: Date;
+  daysInCulture: number;
+  initialCount: number;
+  initialWeightGrams: number;
+  fishCount: number;
+  averageWeightGrams: number;
+  survivalRate: number;
+  totalBiomassKg: number;
+  harvestedCount: number;
+  harvestedBiomassKg: number;
+  transferredCount: number;
+}
+
+export interface BatchPerformanceDto {
+  batch: BatchDto;
+  totalFeedKg: number;
+  consumedFeedKg: number;
+  proteinConsumedKg: number;
+  unknownProteinFeedKg: number;
+  weightGainKg: number;
+  fcr: number | null;
+  per: number | null;
+  feedEfficiency: number | null; // percent
+  latestSgr: number | null;
+  latestAdg: number | null;
+  bookSurvivalRate: number; // from recorded deaths alone
+  countedSurvivalRate: number | null; // after physical counts; null until counted
+  unexplainedLoss: number; // fish short of the book over all counts
+  lastCountedAt: Date | null;
+}
+
+export interface CountReconciliationDto {
+  countedAt: Date;
+  bookCount: number;
+  countedCount: number;
+  unexplainedLoss: number;
+  unexplainedLossPercent: number; // of the book count
+  notes: string | null;
+}
+
+export interface RecordedCountDto {
+  count: CountReconciliationDto;
+  batch: BatchDto;
+}
+
+export interface BatchTransferDto {
+  fromBatchId: string;
+  toBatchId: string;
+  transferredAt: Date;
+  fishCount: number;
+  biomassKg: number;
+  averageWeightGrams: number;
+}
+
+export interface BatchTransferResultDto {
+  sources: BatchDto[];
+  child: BatchDto;
+}
+
+export interface BatchLineageDto {
+  batches: BatchDto[];
+  transfers: BatchTransferDto[];
+  feedConsumedKg: number;
+  weightGainKg: number;
+  fcr: number | null;
+}
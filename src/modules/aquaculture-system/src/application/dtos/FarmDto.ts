@@ -0,0 +1,33 @@
+import { TankDto } from "./TankDto";
+
+export interface CreateFarmDto {
+  name: string;
+  location: string;
+}
+
+export interface FarmStatisticsDto {
+  totalTanks: number;
+  activeTanks: number;
+  totalBatches: number;
+  totalFish: number;
+  totalBiomassKg: number;
+}
+
+export interface FarmDto {
+  id: string;
+  name: string;
+  location: string;
+  createdAt: Date;
+  temperatureProfile: TemperatureProfileDto | null;
+  tanks: TankDto[];
+  statistics: FarmStatisticsDto;
+}
+
+export interface TemperatureProfileDto {
+  monthlyMeanTemperatures: number[];
+  variation: number;
+}
+
+export interface SetTemperatureProfileDto extends TemperatureProfileDto {
+  farmId: string;
+}
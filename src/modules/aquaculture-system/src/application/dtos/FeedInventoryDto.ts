@@ -0,0 +1,105 @@
+import { FeedStockMovementType } from "../../domain/types/Enums";
+
+export interface CreateFeedProductDto {
+  name: string;
+  brand: string;
+  pelletSizeMm: number;
+  proteinPercent: number;
+  pricePerKg: number;
+}
+
+export interface UpdateFeedProductDto extends Partial<CreateFeedProductDto> {
+  feedProductId: string;
+}
+
+export interface FeedProductDto {
+  id: string;
+  name: string;
+  brand: string;
+  pelletSizeMm: number;
+  proteinPercent: number;
+  pricePerKg: number;
+}
+
+export interface ReceiveFeedStockDto {
+  farmId: string;
+  feedProductId: string;
+  feedLotId?: string;
+  quantityKg: number;
+  receivedAt?: Date;
+  unitPricePerKg?: number;
+  reference?: string;
+}
+
+export interface FeedStockMovementDto {
+  id: string;
+  feedProductId: string;
+  feedLotId: string | null;
+  type: FeedStockMovementType;
+  quantityKg: number;
+  occurredAt: Date;
+  unitPricePerKg: number | null;
+  batchId: string | null;
+  reference: string | null;
+}
+
+export interface FeedStockLevelDto {
+  feedProduct: FeedProductDto;
+  onHandKg: number;
+  dailyUsageKg: number | null;
+  daysOfCover: number | null;
+  lowStock: boolean;
+}
+
+export interface FarmFeedStockDto {
+  farmId: string;
+  dailyRequirementKg: number;
+  lowStockDays: number;
+  products: FeedStockLevelDto[];
+}
+
+export interface FeedStockLedgerEntryDto extends FeedStockMovementDto {
+  balanceKg: number;
+}
+
+export interface FeedStockLedgerDto {
+  farmId: string;
+  feedProduct: FeedProductDto;
+  openingBalanceKg: number;
+  entries: FeedStockLedgerEntryDto[];
+  closingBalanceKg: number;
+}
+
+export interface CreateFeedLotDto {
+  feedProductId: string;
+  lotNumber: string;
+  supplier: string;
+  manufacturedAt: Date;
+  expiresAt: Date;
+}
+
+export interface FeedLotDto {
+  id: string;
+  feedProductId: string;
+  lotNumber: string;
+  supplier: string;
+  manufacturedAt: Date;
+  expiresAt: Date;
+  expired: boolean;
+}
+
+export interface FeedLotUsageDto {
+  feedLot: FeedLotDto;
+  feedProduct: FeedProductDto;
+  feedings: number;
+  totalFeedKg: number;
+  firstFedAt: Date;
+  lastFedAt: Date;
+}
+
+export interface FeedTraceDto {
+  batchId: string;
+  lots: FeedLotUsageDto[];
+  untracedFeedKg: number;
+  untracedFeedings: number;
+}
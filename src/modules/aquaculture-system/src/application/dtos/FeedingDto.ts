@@ -0,0 +1,76 @@
+import { FeedingRateInterpolation } from "../../domain/types/Enums";
+import { SafetyFactors } from "../../domain/types/FeedingTypes";
+import { WaterQualityDto } from "./TankDto";
+
+export interface RecordFeedingDto {
+  batchId: string;
+  feedAmountKg: number;
+  mealsPerDay: number;
+  mealNumber?: number;
+  feedProductId?: string;
+  feedLotId?: string;
+  uneatenPercent?: number;
+  fedAt?: Date;
+}
+
+export interface FeedingRecordDto {
+  feedDate: Date;
+  feedAmountKg: number;
+  consumedFeedKg: number;
+  mealsPerDay: number;
+  mealNumber: number | null;
+  feedProductId: string | null;
+  feedLotId: string | null;
+  proteinPercent: number | null;
+  uneatenPercent: number;
+}
+
+export interface FeedingDeviationDto {
+  batchId: string;
+  date: string;
+  plannedFeedKg: number | null;
+  plannedMeals: number | null;
+  deliveredFeedKg: number;
+  consumedFeedKg: number;
+  deliveredMeals: number;
+  deviationKg: number | null;
+  deviationPercent: number | null;
+}
+
+export interface PlannedMealDto {
+  mealNumber: number;
+  scheduledAt: Date;
+  feedAmountKg: number;
+}
+
+export interface BatchFeedingPlanDto {
+  batchId: string;
+  safetyStatus: "OK" | "WARNING" | "STOPPED";
+  factors: SafetyFactors;
+  baseFeedingRate: number | null;
+  finalFeedingRate: number | null;
+  parameterVersion: number | null;
+  interpolation: FeedingRateInterpolation | null;
+  totalDailyFeedKg: number;
+  mealsPerDay: number;
+  meals: PlannedMealDto[];
+}
+
+export interface FeedingPlanDto {
+  id: string;
+  tankId: string;
+  planDate: string;
+  generatedAt: Date;
+  overallStatus: "OK" | "WARNING" | "STOPPED";
+  totalDailyFeedKg: number;
+  waterQuality: WaterQualityDto;
+  batches: BatchFeedingPlanDto[];
+}
+
+export interface FarmFeedingPlanDto {
+  farmId: string;
+  planDate: string;
+  overallStatus: "OK" | "WARNING" | "STOPPED";
+  totalDailyFeedKg: number;
+  tanks: FeedingPlanDto[];
+}
@@ -0,0 +1,36 @@
+import { FishTypeParametersInput } from "../../domain/services/SafetyFactorCurves";
+import { FishTypeParameters } from "../../domain/types/FishTypeParameters";
+
+export interface CreateFishTypeDto {
+  name: string;
+  scientificName?: string | null;
+  parameters: FishTypeParametersInput;
+  effectiveFrom?: Date;
+}
+
+export interface UpdateFishTypeDto {
+  fishTypeId: string;
+  name?: string;
+  scientificName?: string | null;
+}
+
+export interface ReviseFishTypeParametersDto {
+  fishTypeId: string;
+  parameters: FishTypeParametersInput;
+  effectiveFrom?: Date;
+}
+
+export interface FishTypeParameterVersionDto {
+  version: number;
+  effectiveFrom: Date;
+  parameters: FishTypeParameters;
+}
+
+export interface FishTypeDto {
+  id: string;
+  name: string;
+  scientificName: string | null;
+  currentVersion: number;
+  parameters: FishTypeParameters;
+  latestVersion: number;
+}
@@ -0,0 +1,49 @@
+import { GrowthModelType } from "../../domain/types/Enums";
+
+export interface RecordGrowthDto {
+  batchId: string;
+  averageWeightGrams: number;
+  sampledAt?: Date;
+}
+
+export interface GrowthRecordDto {
+  recordedAt: Date;
+  averageWeightGrams: number;
+  weightGainGrams: number;
+  daysInCulture: number;
+  intervalDays: number;
+  intervalSgr: number;
+  intervalAdg: number;
+  cumulativeSgr: number;
+  cumulativeAdg: number;
+  sample: GrowthSampleDto | null;
+}
+
+export interface RecordGrowthSampleDto {
+  batchId: string;
+  fish: SampledFishDto[];
+  sampledAt?: Date;
+}
+
+export interface SampledFishDto {
+  weightGrams: number;
+  lengthCm: number;
+}
+
+export interface GrowthSampleDto {
+  sampleSize: number;
+  meanWeightGrams: number;
+  weightStdDevGrams: number;
+  weightCv: number;
+  meanLengthCm: number;
+  meanConditionFactor: number;
+  fish: SampledFishDto[];
+}
+
+export interface GrowthCurveFitDto {
+  model: GrowthModelType;
+  parameters: Record<string, number>;
+  rSquared: number;
+  rmseGrams: number;
+  observations: number;
+}
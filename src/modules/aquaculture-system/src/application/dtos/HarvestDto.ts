@@ -0,0 +1,190 @@
+import {
+  GrowthModelType,
+  HarvestProjectionMethod,
+} from "../../domain/types/Enums";
+import { BatchDto } from "./BatchDto";
+import { GrowthCurveFitDto } from "./GrowthDto";
+import { WithdrawalOverrideDto } from "./HealthDto";
+
+export interface HarvestedGradeInputDto {
+  grade: string;
+  fishCount: number;
+  biomassKg: number;
+}
+
+export interface RecordHarvestDto extends WithdrawalOverrideDto {
+  batchId: string;
+  grades: HarvestedGradeInputDto[];
+  buyer?: string;
+  harvestedAt?: Date;
+}
+
+export interface PredictHarvestDto {
+  batchId: string;
+  targetWeightGrams: number;
+  method: HarvestProjectionMethod;
+  model?: GrowthModelType;
+  projectedSurvivalRate?: number;
+}
+
+export interface ForecastHarvestDto {
+  batchId: string;
+  targetWeightGrams: number;
+  projectedSurvivalRate?: number;
+}
+
+export interface SimulateHarvestDto {
+  batchId: string;
+  targetWeightGrams: number;
+  runs?: number;
+  seed?: number;
+}
+
+export interface PriceCurvePointDto {
+  weightGrams: number;
+  pricePerKg: number;
+}
+
+export interface OptimizeHarvestTimingDto {
+  batchId: string;
+  priceCurve?: PriceCurvePointDto[]; // the fish type's price book by default
+  dailyFixedCost: number;
+  otherSunkCost?: number; // on top of feed already bought, e.g. fingerlings
+  feedPricePerKg?: number;
+  horizonDays?: number;
+}
+
+export interface GetHarvestEconomicsDto {
+  batchId: string;
+  targetWeightGrams: number;
+  projectedSurvivalRate?: number;
+  feedPricePerKg?: number;
+  marketPricePerKg?: number; // the fish type's price book by default
+  otherCosts?: number;
+}
+
+export interface HarvestPredictionDto {
+  batchId: string;
+  method: HarvestProjectionMethod;
+  harvestDate: Date;
+  daysToHarvest: number;
+  targetWeightGrams: number;
+  expectedFinalCount: number;
+  finalProductionKg: number;
+  sgr: number;
+  projectedSurvivalRate: number;
+  growthCurve: GrowthCurveFitDto | null;
+}
+
+export interface HarvestForecastDto {
+  batchId: string;
+  tgc: number;
+  estimatedCurrentWeightGrams: number;
+  degreeDaysSinceWeighing: number;
+  degreeDaysToHarvest: number;
+  earliestHarvestDate: Date;
+  expectedHarvestDate: Date;
+  latestHarvestDate: Date | null;
+  targetWeightGrams: number;
+  expectedFinalCount: number;
+  finalProductionKg: number;
+  projectedSurvivalRate: number;
+}
+
+export interface PercentileBandDto<T> {
+  p10: T;
+  p50: T;
+  p90: T;
+}
+
+export interface HarvestSimulationDto {
+  batchId: string;
+  runs: number;
+  seed: number;
+  targetWeightGrams: number;
+  variability: {
+    intervals: number;
+    sgrMean: number;
+    sgrStdDev: number;
+    dailyMortalityMean: number;
+    dailyMortalityStdDev: number;
+  };
+  daysToHarvest: PercentileBandDto<number>;
+  harvestDate: PercentileBandDto<Date>;
+  fishCount: PercentileBandDto<number>;
+  finalProductionKg: PercentileBandDto<number>;
+}
+
+export interface HarvestDayProjectionDto {
+  day: number;
+  date: Date;
+  averageWeightGrams: number;
+  fishCount: number;
+  biomassKg: number;
+  pricePerKg: number;
+  revenue: number;
+  feedCost: number;
+  fixedCost: number;
+  totalCost: number;
+  margin: number;
+  marginPerDay: number;
+}
+
+export interface HarvestTimingDto {
+  batchId: string;
+  sunkCost: number;
+  harvestedRevenue: number;
+  optimal: HarvestDayProjectionDto;
+  days: HarvestDayProjectionDto[];
+}
+
+export interface SizeGradeShareDto {
+  grade: string;
+  minWeightGrams: number;
+  maxWeightGrams: number | null;
+  pricePerKg: number;
+  fishCount: number;
+  biomassKg: number;
+  revenue: number;
+}
+
+export interface GradingBreakdownDto {
+  averageWeightGrams: number;
+  weightCv: number;
+  fishCount: number;
+  productionKg: number;
+  grades: SizeGradeShareDto[];
+  ungradedFishCount: number;
+  ungradedBiomassKg: number;
+  revenue: number;
+  averagePricePerKg: number;
+}
+
+export interface HarvestEconomicsDto {
+  prediction: HarvestPredictionDto;
+  remainingFeedKg: number;
+  remainingFeedCost: number;
+  totalRemainingCosts: number;
+  projectedRevenue: number;
+  grossProfit: number;
+  profitMargin: number;
+  breakEvenProductionKg: number;
+  marketPricePerKg: number;
+  feedPricePerKg: number;
+  grading: GradingBreakdownDto | null;
+}
+
+export interface HarvestEventDto {
+  harvestedAt: Date;
+  fishCount: number;
+  biomassKg: number;
+  averageWeightGrams: number;
+  grades: HarvestedGradeInputDto[];
+  buyer: string | null;
+  closedBatch: boolean;
+}
+
+export interface RecordedHarvestDto {
+  harvest: HarvestEventDto;
+  batch: BatchDto; // what is left in the batch
+}
@@ -0,0 +1,80 @@
+import { TreatmentType, WithdrawalUnit } from "../../domain/types/Enums";
+
+export interface RecordDiagnosisDto {
+  batchId: string;
+  condition: string;
+  diagnosedAt?: Date;
+  notes?: string;
+}
+
+export interface RecordTreatmentDto {
+  batchId: string;
+  diagnosisId?: string;
+  type: TreatmentType;
+  product: string;
+  dose: number;
+  doseUnit: string;
+  startedAt?: Date;
+  durationDays: number;
+  withdrawalPeriod: number;
+  withdrawalUnit: WithdrawalUnit;
+  notes?: string;
+}
+
+// Lets a manager harvest fish still within a withdrawal period
+export interface WithdrawalOverrideDto {
+  overrideWithdrawal?: boolean;
+  overrideReason?: string;
+  requestedBy?: { userId: string; role: number };
+}
+
+export interface DiagnosisDto {
+  id: string;
+  batchId: string;
+  condition: string;
+  diagnosedAt: Date;
+  notes: string | null;
+}
+
+export interface TreatmentDto {
+  id: string;
+  batchId: string;
+  diagnosisId: string | null;
+  type: TreatmentType;
+  product: string;
+  dose: number;
+  doseUnit: string;
+  startedAt: Date;
+  endedAt: Date;
+  durationDays: number;
+  withdrawalPeriod: number;
+  withdrawalUnit: WithdrawalUnit;
+  notes: string | null;
+}
+
+export interface BatchHealthLogDto {
+  batchId: string;
+  diagnoses: DiagnosisDto[];
+  treatments: TreatmentDto[];
+}
+
+export interface TreatmentWithdrawalDto {
+  treatmentId: string;
+  batchId: string;
+  product: string;
+  withdrawalPeriod: number;
+  withdrawalUnit: WithdrawalUnit;
+  startsAt: Date;
+  degreeDaysAccrued: number | null;
+  clearsAt: Date | null;
+  estimated: boolean;
+  cleared: boolean;
+}
+
+export interface WithdrawalStatusDto {
+  batchId: string;
+  assessedAt: Date;
+  inWithdrawal: boolean;
+  clearsAt: Date | null;
+  withdrawals: TreatmentWithdrawalDto[];
+}
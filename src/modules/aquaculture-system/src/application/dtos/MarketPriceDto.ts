@@ -0,0 +1,24 @@
+export interface RecordMarketPriceDto {
+  fishTypeId: string;
+  grade: string;
+  minWeightGrams: number;
+  maxWeightGrams?: number | null;
+  pricePerKg: number;
+  effectiveFrom: Date;
+}
+
+export interface MarketPriceDto {
+  id: string;
+  fishTypeId: string;
+  grade: string;
+  minWeightGrams: number;
+  maxWeightGrams: number | null;
+  pricePerKg: number;
+  effectiveFrom: Date;
+}
+
+export interface PriceBookDto {
+  fishTypeId: string;
+  date: Date;
+  grades: MarketPriceDto[];
+}
@@ -0,0 +1,74 @@
+import { MortalityCause } from "../../domain/types/Enums";
+import { BatchDto } from "./BatchDto";
+
+export interface MortalityPhotoInputDto {
+  fileName: string;
+  contentType: string;
+  data: string; // base64 encoded
+}
+
+export interface RecordMortalityDto {
+  batchId: string;
+  deadCount: number;
+  cause?: MortalityCause; // UNKNOWN until a necropsy says otherwise
+  notes?: string;
+  photos?: MortalityPhotoInputDto[];
+  recordedAt?: Date;
+}
+
+export interface MortalityReportRequestDto {
+  farmId: string;
+  from?: string; // YYYY-MM-DD, the 30 days up to `to` by default
+  to?: string; // YYYY-MM-DD, today by default
+}
+
+export interface MortalityAttachmentDto {
+  fileName: string;
+  contentType: string;
+  url: string;
+}
+
+export interface MortalityEventDto {
+  recordedAt: Date;
+  deadCount: number;
+  fishCountBefore: number;
+  mortalityPercent: number;
+  cause: MortalityCause;
+  notes: string | null;
+  attachments: MortalityAttachmentDto[];
+}
+
+export interface MortalityAlertDto {
+  batchId: string;
+  tankId: string;
+  severity: "CRITICAL";
+  message: string;
+  recordedAt: Date;
+  deadCount: number;
+  mortalityPercent: number;
+  threshold: number;
+  action: string;
+}
+
+export interface RecordedMortalityDto {
+  mortality: MortalityEventDto;
+  alert: MortalityAlertDto | null;
+  batch: BatchDto;
+}
+
+export interface MortalityTotalDto {
+  deadCount: number;
+  events: number;
+}
+
+export interface MortalityReportDto {
+  farmId: string;
+  from: Date;
+  to: Date;
+  threshold: number;
+  total: MortalityTotalDto;
+  byCause: Array<MortalityTotalDto & { cause: MortalityCause }>;
+  byTank: Array<MortalityTotalDto & { tankId: string }>;
+  byWeek: Array<MortalityTotalDto & { weekStart: string }>;
+  alerts: MortalityAlertDto[];
+}
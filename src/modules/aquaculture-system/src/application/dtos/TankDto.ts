@@ -0,0 +1,87 @@
+import { TankStatus } from "../../domain/types/Enums";
+import { BatchDto } from "./BatchDto";
+
+export interface CreateTankDto {
+  farmId: string;
+  name: string;
+  volumeCubicMeters: number;
+  maxStockingDensity?: number | null;
+  oxygenSupply?: number | null;
+}
+
+export interface SetTankCapacityLimitsDto {
+  tankId: string;
+  maxStockingDensity: number | null; // kg/m³
+  oxygenSupply: number | null; // g O₂/h
+}
+
+export interface ForecastTankCapacityDto {
+  tankId: string;
+  // Batches leave the tank once predicted to reach it; without it they stay
+  targetWeightGrams?: number;
+  horizonDays?: number;
+  warningDays?: number;
+}
+
+export interface UpdateWaterQualityDto {
+  tankId: string;
+  temperature: number;
+  dissolvedOxygen: number;
+  pH: number;
+  totalAmmonia: number;
+  nitrite: number;
+  measuredAt?: Date;
+}
+
+export interface WaterQualityDto {
+  temperature: number;
+  dissolvedOxygen: number;
+  pH: number;
+  totalAmmonia: number;
+  toxicAmmonia: number;
+  nitrite: number;
+  measuredAt: Date;
+}
+
+export interface TankDto {
+  id: string;
+  farmId: string;
+  name: string;
+  volumeCubicMeters: number;
+  status: TankStatus;
+  totalBiomassKg: number;
+  stockingDensity: number; // kg/m³
+  maxStockingDensity: number | null; // kg/m³
+  oxygenSupply: number | null; // g O₂/h
+  waterQuality: WaterQualityDto | null;
+  batches: BatchDto[];
+}
+
+export interface TankCapacityDto {
+  tankId: string;
+  biomassKg: number;
+  stockingDensity: number; // kg/m³
+  maxStockingDensity: number | null; // kg/m³
+  oxygenDemand: number; // g O₂/h
+  oxygenSupply: number | null; // g O₂/h
+  carryingCapacityKg: number | null;
+  headroomKg: number | null;
+  utilization: number | null;
+  limitedBy: "DENSITY" | "OXYGEN" | null;
+}
+
+export interface CapacityForecastDayDto {
+  day: number;
+  date: Date;
+  biomassKg: number;
+  stockingDensity: number; // kg/m³
+  utilization: number | null;
+}
+
+export interface TankCapacityForecastDto {
+  current: TankCapacityDto;
+  days: CapacityForecastDayDto[];
+  exceedsOn: Date | null;
+  daysUntilExceeded: number | null;
+  warning: boolean;
+}
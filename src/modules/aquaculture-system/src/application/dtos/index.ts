@@ -0,0 +1,11 @@
+export * from "./BatchDto";
+export * from "./FarmDto";
+export * from "./FeedingDto";
+export * from "./GrowthDto";
+export * from "./TankDto";
+export * from "./FishTypeDto";
+export * from "./FeedInventoryDto";
+export * from "./HarvestDto";
+export * from "./HealthDto";
+export * from "./MarketPriceDto";
+export * from "./MortalityDto";
@@ -0,0 +1,30 @@
+import { Injectable, Logger, OnModuleInit } from "@nestjs/common";
+import { EventEmitter2 } from "@nestjs/event-emitter";
+import { MortalityRecordedEvent } from "../../domain/events/MortalityRecorded";
+
+/**
+ * Raises mass mortalities as critical alerts in the server log, where they
+ * are picked up by log-based alerting until notifications are in place.
+ */
+@Injectable()
+export class MassMortalityAlertHandler implements OnModuleInit {
+  private readonly logger = new Logger(MassMortalityAlertHandler.name);
+
+  constructor(private readonly eventEmitter: EventEmitter2) {}
+
+  onModuleInit() {
+    this.eventEmitter.on(
+      "mortality.recorded",
+      (event: MortalityRecordedEvent) => this.handle(event),
+    );
+  }
+
+  handle(event: MortalityRecordedEvent): void {
+    const { alert, farmId } = event.payload;
+    if (!alert) return;
+
+    this.logger.error(
+      `[${alert.severity}] Farm ${farmId}, tank ${alert.tankId}: ${alert.message}. ${alert.action}`,
+    );
+  }
+}
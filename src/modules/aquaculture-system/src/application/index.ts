@@ -0,0 +1,3 @@
+export * from "./dtos";
+export * from "./mappers";
+export * from "./use-cases";
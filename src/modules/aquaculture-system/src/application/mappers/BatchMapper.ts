@@ -0,0 +1,443 @@
+import { Injectable } from "@nestjs/common";
+import { FishBatch } from "../../domain/entities/FishBatch";
+import { CountReconciliation } from "../../domain/types/CountTypes";
+import { consumedFeed } from "../../domain/services/FeedingDeviation";
+import {
+  FeedingDeviation,
+  FeedingRecord,
+} from "../../domain/types/FeedingTypes";
+import { GrowthCurveFit } from "../../domain/types/GrowthModelTypes";
+import { GrowthRecord } from "../../domain/types/GrowthTypes";
+import {
+  DegreeDayHarvestForecast,
+  GradingBreakdown,
+  HarvestDayProjection,
+  HarvestEvent,
+  HarvestPrediction,
+  HarvestSimulation,
+  HarvestTimingOptimization,
+} from "../../domain/types/HarvestTypes";
+import {
+  MortalityAlert,
+  MortalityEvent,
+} from "../../domain/types/MortalityTypes";
+import { BatchPerformance } from "../use-cases/batch/GetBatchPerformance";
+import { BatchHarvestEconomics } from "../use-cases/batch/GetHarvestEconomics";
+import { BatchLineage } from "../use-cases/batch/GetBatchLineage";
+import { RecordedHarvest } from "../use-cases/batch/RecordHarvest";
+import { RecordedMortality } from "../use-cases/batch/RecordMortality";
+import { RecordedCount } from "../use-cases/batch/ReconcileFishCount";
+import { BatchTransferResult } from "../use-cases/batch/TransferBatch";
+import { FarmMortalityReport } from "../use-cases/farm/GetFarmMortalityReport";
+import {
+  BatchDto,
+  BatchLineageDto,
+  BatchPerformanceDto,
+  BatchTransferDto,
+  BatchTransferResultDto,
+  CountReconciliationDto,
+  RecordedCountDto,
+} from "../dtos/BatchDto";
+import { FeedingDeviationDto, FeedingRecordDto } from "../dtos/FeedingDto";
+import { GrowthCurveFitDto, GrowthRecordDto } from "../dtos/GrowthDto";
+import {
+  GradingBreakdownDto,
+  HarvestDayProjectionDto,
+  HarvestEconomicsDto,
+  HarvestEventDto,
+  HarvestForecastDto,
+  HarvestPredictionDto,
+  HarvestSimulationDto,
+  HarvestTimingDto,
+  RecordedHarvestDto,
+} from "../dtos/HarvestDto";
+import {
+  MortalityAlertDto,
+  MortalityEventDto,
+  MortalityReportDto,
+  RecordedMortalityDto,
+} from "../dtos/MortalityDto";
+
+@Injectable()
+export class BatchMapper {
+  toResponse(batch: FishBatch): BatchDto {
+    const stats = batch.getCurrentStats();
+    return {
+      id: batch.getId().toString(),
+      tankId: batch.getTankId(),
+      fishTypeId: batch.getFishTypeId(),
+      parentBatchIds: [...batch.getParentBatchIds()],
+      status: batch.getStatus(),
+      stockedDate: batch.getStockedDate(),
+      daysInCulture: batch.getDaysInCulture(),
+      initialCount: batch.getInitialCount(),
+      initialWeightGrams: batch.getInitialWeight().toGrams(),
+      fishCount: stats.fishCount,
+      averageWeightGrams: stats.averageWeight.toGrams(),
+      survivalRate: stats.survivalRate,
+      totalBiomassKg: stats.getTotalBiomass().toKilograms(),
+      harvestedCount: batch.getHarvestedCount(),
+      harvestedBiomassKg: batch.getTotalHarvested().toKilograms(),
+      transferredCount: batch.getTransferredCount(),
+    };
+  }
+
+  toTransferResultResponse(
+    result: BatchTransferResult,
+  ): BatchTransferResultDto {
+    return {
+      sources: result.sources.map((batch) => this.toResponse(batch)),
+      child: this.toResponse(result.child),
+    };
+  }
+
+  toLineageResponse(lineage: BatchLineage): BatchLineageDto {
+    const performance = lineage.performance;
+    return {
+      batches: lineage.batches.map((batch) => this.toResponse(batch)),
+      transfers: lineage.batches.flatMap((batch) =>
+        batch.getTransferHistory().map((transfer): BatchTransferDto => ({
+          fromBatchId: batch.getId().toString(),
+          toBatchId: transfer.toBatchId,
+          transferredAt: transfer.transferredAt,
+          fishCount: transfer.fishCount,
+          biomassKg: transfer.biomass.toKilograms(),
+          averageWeightGrams: transfer.averageWeight.toGrams(),
+        })),
+      ),
+      feedConsumedKg: performance.feedConsumed.toKilograms(),
+      weightGainKg: performance.weightGain.toKilograms(),
+      fcr: performance.fcr,
+    };
+  }
+
+  toHarvestEventResponse(event: HarvestEvent): HarvestEventDto {
+    return {
+      harvestedAt: event.harvestedAt,
+      fishCount: event.fishCount,
+      biomassKg: event.biomass.toKilograms(),
+      averageWeightGrams: event.averageWeight.toGrams(),
+      grades: event.grades.map((grade) => ({
+        grade: grade.grade,
+        fishCount: grade.fishCount,
+        biomassKg: grade.biomass.toKilograms(),
+      })),
+      buyer: event.buyer,
+      closedBatch: event.closedBatch,
+    };
+  }
+
+  toRecordedHarvestResponse(recorded: RecordedHarvest): RecordedHarvestDto {
+    return {
+      harvest: this.toHarvestEventResponse(recorded.harvest),
+      batch: this.toResponse(recorded.batch),
+    };
+  }
+
+  toMortalityEventResponse(event: MortalityEvent): MortalityEventDto {
+    return {
+      recordedAt: event.recordedAt,
+      deadCount: event.deadCount,
+      fishCountBefore: event.fishCountBefore,
+      mortalityPercent: (event.deadCount / event.fishCountBefore) * 100,
+      cause: event.cause,
+      notes: event.notes,
+      attachments: event.attachments.map((attachment) => ({
+        fileName: attachment.fileName,
+        contentType: attachment.contentType,
+        url: attachment.url,
+      })),
+    };
+  }
+
+  toMortalityAlertResponse(alert: MortalityAlert): MortalityAlertDto {
+    return {
+      batchId: alert.batchId,
+      tankId: alert.tankId,
+      severity: alert.severity,
+      message: alert.message,
+      recordedAt: alert.recordedAt,
+      deadCount: alert.deadCount,
+      mortalityPercent: alert.mortalityPercent,
+      threshold: alert.threshold,
+      action: alert.action,
+    };
+  }
+
+  toRecordedMortalityResponse(
+    recorded: RecordedMortality,
+  ): RecordedMortalityDto {
+    return {
+      mortality: this.toMortalityEventResponse(recorded.mortality),
+      alert: recorded.alert && this.toMortalityAlertResponse(recorded.alert),
+      batch: this.toResponse(recorded.batch),
+    };
+  }
+
+  toMortalityReportResponse(
+    farmReport: FarmMortalityReport,
+  ): MortalityReportDto {
+    const report = farmReport.report;
+    return {
+      farmId: farmReport.farmId,
+      from: report.from,
+      to: report.to,
+      threshold: farmReport.threshold,
+      total: { ...report.total },
+      byCause: report.byCause.map((entry) => ({ ...entry })),
+      byTank: report.byTank.map((entry) => ({ ...entry })),
+      byWeek: report.byWeek.map((entry) => ({ ...entry })),
+      alerts: report.alerts.map((alert) =>
+        this.toMortalityAlertResponse(alert),
+      ),
+    };
+  }
+
+  toPerformanceResponse(performance: BatchPerformance): BatchPerformanceDto {
+    return {
+      batch: this.toResponse(performance.batch),
+      totalFeedKg: performance.totalFeed.toKilograms(),
+      consumedFeedKg: performance.consumedFeed.toKilograms(),
+      proteinConsumedKg: performance.proteinConsumed.toKilograms(),
+      unknownProteinFeedKg: performance.unknownProteinFeed.toKilograms(),
+      weightGainKg: performance.weightGain.toKilograms(),
+      fcr: performance.fcr,
+      per: performance.per,
+      feedEfficiency: performance.feedEfficiency,
+      latestSgr: performance.latestGrowth?.cumulativeSgr ?? null,
+      latestAdg: performance.latestGrowth?.cumulativeAdg ?? null,
+      bookSurvivalRate: performance.bookSurvivalRate,
+      countedSurvivalRate: performance.countedSurvivalRate,
+      unexplainedLoss: performance.unexplainedLoss,
+      lastCountedAt: performance.lastCountedAt,
+    };
+  }
+
+  toCountReconciliationResponse(
+    count: CountReconciliation,
+  ): CountReconciliationDto {
+    return {
+      countedAt: count.countedAt,
+      bookCount: count.bookCount,
+      countedCount: count.countedCount,
+      unexplainedLoss: count.unexplainedLoss,
+      unexplainedLossPercent:
+        count.bookCount > 0
+          ? (count.unexplainedLoss / count.bookCount) * 100
+          : 0,
+      notes: count.notes,
+    };
+  }
+
+  toRecordedCountResponse(recorded: RecordedCount): RecordedCountDto {
+    return {
+      count: this.toCountReconciliationResponse(recorded.count),
+      batch: this.toResponse(recorded.batch),
+    };
+  }
+
+  toGrowthRecordResponse(record: GrowthRecord): GrowthRecordDto {
+    return {
+      recordedAt: record.recordedAt,
+      averageWeightGrams: record.statistics.averageWeight.toGrams(),
+      weightGainGrams: record.weightGain.toGrams(),
+      daysInCulture: record.daysInCulture,
+      intervalDays: record.intervalDays,
+      intervalSgr: record.intervalSgr,
+      intervalAdg: record.intervalAdg,
+      cumulativeSgr: record.cumulativeSgr,
+      cumulativeAdg: record.cumulativeAdg,
+      sample: record.sample
+        ? {
+            sampleSize: record.sample.fish.length,
+            meanWeightGrams: record.sample.meanWeight.toGrams(),
+            weightStdDevGrams: record.sample.weightStdDevGrams,
+            weightCv: record.sample.weightCv,
+            meanLengthCm: record.sample.meanLengthCm,
+            meanConditionFactor: record.sample.meanConditionFactor,
+            fish: record.sample.fish.map((fish) => ({
+              weightGrams: fish.weight.toGrams(),
+              lengthCm: fish.lengthCm,
+            })),
+          }
+        : null,
+    };
+  }
+
+  toGrowthCurveResponse(fit: GrowthCurveFit): GrowthCurveFitDto {
+    return {
+      model: fit.model,
+      parameters: fit.parameters,
+      rSquared: fit.rSquared,
+      rmseGrams: fit.rmseGrams,
+      observations: fit.observations,
+    };
+  }
+
+  toHarvestPredictionResponse(
+    batchId: string,
+    prediction: HarvestPrediction,
+  ): HarvestPredictionDto {
+    return {
+      batchId,
+      method: prediction.method,
+      harvestDate: prediction.harvestDate,
+      daysToHarvest: prediction.daysToHarvest,
+      targetWeightGrams: prediction.targetWeight.toGrams(),
+      expectedFinalCount: prediction.expectedFinalCount,
+      finalProductionKg: prediction.finalProduction.toKilograms(),
+      sgr: prediction.currentSGR,
+      projectedSurvivalRate: prediction.projectedSurvivalRate,
+      growthCurve: prediction.growthCurve
+        ? this.toGrowthCurveResponse(prediction.growthCurve)
+        : null,
+    };
+  }
+
+  toHarvestForecastResponse(
+    batchId: string,
+    forecast: DegreeDayHarvestForecast,
+  ): HarvestForecastDto {
+    return {
+      batchId,
+      tgc: forecast.tgc,
+      estimatedCurrentWeightGrams: forecast.estimatedCurrentWeight.toGrams(),
+      degreeDaysSinceWeighing: forecast.degreeDaysSinceWeighing,
+      degreeDaysToHarvest: forecast.degreeDaysToHarvest,
+      earliestHarvestDate: forecast.earliestHarvestDate,
+      expectedHarvestDate: forecast.expectedHarvestDate,
+      latestHarvestDate: forecast.latestHarvestDate,
+      targetWeightGrams: forecast.targetWeight.toGrams(),
+      expectedFinalCount: forecast.expectedFinalCount,
+      finalProductionKg: forecast.finalProduction.toKilograms(),
+      projectedSurvivalRate: forecast.projectedSurvivalRate,
+    };
+  }
+
+  toHarvestSimulationResponse(
+    batchId: string,
+    simulation: HarvestSimulation,
+  ): HarvestSimulationDto {
+    const production = simulation.finalProduction;
+    return {
+      batchId,
+      runs: simulation.runs,
+      seed: simulation.seed,
+      targetWeightGrams: simulation.targetWeight.toGrams(),
+      variability: { ...simulation.variability },
+      daysToHarvest: simulation.daysToHarvest,
+      harvestDate: simulation.harvestDate,
+      fishCount: simulation.fishCount,
+      finalProductionKg: {
+        p10: production.p10.toKilograms(),
+        p50: production.p50.toKilograms(),
+        p90: production.p90.toKilograms(),
+      },
+    };
+  }
+
+  toHarvestTimingResponse(
+    batchId: string,
+    timing: HarvestTimingOptimization,
+  ): HarvestTimingDto {
+    return {
+      batchId,
+      sunkCost: timing.sunkCost,
+      harvestedRevenue: timing.harvestedRevenue,
+      optimal: this.toHarvestDayResponse(timing.optimal),
+      days: timing.days.map((day) => this.toHarvestDayResponse(day)),
+    };
+  }
+
+  toHarvestEconomicsResponse(
+    batchId: string,
+    result: BatchHarvestEconomics,
+  ): HarvestEconomicsDto {
+    const economics = result.economics;
+    return {
+      prediction: this.toHarvestPredictionResponse(batchId, result.prediction),
+      remainingFeedKg: economics.remainingFeed.toKilograms(),
+      remainingFeedCost: economics.remainingFeedCost,
+      totalRemainingCosts: economics.totalRemainingCosts,
+      projectedRevenue: economics.projectedRevenue,
+      grossProfit: economics.grossProfit,
+      profitMargin: economics.profitMargin,
+      breakEvenProductionKg: economics.breakEvenProduction,
+      marketPricePerKg: economics.marketPricePerKg,
+      feedPricePerKg: economics.feedPricePerKg,
+      grading: result.grading ? this.toGradingResponse(result.grading) : null,
+    };
+  }
+
+  toGradingResponse(grading: GradingBreakdown): GradingBreakdownDto {
+    return {
+      averageWeightGrams: grading.averageWeight.toGrams(),
+      weightCv: grading.weightCv,
+      fishCount: grading.fishCount,
+      productionKg: grading.production.toKilograms(),
+      grades: grading.grades.map((share) => ({
+        grade: share.grade,
+        minWeightGrams: share.minWeightGrams,
+        maxWeightGrams: share.maxWeightGrams,
+        pricePerKg: share.pricePerKg,
+        fishCount: share.fishCount,
+        biomassKg: share.biomass.toKilograms(),
+        revenue: share.revenue,
+      })),
+      ungradedFishCount: grading.ungradedFishCount,
+      ungradedBiomassKg: grading.ungradedBiomass.toKilograms(),
+      revenue: grading.revenue,
+      averagePricePerKg: grading.averagePricePerKg,
+    };
+  }
+
+  toFeedingRecordResponse(record: FeedingRecord): FeedingRecordDto {
+    return {
+      feedDate: record.feedDate,
+      feedAmountKg: record.feedAmount.toKilograms(),
+      consumedFeedKg: consumedFeed(record).toKilograms(),
+      mealsPerDay: record.mealsPerDay,
+      mealNumber: record.mealNumber,
+      feedProductId: record.feedProductId,
+      feedLotId: record.feedLotId,
+      proteinPercent: record.proteinPercent,
+      uneatenPercent: record.uneatenPercent,
+    };
+  }
+
+  toFeedingDeviationResponse(deviation: FeedingDeviation): FeedingDeviationDto {
+    return {
+      batchId: deviation.batchId,
+      date: deviation.date,
+      plannedFeedKg: deviation.plannedFeed?.toKilograms() ?? null,
+      plannedMeals: deviation.plannedMeals,
+      deliveredFeedKg: deviation.deliveredFeed.toKilograms(),
+      consumedFeedKg: deviation.consumedFeed.toKilograms(),
+      deliveredMeals: deviation.deliveredMeals,
+      deviationKg:
+        deviation.deviationGrams === null
+          ? null
+          : deviation.deviationGrams / 1000,
+      deviationPercent: deviation.deviationPercent,
+    };
+  }
+
+  private toHarvestDayResponse(
+    projection: HarvestDayProjection,
+  ): HarvestDayProjectionDto {
+    return {
+      day: projection.day,
+      date: projection.date,
+      averageWeightGrams: projection.averageWeight.toGrams(),
+      fishCount: projection.fishCount,
+      biomassKg: projection.biomass.toKilograms(),
+      pricePerKg: projection.pricePerKg,
+      revenue: projection.revenue,
+      feedCost: projection.feedCost,
+      fixedCost: projection.fixedCost,
+      totalCost: projection.totalCost,
+      margin: projection.margin,
+      marginPerDay: projection.marginPerDay,
+    };
+  }
+}
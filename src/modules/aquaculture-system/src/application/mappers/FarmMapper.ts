@@ -0,0 +1,32 @@
+import { Injectable } from "@nestjs/common";
+import { Farm } from "../../domain/aggregates/Farm";
+import { FarmStatistics } from "../../domain/types/EconomicTypes";
+import { FarmDto, FarmStatisticsDto } from "../dtos/FarmDto";
+import { TankMapper } from "./TankMapper";
+
+@Injectable()
+export class FarmMapper {
+  constructor(private readonly tankMapper: TankMapper) {}
+
+  toResponse(farm: Farm): FarmDto {
+    return {
+      id: farm.getId().toString(),
+      name: farm.getName(),
+      location: farm.getLocation(),
+      createdAt: farm.getCreatedAt(),
+      temperatureProfile: farm.getTemperatureProfile(),
+      tanks: farm.getTanks().map((tank) => this.tankMapper.toResponse(tank)),
+      statistics: this.toStatisticsResponse(farm.getFarmStatistics()),
+    };
+  }
+
+  toStatisticsResponse(statistics: FarmStatistics): FarmStatisticsDto {
+    return {
+      totalTanks: statistics.totalTanks,
+      activeTanks: statistics.activeTanks,
+      totalBatches: statistics.totalBatches,
+      totalFish: statistics.totalFish,
+      totalBiomassKg: statistics.totalBiomass.toKilograms(),
+    };
+  }
+}
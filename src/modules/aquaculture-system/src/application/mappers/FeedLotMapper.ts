@@ -0,0 +1,47 @@
+import { Injectable } from "@nestjs/common";
+import { FeedLot } from "../../domain/entities/FeedLot";
+import { FeedLotDto, FeedTraceDto } from "../dtos/FeedInventoryDto";
+import { BatchFeedTrace } from "../use-cases/batch/GetBatchFeedTrace";
+import { FeedProductMapper } from "./FeedProductMapper";
+
+@Injectable()
+export class FeedLotMapper {
+  constructor(private readonly feedProductMapper: FeedProductMapper) {}
+
+  toResponse(feedLot: FeedLot): FeedLotDto {
+    return {
+      id: feedLot.getId().toString(),
+      feedProductId: feedLot.getFeedProductId(),
+      lotNumber: feedLot.getLotNumber(),
+      supplier: feedLot.getSupplier(),
+      manufacturedAt: feedLot.getManufacturedAt(),
+      expiresAt: feedLot.getExpiresAt(),
+      expired: feedLot.isExpiredOn(new Date()),
+    };
+  }
+
+  toTraceResponse(batchTrace: BatchFeedTrace): FeedTraceDto {
+    const trace = batchTrace.trace;
+    return {
+      batchId: trace.batchId,
+      lots: trace.lots.flatMap((usage) => {
+        const feedLot = batchTrace.feedLots.get(usage.feedLotId);
+        const feedProduct =
+          feedLot && batchTrace.feedProducts.get(feedLot.getFeedProductId());
+        if (!feedLot || !feedProduct) return [];
+        return [
+          {
+            feedLot: this.toResponse(feedLot),
+            feedProduct: this.feedProductMapper.toResponse(feedProduct),
+            feedings: usage.feedings,
+            totalFeedKg: usage.totalFeed.toKilograms(),
+            firstFedAt: usage.firstFedAt,
+            lastFedAt: usage.lastFedAt,
+          },
+        ];
+      }),
+      untracedFeedKg: trace.untracedFeed.toKilograms(),
+      untracedFeedings: trace.untracedFeedings,
+    };
+  }
+}
@@ -0,0 +1,17 @@
+import { Injectable } from "@nestjs/common";
+import { FeedProduct } from "../../domain/entities/FeedProduct";
+import { FeedProductDto } from "../dtos/FeedInventoryDto";
+
+@Injectable()
+export class FeedProductMapper {
+  toResponse(feedProduct: FeedProduct): FeedProductDto {
+    return {
+      id: feedProduct.getId().toString(),
+      name: feedProduct.getName(),
+      brand: feedProduct.getBrand(),
+      pelletSizeMm: feedProduct.getPelletSizeMm(),
+      proteinPercent: feedProduct.getProteinPercent(),
+      pricePerKg: feedProduct.getPricePerKg(),
+    };
+  }
+}
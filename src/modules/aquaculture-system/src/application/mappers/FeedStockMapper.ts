@@ -0,0 +1,58 @@
+import { Injectable } from "@nestjs/common";
+import { FeedStockMovement } from "../../domain/types/FeedInventoryTypes";
+import {
+  FarmFeedStockDto,
+  FeedStockLedgerDto,
+  FeedStockMovementDto,
+} from "../dtos/FeedInventoryDto";
+import { FarmFeedStock } from "../use-cases/feed-stock/GetFarmFeedStock";
+import { FarmFeedStockLedger } from "../use-cases/feed-stock/GetFeedStockLedger";
+import { FeedProductMapper } from "./FeedProductMapper";
+
+@Injectable()
+export class FeedStockMapper {
+  constructor(private readonly feedProductMapper: FeedProductMapper) {}
+
+  toMovementResponse(movement: FeedStockMovement): FeedStockMovementDto {
+    return {
+      id: movement.id,
+      feedProductId: movement.feedProductId,
+      feedLotId: movement.feedLotId,
+      type: movement.type,
+      quantityKg: movement.quantity.toKilograms(),
+      occurredAt: movement.occurredAt,
+      unitPricePerKg: movement.unitPricePerKg,
+      batchId: movement.batchId,
+      reference: movement.reference,
+    };
+  }
+
+  toStockResponse(stock: FarmFeedStock): FarmFeedStockDto {
+    return {
+      farmId: stock.farmId,
+      dailyRequirementKg: stock.dailyRequirement.toKilograms(),
+      lowStockDays: stock.lowStockDays,
+      products: stock.products.map(({ feedProduct, level }) => ({
+        feedProduct: this.feedProductMapper.toResponse(feedProduct),
+        onHandKg: level.onHandGrams / 1000,
+        dailyUsageKg: level.dailyUsage?.toKilograms() ?? null,
+        daysOfCover: level.daysOfCover,
+        lowStock: level.lowStock,
+      })),
+    };
+  }
+
+  toLedgerResponse(stockLedger: FarmFeedStockLedger): FeedStockLedgerDto {
+    const ledger = stockLedger.ledger;
+    return {
+      farmId: stockLedger.farmId,
+      feedProduct: this.feedProductMapper.toResponse(stockLedger.feedProduct),
+      openingBalanceKg: ledger.openingBalanceGrams / 1000,
+      entries: ledger.entries.map((entry) => ({
+        ...this.toMovementResponse(entry.movement),
+        balanceKg: entry.balanceGrams / 1000,
+      })),
+      closingBalanceKg: ledger.closingBalanceGrams / 1000,
+    };
+  }
+}
@@ -0,0 +1,72 @@
+import { Injectable } from "@nestjs/common";
+import { FeedingPlan } from "../../domain/entities/FeedingPlan";
+import { BatchFeedingPlan } from "../../domain/types/FeedingTypes";
+import {
+  BatchFeedingPlanDto,
+  FarmFeedingPlanDto,
+  FeedingPlanDto,
+} from "../dtos/FeedingDto";
+import { TankMapper } from "./TankMapper";
+
+@Injectable()
+export class FeedingPlanMapper {
+  constructor(private readonly tankMapper: TankMapper) {}
+
+  toResponse(plan: FeedingPlan): FeedingPlanDto {
+    return {
+      id: plan.getId().toString(),
+      tankId: plan.getTankId(),
+      planDate: plan.getPlanDate(),
+      generatedAt: plan.getGeneratedAt(),
+      overallStatus: plan.getOverallStatus(),
+      totalDailyFeedKg: plan.getTotalDailyFeed().toKilograms(),
+      waterQuality: this.tankMapper.toWaterQualityResponse(
+        plan.getWaterQuality(),
+      ),
+      batches: plan.getBatches().map((batch) => this.toBatchResponse(batch)),
+    };
+  }
+
+  toFarmResponse(
+    farmId: string,
+    planDate: string,
+    plans: FeedingPlan[],
+  ): FarmFeedingPlanDto {
+    const tanks = plans.map((plan) => this.toResponse(plan));
+    const statuses = tanks.map((tank) => tank.overallStatus);
+    return {
+      farmId,
+      planDate,
+      overallStatus: statuses.includes("STOPPED")
+        ? "STOPPED"
+        : statuses.includes("WARNING")
+          ? "WARNING"
+          : "OK",
+      totalDailyFeedKg: tanks.reduce(
+        (total, tank) => total + tank.totalDailyFeedKg,
+        0,
+      ),
+      tanks,
+    };
+  }
+
+  private toBatchResponse(batch: BatchFeedingPlan): BatchFeedingPlanDto {
+    const requirement = batch.requirement;
+    return {
+      batchId: batch.batchId,
+      safetyStatus: requirement.safetyStatus,
+      factors: requirement.factors,
+      baseFeedingRate: requirement.baseFeedingRate ?? null,
+      finalFeedingRate: requirement.finalFeedingRate ?? null,
+      parameterVersion: requirement.parameterVersion ?? null,
+      interpolation: requirement.interpolation ?? null,
+      totalDailyFeedKg: requirement.totalDailyFeed.toKilograms(),
+      mealsPerDay: requirement.mealsPerDay,
+      meals: batch.meals.map((meal) => ({
+        mealNumber: meal.mealNumber,
+        scheduledAt: meal.scheduledAt,
+        feedAmountKg: meal.feedAmount.toKilograms(),
+      })),
+    };
+  }
+}
@@ -0,0 +1,29 @@
+import { Injectable } from "@nestjs/common";
+import { FishType } from "../../domain/entities/FishType";
+import { FishTypeParameterVersion } from "../../domain/types/FishTypeParameters";
+import { FishTypeDto, FishTypeParameterVersionDto } from "../dtos/FishTypeDto";
+
+@Injectable()
+export class FishTypeMapper {
+  toResponse(fishType: FishType): FishTypeDto {
+    const current = fishType.getParameterVersionAt(new Date());
+    return {
+      id: fishType.getId().toString(),
+      name: fishType.getName(),
+      scientificName: fishType.getScientificName(),
+      currentVersion: current.version,
+      parameters: current.parameters,
+      latestVersion: fishType.getLatestParameterVersion().version,
+    };
+  }
+
+  toVersionResponse(
+    version: FishTypeParameterVersion,
+  ): FishTypeParameterVersionDto {
+    return {
+      version: version.version,
+      effectiveFrom: version.effectiveFrom,
+      parameters: version.parameters,
+    };
+  }
+}
@@ -0,0 +1,62 @@
+import { Injectable } from "@nestjs/common";
+import { Diagnosis } from "../../domain/entities/Diagnosis";
+import { Treatment } from "../../domain/entities/Treatment";
+import { WithdrawalStatus } from "../../domain/types/HealthTypes";
+import { BatchHealthLog } from "../use-cases/health/GetBatchHealthLog";
+import {
+  BatchHealthLogDto,
+  DiagnosisDto,
+  TreatmentDto,
+  WithdrawalStatusDto,
+} from "../dtos/HealthDto";
+
+@Injectable()
+export class HealthMapper {
+  toDiagnosisResponse(diagnosis: Diagnosis): DiagnosisDto {
+    return {
+      id: diagnosis.getId().toString(),
+      batchId: diagnosis.getBatchId(),
+      condition: diagnosis.getCondition(),
+      diagnosedAt: diagnosis.getDiagnosedAt(),
+      notes: diagnosis.getNotes(),
+    };
+  }
+
+  toTreatmentResponse(treatment: Treatment): TreatmentDto {
+    return {
+      id: treatment.getId().toString(),
+      batchId: treatment.getBatchId(),
+      diagnosisId: treatment.getDiagnosisId(),
+      type: treatment.getType(),
+      product: treatment.getProduct(),
+      dose: treatment.getDose(),
+      doseUnit: treatment.getDoseUnit(),
+      startedAt: treatment.getStartedAt(),
+      endedAt: treatment.getEndedAt(),
+      durationDays: treatment.getDurationDays(),
+      withdrawalPeriod: treatment.getWithdrawalPeriod(),
+      withdrawalUnit: treatment.getWithdrawalUnit(),
+      notes: treatment.getNotes(),
+    };
+  }
+
+  toHealthLogResponse(batchId: string, log: BatchHealthLog): BatchHealthLogDto {
+    return {
+      batchId,
+      diagnoses: log.diagnoses.map((d) => this.toDiagnosisResponse(d)),
+      treatments: log.treatments.map((t) => this.toTreatmentResponse(t)),
+    };
+  }
+
+  toWithdrawalResponse(status: WithdrawalStatus): WithdrawalStatusDto {
+    return {
+      batchId: status.batchId,
+      assessedAt: status.assessedAt,
+      inWithdrawal: status.inWithdrawal,
+      clearsAt: status.clearsAt,
+      withdrawals: status.withdrawals.map((withdrawal) => ({
+        ...withdrawal,
+      })),
+    };
+  }
+}
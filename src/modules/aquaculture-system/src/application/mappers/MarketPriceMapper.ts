@@ -0,0 +1,30 @@
+import { Injectable } from "@nestjs/common";
+import { MarketPrice } from "../../domain/entities/MarketPrice";
+import { MarketPriceDto, PriceBookDto } from "../dtos/MarketPriceDto";
+
+@Injectable()
+export class MarketPriceMapper {
+  toResponse(price: MarketPrice): MarketPriceDto {
+    return {
+      id: price.getId().toString(),
+      fishTypeId: price.getFishTypeId(),
+      grade: price.getGrade(),
+      minWeightGrams: price.getMinWeightGrams(),
+      maxWeightGrams: price.getMaxWeightGrams(),
+      pricePerKg: price.getPricePerKg(),
+      effectiveFrom: price.getEffectiveFrom(),
+    };
+  }
+
+  toPriceBookResponse(
+    fishTypeId: string,
+    date: Date,
+    grades: MarketPrice[],
+  ): PriceBookDto {
+    return {
+      fishTypeId,
+      date,
+      grades: grades.map((grade) => this.toResponse(grade)),
+    };
+  }
+}
@@ -0,0 +1,85 @@
+import { Injectable } from "@nestjs/common";
+import { Tank } from "../../domain/entities/Tank";
+import {
+  TankCapacity,
+  TankCapacityForecast,
+} from "../../domain/types/CapacityTypes";
+import { WaterQuality } from "../../domain/value-objects/WaterQuality";
+import {
+  TankCapacityDto,
+  TankCapacityForecastDto,
+  TankDto,
+  WaterQualityDto,
+} from "../dtos/TankDto";
+import { BatchMapper } from "./BatchMapper";
+
+@Injectable()
+export class TankMapper {
+  constructor(private readonly batchMapper: BatchMapper) {}
+
+  toResponse(tank: Tank): TankDto {
+    const waterQuality = tank.getWaterQuality();
+    return {
+      id: tank.getId().toString(),
+      farmId: tank.getFarmId(),
+      name: tank.getName(),
+      volumeCubicMeters: tank.getVolume().toCubicMeters(),
+      status: tank.getStatus(),
+      totalBiomassKg: tank.getTotalBiomass().toKilograms(),
+      stockingDensity: tank.getStockingDensity(),
+      maxStockingDensity: tank.getCapacityLimits().maxStockingDensity,
+      oxygenSupply: tank.getCapacityLimits().oxygenSupply,
+      waterQuality: waterQuality
+        ? this.toWaterQualityResponse(waterQuality)
+        : null,
+      batches: tank
+        .getBatches()
+        .map((batch) => this.batchMapper.toResponse(batch)),
+    };
+  }
+
+  toCapacityResponse(capacity: TankCapacity): TankCapacityDto {
+    return {
+      tankId: capacity.tankId,
+      biomassKg: capacity.biomass.toKilograms(),
+      stockingDensity: capacity.stockingDensity,
+      maxStockingDensity: capacity.maxStockingDensity,
+      oxygenDemand: capacity.oxygenDemand,
+      oxygenSupply: capacity.oxygenSupply,
+      carryingCapacityKg: capacity.carryingCapacity?.toKilograms() ?? null,
+      headroomKg: capacity.headroomKg,
+      utilization: capacity.utilization,
+      limitedBy: capacity.limitedBy,
+    };
+  }
+
+  toCapacityForecastResponse(
+    forecast: TankCapacityForecast,
+  ): TankCapacityForecastDto {
+    return {
+      current: this.toCapacityResponse(forecast.current),
+      days: forecast.days.map((day) => ({
+        day: day.day,
+        date: day.date,
+        biomassKg: day.biomass.toKilograms(),
+        stockingDensity: day.stockingDensity,
+        utilization: day.utilization,
+      })),
+      exceedsOn: forecast.exceedsOn,
+      daysUntilExceeded: forecast.daysUntilExceeded,
+      warning: forecast.warning,
+    };
+  }
+
+  toWaterQualityResponse(waterQuality: WaterQuality): WaterQualityDto {
+    return {
+      temperature: waterQuality.temperature,
+      dissolvedOxygen: waterQuality.dissolvedOxygen,
+      pH: waterQuality.pH,
+      totalAmmonia: waterQuality.totalAmmonia,
+      toxicAmmonia: waterQuality.calculateToxicAmmonia(),
+      nitrite: waterQuality.nitrite,
+      measuredAt: waterQuality.measuredAt,
+    };
+  }
+}
@@ -0,0 +1,10 @@
+export * from "./BatchMapper";
+export * from "./FarmMapper";
+export * from "./FishTypeMapper";
+export * from "./HealthMapper";
+export * from "./TankMapper";
+export * from "./FeedingPlanMapper";
+export * from "./FeedProductMapper";
+export * from "./FeedStockMapper";
+export * from "./FeedLotMapper";
+export * from "./MarketPriceMapper";
@@ -0,0 +1,17 @@
+export interface StoredAttachment {
+  url: string; // where the file is served from
+}
+
+/**
+ * Keeps uploaded files, such as mortality photos, out of the database.
+ */
+export interface IAttachmentStorage {
+  store(params: {
+    folder: string;
+    fileName: string;
+    contentType: string;
+    data: Buffer;
+  }): Promise<StoredAttachment>;
+  // Deletes a stored file by the url `store` returned, if it is still there
+  remove(url: string): Promise<void>;
+}
@@ -0,0 +1,205 @@
+import { Inject, Injectable } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { getOrThrowWith, isSome } from "effect/Option";
+import { v4 } from "uuid";
+import {
+  FEEDING_DAY_END_HOUR,
+  FEEDING_DAY_START_HOUR,
+} from "../../../../../config/env/configuration.constant";
+import { CustomNotFoundException } from "../../../../../libs/exceptions/custom-not-found.exception";
+import {
+  FARM_REPOSITORY,
+  FEEDING_PLAN_REPOSITORY,
+  FISH_TYPE_REPOSITORY,
+  TANK_REPOSITORY,
+} from "../../../aquaculture.tokens";
+import { FeedingPlan } from "../../domain/entities/FeedingPlan";
+import { FishType } from "../../domain/entities/FishType";
+import { IFarmRepository } from "../../domain/repositories/IFarmRepository";
+import { IFeedingPlanRepository } from "../../domain/repositories/IFeedingPlanRepository";
+import { IFishTypeRepository } from "../../domain/repositories/IFishTypeRepository";
+import { ITankRepository } from "../../domain/repositories/ITankRepository";
+import {
+  FeedingRequirement,
+  PlannedMeal,
+  TankFeedingRequirement,
+} from "../../domain/types/FeedingTypes";
+import { Weight } from "../../domain/value-objects/Weight";
+import {
+  DEFAULT_FEEDING_DAY_END_HOUR,
+  DEFAULT_FEEDING_DAY_START_HOUR,
+} from "../../shared/constants/feedingConstants";
+import { atLocalTime } from "../../shared/utils/dateHelpers";
+
+/**
+ * Turns feeding requirements into per-tank daily plans, with each batch's
+ * meals spread evenly across the configured feeding day.
+ */
+@Injectable()
+export class FeedingSchedulerService {
+  private readonly dayStartMinutes: number;
+  private readonly dayEndMinutes: number;
+
+  constructor(
+    @Inject(TANK_REPOSITORY)
+    private readonly tankRepository: ITankRepository,
+    @Inject(FARM_REPOSITORY)
+    private readonly farmRepository: IFarmRepository,
+    @Inject(FISH_TYPE_REPOSITORY)
+    private readonly fishTypeRepository: IFishTypeRepository,
+    @Inject(FEEDING_PLAN_REPOSITORY)
+    private readonly feedingPlanRepository: IFeedingPlanRepository,
+    configService: ConfigService,
+  ) {
+    const startHour = Number(
+      configService.get(FEEDING_DAY_START_HOUR, DEFAULT_FEEDING_DAY_START_HOUR),
+    );
+    const endHour = Number(
+      configService.get(FEEDING_DAY_END_HOUR, DEFAULT_FEEDING_DAY_END_HOUR),
+    );
+    if (!(startHour >= 0 && startHour < endHour && endHour <= 24)) {
+      throw new Error(
+        `Invalid feeding day ${startHour}:00-${endHour}:00 (${FEEDING_DAY_START_HOUR}/${FEEDING_DAY_END_HOUR})`,
+      );
+    }
+    this.dayStartMinutes = startHour * 60;
+    this.dayEndMinutes = endHour * 60;
+  }
+
+  // Returns the stored plan for the day, generating it on first request
+  async getTankPlan(tankId: string, planDate: string): Promise<FeedingPlan> {
+    const existing = await this.feedingPlanRepository.findByTankAndDate(
+      tankId,
+      planDate,
+    );
+    if (isSome(existing)) {
+      return existing.value;
+    }
+    return this.generateTankPlan(tankId, planDate);
+  }
+
+  async generateTankPlan(
+    tankId: string,
+    planDate: string,
+  ): Promise<FeedingPlan> {
+    const tank = getOrThrowWith(
+      await this.tankRepository.findById(tankId),
+      () => new CustomNotFoundException("Tank"),
+    );
+    const requirement = tank.calculateTotalDailyFeed(
+      await this.loadFishTypes(),
+      atLocalTime(planDate, this.dayStartMinutes),
+    );
+    return this.savePlan(requirement, planDate);
+  }
+
+  // Plans for every active tank with a water quality reading
+  async getFarmPlans(farmId: string, planDate: string): Promise<FeedingPlan[]> {
+    return this.planFarm(farmId, planDate, false);
+  }
+
+  async generateFarmPlans(
+    farmId: string,
+    planDate: string,
+  ): Promise<FeedingPlan[]> {
+    return this.planFarm(farmId, planDate, true);
+  }
+
+  async generateAllPlans(planDate: string): Promise<FeedingPlan[]> {
+    const plans: FeedingPlan[] = [];
+    for (const farm of await this.farmRepository.findAll()) {
+      plans.push(
+        ...(await this.generateFarmPlans(farm.getId().toString(), planDate)),
+      );
+    }
+    return plans;
+  }
+
+  /**
+   * Meal times run from the start to the end of the feeding day in equal
+   * steps; a single meal is served at midday of the window. Batches whose
+   * feeding is stopped get no meals.
+   */
+  scheduleMeals(
+    requirement: FeedingRequirement,
+    planDate: string,
+  ): PlannedMeal[] {
+    if (requirement.safetyStatus === "STOPPED" || requirement.mealsPerDay < 1) {
+      return [];
+    }
+
+    const count = requirement.mealsPerDay;
+    const window = this.dayEndMinutes - this.dayStartMinutes;
+    const feedAmount = Weight.fromGrams(
+      requirement.totalDailyFeed.toGrams() / count,
+    );
+
+    return Array.from({ length: count }, (_, index) => {
+      const offset = count === 1 ? window / 2 : (window * index) / (count - 1);
+      return {
+        mealNumber: index + 1,
+        scheduledAt: atLocalTime(
+          planDate,
+          Math.round(this.dayStartMinutes + offset),
+        ),
+        feedAmount,
+      };
+    });
+  }
+
+  private async planFarm(
+    farmId: string,
+    planDate: string,
+    regenerate: boolean,
+  ): Promise<FeedingPlan[]> {
+    const farm = getOrThrowWith(
+      await this.farmRepository.findById(farmId),
+      () => new CustomNotFoundException("Farm"),
+    );
+    const requirements = farm.calculateFarmDailyFeed(
+      await this.loadFishTypes(),
+      atLocalTime(planDate, this.dayStartMinutes),
+    ).tankRequirements;
+
+    const stored = regenerate
+      ? []
+      : await this.feedingPlanRepository.findByTanksAndDate(
+          requirements.map((requirement) => requirement.tankId),
+          planDate,
+        );
+
+    const plans: FeedingPlan[] = [];
+    for (const requirement of requirements) {
+      plans.push(
+        stored.find((plan) => plan.getTankId() === requirement.tankId) ||
+          (await this.savePlan(requirement, planDate)),
+      );
+    }
+    return plans;
+  }
+
+  private async savePlan(
+    requirement: TankFeedingRequirement,
+    planDate: string,
+  ): Promise<FeedingPlan> {
+    const plan = FeedingPlan.create({
+      id: v4(),
+      tankId: requirement.tankId,
+      planDate,
+      waterQuality: requirement.waterQuality,
+      batches: requirement.batchRequirements.map((batch) => ({
+        batchId: batch.batchId,
+        requirement: batch.requirement,
+        meals: this.scheduleMeals(batch.requirement, planDate),
+      })),
+    });
+    return this.feedingPlanRepository.save(plan);
+  }
+
+  private async loadFishTypes(): Promise<Map<string, FishType>> {
+    const fishTypes = await this.fishTypeRepository.findAll();
+    return new Map(
+      fishTypes.map((fishType) => [fishType.getId().toString(), fishType]),
+    );
+  }
+}
@@ -0,0 +1,62 @@
+import { Inject, Injectable } from "@nestjs/common";
+import { TANK_REPOSITORY } from "../../../aquaculture.tokens";
+import { FishBatch } from "../../domain/entities/FishBatch";
+import { ITankRepository } from "../../domain/repositories/ITankRepository";
+import {
+  buildGrowthObservations,
+  GROWTH_CURVE_MODELS,
+  meanTemperatureBetween,
+} from "../../domain/services/GrowthCurveFitting";
+import { GrowthCurveModel } from "../../domain/services/GrowthCurveModel";
+import { GrowthModelType } from "../../domain/types/Enums";
+import { GrowthCurveFit } from "../../domain/types/GrowthModelTypes";
+import { WaterQuality } from "../../domain/value-objects/WaterQuality";
+import { GROWTH_PROJECTION_TEMPERATURE_DAYS } from "../../shared/constants/growthConstants";
+
+export interface FittedGrowthCurve {
+  model: GrowthCurveModel;
+  fit: GrowthCurveFit;
+  recentTemperature: number | null; // mean over the projection window
+  readings: WaterQuality[]; // tank temperatures since stocking
+}
+
+/**
+ * Fits growth curves to a batch's weighings against the water temperatures
+ * its tank recorded since stocking.
+ */
+@Injectable()
+export class GrowthCurveService {
+  constructor(
+    @Inject(TANK_REPOSITORY)
+    private readonly tankRepository: ITankRepository,
+  ) {}
+
+  async fitBatch(
+    batch: FishBatch,
+    modelType: GrowthModelType,
+    asOf: Date = new Date(),
+  ): Promise<FittedGrowthCurve> {
+    const readings = await this.tankRepository.findWaterQualityHistory(
+      batch.getTankId(),
+      batch.getStockedDate(),
+      asOf,
+    );
+    const model = GROWTH_CURVE_MODELS[modelType];
+    const windowStart = new Date(
+      asOf.getTime() - GROWTH_PROJECTION_TEMPERATURE_DAYS * 24 * 60 * 60 * 1000,
+    );
+
+    return {
+      model,
+      fit: model.fit(buildGrowthObservations(batch, readings)),
+      recentTemperature: meanTemperatureBetween(
+        readings,
+        windowStart > batch.getStockedDate()
+          ? windowStart
+          : batch.getStockedDate(),
+        asOf,
+      ),
+      readings,
+    };
+  }
+}
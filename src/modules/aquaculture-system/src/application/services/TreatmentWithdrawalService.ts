@@ -0,0 +1,153 @@
+import { ForbiddenException, Inject, Injectable, Logger } from "@nestjs/common";
+import { getOrThrowWith } from "effect/Option";
+import { ApiRole } from "../../../../../libs/api/api-role.enum";
+import { CustomBadRequestException } from "../../../../../libs/exceptions/custom-bad-request.exception";
+import { CustomNotFoundException } from "../../../../../libs/exceptions/custom-not-found.exception";
+import {
+  BATCH_REPOSITORY,
+  FARM_REPOSITORY,
+  TANK_REPOSITORY,
+  TREATMENT_REPOSITORY,
+} from "../../../aquaculture.tokens";
+import { FishBatch } from "../../domain/entities/FishBatch";
+import { WithdrawalPeriodException } from "../../domain/exceptions/WithdrawalPeriodException";
+import { IBatchRepository } from "../../domain/repositories/IBatchRepository";
+import { IFarmRepository } from "../../domain/repositories/IFarmRepository";
+import { ITankRepository } from "../../domain/repositories/ITankRepository";
+import { ITreatmentRepository } from "../../domain/repositories/ITreatmentRepository";
+import { assessWithdrawal } from "../../domain/services/TreatmentWithdrawal";
+import { WithdrawalStatus } from "../../domain/types/HealthTypes";
+import { WithdrawalOverrideDto } from "../dtos/HealthDto";
+
+/**
+ * Tells whether a batch's fish are still within the withdrawal period of a
+ * treatment and holds back harvests until they are clear. Fish keep the
+ * treatments given to the batches they were split or merged from.
+ */
+@Injectable()
+export class TreatmentWithdrawalService {
+  private readonly logger = new Logger(TreatmentWithdrawalService.name);
+
+  constructor(
+    @Inject(BATCH_REPOSITORY)
+    private readonly batchRepository: IBatchRepository,
+    @Inject(TANK_REPOSITORY)
+    private readonly tankRepository: ITankRepository,
+    @Inject(FARM_REPOSITORY)
+    private readonly farmRepository: IFarmRepository,
+    @Inject(TREATMENT_REPOSITORY)
+    private readonly treatmentRepository: ITreatmentRepository,
+  ) {}
+
+  async assess(
+    batch: FishBatch,
+    asOf: Date = new Date(),
+  ): Promise<WithdrawalStatus> {
+    const cutoffs = await this.treatedBefore(batch);
+    const treatments = (
+      await this.treatmentRepository.findByBatchIds([...cutoffs.keys()])
+    ).filter(
+      // A treatment started after `asOf` had not reached the fish yet
+      (treatment) =>
+        treatment.getStartedAt().getTime() <
+          cutoffs.get(treatment.getBatchId())! &&
+        treatment.getStartedAt().getTime() <= asOf.getTime(),
+    );
+    const batchId = batch.getId().toString();
+    if (treatments.length === 0) {
+      return assessWithdrawal({
+        batchId,
+        treatments,
+        readings: [],
+        profile: null,
+        asOf,
+      });
+    }
+
+    // Degree-days accrue in the tank the fish are in now
+    const tank = getOrThrowWith(
+      await this.tankRepository.findById(batch.getTankId()),
+      () => new CustomNotFoundException("Tank"),
+    );
+    const farm = getOrThrowWith(
+      await this.farmRepository.findById(tank.getFarmId()),
+      () => new CustomNotFoundException("Farm"),
+    );
+    const from = new Date(
+      Math.min(...treatments.map((t) => t.getStartedAt().getTime())),
+    );
+    return assessWithdrawal({
+      batchId,
+      treatments,
+      readings: await this.tankRepository.findWaterQualityHistory(
+        tank.getId().toString(),
+        from,
+        asOf,
+      ),
+      profile: farm.getTemperatureProfile(),
+      asOf,
+    });
+  }
+
+  // Refuses a harvest within a withdrawal period unless a manager overrides
+  // it, judging a backdated harvest on the day it took place
+  async assertHarvestable(
+    batch: FishBatch,
+    override: WithdrawalOverrideDto = {},
+    harvestedAt: Date = new Date(),
+  ): Promise<WithdrawalStatus> {
+    const status = await this.assess(batch, harvestedAt);
+    if (!status.inWithdrawal) return status;
+    if (!override.overrideWithdrawal) {
+      throw new WithdrawalPeriodException(status);
+    }
+    if (override.requestedBy?.role !== ApiRole.MANAGER) {
+      throw new ForbiddenException(
+        "Only a manager can harvest within a withdrawal period",
+      );
+    }
+    const reason = override.overrideReason?.trim();
+    if (!reason) {
+      throw new CustomBadRequestException(
+        "Give a reason for harvesting within a withdrawal period",
+      );
+    }
+    this.logger.warn(
+      `Batch ${status.batchId} harvested within its withdrawal period by ` +
+        `user ${override.requestedBy.userId}: ${reason}`,
+    );
+    return status;
+  }
+
+  // The batch and its ancestors, each with the time its treatments stop counting
+  private async treatedBefore(batch: FishBatch): Promise<Map<string, number>> {
+    const cutoffs = new Map([[batch.getId().toString(), Infinity]]);
+    if (batch.getParentBatchIds().length === 0) return cutoffs;
+
+    const lineage = new Map(
+      (await this.batchRepository.findLineage(batch.getId().toString())).map(
+        (member) => [member.getId().toString(), member],
+      ),
+    );
+    // A parent's later treatments never reached fish that had already left it
+    let frontier = [batch];
+    while (frontier.length > 0) {
+      const next: FishBatch[] = [];
+      for (const child of frontier) {
+        const leftAt = Math.min(
+          cutoffs.get(child.getId().toString())!,
+          child.getStockedDate().getTime(),
+        );
+        for (const parentId of child.getParentBatchIds()) {
+          const parent = lineage.get(parentId);
+          const known = cutoffs.get(parentId);
+          if (!parent || (known !== undefined && known >= leftAt)) continue;
+          cutoffs.set(parentId, leftAt);
+          next.push(parent);
+        }
+      }
+      frontier = next;
+    }
+    return cutoffs;
+  }
+}
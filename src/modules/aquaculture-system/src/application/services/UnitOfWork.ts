@@ -0,0 +1,7 @@
+/**
+ * Runs work against several repositories so that its writes are stored
+ * together or not at all.
+ */
+export interface IUnitOfWork {
+  run<T>(work: () => Promise<T>): Promise<T>;
+}
@@ -0,0 +1,5 @@
+export * from "./FeedingSchedulerService";
+export * from "./GrowthCurveService";
+export * from "./AttachmentStorage";
+export * from "./TreatmentWithdrawalService";
+export * from "./UnitOfWork";
@@ -0,0 +1,59 @@
+import { Inject, Injectable } from "@nestjs/common";
+import { getOrThrowWith } from "effect/Option";
+import { v4 } from "uuid";
+import { UseCase } from "../../../../../../libs/ddd/use-case.interface";
+import { CustomNotFoundException } from "../../../../../../libs/exceptions/custom-not-found.exception";
+import {
+  BATCH_REPOSITORY,
+  FISH_TYPE_REPOSITORY,
+  TANK_REPOSITORY,
+} from "../../../../aquaculture.tokens";
+import { FishBatch } from "../../../domain/entities/FishBatch";
+import { IBatchRepository } from "../../../domain/repositories/IBatchRepository";
+import { IFishTypeRepository } from "../../../domain/repositories/IFishTypeRepository";
+import { ITankRepository } from "../../../domain/repositories/ITankRepository";
+import { Weight } from "../../../domain/value-objects/Weight";
+import { CreateFishBatchDto } from "../../dtos/BatchDto";
+
+@Injectable()
+export class CreateFishBatchUseCase implements UseCase<
+  CreateFishBatchDto,
+  FishBatch
+> {
+  constructor(
+    @Inject(TANK_REPOSITORY)
+    private readonly tankRepository: ITankRepository,
+    @Inject(BATCH_REPOSITORY)
+    private readonly batchRepository: IBatchRepository,
+    @Inject(FISH_TYPE_REPOSITORY)
+    private readonly fishTypeRepository: IFishTypeRepository,
+  ) {}
+
+  async execute(input: CreateFishBatchDto): Promise<FishBatch> {
+    const tank = getOrThrowWith(
+      await this.tankRepository.findById(input.tankId),
+      () => new CustomNotFoundException("Tank"),
+    );
+    const fishTypes = new Map(
+      (await this.fishTypeRepository.findAll()).map((fishType) => [
+        fishType.getId().toString(),
+        fishType,
+      ]),
+    );
+    if (!fishTypes.has(input.fishTypeId)) {
+      throw new CustomNotFoundException("Fish type");
+    }
+    const batch = FishBatch.create({
+      id: v4(),
+      tankId: input.tankId,
+      fishTypeId: input.fishTypeId,
+      fishCount: input.fishCount,
+      initialWeight: Weight.fromGrams(input.initialWeightGrams),
+      stockedDate: input.stockedDate,
+    });
+    tank.addBatch(batch, fishTypes);
+    await this.batchRepository.save(batch);
+    await this.tankRepository.save(tank);
+    return batch;
+  }
+}
@@ -0,0 +1,32 @@
+import { Inject, Injectable } from "@nestjs/common";
+import { getOrThrowWith } from "effect/Option";
+import { UseCase } from "../../../../../../libs/ddd/use-case.interface";
+import { CustomNotFoundException } from "../../../../../../libs/exceptions/custom-not-found.exception";
+import { BATCH_REPOSITORY } from "../../../../aquaculture.tokens";
+import { IBatchRepository } from "../../../domain/repositories/IBatchRepository";
+import { GrowthModelType } from "../../../domain/types/Enums";
+import { GrowthCurveFit } from "../../../domain/types/GrowthModelTypes";
+import { GrowthCurveService } from "../../services/GrowthCurveService";
+
+@Injectable()
+export class FitBatchGrowthCurveUseCase implements UseCase<
+  { batchId: string; model: GrowthModelType },
+  GrowthCurveFit
+> {
+  constructor(
+    @Inject(BATCH_REPOSITORY)
+    private readonly batchRepository: IBatchRepository,
+    private readonly growthCurveService: GrowthCurveService,
+  ) {}
+
+  async execute(input: {
+    batchId: string;
+    model: GrowthModelType;
+  }): Promise<GrowthCurveFit> {
+    const batch = getOrThrowWith(
+      await this.batchRepository.findById(input.batchId),
+      () => new CustomNotFoundException("Batch"),
+    );
+    return (await this.growthCurveService.fitBatch(batch, input.model)).fit;
+  }
+}
@@ -0,0 +1,73 @@
+import { Inject, Injectable } from "@nestjs/common";
+import { fromNullable, getOrThrowWith } from "effect/Option";
+import { UseCase } from "../../../../../../libs/ddd/use-case.interface";
+import { CustomBadRequestException } from "../../../../../../libs/exceptions/custom-bad-request.exception";
+import { CustomNotFoundException } from "../../../../../../libs/exceptions/custom-not-found.exception";
+import {
+  BATCH_REPOSITORY,
+  FARM_REPOSITORY,
+  TANK_REPOSITORY,
+} from "../../../../aquaculture.tokens";
+import { IBatchRepository } from "../../../domain/repositories/IBatchRepository";
+import { IFarmRepository } from "../../../domain/repositories/IFarmRepository";
+import { ITankRepository } from "../../../domain/repositories/ITankRepository";
+import { forecastHarvestByDegreeDays } from "../../../domain/services/DegreeDayForecast";
+import { GrowthModelType } from "../../../domain/types/Enums";
+import { DegreeDayHarvestForecast } from "../../../domain/types/HarvestTypes";
+import { Weight } from "../../../domain/value-objects/Weight";
+import { ForecastHarvestDto } from "../../dtos/HarvestDto";
+import { GrowthCurveService } from "../../services/GrowthCurveService";
+
+@Injectable()
+export class ForecastHarvestByDegreeDaysUseCase implements UseCase<
+  ForecastHarvestDto,
+  DegreeDayHarvestForecast
+> {
+  constructor(
+    @Inject(BATCH_REPOSITORY)
+    private readonly batchRepository: IBatchRepository,
+    @Inject(TANK_REPOSITORY)
+    private readonly tankRepository: ITankRepository,
+    @Inject(FARM_REPOSITORY)
+    private readonly farmRepository: IFarmRepository,
+    private readonly growthCurveService: GrowthCurveService,
+  ) {}
+
+  async execute(input: ForecastHarvestDto): Promise<DegreeDayHarvestForecast> {
+    const batch = getOrThrowWith(
+      await this.batchRepository.findById(input.batchId),
+      () => new CustomNotFoundException("Batch"),
+    );
+    const tank = getOrThrowWith(
+      await this.tankRepository.findById(batch.getTankId()),
+      () => new CustomNotFoundException("Tank"),
+    );
+    const farm = getOrThrowWith(
+      await this.farmRepository.findById(tank.getFarmId()),
+      () => new CustomNotFoundException("Farm"),
+    );
+    const profile = getOrThrowWith(
+      fromNullable(farm.getTemperatureProfile()),
+      () =>
+        new CustomBadRequestException(
+          "Set the farm's seasonal temperature profile before forecasting",
+        ),
+    );
+
+    const { fit, readings } = await this.growthCurveService.fitBatch(
+      batch,
+      GrowthModelType.THERMAL_UNIT,
+    );
+    const latestGrowth = batch.getLatestGrowthRecord();
+    return forecastHarvestByDegreeDays({
+      fishCount: batch.getCurrentStats().fishCount,
+      lastWeight: batch.getCurrentStats().averageWeight,
+      lastWeighedAt: latestGrowth?.recordedAt ?? batch.getStockedDate(),
+      tgc: fit.parameters.tgc,
+      readings,
+      profile,
+      targetWeight: Weight.fromGrams(input.targetWeightGrams),
+      survivalRate: input.projectedSurvivalRate ?? 100,
+    });
+  }
+}
@@ -0,0 +1,25 @@
+import { Inject, Injectable } from "@nestjs/common";
+import { getOrThrowWith } from "effect/Option";
+import { UseCase } from "../../../../../../libs/ddd/use-case.interface";
+import { CustomNotFoundException } from "../../../../../../libs/exceptions/custom-not-found.exception";
+import { BATCH_REPOSITORY } from "../../../../aquaculture.tokens";
+import { FishBatch } from "../../../domain/entities/FishBatch";
+import { IBatchRepository } from "../../../domain/repositories/IBatchRepository";
+
+@Injectable()
+export class GetBatchDetailsUseCase implements UseCase<
+  { batchId: string },
+  FishBatch
+> {
+  constructor(
+    @Inject(BATCH_REPOSITORY)
+    private readonly batchRepository: IBatchRepository,
+  ) {}
+
+  async execute(input: { batchId: string }): Promise<FishBatch> {
+    return getOrThrowWith(
+      await this.batchRepository.findById(input.batchId),
+      () => new CustomNotFoundException("Batch"),
+    );
+  }
+}
@@ -0,0 +1,57 @@
+import { Inject, Injectable } from "@nestjs/common";
+import { getOrThrowWith } from "effect/Option";
+import { UseCase } from "../../../../../../libs/ddd/use-case.interface";
+import { CustomNotFoundException } from "../../../../../../libs/exceptions/custom-not-found.exception";
+import {
+  BATCH_REPOSITORY,
+  FEED_LOT_REPOSITORY,
+  FEED_PRODUCT_REPOSITORY,
+} from "../../../../aquaculture.tokens";
+import { FeedLot } from "../../../domain/entities/FeedLot";
+import { FeedProduct } from "../../../domain/entities/FeedProduct";
+import { IBatchRepository } from "../../../domain/repositories/IBatchRepository";
+import { IFeedLotRepository } from "../../../domain/repositories/IFeedLotRepository";
+import { IFeedProductRepository } from "../../../domain/repositories/IFeedProductRepository";
+import { traceFeedLots } from "../../../domain/services/FeedTrace";
+import { FeedTrace } from "../../../domain/types/FeedInventoryTypes";
+
+export interface BatchFeedTrace {
+  trace: FeedTrace;
+  feedLots: Map<string, FeedLot>;
+  feedProducts: Map<string, FeedProduct>;
+}
+
+@Injectable()
+export class GetBatchFeedTraceUseCase implements UseCase<
+  { batchId: string },
+  BatchFeedTrace
+> {
+  constructor(
+    @Inject(BATCH_REPOSITORY)
+    private readonly batchRepository: IBatchRepository,
+    @Inject(FEED_LOT_REPOSITORY)
+    private readonly feedLotRepository: IFeedLotRepository,
+    @Inject(FEED_PRODUCT_REPOSITORY)
+    private readonly feedProductRepository: IFeedProductRepository,
+  ) {}
+
+  async execute(input: { batchId: string }): Promise<BatchFeedTrace> {
+    const batch = getOrThrowWith(
+      await this.batchRepository.findById(input.batchId),
+      () => new CustomNotFoundException("Batch"),
+    );
+    const trace = traceFeedLots(input.batchId, batch.getFeedingHistory());
+
+    const feedLots = await this.feedLotRepository.findByIds(
+      trace.lots.map((usage) => usage.feedLotId),
+    );
+    const feedProducts = await this.feedProductRepository.findAll();
+    return {
+      trace,
+      feedLots: new Map(feedLots.map((lot) => [lot.getId().toString(), lot])),
+      feedProducts: new Map(
+        feedProducts.map((product) => [product.getId().toString(), product]),
+      ),
+    };
+  }
+}
@@ -0,0 +1,72 @@
+import { Inject, Injectable } from "@nestjs/common";
+import { getOrThrowWith } from "effect/Option";
+import { UseCase } from "../../../../../../libs/ddd/use-case.interface";
+import { CustomBadRequestException } from "../../../../../../libs/exceptions/custom-bad-request.exception";
+import { CustomNotFoundException } from "../../../../../../libs/exceptions/custom-not-found.exception";
+import {
+  BATCH_REPOSITORY,
+  FEEDING_PLAN_REPOSITORY,
+} from "../../../../aquaculture.tokens";
+import { IBatchRepository } from "../../../domain/repositories/IBatchRepository";
+import { IFeedingPlanRepository } from "../../../domain/repositories/IFeedingPlanRepository";
+import { compareFeedingWithPlan } from "../../../domain/services/FeedingDeviation";
+import { FeedingDeviation } from "../../../domain/types/FeedingTypes";
+import { MAX_FEEDING_DEVIATION_DAYS } from "../../../shared/constants/feedingConstants";
+import { addDays, toIsoDate } from "../../../shared/utils/dateHelpers";
+
+@Injectable()
+export class GetBatchFeedingDeviationUseCase implements UseCase<
+  { batchId: string; from?: string; to?: string },
+  FeedingDeviation[]
+> {
+  constructor(
+    @Inject(BATCH_REPOSITORY)
+    private readonly batchRepository: IBatchRepository,
+    @Inject(FEEDING_PLAN_REPOSITORY)
+    private readonly feedingPlanRepository: IFeedingPlanRepository,
+  ) {}
+
+  // One entry per day in [from, to]; both default to today
+  async execute(input: {
+    batchId: string;
+    from?: string;
+    to?: string;
+  }): Promise<FeedingDeviation[]> {
+    const to = input.to || toIsoDate(new Date());
+    const from = input.from || to;
+    if (from > to) {
+      throw new CustomBadRequestException("from must not be after to");
+    }
+    if (addDays(from, MAX_FEEDING_DEVIATION_DAYS) <= to) {
+      throw new CustomBadRequestException(
+        `Deviation can be reported for at most ${MAX_FEEDING_DEVIATION_DAYS} days`,
+      );
+    }
+
+    const batch = getOrThrowWith(
+      await this.batchRepository.findById(input.batchId),
+      () => new CustomNotFoundException("Batch"),
+    );
+    const plans = await this.feedingPlanRepository.findByBatchBetween(
+      input.batchId,
+      from,
+      to,
+    );
+
+    const deviations: FeedingDeviation[] = [];
+    for (let date = from; date <= to; date = addDays(date, 1)) {
+      const plan = plans.find((candidate) => candidate.getPlanDate() === date);
+      deviations.push(
+        compareFeedingWithPlan(
+          input.batchId,
+          date,
+          plan?.getBatch(input.batchId) ?? null,
+          batch
+            .getFeedingHistory()
+            .filter((record) => toIsoDate(record.feedDate) === date),
+        ),
+      );
+    }
+    return deviations;
+  }
+}
@@ -0,0 +1,32 @@
+import { Inject, Injectable } from "@nestjs/common";
+import { UseCase } from "../../../../../../libs/ddd/use-case.interface";
+import { CustomNotFoundException } from "../../../../../../libs/exceptions/custom-not-found.exception";
+import { BATCH_REPOSITORY } from "../../../../aquaculture.tokens";
+import { FishBatch } from "../../../domain/entities/FishBatch";
+import { IBatchRepository } from "../../../domain/repositories/IBatchRepository";
+import { calculateLineagePerformance } from "../../../domain/services/BatchTransfer";
+import { LineagePerformance } from "../../../domain/types/TransferTypes";
+
+export interface BatchLineage {
+  batches: FishBatch[];
+  performance: LineagePerformance;
+}
+
+@Injectable()
+export class GetBatchLineageUseCase implements UseCase<
+  { batchId: string },
+  BatchLineage
+> {
+  constructor(
+    @Inject(BATCH_REPOSITORY)
+    private readonly batchRepository: IBatchRepository,
+  ) {}
+
+  async execute(input: { batchId: string }): Promise<BatchLineage> {
+    const batches = await this.batchRepository.findLineage(input.batchId);
+    if (batches.length === 0) {
+      throw new CustomNotFoundException("Batch");
+    }
+    return { batches, performance: calculateLineagePerformance(batches) };
+  }
+}
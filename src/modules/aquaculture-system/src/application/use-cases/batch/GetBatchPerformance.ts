@@ -0,0 +1,88 @@
+import { Inject, Injectable } from "@nestjs/common";
+import { getOrThrowWith } from "effect/Option";
+import { UseCase } from "../../../../../../libs/ddd/use-case.interface";
+import { CustomNotFoundException } from "../../../../../../libs/exceptions/custom-not-found.exception";
+import { BATCH_REPOSITORY } from "../../../../aquaculture.tokens";
+import { FishBatch } from "../../../domain/entities/FishBatch";
+import { IBatchRepository } from "../../../domain/repositories/IBatchRepository";
+import { GrowthAnalysisService } from "../../../domain/services/GrowthAnalysisService";
+import { GrowthRecord } from "../../../domain/types/GrowthTypes";
+import { Weight } from "../../../domain/value-objects/Weight";
+
+export interface BatchPerformance {
+  batch: FishBatch;
+  totalFeed: Weight; // delivered
+  consumedFeed: Weight;
+  proteinConsumed: Weight;
+  unknownProteinFeed: Weight;
+  weightGain: Weight;
+  fcr: number | null;
+  per: number | null;
+  feedEfficiency: number | null;
+  latestGrowth: GrowthRecord | null;
+  bookSurvivalRate: number;
+  countedSurvivalRate: number | null;
+  unexplainedLoss: number;
+  lastCountedAt: Date | null;
+}
+
+@Injectable()
+export class GetBatchPerformanceUseCase implements UseCase<
+  { batchId: string },
+  BatchPerformance
+> {
+  private readonly growthAnalysis = new GrowthAnalysisService();
+
+  constructor(
+    @Inject(BATCH_REPOSITORY)
+    private readonly batchRepository: IBatchRepository,
+  ) {}
+
+  async execute(input: { batchId: string }): Promise<BatchPerformance> {
+    const batch = getOrThrowWith(
+      await this.batchRepository.findById(input.batchId),
+      () => new CustomNotFoundException("Batch"),
+    );
+
+    const intake = this.growthAnalysis.calculateProteinIntake(
+      batch.getFeedingHistory(),
+    );
+
+    const totalFeed = batch.getTotalFeedDelivered();
+    const consumedFeed = intake.feedConsumed;
+    const gainGrams =
+      batch.getTotalProduction().toGrams() -
+      batch.getInitialWeight().toGrams() * batch.getInitialCount();
+    const weightGain = Weight.fromGrams(Math.max(gainGrams, 0));
+    const counts = batch.getCountHistory();
+    const lastCount = counts.length > 0 ? counts[counts.length - 1] : null;
+    // The ratios are meaningless until the batch has both eaten and gained weight
+    const measurable = gainGrams > 0 && consumedFeed.toGrams() > 0;
+
+    return {
+      batch,
+      totalFeed,
+      consumedFeed,
+      proteinConsumed: intake.proteinConsumed,
+      unknownProteinFeed: intake.unknownProteinFeed,
+      weightGain,
+      fcr: measurable ? batch.calculateFCR(consumedFeed) : null,
+      // Leaving out feed of unknown protein would overstate PER
+      per:
+        measurable && intake.unknownProteinFeed.toGrams() === 0
+          ? this.growthAnalysis.calculatePER(weightGain, intake.proteinConsumed)
+          : null,
+      feedEfficiency: measurable
+        ? this.growthAnalysis.calculateFeedEfficiency(weightGain, consumedFeed)
+        : null,
+      latestGrowth: batch.getLatestGrowthRecord(),
+      // Counts catch losses recorded deaths miss, so both survivals are shown
+      bookSurvivalRate: batch.getBookSurvivalRate(),
+      countedSurvivalRate: lastCount
+        ? batch.getCurrentStats().survivalRate
+        : null,
+      unexplainedLoss: batch.getUnexplainedLoss(),
+      lastCountedAt: lastCount?.countedAt ?? null,
+    };
+  }
+}
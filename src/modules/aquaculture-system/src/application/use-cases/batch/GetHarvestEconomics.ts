@@ -0,0 +1,154 @@
+import { Inject, Injectable } from "@nestjs/common";
+import { fromNullable, getOrThrowWith } from "effect/Option";
+import { UseCase } from "../../../../../../libs/ddd/use-case.interface";
+import { CustomBadRequestException } from "../../../../../../libs/exceptions/custom-bad-request.exception";
+import { CustomNotFoundException } from "../../../../../../libs/exceptions/custom-not-found.exception";
+import {
+  BATCH_REPOSITORY,
+  FEED_PRODUCT_REPOSITORY,
+  MARKET_PRICE_REPOSITORY,
+} from "../../../../aquaculture.tokens";
+import { FishBatch } from "../../../domain/entities/FishBatch";
+import { IBatchRepository } from "../../../domain/repositories/IBatchRepository";
+import { IFeedProductRepository } from "../../../domain/repositories/IFeedProductRepository";
+import { IMarketPriceRepository } from "../../../domain/repositories/IMarketPriceRepository";
+import { calculateFeedSpend } from "../../../domain/services/FeedCost";
+import { HarvestPredictionService } from "../../../domain/services/HarvestPredictionService";
+import {
+  effectivePriceBook,
+  gradeHarvest,
+} from "../../../domain/services/PriceBook";
+import {
+  GradingBreakdown,
+  HarvestEconomics,
+  HarvestPrediction,
+} from "../../../domain/types/HarvestTypes";
+import { Weight } from "../../../domain/value-objects/Weight";
+import { DEFAULT_WEIGHT_CV } from "../../../shared/constants/growthConstants";
+import { GetHarvestEconomicsDto } from "../../dtos/HarvestDto";
+
+export interface BatchHarvestEconomics {
+  prediction: HarvestPrediction;
+  economics: HarvestEconomics;
+  grading: GradingBreakdown | null; // null without a price book for the fish type
+}
+
+@Injectable()
+export class GetHarvestEconomicsUseCase implements UseCase<
+  GetHarvestEconomicsDto,
+  BatchHarvestEconomics
+> {
+  private readonly harvestPrediction = new HarvestPredictionService();
+
+  constructor(
+    @Inject(BATCH_REPOSITORY)
+    private readonly batchRepository: IBatchRepository,
+    @Inject(FEED_PRODUCT_REPOSITORY)
+    private readonly feedProductRepository: IFeedProductRepository,
+    @Inject(MARKET_PRICE_REPOSITORY)
+    private readonly marketPriceRepository: IMarketPriceRepository,
+  ) {}
+
+  async execute(input: GetHarvestEconomicsDto): Promise<BatchHarvestEconomics> {
+    const batch = getOrThrowWith(
+      await this.batchRepository.findById(input.batchId),
+      () => new CustomNotFoundException("Batch"),
+    );
+    const latestGrowth = getOrThrowWith(
+      fromNullable(batch.getLatestGrowthRecord()),
+      () =>
+        new CustomBadRequestException(
+          "Record growth for the batch before predicting its harvest",
+        ),
+    );
+    const prediction = this.harvestPrediction.predictHarvest(
+      batch.getCurrentStats(),
+      Weight.fromGrams(input.targetWeightGrams),
+      latestGrowth.intervalSgr,
+      input.projectedSurvivalRate ?? 100,
+      batch.getInitialCount(),
+    );
+
+    // Prices in force on the harvest date, so booked price changes apply
+    const grades = effectivePriceBook(
+      await this.marketPriceRepository.findByFishType(batch.getFishTypeId()),
+      prediction.harvestDate,
+    );
+    const grading =
+      grades.length > 0
+        ? gradeHarvest(
+            grades,
+            prediction.targetWeight,
+            this.weightCv(batch),
+            prediction.expectedFinalCount,
+          )
+        : null;
+
+    const feedPricePerKg = await this.feedPrice(batch, input.feedPricePerKg);
+    const averageDailyFeed = Weight.fromGrams(
+      batch.getTotalFeedDelivered().toGrams() /
+        Math.max(batch.getDaysInCulture(), 1),
+    );
+    const otherCosts = input.otherCosts ?? 0;
+
+    if (input.marketPricePerKg !== undefined) {
+      return {
+        prediction,
+        grading,
+        economics: this.harvestPrediction.calculateHarvestEconomics(
+          prediction,
+          averageDailyFeed,
+          feedPricePerKg,
+          input.marketPricePerKg,
+          otherCosts,
+        ),
+      };
+    }
+    if (!grading) {
+      throw new CustomBadRequestException(
+        "The fish type has no market prices; record some or give a market price",
+      );
+    }
+    return {
+      prediction,
+      grading,
+      economics: this.harvestPrediction.calculateGradedHarvestEconomics(
+        prediction,
+        grading,
+        averageDailyFeed,
+        feedPricePerKg,
+        otherCosts,
+      ),
+    };
+  }
+
+  // The most recent weighed sample's spread
+  private weightCv(batch: FishBatch): number {
+    const sampled = [...batch.getGrowthHistory()]
+      .reverse()
+      .find((record) => record.sample !== null);
+    return sampled?.sample?.weightCv ?? DEFAULT_WEIGHT_CV;
+  }
+
+  private async feedPrice(
+    batch: FishBatch,
+    explicitPrice: number | undefined,
+  ): Promise<number> {
+    if (explicitPrice !== undefined) return explicitPrice;
+    const spend = calculateFeedSpend(
+      batch.getFeedingHistory(),
+      new Map(
+        (await this.feedProductRepository.findAll()).map((product) => [
+          product.getId().toString(),
+          product.getPricePerKg(),
+        ]),
+      ),
+    );
+    if (spend.pricedFeed.toGrams() === 0) {
+      throw new CustomBadRequestException(
+        "The batch was fed no priced product; give a feed price",
+      );
+    }
+    return spend.spend / spend.pricedFeed.toKilograms();
+  }
+}
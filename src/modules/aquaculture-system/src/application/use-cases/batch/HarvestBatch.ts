@@ -0,0 +1,61 @@
+import { Inject, Injectable } from "@nestjs/common";
+import { getOrThrowWith } from "effect/Option";
+import { UseCase } from "../../../../../../libs/ddd/use-case.interface";
+import { CustomNotFoundException } from "../../../../../../libs/exceptions/custom-not-found.exception";
+import {
+  BATCH_REPOSITORY,
+  TANK_REPOSITORY,
+} from "../../../../aquaculture.tokens";
+import { FishBatch } from "../../../domain/entities/FishBatch";
+import { IBatchRepository } from "../../../domain/repositories/IBatchRepository";
+import { ITankRepository } from "../../../domain/repositories/ITankRepository";
+import { UNGRADED_HARVEST_GRADE } from "../../../shared/constants/growthConstants";
+import { WithdrawalOverrideDto } from "../../dtos/HealthDto";
+import { TreatmentWithdrawalService } from "../../services/TreatmentWithdrawalService";
+
+/**
+ * Closes a batch by harvesting every fish left in it as a single ungraded
+ * lot, so the harvest shows in its history like any other.
+ */
+@Injectable()
+export class HarvestBatchUseCase implements UseCase<
+  { batchId: string } & WithdrawalOverrideDto,
+  FishBatch
+> {
+  constructor(
+    @Inject(BATCH_REPOSITORY)
+    private readonly batchRepository: IBatchRepository,
+    @Inject(TANK_REPOSITORY)
+    private readonly tankRepository: ITankRepository,
+    private readonly treatmentWithdrawalService: TreatmentWithdrawalService,
+  ) {}
+
+  async execute(
+    input: { batchId: string } & WithdrawalOverrideDto,
+  ): Promise<FishBatch> {
+    const batch = getOrThrowWith(
+      await this.batchRepository.findById(input.batchId),
+      () => new CustomNotFoundException("Batch"),
+    );
+    const tank = getOrThrowWith(
+      await this.tankRepository.findById(batch.getTankId()),
+      () => new CustomNotFoundException("Tank"),
+    );
+    await this.treatmentWithdrawalService.assertHarvestable(batch, input);
+    const stats = batch.getCurrentStats();
+    batch.recordHarvest({
+      grades: [
+        {
+          grade: UNGRADED_HARVEST_GRADE,
+          fishCount: stats.fishCount,
+          biomass: stats.getTotalBiomass(),
+        },
+      ],
+    });
+    // A harvested batch no longer occupies the tank
+    tank.removeBatch(batch.getId().toString());
+    await this.batchRepository.save(batch);
+    await this.tankRepository.save(tank);
+    return batch;
+  }
+}
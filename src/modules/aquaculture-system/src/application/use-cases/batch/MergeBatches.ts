@@ -0,0 +1,88 @@
+import { Inject, Injectable } from "@nestjs/common";
+import { getOrThrowWith } from "effect/Option";
+import { v4 } from "uuid";
+import { UseCase } from "../../../../../../libs/ddd/use-case.interface";
+import { CustomNotFoundException } from "../../../../../../libs/exceptions/custom-not-found.exception";
+import {
+  BATCH_REPOSITORY,
+  FISH_TYPE_REPOSITORY,
+  TANK_REPOSITORY,
+} from "../../../../aquaculture.tokens";
+import { FishBatch } from "../../../domain/entities/FishBatch";
+import { Tank } from "../../../domain/entities/Tank";
+import { IBatchRepository } from "../../../domain/repositories/IBatchRepository";
+import { IFishTypeRepository } from "../../../domain/repositories/IFishTypeRepository";
+import { ITankRepository } from "../../../domain/repositories/ITankRepository";
+import { mergeBatches } from "../../../domain/services/BatchTransfer";
+import { MergeBatchesDto } from "../../dtos/BatchDto";
+import { BatchTransferResult } from "./TransferBatch";
+
+@Injectable()
+export class MergeBatchesUseCase implements UseCase<
+  MergeBatchesDto,
+  BatchTransferResult
+> {
+  constructor(
+    @Inject(BATCH_REPOSITORY)
+    private readonly batchRepository: IBatchRepository,
+    @Inject(TANK_REPOSITORY)
+    private readonly tankRepository: ITankRepository,
+    @Inject(FISH_TYPE_REPOSITORY)
+    private readonly fishTypeRepository: IFishTypeRepository,
+  ) {}
+
+  async execute(input: MergeBatchesDto): Promise<BatchTransferResult> {
+    const sources: FishBatch[] = [];
+    for (const batchId of input.batchIds) {
+      sources.push(
+        getOrThrowWith(
+          await this.batchRepository.findById(batchId),
+          () => new CustomNotFoundException("Batch"),
+        ),
+      );
+    }
+    const destination = getOrThrowWith(
+      await this.tankRepository.findById(input.toTankId),
+      () => new CustomNotFoundException("Tank"),
+    );
+
+    const child = mergeBatches(sources, {
+      childId: v4(),
+      toTankId: input.toTankId,
+      mergedAt: input.mergedAt,
+    });
+
+    // The merged batches give up their places in their tanks first, so a
+    // merge within the destination does not count their fish twice
+    const tanks = new Map<string, Tank>([[input.toTankId, destination]]);
+    for (const source of sources) {
+      let tank = tanks.get(source.getTankId());
+      if (!tank) {
+        tank = getOrThrowWith(
+          await this.tankRepository.findById(source.getTankId()),
+          () => new CustomNotFoundException("Tank"),
+        );
+        tanks.set(source.getTankId(), tank);
+      }
+      tank.removeBatch(source.getId().toString());
+    }
+
+    // The destination must have room for the fish moving in
+    const fishTypes = await this.fishTypeRepository.findAll();
+    destination.addBatch(
+      child,
+      new Map(
+        fishTypes.map((fishType) => [fishType.getId().toString(), fishType]),
+      ),
+    );
+
+    await this.batchRepository.save(child);
+    for (const source of sources) {
+      await this.batchRepository.save(source);
+    }
+    for (const tank of tanks.values()) {
+      await this.tankRepository.save(tank);
+    }
+    return { sources, child };
+  }
+}
@@ -0,0 +1,140 @@
+import { Inject, Injectable } from "@nestjs/common";
+import { fromNullable, getOrThrowWith } from "effect/Option";
+import { UseCase } from "../../../../../../libs/ddd/use-case.interface";
+import { CustomBadRequestException } from "../../../../../../libs/exceptions/custom-bad-request.exception";
+import { CustomNotFoundException } from "../../../../../../libs/exceptions/custom-not-found.exception";
+import {
+  BATCH_REPOSITORY,
+  FEED_PRODUCT_REPOSITORY,
+  MARKET_PRICE_REPOSITORY,
+} from "../../../../aquaculture.tokens";
+import { FishBatch } from "../../../domain/entities/FishBatch";
+import { IBatchRepository } from "../../../domain/repositories/IBatchRepository";
+import { IFeedProductRepository } from "../../../domain/repositories/IFeedProductRepository";
+import { IMarketPriceRepository } from "../../../domain/repositories/IMarketPriceRepository";
+import { calculateFeedSpend } from "../../../domain/services/FeedCost";
+import {
+  harvestedRevenue,
+  optimizeHarvestTiming,
+} from "../../../domain/services/HarvestTimingOptimizer";
+import {
+  effectivePriceBook,
+  priceCurveFromGrades,
+} from "../../../domain/services/PriceBook";
+import {
+  HarvestTimingOptimization,
+  PriceCurvePoint,
+} from "../../../domain/types/HarvestTypes";
+import { DEFAULT_HARVEST_TIMING_HORIZON_DAYS } from "../../../shared/constants/growthConstants";
+import { OptimizeHarvestTimingDto } from "../../dtos/HarvestDto";
+
+@Injectable()
+export class OptimizeHarvestTimingUseCase implements UseCase<
+  OptimizeHarvestTimingDto,
+  HarvestTimingOptimization
+> {
+  constructor(
+    @Inject(BATCH_REPOSITORY)
+    private readonly batchRepository: IBatchRepository,
+    @Inject(FEED_PRODUCT_REPOSITORY)
+    private readonly feedProductRepository: IFeedProductRepository,
+    @Inject(MARKET_PRICE_REPOSITORY)
+    private readonly marketPriceRepository: IMarketPriceRepository,
+  ) {}
+
+  async execute(
+    input: OptimizeHarvestTimingDto,
+  ): Promise<HarvestTimingOptimization> {
+    const batch = getOrThrowWith(
+      await this.batchRepository.findById(input.batchId),
+      () => new CustomNotFoundException("Batch"),
+    );
+    const latestGrowth = getOrThrowWith(
+      fromNullable(batch.getLatestGrowthRecord()),
+      () =>
+        new CustomBadRequestException(
+          "Record growth for the batch before optimizing its harvest",
+        ),
+    );
+
+    const delivered = batch.getTotalFeedDelivered();
+    const stats = batch.getCurrentStats();
+    const gainKg =
+      batch.getTotalProduction().toKilograms() -
+      batch.getInitialWeight().toKilograms() * batch.getInitialCount();
+    if (gainKg <= 0 || delivered.toGrams() <= 0) {
+      throw new CustomBadRequestException(
+        "The batch needs recorded feedings and weight gain for an FCR",
+      );
+    }
+    const { feedSpent, feedPricePerKg } = await this.priceFeed(
+      batch,
+      input.feedPricePerKg,
+    );
+
+    const priceCurve = input.priceCurve ?? (await this.bookedPriceCurve(batch));
+    const days = batch.getDaysInCulture();
+    return optimizeHarvestTiming({
+      currentStats: stats,
+      daysInCulture: days,
+      sgr: latestGrowth.intervalSgr,
+      // On delivered feed, since uneaten feed is paid for too
+      fcr: batch.calculateFCR(delivered),
+      // Survival rate, so fish harvested so far don't read as losses
+      dailyMortalityRate:
+        days > 0 ? 1 - Math.pow(stats.survivalRate / 100, 1 / days) : 0,
+      feedPricePerKg,
+      dailyFixedCost: input.dailyFixedCost,
+      sunkCost: feedSpent + (input.otherSunkCost ?? 0),
+      // The sunk feed also grew the fish already sold
+      harvestedRevenue: harvestedRevenue(batch.getHarvestHistory(), priceCurve),
+      priceCurve,
+      horizonDays: input.horizonDays ?? DEFAULT_HARVEST_TIMING_HORIZON_DAYS,
+    });
+  }
+
+  private async bookedPriceCurve(batch: FishBatch): Promise<PriceCurvePoint[]> {
+    const grades = effectivePriceBook(
+      await this.marketPriceRepository.findByFishType(batch.getFishTypeId()),
+      new Date(),
+    );
+    if (grades.length === 0) {
+      throw new CustomBadRequestException(
+        "The fish type has no market prices; record some or give a price curve",
+      );
+    }
+    return priceCurveFromGrades(grades);
+  }
+
+  /**
+   * Feed bought so far at each product's list price. Without an explicit
+   * price, future feed costs the delivery-weighted average of those.
+   */
+  private async priceFeed(
+    batch: FishBatch,
+    explicitPrice: number | undefined,
+  ): Promise<{ feedSpent: number; feedPricePerKg: number }> {
+    const spend = calculateFeedSpend(
+      batch.getFeedingHistory(),
+      new Map(
+        (await this.feedProductRepository.findAll()).map((product) => [
+          product.getId().toString(),
+          product.getPricePerKg(),
+        ]),
+      ),
+    );
+    const pricedKg = spend.pricedFeed.toKilograms();
+    const feedPricePerKg =
+      explicitPrice ?? (pricedKg > 0 ? spend.spend / pricedKg : null);
+    if (feedPricePerKg === null) {
+      throw new CustomBadRequestException(
+        "The batch was fed no priced product; give a feed price",
+      );
+    }
+    return {
+      feedSpent:
+        spend.spend + spend.unpricedFeed.toKilograms() * feedPricePerKg,
+      feedPricePerKg,
+    };
+  }
+}
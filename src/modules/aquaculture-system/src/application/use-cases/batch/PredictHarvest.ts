@@ -0,0 +1,80 @@
+import { Inject, Injectable } from "@nestjs/common";
+import { fromNullable, getOrThrowWith } from "effect/Option";
+import { UseCase } from "../../../../../../libs/ddd/use-case.interface";
+import { CustomBadRequestException } from "../../../../../../libs/exceptions/custom-bad-request.exception";
+import { CustomNotFoundException } from "../../../../../../libs/exceptions/custom-not-found.exception";
+import { BATCH_REPOSITORY } from "../../../../aquaculture.tokens";
+import { IBatchRepository } from "../../../domain/repositories/IBatchRepository";
+import { HarvestPredictionService } from "../../../domain/services/HarvestPredictionService";
+import {
+  GrowthModelType,
+  HarvestProjectionMethod,
+} from "../../../domain/types/Enums";
+import { HarvestPrediction } from "../../../domain/types/HarvestTypes";
+import { Weight } from "../../../domain/value-objects/Weight";
+import { PredictHarvestDto } from "../../dtos/HarvestDto";
+import { GrowthCurveService } from "../../services/GrowthCurveService";
+
+@Injectable()
+export class PredictHarvestUseCase implements UseCase<
+  PredictHarvestDto,
+  HarvestPrediction
+> {
+  private readonly harvestPrediction = new HarvestPredictionService();
+
+  constructor(
+    @Inject(BATCH_REPOSITORY)
+    private readonly batchRepository: IBatchRepository,
+    private readonly growthCurveService: GrowthCurveService,
+  ) {}
+
+  async execute(input: PredictHarvestDto): Promise<HarvestPrediction> {
+    const batch = getOrThrowWith(
+      await this.batchRepository.findById(input.batchId),
+      () => new CustomNotFoundException("Batch"),
+    );
+    const targetWeight = Weight.fromGrams(input.targetWeightGrams);
+    // Losses so far are already in the fish count; this covers the rest
+    const survivalRate = input.projectedSurvivalRate ?? 100;
+
+    if (input.method === HarvestProjectionMethod.FITTED_CURVE) {
+      const { model, fit, recentTemperature } =
+        await this.growthCurveService.fitBatch(
+          batch,
+          input.model ?? GrowthModelType.VON_BERTALANFFY,
+        );
+      if (
+        recentTemperature === null &&
+        model.type === GrowthModelType.THERMAL_UNIT
+      ) {
+        throw new CustomBadRequestException(
+          "Thermal-unit projection needs a recent water temperature reading",
+        );
+      }
+      return this.harvestPrediction.predictHarvestFromCurve(
+        batch.getCurrentStats(),
+        targetWeight,
+        model,
+        fit,
+        // The von Bertalanffy curve is not temperature-driven
+        recentTemperature ?? 0,
+        survivalRate,
+      );
+    }
+
+    const latestGrowth = getOrThrowWith(
+      fromNullable(batch.getLatestGrowthRecord()),
+      () =>
+        new CustomBadRequestException(
+          "Record growth for the batch before predicting its harvest",
+        ),
+    );
+    return this.harvestPrediction.predictHarvest(
+      batch.getCurrentStats(),
+      targetWeight,
+      latestGrowth.intervalSgr,
+      survivalRate,
+      batch.getInitialCount(),
+    );
+  }
+}
@@ -0,0 +1,55 @@
+import { Inject, Injectable } from "@nestjs/common";
+import { getOrThrowWith } from "effect/Option";
+import { UseCase } from "../../../../../../libs/ddd/use-case.interface";
+import { CustomNotFoundException } from "../../../../../../libs/exceptions/custom-not-found.exception";
+import {
+  BATCH_REPOSITORY,
+  TANK_REPOSITORY,
+} from "../../../../aquaculture.tokens";
+import { FishBatch } from "../../../domain/entities/FishBatch";
+import { IBatchRepository } from "../../../domain/repositories/IBatchRepository";
+import { ITankRepository } from "../../../domain/repositories/ITankRepository";
+import { CountReconciliation } from "../../../domain/types/CountTypes";
+import { BatchStatus } from "../../../domain/types/Enums";
+import { RecordFishCountDto } from "../../dtos/BatchDto";
+
+export interface RecordedCount {
+  batch: FishBatch;
+  count: CountReconciliation;
+}
+
+@Injectable()
+export class ReconcileFishCountUseCase implements UseCase<
+  RecordFishCountDto,
+  RecordedCount
+> {
+  constructor(
+    @Inject(BATCH_REPOSITORY)
+    private readonly batchRepository: IBatchRepository,
+    @Inject(TANK_REPOSITORY)
+    private readonly tankRepository: ITankRepository,
+  ) {}
+
+  async execute(input: RecordFishCountDto): Promise<RecordedCount> {
+    const batch = getOrThrowWith(
+      await this.batchRepository.findById(input.batchId),
+      () => new CustomNotFoundException("Batch"),
+    );
+    const count = batch.reconcileCount(input.countedCount, {
+      countedAt: input.countedAt,
+      notes: input.notes,
+    });
+    await this.batchRepository.save(batch);
+
+    // A batch counted empty is lost and no longer occupies the tank
+    if (batch.getStatus() === BatchStatus.LOST) {
+      const tank = getOrThrowWith(
+        await this.tankRepository.findById(batch.getTankId()),
+        () => new CustomNotFoundException("Tank"),
+      );
+      tank.removeBatch(batch.getId().toString());
+      await this.tankRepository.save(tank);
+    }
+    return { batch, count };
+  }
+}
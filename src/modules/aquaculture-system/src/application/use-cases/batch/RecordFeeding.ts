@@ -0,0 +1,145 @@
+import { Inject, Injectable } from "@nestjs/common";
+import { EventEmitter2 } from "@nestjs/event-emitter";
+import { fromNullable, getOrThrowWith } from "effect/Option";
+import { v4 } from "uuid";
+import { UseCase } from "../../../../../../libs/ddd/use-case.interface";
+import { CustomBadRequestException } from "../../../../../../libs/exceptions/custom-bad-request.exception";
+import { CustomNotFoundException } from "../../../../../../libs/exceptions/custom-not-found.exception";
+import {
+  BATCH_REPOSITORY,
+  FEED_LOT_REPOSITORY,
+  FEED_PRODUCT_REPOSITORY,
+  FEED_STOCK_REPOSITORY,
+  TANK_REPOSITORY,
+  UNIT_OF_WORK,
+} from "../../../../aquaculture.tokens";
+import { FeedingRecordedEvent } from "../../../domain/events/FeedingRecorded";
+import { IBatchRepository } from "../../../domain/repositories/IBatchRepository";
+import { IFeedLotRepository } from "../../../domain/repositories/IFeedLotRepository";
+import { IFeedProductRepository } from "../../../domain/repositories/IFeedProductRepository";
+import { IFeedStockRepository } from "../../../domain/repositories/IFeedStockRepository";
+import { ITankRepository } from "../../../domain/repositories/ITankRepository";
+import { createFeedStockMovement } from "../../../domain/services/FeedStock";
+import { consumedFeed } from "../../../domain/services/FeedingDeviation";
+import { FeedStockMovementType } from "../../../domain/types/Enums";
+import { FeedingRecord } from "../../../domain/types/FeedingTypes";
+import { Weight } from "../../../domain/value-objects/Weight";
+import { RecordFeedingDto } from "../../dtos/FeedingDto";
+import { IUnitOfWork } from "../../services/UnitOfWork";
+
+/**
+ * Records a feeding and takes the fed product out of the farm's feed store
+ * in the same transaction, so the store never drifts from the feedings.
+ * Everything delivered leaves the store, uneaten feed included; feedings
+ * recorded without a product cannot be deducted.
+ */
+@Injectable()
+export class RecordFeedingUseCase implements UseCase<
+  RecordFeedingDto,
+  FeedingRecord
+> {
+  constructor(
+    @Inject(BATCH_REPOSITORY)
+    private readonly batchRepository: IBatchRepository,
+    @Inject(TANK_REPOSITORY)
+    private readonly tankRepository: ITankRepository,
+    @Inject(FEED_PRODUCT_REPOSITORY)
+    private readonly feedProductRepository: IFeedProductRepository,
+    @Inject(FEED_LOT_REPOSITORY)
+    private readonly feedLotRepository: IFeedLotRepository,
+    @Inject(FEED_STOCK_REPOSITORY)
+    private readonly feedStockRepository: IFeedStockRepository,
+    @Inject(UNIT_OF_WORK)
+    private readonly unitOfWork: IUnitOfWork,
+    private readonly eventEmitter: EventEmitter2,
+  ) {}
+
+  async execute(input: RecordFeedingDto): Promise<FeedingRecord> {
+    const batch = getOrThrowWith(
+      await this.batchRepository.findById(input.batchId),
+      () => new CustomNotFoundException("Batch"),
+    );
+    const tank = getOrThrowWith(
+      await this.tankRepository.findById(batch.getTankId()),
+      () => new CustomNotFoundException("Tank"),
+    );
+    // Every feeding keeps a snapshot of the water it was delivered in
+    const waterQuality = getOrThrowWith(
+      fromNullable(tank.getWaterQuality()),
+      () =>
+        new CustomBadRequestException(
+          "Record water quality for the tank before feeding",
+        ),
+    );
+    let feedProductId = input.feedProductId;
+    if (input.feedLotId) {
+      const feedLot = getOrThrowWith(
+        await this.feedLotRepository.findById(input.feedLotId),
+        () => new CustomNotFoundException("Feed lot"),
+      );
+      if (feedProductId && feedProductId !== feedLot.getFeedProductId()) {
+        throw new CustomBadRequestException(
+          "Feed lot belongs to a different feed product",
+        );
+      }
+      feedLot.assertUsableOn(input.fedAt || new Date());
+      // The lot already identifies the product it was made from
+      feedProductId = feedLot.getFeedProductId();
+    }
+    // The feeding keeps the product's protein content as it is today
+    const feedProduct = feedProductId
+      ? getOrThrowWith(
+          await this.feedProductRepository.findById(feedProductId),
+          () => new CustomNotFoundException("Feed product"),
+        )
+      : null;
+    const record = batch.recordFeeding(
+      Weight.fromKilograms(input.feedAmountKg),
+      input.mealsPerDay,
+      waterQuality,
+      {
+        mealNumber: input.mealNumber,
+        feedProductId,
+        feedLotId: input.feedLotId,
+        proteinPercent: feedProduct?.getProteinPercent(),
+        uneatenPercent: input.uneatenPercent,
+        fedAt: input.fedAt,
+      },
+    );
+    await this.unitOfWork.run(async () => {
+      await this.batchRepository.save(batch);
+      if (!record.feedProductId) return;
+      await this.feedStockRepository.save(
+        createFeedStockMovement({
+          id: v4(),
+          farmId: tank.getFarmId(),
+          feedProductId: record.feedProductId,
+          feedLotId: record.feedLotId,
+          type: FeedStockMovementType.CONSUMPTION,
+          quantity: record.feedAmount,
+          occurredAt: record.feedDate,
+          unitPricePerKg: null,
+          batchId: input.batchId,
+          reference: null,
+        }),
+      );
+    });
+
+    this.eventEmitter.emit(
+      "feeding.recorded",
+      new FeedingRecordedEvent({
+        batchId: input.batchId,
+        tankId: tank.getId().toString(),
+        farmId: tank.getFarmId(),
+        feedDate: record.feedDate,
+        feedAmountGrams: record.feedAmount.toGrams(),
+        consumedGrams: consumedFeed(record).toGrams(),
+        uneatenPercent: record.uneatenPercent,
+        mealNumber: record.mealNumber,
+        feedProductId: record.feedProductId,
+        feedLotId: record.feedLotId,
+      }),
+    );
+    return record;
+  }
+}
@@ -0,0 +1,33 @@
+import { Inject, Injectable } from "@nestjs/common";
+import { getOrThrowWith } from "effect/Option";
+import { UseCase } from "../../../../../../libs/ddd/use-case.interface";
+import { CustomNotFoundException } from "../../../../../../libs/exceptions/custom-not-found.exception";
+import { BATCH_REPOSITORY } from "../../../../aquaculture.tokens";
+import { IBatchRepository } from "../../../domain/repositories/IBatchRepository";
+import { GrowthRecord } from "../../../domain/types/GrowthTypes";
+import { Weight } from "../../../domain/value-objects/Weight";
+import { RecordGrowthDto } from "../../dtos/GrowthDto";
+
+@Injectable()
+export class RecordGrowthUseCase implements UseCase<
+  RecordGrowthDto,
+  GrowthRecord
+> {
+  constructor(
+    @Inject(BATCH_REPOSITORY)
+    private readonly batchRepository: IBatchRepository,
+  ) {}
+
+  async execute(input: RecordGrowthDto): Promise<GrowthRecord> {
+    const batch = getOrThrowWith(
+      await this.batchRepository.findById(input.batchId),
+      () => new CustomNotFoundException("Batch"),
+    );
+    const record = batch.recordGrowth(
+      Weight.fromGrams(input.averageWeightGrams),
+      input.sampledAt,
+    );
+    await this.batchRepository.save(batch);
+    return record;
+  }
+}
@@ -0,0 +1,41 @@
+import { Inject, Injectable } from "@nestjs/common";
+import { getOrThrowWith } from "effect/Option";
+import { UseCase } from "../../../../../../libs/ddd/use-case.interface";
+import { CustomNotFoundException } from "../../../../../../libs/exceptions/custom-not-found.exception";
+import { BATCH_REPOSITORY } from "../../../../aquaculture.tokens";
+import { IBatchRepository } from "../../../domain/repositories/IBatchRepository";
+import { GrowthAnalysisService } from "../../../domain/services/GrowthAnalysisService";
+import { GrowthRecord } from "../../../domain/types/GrowthTypes";
+import { Weight } from "../../../domain/value-objects/Weight";
+import { RecordGrowthSampleDto } from "../../dtos/GrowthDto";
+
+@Injectable()
+export class RecordGrowthSampleUseCase implements UseCase<
+  RecordGrowthSampleDto,
+  GrowthRecord
+> {
+  private readonly growthAnalysis = new GrowthAnalysisService();
+
+  constructor(
+    @Inject(BATCH_REPOSITORY)
+    private readonly batchRepository: IBatchRepository,
+  ) {}
+
+  async execute(input: RecordGrowthSampleDto): Promise<GrowthRecord> {
+    const batch = getOrThrowWith(
+      await this.batchRepository.findById(input.batchId),
+      () => new CustomNotFoundException("Batch"),
+    );
+    const record = batch.recordGrowthSample(
+      this.growthAnalysis.summarizeSample(
+        input.fish.map((fish) => ({
+          weight: Weight.fromGrams(fish.weightGrams),
+          lengthCm: fish.lengthCm,
+        })),
+      ),
+      input.sampledAt,
+    );
+    await this.batchRepository.save(batch);
+    return record;
+  }
+}
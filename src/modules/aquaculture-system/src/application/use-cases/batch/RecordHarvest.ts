@@ -0,0 +1,67 @@
+import { Inject, Injectable } from "@nestjs/common";
+import { getOrThrowWith } from "effect/Option";
+import { UseCase } from "../../../../../../libs/ddd/use-case.interface";
+import { CustomNotFoundException } from "../../../../../../libs/exceptions/custom-not-found.exception";
+import {
+  BATCH_REPOSITORY,
+  TANK_REPOSITORY,
+} from "../../../../aquaculture.tokens";
+import { FishBatch } from "../../../domain/entities/FishBatch";
+import { IBatchRepository } from "../../../domain/repositories/IBatchRepository";
+import { ITankRepository } from "../../../domain/repositories/ITankRepository";
+import { HarvestEvent } from "../../../domain/types/HarvestTypes";
+import { Weight } from "../../../domain/value-objects/Weight";
+import { RecordHarvestDto } from "../../dtos/HarvestDto";
+import { TreatmentWithdrawalService } from "../../services/TreatmentWithdrawalService";
+
+export interface RecordedHarvest {
+  batch: FishBatch;
+  harvest: HarvestEvent;
+}
+
+@Injectable()
+export class RecordHarvestUseCase implements UseCase<
+  RecordHarvestDto,
+  RecordedHarvest
+> {
+  constructor(
+    @Inject(BATCH_REPOSITORY)
+    private readonly batchRepository: IBatchRepository,
+    @Inject(TANK_REPOSITORY)
+    private readonly tankRepository: ITankRepository,
+    private readonly treatmentWithdrawalService: TreatmentWithdrawalService,
+  ) {}
+
+  async execute(input: RecordHarvestDto): Promise<RecordedHarvest> {
+    const batch = getOrThrowWith(
+      await this.batchRepository.findById(input.batchId),
+      () => new CustomNotFoundException("Batch"),
+    );
+    await this.treatmentWithdrawalService.assertHarvestable(
+      batch,
+      input,
+      input.harvestedAt,
+    );
+    const harvest = batch.recordHarvest({
+      grades: input.grades.map((grade) => ({
+        grade: grade.grade,
+        fishCount: grade.fishCount,
+        biomass: Weight.fromKilograms(grade.biomassKg),
+      })),
+      buyer: input.buyer,
+      harvestedAt: input.harvestedAt,
+    });
+    await this.batchRepository.save(batch);
+
+    // Taking the last fish closes the batch and frees the tank
+    if (harvest.closedBatch) {
+      const tank = getOrThrowWith(
+        await this.tankRepository.findById(batch.getTankId()),
+        () => new CustomNotFoundException("Tank"),
+      );
+      tank.removeBatch(batch.getId().toString());
+      await this.tankRepository.save(tank);
+    }
+    return { batch, harvest };
+  }
+}
@@ -0,0 +1,161 @@
+import { Inject, Injectable } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { EventEmitter2 } from "@nestjs/event-emitter";
+import { getOrThrowWith } from "effect/Option";
+import { MASS_MORTALITY_PERCENT } from "../../../../../../config/env/configuration.constant";
+import { UseCase } from "../../../../../../libs/ddd/use-case.interface";
+import { CustomBadRequestException } from "../../../../../../libs/exceptions/custom-bad-request.exception";
+import { CustomNotFoundException } from "../../../../../../libs/exceptions/custom-not-found.exception";
+import {
+  ATTACHMENT_STORAGE,
+  BATCH_REPOSITORY,
+  TANK_REPOSITORY,
+} from "../../../../aquaculture.tokens";
+import { FishBatch } from "../../../domain/entities/FishBatch";
+import { MortalityRecordedEvent } from "../../../domain/events/MortalityRecorded";
+import { IBatchRepository } from "../../../domain/repositories/IBatchRepository";
+import { ITankRepository } from "../../../domain/repositories/ITankRepository";
+import { detectMassMortality } from "../../../domain/services/MortalityReport";
+import {
+  MortalityAlert,
+  MortalityAttachment,
+  MortalityEvent,
+} from "../../../domain/types/MortalityTypes";
+import {
+  DEFAULT_MASS_MORTALITY_PERCENT,
+  MAX_MORTALITY_PHOTO_BYTES,
+  MAX_MORTALITY_PHOTOS,
+  MORTALITY_PHOTO_CONTENT_TYPES,
+} from "../../../shared/constants/mortalityConstants";
+import {
+  MortalityPhotoInputDto,
+  RecordMortalityDto,
+} from "../../dtos/MortalityDto";
+import { IAttachmentStorage } from "../../services/AttachmentStorage";
+
+export interface RecordedMortality {
+  batch: FishBatch;
+  mortality: MortalityEvent;
+  alert: MortalityAlert | null;
+}
+
+@Injectable()
+export class RecordMortalityUseCase implements UseCase<
+  RecordMortalityDto,
+  RecordedMortality
+> {
+  private readonly massMortalityPercent: number;
+
+  constructor(
+    @Inject(BATCH_REPOSITORY)
+    private readonly batchRepository: IBatchRepository,
+    @Inject(TANK_REPOSITORY)
+    private readonly tankRepository: ITankRepository,
+    @Inject(ATTACHMENT_STORAGE)
+    private readonly attachmentStorage: IAttachmentStorage,
+    private readonly eventEmitter: EventEmitter2,
+    configService: ConfigService,
+  ) {
+    this.massMortalityPercent = Number(
+      configService.get(MASS_MORTALITY_PERCENT, DEFAULT_MASS_MORTALITY_PERCENT),
+    );
+    if (!(this.massMortalityPercent > 0 && this.massMortalityPercent <= 100)) {
+      throw new Error(
+        `Invalid ${MASS_MORTALITY_PERCENT} ${this.massMortalityPercent}, expected a percentage above 0`,
+      );
+    }
+  }
+
+  async execute(input: RecordMortalityDto): Promise<RecordedMortality> {
+    const photos = this.decodePhotos(input.photos || []);
+    const batch = getOrThrowWith(
+      await this.batchRepository.findById(input.batchId),
+      () => new CustomNotFoundException("Batch"),
+    );
+    const tank = getOrThrowWith(
+      await this.tankRepository.findById(batch.getTankId()),
+      () => new CustomNotFoundException("Tank"),
+    );
+
+    // Photos are written before the record so it never points at missing
+    // files, but only for a loss the batch accepts, and dropped again if
+    // the record is not saved
+    batch.validateMortality(input.deadCount, input.recordedAt);
+    const attachments: MortalityAttachment[] = [];
+    let mortality: MortalityEvent;
+    try {
+      for (const photo of photos) {
+        const stored = await this.attachmentStorage.store({
+          folder: `mortality/${input.batchId}`,
+          ...photo,
+        });
+        attachments.push({
+          fileName: photo.fileName,
+          contentType: photo.contentType,
+          url: stored.url,
+        });
+      }
+
+      mortality = batch.recordMortality(input.deadCount, {
+        cause: input.cause,
+        notes: input.notes,
+        attachments,
+        recordedAt: input.recordedAt,
+      });
+      await this.batchRepository.save(batch);
+    } catch (error) {
+      await Promise.allSettled(
+        attachments.map((attachment) =>
+          this.attachmentStorage.remove(attachment.url),
+        ),
+      );
+      throw error;
+    }
+
+    const alert = detectMassMortality({
+      batchId: input.batchId,
+      tankId: tank.getId().toString(),
+      history: batch.getMortalityHistory(),
+      event: mortality,
+      thresholdPercent: this.massMortalityPercent,
+    });
+    this.eventEmitter.emit(
+      "mortality.recorded",
+      new MortalityRecordedEvent({
+        batchId: input.batchId,
+        tankId: tank.getId().toString(),
+        farmId: tank.getFarmId(),
+        recordedAt: mortality.recordedAt,
+        deadCount: mortality.deadCount,
+        fishCountBefore: mortality.fishCountBefore,
+        cause: mortality.cause,
+        alert,
+      }),
+    );
+    return { batch, mortality, alert };
+  }
+
+  private decodePhotos(
+    photos: MortalityPhotoInputDto[],
+  ): Array<{ fileName: string; contentType: string; data: Buffer }> {
+    if (photos.length > MAX_MORTALITY_PHOTOS) {
+      throw new CustomBadRequestException(
+        `At most ${MAX_MORTALITY_PHOTOS} photos can be attached`,
+      );
+    }
+    return photos.map((photo) => {
+      if (!MORTALITY_PHOTO_CONTENT_TYPES.includes(photo.contentType)) {
+        throw new CustomBadRequestException(
+          `Photo ${photo.fileName} must be one of ${MORTALITY_PHOTO_CONTENT_TYPES.join(", ")}`,
+        );
+      }
+      const data = Buffer.from(photo.data, "base64");
+      if (data.length === 0 || data.length > MAX_MORTALITY_PHOTO_BYTES) {
+        throw new CustomBadRequestException(
+          `Photo ${photo.fileName} must be between 1 byte and ${MAX_MORTALITY_PHOTO_BYTES / (1024 * 1024)} MB`,
+        );
+      }
+      return { fileName: photo.fileName, contentType: photo.contentType, data };
+    });
+  }
+}
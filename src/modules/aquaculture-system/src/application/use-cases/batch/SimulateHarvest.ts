@@ -0,0 +1,43 @@
+import { Inject, Injectable } from "@nestjs/common";
+import { getOrThrowWith } from "effect/Option";
+import { UseCase } from "../../../../../../libs/ddd/use-case.interface";
+import { CustomNotFoundException } from "../../../../../../libs/exceptions/custom-not-found.exception";
+import { BATCH_REPOSITORY } from "../../../../aquaculture.tokens";
+import { IBatchRepository } from "../../../domain/repositories/IBatchRepository";
+import {
+  observedGrowthVariability,
+  simulateHarvest,
+} from "../../../domain/services/HarvestSimulation";
+import { HarvestSimulation } from "../../../domain/types/HarvestTypes";
+import { Weight } from "../../../domain/value-objects/Weight";
+import { DEFAULT_HARVEST_SIMULATION_RUNS } from "../../../shared/constants/growthConstants";
+import { SimulateHarvestDto } from "../../dtos/HarvestDto";
+
+@Injectable()
+export class SimulateHarvestUseCase implements UseCase<
+  SimulateHarvestDto,
+  HarvestSimulation
+> {
+  constructor(
+    @Inject(BATCH_REPOSITORY)
+    private readonly batchRepository: IBatchRepository,
+  ) {}
+
+  async execute(input: SimulateHarvestDto): Promise<HarvestSimulation> {
+    const batch = getOrThrowWith(
+      await this.batchRepository.findById(input.batchId),
+      () => new CustomNotFoundException("Batch"),
+    );
+    return simulateHarvest({
+      currentStats: batch.getCurrentStats(),
+      targetWeight: Weight.fromGrams(input.targetWeightGrams),
+      variability: observedGrowthVariability(
+        batch.getGrowthHistory(),
+        batch.getMortalityHistory(),
+      ),
+      runs: input.runs ?? DEFAULT_HARVEST_SIMULATION_RUNS,
+      // Unseeded runs pick a seed and return it, so they can be replayed
+      seed: input.seed ?? Math.floor(Math.random() * 2 ** 32),
+    });
+  }
+}
@@ -0,0 +1,91 @@
+import { Inject, Injectable } from "@nestjs/common";
+import { getOrThrowWith } from "effect/Option";
+import { v4 } from "uuid";
+import { UseCase } from "../../../../../../libs/ddd/use-case.interface";
+import { CustomNotFoundException } from "../../../../../../libs/exceptions/custom-not-found.exception";
+import {
+  BATCH_REPOSITORY,
+  FISH_TYPE_REPOSITORY,
+  TANK_REPOSITORY,
+} from "../../../../aquaculture.tokens";
+import { FishBatch } from "../../../domain/entities/FishBatch";
+import { IBatchRepository } from "../../../domain/repositories/IBatchRepository";
+import { IFishTypeRepository } from "../../../domain/repositories/IFishTypeRepository";
+import { ITankRepository } from "../../../domain/repositories/ITankRepository";
+import { splitBatch } from "../../../domain/services/BatchTransfer";
+import { Weight } from "../../../domain/value-objects/Weight";
+import { TransferBatchDto } from "../../dtos/BatchDto";
+
+export interface BatchTransferResult {
+  sources: FishBatch[];
+  child: FishBatch;
+}
+
+@Injectable()
+export class TransferBatchUseCase implements UseCase<
+  TransferBatchDto,
+  BatchTransferResult
+> {
+  constructor(
+    @Inject(BATCH_REPOSITORY)
+    private readonly batchRepository: IBatchRepository,
+    @Inject(TANK_REPOSITORY)
+    private readonly tankRepository: ITankRepository,
+    @Inject(FISH_TYPE_REPOSITORY)
+    private readonly fishTypeRepository: IFishTypeRepository,
+  ) {}
+
+  async execute(input: TransferBatchDto): Promise<BatchTransferResult> {
+    const source = getOrThrowWith(
+      await this.batchRepository.findById(input.batchId),
+      () => new CustomNotFoundException("Batch"),
+    );
+    const destination = getOrThrowWith(
+      await this.tankRepository.findById(input.toTankId),
+      () => new CustomNotFoundException("Tank"),
+    );
+
+    const child = splitBatch(source, {
+      childId: v4(),
+      toTankId: input.toTankId,
+      fishCount: input.fishCount ?? source.getCurrentStats().fishCount,
+      averageWeight:
+        input.averageWeightGrams !== undefined
+          ? Weight.fromGrams(input.averageWeightGrams)
+          : undefined,
+      transferredAt: input.transferredAt,
+    });
+    // A split within one tank must not count the fish moving out twice
+    if (source.getTankId() === input.toTankId) {
+      destination.refreshBatch(source);
+    }
+    // The destination must have room for the fish moving in
+    const fishTypes = await this.fishTypeRepository.findAll();
+    destination.addBatch(
+      child,
+      new Map(
+        fishTypes.map((fishType) => [fishType.getId().toString(), fishType]),
+      ),
+    );
+
+    // A batch that sent all its fish on no longer occupies its tank
+    const origin =
+      source.getTankId() === input.toTankId
+        ? destination
+        : getOrThrowWith(
+            await this.tankRepository.findById(source.getTankId()),
+            () => new CustomNotFoundException("Tank"),
+          );
+    if (!source.isActive()) {
+      origin.removeBatch(source.getId().toString());
+    }
+
+    await this.batchRepository.save(child);
+    await this.batchRepository.save(source);
+    await this.tankRepository.save(destination);
+    if (origin !== destination) {
+      await this.tankRepository.save(origin);
+    }
+    return { sources: [source], child };
+  }
+}
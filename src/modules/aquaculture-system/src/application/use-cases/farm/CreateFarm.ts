@@ -0,0 +1,24 @@
+import { Inject, Injectable } from "@nestjs/common";
+import { v4 } from "uuid";
+import { UseCase } from "../../../../../../libs/ddd/use-case.interface";
+import { FARM_REPOSITORY } from "../../../../aquaculture.tokens";
+import { Farm } from "../../../domain/aggregates/Farm";
+import { IFarmRepository } from "../../../domain/repositories/IFarmRepository";
+import { CreateFarmDto } from "../../dtos/FarmDto";
+
+@Injectable()
+export class CreateFarmUseCase implements UseCase<CreateFarmDto, Farm> {
+  constructor(
+    @Inject(FARM_REPOSITORY)
+    private readonly farmRepository: IFarmRepository,
+  ) {}
+
+  async execute(input: CreateFarmDto): Promise<Farm> {
+    const farm = Farm.create({
+      id: v4(),
+      name: input.name,
+      location: input.location,
+    });
+    return await this.farmRepository.save(farm);
+  }
+}
@@ -0,0 +1,22 @@
+import { Inject, Injectable } from "@nestjs/common";
+import { getOrThrowWith } from "effect/Option";
+import { UseCase } from "../../../../../../libs/ddd/use-case.interface";
+import { CustomNotFoundException } from "../../../../../../libs/exceptions/custom-not-found.exception";
+import { FARM_REPOSITORY } from "../../../../aquaculture.tokens";
+import { Farm } from "../../../domain/aggregates/Farm";
+import { IFarmRepository } from "../../../domain/repositories/IFarmRepository";
+
+@Injectable()
+export class GetFarmUseCase implements UseCase<{ farmId: string }, Farm> {
+  constructor(
+    @Inject(FARM_REPOSITORY)
+    private readonly farmRepository: IFarmRepository,
+  ) {}
+
+  async execute(input: { farmId: string }): Promise<Farm> {
+    return getOrThrowWith(
+      await this.farmRepository.findById(input.farmId),
+      () => new CustomNotFoundException("Farm"),
+    );
+  }
+}
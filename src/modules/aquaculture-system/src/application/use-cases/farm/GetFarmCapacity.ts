@@ -0,0 +1,50 @@
+import { Inject, Injectable } from "@nestjs/common";
+import { getOrThrowWith } from "effect/Option";
+import { UseCase } from "../../../../../../libs/ddd/use-case.interface";
+import { CustomNotFoundException } from "../../../../../../libs/exceptions/custom-not-found.exception";
+import {
+  FARM_REPOSITORY,
+  FISH_TYPE_REPOSITORY,
+} from "../../../../aquaculture.tokens";
+import { IFarmRepository } from "../../../domain/repositories/IFarmRepository";
+import { IFishTypeRepository } from "../../../domain/repositories/IFishTypeRepository";
+import { rankTanksByHeadroom } from "../../../domain/services/TankCapacity";
+import { TankCapacity } from "../../../domain/types/CapacityTypes";
+import { TankStatus } from "../../../domain/types/Enums";
+
+@Injectable()
+export class GetFarmCapacityUseCase implements UseCase<
+  { farmId: string },
+  TankCapacity[]
+> {
+  constructor(
+    @Inject(FARM_REPOSITORY)
+    private readonly farmRepository: IFarmRepository,
+    @Inject(FISH_TYPE_REPOSITORY)
+    private readonly fishTypeRepository: IFishTypeRepository,
+  ) {}
+
+  async execute(input: { farmId: string }): Promise<TankCapacity[]> {
+    const farm = getOrThrowWith(
+      await this.farmRepository.findById(input.farmId),
+      () => new CustomNotFoundException("Farm"),
+    );
+    const fishTypes = new Map(
+      (await this.fishTypeRepository.findAll()).map((fishType) => [
+        fishType.getId().toString(),
+        fishType,
+      ]),
+    );
+    // Only tanks that can take fish are candidates for more
+    return rankTanksByHeadroom(
+      farm
+        .getTanks()
+        .filter(
+          (tank) =>
+            tank.getStatus() === TankStatus.ACTIVE ||
+            tank.getStatus() === TankStatus.EMPTY,
+        )
+        .map((tank) => tank.assessCapacity(fishTypes)),
+    );
+  }
+}
@@ -0,0 +1,24 @@
+import { Injectable } from "@nestjs/common";
+import { UseCase } from "../../../../../../libs/ddd/use-case.interface";
+import { FeedingPlan } from "../../../domain/entities/FeedingPlan";
+import { toIsoDate } from "../../../shared/utils/dateHelpers";
+import { FeedingSchedulerService } from "../../services/FeedingSchedulerService";
+
+@Injectable()
+export class GetFarmFeedingPlanUseCase implements UseCase<
+  { farmId: string; date?: string },
+  { planDate: string; plans: FeedingPlan[] }
+> {
+  constructor(private readonly feedingScheduler: FeedingSchedulerService) {}
+
+  async execute(input: {
+    farmId: string;
+    date?: string;
+  }): Promise<{ planDate: string; plans: FeedingPlan[] }> {
+    const planDate = input.date || toIsoDate(new Date());
+    return {
+      planDate,
+      plans: await this.feedingScheduler.getFarmPlans(input.farmId, planDate),
+    };
+  }
+}
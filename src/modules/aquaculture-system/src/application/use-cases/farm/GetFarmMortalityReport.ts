@@ -0,0 +1,92 @@
+import { Inject, Injectable } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { getOrThrowWith } from "effect/Option";
+import { MASS_MORTALITY_PERCENT } from "../../../../../../config/env/configuration.constant";
+import { UseCase } from "../../../../../../libs/ddd/use-case.interface";
+import { CustomBadRequestException } from "../../../../../../libs/exceptions/custom-bad-request.exception";
+import { CustomNotFoundException } from "../../../../../../libs/exceptions/custom-not-found.exception";
+import {
+  BATCH_REPOSITORY,
+  FARM_REPOSITORY,
+} from "../../../../aquaculture.tokens";
+import { IBatchRepository } from "../../../domain/repositories/IBatchRepository";
+import { IFarmRepository } from "../../../domain/repositories/IFarmRepository";
+import { buildMortalityReport } from "../../../domain/services/MortalityReport";
+import { MortalityReport } from "../../../domain/types/MortalityTypes";
+import {
+  DEFAULT_MASS_MORTALITY_PERCENT,
+  DEFAULT_MORTALITY_REPORT_DAYS,
+  MAX_MORTALITY_REPORT_DAYS,
+} from "../../../shared/constants/mortalityConstants";
+import {
+  addDays,
+  atLocalTime,
+  toIsoDate,
+} from "../../../shared/utils/dateHelpers";
+import { MortalityReportRequestDto } from "../../dtos/MortalityDto";
+
+export interface FarmMortalityReport {
+  farmId: string;
+  threshold: number; // mass mortality percentage alerts were raised at
+  report: MortalityReport;
+}
+
+@Injectable()
+export class GetFarmMortalityReportUseCase implements UseCase<
+  MortalityReportRequestDto,
+  FarmMortalityReport
+> {
+  private readonly massMortalityPercent: number;
+
+  constructor(
+    @Inject(FARM_REPOSITORY)
+    private readonly farmRepository: IFarmRepository,
+    @Inject(BATCH_REPOSITORY)
+    private readonly batchRepository: IBatchRepository,
+    configService: ConfigService,
+  ) {
+    this.massMortalityPercent = Number(
+      configService.get(MASS_MORTALITY_PERCENT, DEFAULT_MASS_MORTALITY_PERCENT),
+    );
+  }
+
+  // Covers whole days from the start of `from` to the end of `to`
+  async execute(
+    input: MortalityReportRequestDto,
+  ): Promise<FarmMortalityReport> {
+    const to = input.to || toIsoDate(new Date());
+    const from = input.from || addDays(to, 1 - DEFAULT_MORTALITY_REPORT_DAYS);
+    if (from > to) {
+      throw new CustomBadRequestException("from must not be after to");
+    }
+    if (addDays(from, MAX_MORTALITY_REPORT_DAYS) <= to) {
+      throw new CustomBadRequestException(
+        `Mortality can be reported for at most ${MAX_MORTALITY_REPORT_DAYS} days`,
+      );
+    }
+
+    getOrThrowWith(
+      await this.farmRepository.findById(input.farmId),
+      () => new CustomNotFoundException("Farm"),
+    );
+    const start = atLocalTime(from, 0);
+    const end = new Date(atLocalTime(addDays(to, 1), 0).getTime() - 1);
+    // Alerts look back a day, so deaths just before the period count too
+    const events = await this.batchRepository.findMortalityByFarm(
+      input.farmId,
+      atLocalTime(addDays(from, -1), 0),
+      end,
+    );
+
+    return {
+      farmId: input.farmId,
+      threshold: this.massMortalityPercent,
+      report: buildMortalityReport({
+        events,
+        from: start,
+        to: end,
+        thresholdPercent: this.massMortalityPercent,
+      }),
+    };
+  }
+}
@@ -0,0 +1,26 @@
+import { Inject, Injectable } from "@nestjs/common";
+import { getOrThrowWith } from "effect/Option";
+import { UseCase } from "../../../../../../libs/ddd/use-case.interface";
+import { CustomNotFoundException } from "../../../../../../libs/exceptions/custom-not-found.exception";
+import { FARM_REPOSITORY } from "../../../../aquaculture.tokens";
+import { IFarmRepository } from "../../../domain/repositories/IFarmRepository";
+import { FarmStatistics } from "../../../domain/types/EconomicTypes";
+
+@Injectable()
+export class GetFarmStatisticsUseCase implements UseCase<
+  { farmId: string },
+  FarmStatistics
+> {
+  constructor(
+    @Inject(FARM_REPOSITORY)
+    private readonly farmRepository: IFarmRepository,
+  ) {}
+
+  async execute(input: { farmId: string }): Promise<FarmStatistics> {
+    const farm = getOrThrowWith(
+      await this.farmRepository.findById(input.farmId),
+      () => new CustomNotFoundException("Farm"),
+    );
+    return farm.getFarmStatistics();
+  }
+}
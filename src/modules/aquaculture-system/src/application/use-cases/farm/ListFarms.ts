@@ -0,0 +1,17 @@
+import { Inject, Injectable } from "@nestjs/common";
+import { UseCase } from "../../../../../../libs/ddd/use-case.interface";
+import { FARM_REPOSITORY } from "../../../../aquaculture.tokens";
+import { Farm } from "../../../domain/aggregates/Farm";
+import { IFarmRepository } from "../../../domain/repositories/IFarmRepository";
+
+@Injectable()
+export class ListFarmsUseCase implements UseCase<void, Farm[]> {
+  constructor(
+    @Inject(FARM_REPOSITORY)
+    private readonly farmRepository: IFarmRepository,
+  ) {}
+
+  async execute(): Promise<Farm[]> {
+    return await this.farmRepository.findAll();
+  }
+}
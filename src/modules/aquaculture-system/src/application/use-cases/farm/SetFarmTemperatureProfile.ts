@@ -0,0 +1,29 @@
+import { Inject, Injectable } from "@nestjs/common";
+import { getOrThrowWith } from "effect/Option";
+import { UseCase } from "../../../../../../libs/ddd/use-case.interface";
+import { CustomNotFoundException } from "../../../../../../libs/exceptions/custom-not-found.exception";
+import { FARM_REPOSITORY } from "../../../../aquaculture.tokens";
+import { Farm } from "../../../domain/aggregates/Farm";
+import { IFarmRepository } from "../../../domain/repositories/IFarmRepository";
+import { SetTemperatureProfileDto } from "../../dtos/FarmDto";
+
+@Injectable()
+export class SetFarmTemperatureProfileUseCase implements UseCase<
+  SetTemperatureProfileDto,
+  Farm
+> {
+  constructor(
+    @Inject(FARM_REPOSITORY)
+    private readonly farmRepository: IFarmRepository,
+  ) {}
+
+  async execute(input: SetTemperatureProfileDto): Promise<Farm> {
+    const { farmId, ...profile } = input;
+    const farm = getOrThrowWith(
+      await this.farmRepository.findById(farmId),
+      () => new CustomNotFoundException("Farm"),
+    );
+    farm.setTemperatureProfile(profile);
+    return await this.farmRepository.save(farm);
+  }
+}
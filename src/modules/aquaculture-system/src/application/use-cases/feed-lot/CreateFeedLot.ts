@@ -0,0 +1,47 @@
+import { Inject, Injectable } from "@nestjs/common";
+import { getOrThrowWith, isSome } from "effect/Option";
+import { v4 } from "uuid";
+import { UseCase } from "../../../../../../libs/ddd/use-case.interface";
+import { CustomConflictException } from "../../../../../../libs/exceptions/custom-conflict.exception";
+import { CustomNotFoundException } from "../../../../../../libs/exceptions/custom-not-found.exception";
+import {
+  FEED_LOT_REPOSITORY,
+  FEED_PRODUCT_REPOSITORY,
+} from "../../../../aquaculture.tokens";
+import { FeedLot } from "../../../domain/entities/FeedLot";
+import { IFeedLotRepository } from "../../../domain/repositories/IFeedLotRepository";
+import { IFeedProductRepository } from "../../../domain/repositories/IFeedProductRepository";
+import { CreateFeedLotDto } from "../../dtos/FeedInventoryDto";
+
+@Injectable()
+export class CreateFeedLotUseCase implements UseCase<
+  CreateFeedLotDto,
+  FeedLot
+> {
+  constructor(
+    @Inject(FEED_LOT_REPOSITORY)
+    private readonly feedLotRepository: IFeedLotRepository,
+    @Inject(FEED_PRODUCT_REPOSITORY)
+    private readonly feedProductRepository: IFeedProductRepository,
+  ) {}
+
+  async execute(input: CreateFeedLotDto): Promise<FeedLot> {
+    getOrThrowWith(
+      await this.feedProductRepository.findById(input.feedProductId),
+      () => new CustomNotFoundException("Feed product"),
+    );
+    if (
+      isSome(
+        await this.feedLotRepository.findByLotNumber(
+          input.feedProductId,
+          input.lotNumber,
+        ),
+      )
+    ) {
+      throw new CustomConflictException("Feed lot");
+    }
+    return await this.feedLotRepository.save(
+      FeedLot.create({ id: v4(), ...input }),
+    );
+  }
+}
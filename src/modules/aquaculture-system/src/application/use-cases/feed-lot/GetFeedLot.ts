@@ -0,0 +1,25 @@
+import { Inject, Injectable } from "@nestjs/common";
+import { getOrThrowWith } from "effect/Option";
+import { UseCase } from "../../../../../../libs/ddd/use-case.interface";
+import { CustomNotFoundException } from "../../../../../../libs/exceptions/custom-not-found.exception";
+import { FEED_LOT_REPOSITORY } from "../../../../aquaculture.tokens";
+import { FeedLot } from "../../../domain/entities/FeedLot";
+import { IFeedLotRepository } from "../../../domain/repositories/IFeedLotRepository";
+
+@Injectable()
+export class GetFeedLotUseCase implements UseCase<
+  { feedLotId: string },
+  FeedLot
+> {
+  constructor(
+    @Inject(FEED_LOT_REPOSITORY)
+    private readonly feedLotRepository: IFeedLotRepository,
+  ) {}
+
+  async execute(input: { feedLotId: string }): Promise<FeedLot> {
+    return getOrThrowWith(
+      await this.feedLotRepository.findById(input.feedLotId),
+      () => new CustomNotFoundException("Feed lot"),
+    );
+  }
+}
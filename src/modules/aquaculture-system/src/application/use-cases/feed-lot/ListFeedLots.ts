@@ -0,0 +1,21 @@
+import { Inject, Injectable } from "@nestjs/common";
+import { UseCase } from "../../../../../../libs/ddd/use-case.interface";
+import { FEED_LOT_REPOSITORY } from "../../../../aquaculture.tokens";
+import { FeedLot } from "../../../domain/entities/FeedLot";
+import { IFeedLotRepository } from "../../../domain/repositories/IFeedLotRepository";
+
+@Injectable()
+export class ListFeedLotsUseCase implements UseCase<
+  { feedProductId?: string },
+  FeedLot[]
+> {
+  constructor(
+    @Inject(FEED_LOT_REPOSITORY)
+    private readonly feedLotRepository: IFeedLotRepository,
+  ) {}
+
+  // Soonest to expire first, so stock can be used in that order
+  async execute(input: { feedProductId?: string }): Promise<FeedLot[]> {
+    return this.feedLotRepository.findAll(input.feedProductId);
+  }
+}
@@ -0,0 +1,36 @@
+import { Inject, Injectable } from "@nestjs/common";
+import { isSome } from "effect/Option";
+import { v4 } from "uuid";
+import { UseCase } from "../../../../../../libs/ddd/use-case.interface";
+import { CustomConflictException } from "../../../../../../libs/exceptions/custom-conflict.exception";
+import { FEED_PRODUCT_REPOSITORY } from "../../../../aquaculture.tokens";
+import { FeedProduct } from "../../../domain/entities/FeedProduct";
+import { IFeedProductRepository } from "../../../domain/repositories/IFeedProductRepository";
+import { CreateFeedProductDto } from "../../dtos/FeedInventoryDto";
+
+@Injectable()
+export class CreateFeedProductUseCase implements UseCase<
+  CreateFeedProductDto,
+  FeedProduct
+> {
+  constructor(
+    @Inject(FEED_PRODUCT_REPOSITORY)
+    private readonly feedProductRepository: IFeedProductRepository,
+  ) {}
+
+  async execute(input: CreateFeedProductDto): Promise<FeedProduct> {
+    if (
+      isSome(
+        await this.feedProductRepository.findByBrandAndName(
+          input.brand,
+          input.name,
+        ),
+      )
+    ) {
+      throw new CustomConflictException("Feed product");
+    }
+    return await this.feedProductRepository.save(
+      FeedProduct.create({ id: v4(), ...input }),
+    );
+  }
+}
@@ -0,0 +1,25 @@
+import { Inject, Injectable } from "@nestjs/common";
+import { getOrThrowWith } from "effect/Option";
+import { UseCase } from "../../../../../../libs/ddd/use-case.interface";
+import { CustomNotFoundException } from "../../../../../../libs/exceptions/custom-not-found.exception";
+import { FEED_PRODUCT_REPOSITORY } from "../../../../aquaculture.tokens";
+import { FeedProduct } from "../../../domain/entities/FeedProduct";
+import { IFeedProductRepository } from "../../../domain/repositories/IFeedProductRepository";
+
+@Injectable()
+export class GetFeedProductUseCase implements UseCase<
+  { feedProductId: string },
+  FeedProduct
+> {
+  constructor(
+    @Inject(FEED_PRODUCT_REPOSITORY)
+    private readonly feedProductRepository: IFeedProductRepository,
+  ) {}
+
+  async execute(input: { feedProductId: string }): Promise<FeedProduct> {
+    return getOrThrowWith(
+      await this.feedProductRepository.findById(input.feedProductId),
+      () => new CustomNotFoundException("Feed product"),
+    );
+  }
+}
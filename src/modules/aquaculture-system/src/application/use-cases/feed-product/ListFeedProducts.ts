@@ -0,0 +1,17 @@
+import { Inject, Injectable } from "@nestjs/common";
+import { UseCase } from "../../../../../../libs/ddd/use-case.interface";
+import { FEED_PRODUCT_REPOSITORY } from "../../../../aquaculture.tokens";
+import { FeedProduct } from "../../../domain/entities/FeedProduct";
+import { IFeedProductRepository } from "../../../domain/repositories/IFeedProductRepository";
+
+@Injectable()
+export class ListFeedProductsUseCase implements UseCase<void, FeedProduct[]> {
+  constructor(
+    @Inject(FEED_PRODUCT_REPOSITORY)
+    private readonly feedProductRepository: IFeedProductRepository,
+  ) {}
+
+  async execute(): Promise<FeedProduct[]> {
+    return this.feedProductRepository.findAll();
+  }
+}
@@ -0,0 +1,39 @@
+import { Inject, Injectable } from "@nestjs/common";
+import { getOrThrowWith, isSome } from "effect/Option";
+import { UseCase } from "../../../../../../libs/ddd/use-case.interface";
+import { CustomConflictException } from "../../../../../../libs/exceptions/custom-conflict.exception";
+import { CustomNotFoundException } from "../../../../../../libs/exceptions/custom-not-found.exception";
+import { FEED_PRODUCT_REPOSITORY } from "../../../../aquaculture.tokens";
+import { FeedProduct } from "../../../domain/entities/FeedProduct";
+import { IFeedProductRepository } from "../../../domain/repositories/IFeedProductRepository";
+import { UpdateFeedProductDto } from "../../dtos/FeedInventoryDto";
+
+@Injectable()
+export class UpdateFeedProductUseCase implements UseCase<
+  UpdateFeedProductDto,
+  FeedProduct
+> {
+  constructor(
+    @Inject(FEED_PRODUCT_REPOSITORY)
+    private readonly feedProductRepository: IFeedProductRepository,
+  ) {}
+
+  async execute(input: UpdateFeedProductDto): Promise<FeedProduct> {
+    const { feedProductId, ...changes } = input;
+    const feedProduct = getOrThrowWith(
+      await this.feedProductRepository.findById(feedProductId),
+      () => new CustomNotFoundException("Feed product"),
+    );
+    const brand = changes.brand ?? feedProduct.getBrand();
+    const name = changes.name ?? feedProduct.getName();
+    if (brand !== feedProduct.getBrand() || name !== feedProduct.getName()) {
+      if (
+        isSome(await this.feedProductRepository.findByBrandAndName(brand, name))
+      ) {
+        throw new CustomConflictException("Feed product");
+      }
+    }
+    feedProduct.update(changes);
+    return await this.feedProductRepository.save(feedProduct);
+  }
+}
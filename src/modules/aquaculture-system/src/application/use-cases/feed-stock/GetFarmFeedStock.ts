@@ -0,0 +1,92 @@
+import { Inject, Injectable } from "@nestjs/common";
+import { getOrThrowWith } from "effect/Option";
+import { UseCase } from "../../../../../../libs/ddd/use-case.interface";
+import { CustomNotFoundException } from "../../../../../../libs/exceptions/custom-not-found.exception";
+import {
+  FARM_REPOSITORY,
+  FEED_PRODUCT_REPOSITORY,
+  FEED_STOCK_REPOSITORY,
+  FISH_TYPE_REPOSITORY,
+} from "../../../../aquaculture.tokens";
+import { FeedProduct } from "../../../domain/entities/FeedProduct";
+import { IFarmRepository } from "../../../domain/repositories/IFarmRepository";
+import { IFeedProductRepository } from "../../../domain/repositories/IFeedProductRepository";
+import { IFeedStockRepository } from "../../../domain/repositories/IFeedStockRepository";
+import { IFishTypeRepository } from "../../../domain/repositories/IFishTypeRepository";
+import { calculateStockLevels } from "../../../domain/services/FeedStock";
+import { FeedStockLevel } from "../../../domain/types/FeedInventoryTypes";
+import { Weight } from "../../../domain/value-objects/Weight";
+import {
+  DEFAULT_LOW_STOCK_DAYS,
+  FEED_USAGE_WINDOW_DAYS,
+} from "../../../shared/constants/feedingConstants";
+
+export interface FarmFeedStock {
+  farmId: string;
+  dailyRequirement: Weight;
+  lowStockDays: number;
+  products: Array<{ feedProduct: FeedProduct; level: FeedStockLevel }>;
+}
+
+@Injectable()
+export class GetFarmFeedStockUseCase implements UseCase<
+  { farmId: string; lowStockDays?: number },
+  FarmFeedStock
+> {
+  constructor(
+    @Inject(FARM_REPOSITORY)
+    private readonly farmRepository: IFarmRepository,
+    @Inject(FISH_TYPE_REPOSITORY)
+    private readonly fishTypeRepository: IFishTypeRepository,
+    @Inject(FEED_PRODUCT_REPOSITORY)
+    private readonly feedProductRepository: IFeedProductRepository,
+    @Inject(FEED_STOCK_REPOSITORY)
+    private readonly feedStockRepository: IFeedStockRepository,
+  ) {}
+
+  async execute(input: {
+    farmId: string;
+    lowStockDays?: number;
+  }): Promise<FarmFeedStock> {
+    const farm = getOrThrowWith(
+      await this.farmRepository.findById(input.farmId),
+      () => new CustomNotFoundException("Farm"),
+    );
+    const fishTypes = await this.fishTypeRepository.findAll();
+    const now = new Date();
+    // Days of cover are measured against what the farm needs to be fed today
+    const dailyRequirement = farm.calculateFarmDailyFeed(
+      new Map(
+        fishTypes.map((fishType) => [fishType.getId().toString(), fishType]),
+      ),
+      now,
+    ).totalDailyFeed;
+
+    const lowStockDays = input.lowStockDays ?? DEFAULT_LOW_STOCK_DAYS;
+    const levels = calculateStockLevels(
+      await this.feedStockRepository.getBalances(input.farmId),
+      await this.feedStockRepository.getUsageSince(
+        input.farmId,
+        new Date(now.getTime() - FEED_USAGE_WINDOW_DAYS * 24 * 60 * 60 * 1000),
+      ),
+      dailyRequirement,
+      lowStockDays,
+    );
+
+    const feedProducts = new Map(
+      (await this.feedProductRepository.findAll()).map((feedProduct) => [
+        feedProduct.getId().toString(),
+        feedProduct,
+      ]),
+    );
+    return {
+      farmId: input.farmId,
+      dailyRequirement,
+      lowStockDays,
+      products: levels.flatMap((level) => {
+        const feedProduct = feedProducts.get(level.feedProductId);
+        return feedProduct ? [{ feedProduct, level }] : [];
+      }),
+    };
+  }
+}
@@ -0,0 +1,80 @@
+import { Inject, Injectable } from "@nestjs/common";
+import { getOrThrowWith } from "effect/Option";
+import { UseCase } from "../../../../../../libs/ddd/use-case.interface";
+import { CustomBadRequestException } from "../../../../../../libs/exceptions/custom-bad-request.exception";
+import { CustomNotFoundException } from "../../../../../../libs/exceptions/custom-not-found.exception";
+import {
+  FARM_REPOSITORY,
+  FEED_PRODUCT_REPOSITORY,
+  FEED_STOCK_REPOSITORY,
+} from "../../../../aquaculture.tokens";
+import { FeedProduct } from "../../../domain/entities/FeedProduct";
+import { IFarmRepository } from "../../../domain/repositories/IFarmRepository";
+import { IFeedProductRepository } from "../../../domain/repositories/IFeedProductRepository";
+import { IFeedStockRepository } from "../../../domain/repositories/IFeedStockRepository";
+import { buildStockLedger } from "../../../domain/services/FeedStock";
+import { FeedStockLedger } from "../../../domain/types/FeedInventoryTypes";
+import { addDays, atLocalTime } from "../../../shared/utils/dateHelpers";
+
+export interface FarmFeedStockLedger {
+  farmId: string;
+  feedProduct: FeedProduct;
+  ledger: FeedStockLedger;
+}
+
+@Injectable()
+export class GetFeedStockLedgerUseCase implements UseCase<
+  { farmId: string; feedProductId: string; from?: string; to?: string },
+  FarmFeedStockLedger
+> {
+  constructor(
+    @Inject(FARM_REPOSITORY)
+    private readonly farmRepository: IFarmRepository,
+    @Inject(FEED_PRODUCT_REPOSITORY)
+    private readonly feedProductRepository: IFeedProductRepository,
+    @Inject(FEED_STOCK_REPOSITORY)
+    private readonly feedStockRepository: IFeedStockRepository,
+  ) {}
+
+  // Movements on the calendar days [from, to]; either end may be left open
+  async execute(input: {
+    farmId: string;
+    feedProductId: string;
+    from?: string;
+    to?: string;
+  }): Promise<FarmFeedStockLedger> {
+    if (input.from && input.to && input.from > input.to) {
+      throw new CustomBadRequestException("from must not be after to");
+    }
+    getOrThrowWith(
+      await this.farmRepository.findById(input.farmId),
+      () => new CustomNotFoundException("Farm"),
+    );
+    const feedProduct = getOrThrowWith(
+      await this.feedProductRepository.findById(input.feedProductId),
+      () => new CustomNotFoundException("Feed product"),
+    );
+
+    const from = input.from ? atLocalTime(input.from, 0) : undefined;
+    const to = input.to ? atLocalTime(addDays(input.to, 1), 0) : undefined;
+    const opening = from
+      ? ((await this.feedStockRepository.getBalances(input.farmId, from)).get(
+          input.feedProductId,
+        ) ?? 0)
+      : 0;
+
+    return {
+      farmId: input.farmId,
+      feedProduct,
+      ledger: buildStockLedger(
+        opening,
+        await this.feedStockRepository.findMovements(
+          input.farmId,
+          input.feedProductId,
+          from,
+          to,
+        ),
+      ),
+    };
+  }
+}
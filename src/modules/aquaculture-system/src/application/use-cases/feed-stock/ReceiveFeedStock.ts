@@ -0,0 +1,75 @@
+import { Inject, Injectable } from "@nestjs/common";
+import { getOrThrowWith } from "effect/Option";
+import { v4 } from "uuid";
+import { UseCase } from "../../../../../../libs/ddd/use-case.interface";
+import { CustomBadRequestException } from "../../../../../../libs/exceptions/custom-bad-request.exception";
+import { CustomNotFoundException } from "../../../../../../libs/exceptions/custom-not-found.exception";
+import {
+  FARM_REPOSITORY,
+  FEED_LOT_REPOSITORY,
+  FEED_PRODUCT_REPOSITORY,
+  FEED_STOCK_REPOSITORY,
+} from "../../../../aquaculture.tokens";
+import { IFarmRepository } from "../../../domain/repositories/IFarmRepository";
+import { IFeedLotRepository } from "../../../domain/repositories/IFeedLotRepository";
+import { IFeedProductRepository } from "../../../domain/repositories/IFeedProductRepository";
+import { IFeedStockRepository } from "../../../domain/repositories/IFeedStockRepository";
+import { createFeedStockMovement } from "../../../domain/services/FeedStock";
+import { FeedStockMovementType } from "../../../domain/types/Enums";
+import { FeedStockMovement } from "../../../domain/types/FeedInventoryTypes";
+import { Weight } from "../../../domain/value-objects/Weight";
+import { ReceiveFeedStockDto } from "../../dtos/FeedInventoryDto";
+
+@Injectable()
+export class ReceiveFeedStockUseCase implements UseCase<
+  ReceiveFeedStockDto,
+  FeedStockMovement
+> {
+  constructor(
+    @Inject(FARM_REPOSITORY)
+    private readonly farmRepository: IFarmRepository,
+    @Inject(FEED_PRODUCT_REPOSITORY)
+    private readonly feedProductRepository: IFeedProductRepository,
+    @Inject(FEED_STOCK_REPOSITORY)
+    private readonly feedStockRepository: IFeedStockRepository,
+    @Inject(FEED_LOT_REPOSITORY)
+    private readonly feedLotRepository: IFeedLotRepository,
+  ) {}
+
+  async execute(input: ReceiveFeedStockDto): Promise<FeedStockMovement> {
+    getOrThrowWith(
+      await this.farmRepository.findById(input.farmId),
+      () => new CustomNotFoundException("Farm"),
+    );
+    const feedProduct = getOrThrowWith(
+      await this.feedProductRepository.findById(input.feedProductId),
+      () => new CustomNotFoundException("Feed product"),
+    );
+    if (input.feedLotId) {
+      const feedLot = getOrThrowWith(
+        await this.feedLotRepository.findById(input.feedLotId),
+        () => new CustomNotFoundException("Feed lot"),
+      );
+      if (feedLot.getFeedProductId() !== input.feedProductId) {
+        throw new CustomBadRequestException(
+          "Feed lot belongs to a different feed product",
+        );
+      }
+    }
+    return this.feedStockRepository.save(
+      createFeedStockMovement({
+        id: v4(),
+        farmId: input.farmId,
+        feedProductId: input.feedProductId,
+        feedLotId: input.feedLotId ?? null,
+        type: FeedStockMovementType.RECEIPT,
+        quantity: Weight.fromKilograms(input.quantityKg),
+        occurredAt: input.receivedAt,
+        // The delivery is valued at list price unless the invoice says otherwise
+        unitPricePerKg: input.unitPricePerKg ?? feedProduct.getPricePerKg(),
+        batchId: null,
+        reference: input.reference ?? null,
+      }),
+    );
+  }
+}
@@ -0,0 +1,35 @@
+import { Inject, Injectable } from "@nestjs/common";
+import { isSome } from "effect/Option";
+import { v4 } from "uuid";
+import { UseCase } from "../../../../../../libs/ddd/use-case.interface";
+import { CustomConflictException } from "../../../../../../libs/exceptions/custom-conflict.exception";
+import { FISH_TYPE_REPOSITORY } from "../../../../aquaculture.tokens";
+import { FishType } from "../../../domain/entities/FishType";
+import { IFishTypeRepository } from "../../../domain/repositories/IFishTypeRepository";
+import { withDefaultSafetyFactorCurves } from "../../../domain/services/SafetyFactorCurves";
+import { CreateFishTypeDto } from "../../dtos/FishTypeDto";
+
+@Injectable()
+export class CreateFishTypeUseCase implements UseCase<
+  CreateFishTypeDto,
+  FishType
+> {
+  constructor(
+    @Inject(FISH_TYPE_REPOSITORY)
+    private readonly fishTypeRepository: IFishTypeRepository,
+  ) {}
+
+  async execute(input: CreateFishTypeDto): Promise<FishType> {
+    if (isSome(await this.fishTypeRepository.findByName(input.name))) {
+      throw new CustomConflictException("Fish type");
+    }
+    const fishType = FishType.create({
+      id: v4(),
+      name: input.name,
+      scientificName: input.scientificName,
+      parameters: withDefaultSafetyFactorCurves(input.parameters),
+      effectiveFrom: input.effectiveFrom,
+    });
+    return await this.fishTypeRepository.save(fishType);
+  }
+}
@@ -0,0 +1,38 @@
+import { Inject, Injectable } from "@nestjs/common";
+import { getOrThrowWith } from "effect/Option";
+import { UseCase } from "../../../../../../libs/ddd/use-case.interface";
+import { CustomBadRequestException } from "../../../../../../libs/exceptions/custom-bad-request.exception";
+import { CustomNotFoundException } from "../../../../../../libs/exceptions/custom-not-found.exception";
+import {
+  BATCH_REPOSITORY,
+  FISH_TYPE_REPOSITORY,
+} from "../../../../aquaculture.tokens";
+import { IBatchRepository } from "../../../domain/repositories/IBatchRepository";
+import { IFishTypeRepository } from "../../../domain/repositories/IFishTypeRepository";
+
+@Injectable()
+export class DeleteFishTypeUseCase implements UseCase<
+  { fishTypeId: string },
+  void
+> {
+  constructor(
+    @Inject(FISH_TYPE_REPOSITORY)
+    private readonly fishTypeRepository: IFishTypeRepository,
+    @Inject(BATCH_REPOSITORY)
+    private readonly batchRepository: IBatchRepository,
+  ) {}
+
+  async execute(input: { fishTypeId: string }): Promise<void> {
+    getOrThrowWith(
+      await this.fishTypeRepository.findById(input.fishTypeId),
+      () => new CustomNotFoundException("Fish type"),
+    );
+    // Batches keep pointing at their fish type for feeding and reporting
+    if (await this.batchRepository.existsByFishTypeId(input.fishTypeId)) {
+      throw new CustomBadRequestException(
+        "Fish type is used by existing batches",
+      );
+    }
+    await this.fishTypeRepository.delete(input.fishTypeId);
+  }
+}
@@ -0,0 +1,25 @@
+import { Inject, Injectable } from "@nestjs/common";
+import { getOrThrowWith } from "effect/Option";
+import { UseCase } from "../../../../../../libs/ddd/use-case.interface";
+import { CustomNotFoundException } from "../../../../../../libs/exceptions/custom-not-found.exception";
+import { FISH_TYPE_REPOSITORY } from "../../../../aquaculture.tokens";
+import { FishType } from "../../../domain/entities/FishType";
+import { IFishTypeRepository } from "../../../domain/repositories/IFishTypeRepository";
+
+@Injectable()
+export class GetFishTypeUseCase implements UseCase<
+  { fishTypeId: string },
+  FishType
+> {
+  constructor(
+    @Inject(FISH_TYPE_REPOSITORY)
+    private readonly fishTypeRepository: IFishTypeRepository,
+  ) {}
+
+  async execute(input: { fishTypeId: string }): Promise<FishType> {
+    return getOrThrowWith(
+      await this.fishTypeRepository.findById(input.fishTypeId),
+      () => new CustomNotFoundException("Fish type"),
+    );
+  }
+}
@@ -0,0 +1,17 @@
+import { Inject, Injectable } from "@nestjs/common";
+import { UseCase } from "../../../../../../libs/ddd/use-case.interface";
+import { FISH_TYPE_REPOSITORY } from "../../../../aquaculture.tokens";
+import { FishType } from "../../../domain/entities/FishType";
+import { IFishTypeRepository } from "../../../domain/repositories/IFishTypeRepository";
+
+@Injectable()
+export class ListFishTypesUseCase implements UseCase<void, FishType[]> {
+  constructor(
+    @Inject(FISH_TYPE_REPOSITORY)
+    private readonly fishTypeRepository: IFishTypeRepository,
+  ) {}
+
+  async execute(): Promise<FishType[]> {
+    return await this.fishTypeRepository.findAll();
+  }
+}
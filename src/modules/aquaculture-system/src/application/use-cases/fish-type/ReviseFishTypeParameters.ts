@@ -0,0 +1,35 @@
+import { Inject, Injectable } from "@nestjs/common";
+import { getOrThrowWith } from "effect/Option";
+import { UseCase } from "../../../../../../libs/ddd/use-case.interface";
+import { CustomNotFoundException } from "../../../../../../libs/exceptions/custom-not-found.exception";
+import { FISH_TYPE_REPOSITORY } from "../../../../aquaculture.tokens";
+import { IFishTypeRepository } from "../../../domain/repositories/IFishTypeRepository";
+import { withDefaultSafetyFactorCurves } from "../../../domain/services/SafetyFactorCurves";
+import { FishTypeParameterVersion } from "../../../domain/types/FishTypeParameters";
+import { ReviseFishTypeParametersDto } from "../../dtos/FishTypeDto";
+
+@Injectable()
+export class ReviseFishTypeParametersUseCase implements UseCase<
+  ReviseFishTypeParametersDto,
+  FishTypeParameterVersion
+> {
+  constructor(
+    @Inject(FISH_TYPE_REPOSITORY)
+    private readonly fishTypeRepository: IFishTypeRepository,
+  ) {}
+
+  async execute(
+    input: ReviseFishTypeParametersDto,
+  ): Promise<FishTypeParameterVersion> {
+    const fishType = getOrThrowWith(
+      await this.fishTypeRepository.findById(input.fishTypeId),
+      () => new CustomNotFoundException("Fish type"),
+    );
+    const version = fishType.reviseParameters(
+      withDefaultSafetyFactorCurves(input.parameters),
+      input.effectiveFrom,
+    );
+    await this.fishTypeRepository.save(fishType);
+    return version;
+  }
+}
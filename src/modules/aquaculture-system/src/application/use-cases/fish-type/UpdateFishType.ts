@@ -0,0 +1,37 @@
+import { Inject, Injectable } from "@nestjs/common";
+import { getOrThrowWith, isSome } from "effect/Option";
+import { UseCase } from "../../../../../../libs/ddd/use-case.interface";
+import { CustomConflictException } from "../../../../../../libs/exceptions/custom-conflict.exception";
+import { CustomNotFoundException } from "../../../../../../libs/exceptions/custom-not-found.exception";
+import { FISH_TYPE_REPOSITORY } from "../../../../aquaculture.tokens";
+import { FishType } from "../../../domain/entities/FishType";
+import { IFishTypeRepository } from "../../../domain/repositories/IFishTypeRepository";
+import { UpdateFishTypeDto } from "../../dtos/FishTypeDto";
+
+@Injectable()
+export class UpdateFishTypeUseCase implements UseCase<
+  UpdateFishTypeDto,
+  FishType
+> {
+  constructor(
+    @Inject(FISH_TYPE_REPOSITORY)
+    private readonly fishTypeRepository: IFishTypeRepository,
+  ) {}
+
+  async execute(input: UpdateFishTypeDto): Promise<FishType> {
+    const fishType = getOrThrowWith(
+      await this.fishTypeRepository.findById(input.fishTypeId),
+      () => new CustomNotFoundException("Fish type"),
+    );
+    if (input.name !== undefined && input.name !== fishType.getName()) {
+      if (isSome(await this.fishTypeRepository.findByName(input.name))) {
+        throw new CustomConflictException("Fish type");
+      }
+    }
+    fishType.update({
+      name: input.name,
+      scientificName: input.scientificName,
+    });
+    return await this.fishTypeRepository.save(fishType);
+  }
+}
@@ -0,0 +1,47 @@
+import { Inject, Injectable } from "@nestjs/common";
+import { getOrThrowWith } from "effect/Option";
+import { UseCase } from "../../../../../../libs/ddd/use-case.interface";
+import { CustomNotFoundException } from "../../../../../../libs/exceptions/custom-not-found.exception";
+import {
+  BATCH_REPOSITORY,
+  DIAGNOSIS_REPOSITORY,
+  TREATMENT_REPOSITORY,
+} from "../../../../aquaculture.tokens";
+import { Diagnosis } from "../../../domain/entities/Diagnosis";
+import { Treatment } from "../../../domain/entities/Treatment";
+import { IBatchRepository } from "../../../domain/repositories/IBatchRepository";
+import { IDiagnosisRepository } from "../../../domain/repositories/IDiagnosisRepository";
+import { ITreatmentRepository } from "../../../domain/repositories/ITreatmentRepository";
+
+export interface BatchHealthLog {
+  diagnoses: Diagnosis[];
+  treatments: Treatment[];
+}
+
+@Injectable()
+export class GetBatchHealthLogUseCase implements UseCase<
+  { batchId: string },
+  BatchHealthLog
+> {
+  constructor(
+    @Inject(BATCH_REPOSITORY)
+    private readonly batchRepository: IBatchRepository,
+    @Inject(DIAGNOSIS_REPOSITORY)
+    private readonly diagnosisRepository: IDiagnosisRepository,
+    @Inject(TREATMENT_REPOSITORY)
+    private readonly treatmentRepository: ITreatmentRepository,
+  ) {}
+
+  async execute(input: { batchId: string }): Promise<BatchHealthLog> {
+    getOrThrowWith(
+      await this.batchRepository.findById(input.batchId),
+      () => new CustomNotFoundException("Batch"),
+    );
+    return {
+      diagnoses: await this.diagnosisRepository.findByBatchId(input.batchId),
+      treatments: await this.treatmentRepository.findByBatchIds([
+        input.batchId,
+      ]),
+    };
+  }
+}
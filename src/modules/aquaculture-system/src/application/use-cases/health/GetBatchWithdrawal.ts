@@ -0,0 +1,28 @@
+import { Inject, Injectable } from "@nestjs/common";
+import { getOrThrowWith } from "effect/Option";
+import { UseCase } from "../../../../../../libs/ddd/use-case.interface";
+import { CustomNotFoundException } from "../../../../../../libs/exceptions/custom-not-found.exception";
+import { BATCH_REPOSITORY } from "../../../../aquaculture.tokens";
+import { IBatchRepository } from "../../../domain/repositories/IBatchRepository";
+import { WithdrawalStatus } from "../../../domain/types/HealthTypes";
+import { TreatmentWithdrawalService } from "../../services/TreatmentWithdrawalService";
+
+@Injectable()
+export class GetBatchWithdrawalUseCase implements UseCase<
+  { batchId: string },
+  WithdrawalStatus
+> {
+  constructor(
+    @Inject(BATCH_REPOSITORY)
+    private readonly batchRepository: IBatchRepository,
+    private readonly treatmentWithdrawalService: TreatmentWithdrawalService,
+  ) {}
+
+  async execute(input: { batchId: string }): Promise<WithdrawalStatus> {
+    const batch = getOrThrowWith(
+      await this.batchRepository.findById(input.batchId),
+      () => new CustomNotFoundException("Batch"),
+    );
+    return this.treatmentWithdrawalService.assess(batch);
+  }
+}
@@ -0,0 +1,42 @@
+import { Inject, Injectable } from "@nestjs/common";
+import { getOrThrowWith } from "effect/Option";
+import { v4 } from "uuid";
+import { UseCase } from "../../../../../../libs/ddd/use-case.interface";
+import { CustomBadRequestException } from "../../../../../../libs/exceptions/custom-bad-request.exception";
+import { CustomNotFoundException } from "../../../../../../libs/exceptions/custom-not-found.exception";
+import {
+  BATCH_REPOSITORY,
+  DIAGNOSIS_REPOSITORY,
+} from "../../../../aquaculture.tokens";
+import { Diagnosis } from "../../../domain/entities/Diagnosis";
+import { IBatchRepository } from "../../../domain/repositories/IBatchRepository";
+import { IDiagnosisRepository } from "../../../domain/repositories/IDiagnosisRepository";
+import { RecordDiagnosisDto } from "../../dtos/HealthDto";
+
+@Injectable()
+export class RecordDiagnosisUseCase implements UseCase<
+  RecordDiagnosisDto,
+  Diagnosis
+> {
+  constructor(
+    @Inject(BATCH_REPOSITORY)
+    private readonly batchRepository: IBatchRepository,
+    @Inject(DIAGNOSIS_REPOSITORY)
+    private readonly diagnosisRepository: IDiagnosisRepository,
+  ) {}
+
+  async execute(input: RecordDiagnosisDto): Promise<Diagnosis> {
+    const batch = getOrThrowWith(
+      await this.batchRepository.findById(input.batchId),
+      () => new CustomNotFoundException("Batch"),
+    );
+    if (input.diagnosedAt && input.diagnosedAt < batch.getStockedDate()) {
+      throw new CustomBadRequestException(
+        "Cannot diagnose a batch before it was stocked",
+      );
+    }
+    return await this.diagnosisRepository.save(
+      Diagnosis.create({ id: v4(), ...input }),
+    );
+  }
+}
@@ -0,0 +1,57 @@
+import { Inject, Injectable } from "@nestjs/common";
+import { getOrThrowWith } from "effect/Option";
+import { v4 } from "uuid";
+import { UseCase } from "../../../../../../libs/ddd/use-case.interface";
+import { CustomBadRequestException } from "../../../../../../libs/exceptions/custom-bad-request.exception";
+import { CustomNotFoundException } from "../../../../../../libs/exceptions/custom-not-found.exception";
+import {
+  BATCH_REPOSITORY,
+  DIAGNOSIS_REPOSITORY,
+  TREATMENT_REPOSITORY,
+} from "../../../../aquaculture.tokens";
+import { Treatment } from "../../../domain/entities/Treatment";
+import { IBatchRepository } from "../../../domain/repositories/IBatchRepository";
+import { IDiagnosisRepository } from "../../../domain/repositories/IDiagnosisRepository";
+import { ITreatmentRepository } from "../../../domain/repositories/ITreatmentRepository";
+import { RecordTreatmentDto } from "../../dtos/HealthDto";
+
+@Injectable()
+export class RecordTreatmentUseCase implements UseCase<
+  RecordTreatmentDto,
+  Treatment
+> {
+  constructor(
+    @Inject(BATCH_REPOSITORY)
+    private readonly batchRepository: IBatchRepository,
+    @Inject(DIAGNOSIS_REPOSITORY)
+    private readonly diagnosisRepository: IDiagnosisRepository,
+    @Inject(TREATMENT_REPOSITORY)
+    private readonly treatmentRepository: ITreatmentRepository,
+  ) {}
+
+  async execute(input: RecordTreatmentDto): Promise<Treatment> {
+    const batch = getOrThrowWith(
+      await this.batchRepository.findById(input.batchId),
+      () => new CustomNotFoundException("Batch"),
+    );
+    if (input.startedAt && input.startedAt < batch.getStockedDate()) {
+      throw new CustomBadRequestException(
+        "Cannot treat a batch before it was stocked",
+      );
+    }
+    if (input.diagnosisId) {
+      const diagnosis = getOrThrowWith(
+        await this.diagnosisRepository.findById(input.diagnosisId),
+        () => new CustomNotFoundException("Diagnosis"),
+      );
+      if (diagnosis.getBatchId() !== input.batchId) {
+        throw new CustomBadRequestException(
+          "The diagnosis was made on another batch",
+        );
+      }
+    }
+    return await this.treatmentRepository.save(
+      Treatment.create({ id: v4(), ...input }),
+    );
+  }
+}
@@ -0,0 +1,60 @@
+export * from "./batch/CreateFishBatch";
+export * from "./batch/FitBatchGrowthCurve";
+export * from "./batch/ForecastHarvestByDegreeDays";
+export * from "./batch/GetBatchDetails";
+export * from "./batch/GetBatchFeedTrace";
+export * from "./batch/GetBatchFeedingDeviation";
+export * from "./batch/GetBatchLineage";
+export * from "./batch/GetBatchPerformance";
+export * from "./batch/GetHarvestEconomics";
+export * from "./batch/HarvestBatch";
+export * from "./batch/MergeBatches";
+export * from "./batch/OptimizeHarvestTiming";
+export * from "./batch/PredictHarvest";
+export * from "./batch/ReconcileFishCount";
+export * from "./batch/RecordFeeding";
+export * from "./batch/RecordGrowth";
+export * from "./batch/RecordGrowthSample";
+export * from "./batch/RecordHarvest";
+export * from "./batch/RecordMortality";
+export * from "./batch/SimulateHarvest";
+export * from "./batch/TransferBatch";
+export * from "./farm/CreateFarm";
+export * from "./farm/GetFarm";
+export * from "./farm/GetFarmCapacity";
+export * from "./farm/GetFarmFeedingPlan";
+export * from "./farm/GetFarmMortalityReport";
+export * from "./farm/GetFarmStatistics";
+export * from "./farm/ListFarms";
+export * from "./farm/SetFarmTemperatureProfile";
+export * from "./feed-lot/CreateFeedLot";
+export * from "./feed-lot/GetFeedLot";
+export * from "./feed-lot/ListFeedLots";
+export * from "./feed-product/CreateFeedProduct";
+export * from "./feed-product/GetFeedProduct";
+export * from "./feed-product/ListFeedProducts";
+export * from "./feed-product/UpdateFeedProduct";
+export * from "./feed-stock/GetFarmFeedStock";
+export * from "./feed-stock/GetFeedStockLedger";
+export * from "./feed-stock/ReceiveFeedStock";
+export * from "./fish-type/CreateFishType";
+export * from "./fish-type/DeleteFishType";
+export * from "./fish-type/GetFishType";
+export * from "./fish-type/ListFishTypes";
+export * from "./fish-type/ReviseFishTypeParameters";
+export * from "./fish-type/UpdateFishType";
+export * from "./health/GetBatchHealthLog";
+export * from "./health/GetBatchWithdrawal";
+export * from "./health/RecordDiagnosis";
+export * from "./health/RecordTreatment";
+export * from "./market-price/GetPriceBook";
+export * from "./market-price/ListMarketPriceHistory";
+export * from "./market-price/RecordMarketPrice";
+export * from "./tank/CreateTank";
+export * from "./tank/ForecastTankCapacity";
+export * from "./tank/GetTankCapacity";
+export * from "./tank/GetTankDetails";
+export * from "./tank/GetTankFeedingPlan";
+export * from "./tank/RegenerateTankFeedingPlan";
+export * from "./tank/SetTankCapacityLimits";
+export * from "./tank/UpdateWaterQuality";
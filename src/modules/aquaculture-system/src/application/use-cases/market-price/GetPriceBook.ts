@@ -0,0 +1,27 @@
+import { Inject, Injectable } from "@nestjs/common";
+import { UseCase } from "../../../../../../libs/ddd/use-case.interface";
+import { MARKET_PRICE_REPOSITORY } from "../../../../aquaculture.tokens";
+import { MarketPrice } from "../../../domain/entities/MarketPrice";
+import { IMarketPriceRepository } from "../../../domain/repositories/IMarketPriceRepository";
+import { effectivePriceBook } from "../../../domain/services/PriceBook";
+
+@Injectable()
+export class GetPriceBookUseCase implements UseCase<
+  { fishTypeId: string; date: Date },
+  MarketPrice[]
+> {
+  constructor(
+    @Inject(MARKET_PRICE_REPOSITORY)
+    private readonly marketPriceRepository: IMarketPriceRepository,
+  ) {}
+
+  async execute(input: {
+    fishTypeId: string;
+    date: Date;
+  }): Promise<MarketPrice[]> {
+    return effectivePriceBook(
+      await this.marketPriceRepository.findByFishType(input.fishTypeId),
+      input.date,
+    );
+  }
+}
@@ -0,0 +1,26 @@
+import { Inject, Injectable } from "@nestjs/common";
+import { UseCase } from "../../../../../../libs/ddd/use-case.interface";
+import { MARKET_PRICE_REPOSITORY } from "../../../../aquaculture.tokens";
+import { MarketPrice } from "../../../domain/entities/MarketPrice";
+import { IMarketPriceRepository } from "../../../domain/repositories/IMarketPriceRepository";
+
+@Injectable()
+export class ListMarketPriceHistoryUseCase implements UseCase<
+  { fishTypeId: string; grade?: string },
+  MarketPrice[]
+> {
+  constructor(
+    @Inject(MARKET_PRICE_REPOSITORY)
+    private readonly marketPriceRepository: IMarketPriceRepository,
+  ) {}
+
+  async execute(input: {
+    fishTypeId: string;
+    grade?: string;
+  }): Promise<MarketPrice[]> {
+    return this.marketPriceRepository.findByFishType(
+      input.fishTypeId,
+      input.grade,
+    );
+  }
+}
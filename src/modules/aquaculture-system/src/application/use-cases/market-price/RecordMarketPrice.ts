@@ -0,0 +1,64 @@
+import { Inject, Injectable } from "@nestjs/common";
+import { getOrThrowWith, isSome } from "effect/Option";
+import { v4 } from "uuid";
+import { UseCase } from "../../../../../../libs/ddd/use-case.interface";
+import { CustomBadRequestException } from "../../../../../../libs/exceptions/custom-bad-request.exception";
+import { CustomConflictException } from "../../../../../../libs/exceptions/custom-conflict.exception";
+import { CustomNotFoundException } from "../../../../../../libs/exceptions/custom-not-found.exception";
+import {
+  FISH_TYPE_REPOSITORY,
+  MARKET_PRICE_REPOSITORY,
+} from "../../../../aquaculture.tokens";
+import { MarketPrice } from "../../../domain/entities/MarketPrice";
+import { IFishTypeRepository } from "../../../domain/repositories/IFishTypeRepository";
+import { IMarketPriceRepository } from "../../../domain/repositories/IMarketPriceRepository";
+import { overlappingGrade } from "../../../domain/services/PriceBook";
+import { RecordMarketPriceDto } from "../../dtos/MarketPriceDto";
+
+@Injectable()
+export class RecordMarketPriceUseCase implements UseCase<
+  RecordMarketPriceDto,
+  MarketPrice
+> {
+  constructor(
+    @Inject(MARKET_PRICE_REPOSITORY)
+    private readonly marketPriceRepository: IMarketPriceRepository,
+    @Inject(FISH_TYPE_REPOSITORY)
+    private readonly fishTypeRepository: IFishTypeRepository,
+  ) {}
+
+  async execute(input: RecordMarketPriceDto): Promise<MarketPrice> {
+    getOrThrowWith(
+      await this.fishTypeRepository.findById(input.fishTypeId),
+      () => new CustomNotFoundException("Fish type"),
+    );
+    if (
+      isSome(
+        await this.marketPriceRepository.findByGradeAndDate(
+          input.fishTypeId,
+          input.grade,
+          input.effectiveFrom,
+        ),
+      )
+    ) {
+      throw new CustomConflictException("Market price");
+    }
+
+    const price = MarketPrice.create({
+      id: v4(),
+      ...input,
+      maxWeightGrams: input.maxWeightGrams ?? null,
+    });
+    // Grades in force alongside the new price must not share any sizes
+    const clash = overlappingGrade(
+      await this.marketPriceRepository.findByFishType(input.fishTypeId),
+      price,
+    );
+    if (clash) {
+      throw new CustomBadRequestException(
+        `Grade ${price.getGrade()} overlaps grade ${clash.getGrade()}`,
+      );
+    }
+    return await this.marketPriceRepository.save(price);
+  }
+}
@@ -0,0 +1,43 @@
+import { Inject, Injectable } from "@nestjs/common";
+import { getOrThrowWith } from "effect/Option";
+import { v4 } from "uuid";
+import { UseCase } from "../../../../../../libs/ddd/use-case.interface";
+import { CustomNotFoundException } from "../../../../../../libs/exceptions/custom-not-found.exception";
+import {
+  FARM_REPOSITORY,
+  TANK_REPOSITORY,
+} from "../../../../aquaculture.tokens";
+import { Tank } from "../../../domain/entities/Tank";
+import { IFarmRepository } from "../../../domain/repositories/IFarmRepository";
+import { ITankRepository } from "../../../domain/repositories/ITankRepository";
+import { Volume } from "../../../domain/value-objects/Volume";
+import { CreateTankDto } from "../../dtos/TankDto";
+
+@Injectable()
+export class CreateTankUseCase implements UseCase<CreateTankDto, Tank> {
+  constructor(
+    @Inject(FARM_REPOSITORY)
+    private readonly farmRepository: IFarmRepository,
+    @Inject(TANK_REPOSITORY)
+    private readonly tankRepository: ITankRepository,
+  ) {}
+
+  async execute(input: CreateTankDto): Promise<Tank> {
+    const farm = getOrThrowWith(
+      await this.farmRepository.findById(input.farmId),
+      () => new CustomNotFoundException("Farm"),
+    );
+    const tank = Tank.create({
+      id: v4(),
+      farmId: input.farmId,
+      name: input.name,
+      volume: Volume.fromCubicMeters(input.volumeCubicMeters),
+      capacityLimits: {
+        maxStockingDensity: input.maxStockingDensity ?? null,
+        oxygenSupply: input.oxygenSupply ?? null,
+      },
+    });
+    farm.addTank(tank);
+    return await this.tankRepository.save(tank);
+  }
+}
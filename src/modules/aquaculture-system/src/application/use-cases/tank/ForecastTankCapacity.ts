@@ -0,0 +1,88 @@
+import { Inject, Injectable } from "@nestjs/common";
+import { getOrThrowWith } from "effect/Option";
+import { UseCase } from "../../../../../../libs/ddd/use-case.interface";
+import { CustomNotFoundException } from "../../../../../../libs/exceptions/custom-not-found.exception";
+import {
+  FISH_TYPE_REPOSITORY,
+  TANK_REPOSITORY,
+} from "../../../../aquaculture.tokens";
+import { IFishTypeRepository } from "../../../domain/repositories/IFishTypeRepository";
+import { ITankRepository } from "../../../domain/repositories/ITankRepository";
+import { HarvestPredictionService } from "../../../domain/services/HarvestPredictionService";
+import { forecastTankCapacity } from "../../../domain/services/TankCapacity";
+import {
+  BatchGrowthProjection,
+  TankCapacityForecast,
+} from "../../../domain/types/CapacityTypes";
+import { Weight } from "../../../domain/value-objects/Weight";
+import {
+  DEFAULT_CAPACITY_FORECAST_DAYS,
+  DEFAULT_CAPACITY_WARNING_DAYS,
+} from "../../../shared/constants/growthConstants";
+import { ForecastTankCapacityDto } from "../../dtos/TankDto";
+
+@Injectable()
+export class ForecastTankCapacityUseCase implements UseCase<
+  ForecastTankCapacityDto,
+  TankCapacityForecast
+> {
+  private readonly harvestPrediction = new HarvestPredictionService();
+
+  constructor(
+    @Inject(TANK_REPOSITORY)
+    private readonly tankRepository: ITankRepository,
+    @Inject(FISH_TYPE_REPOSITORY)
+    private readonly fishTypeRepository: IFishTypeRepository,
+  ) {}
+
+  async execute(input: ForecastTankCapacityDto): Promise<TankCapacityForecast> {
+    const tank = getOrThrowWith(
+      await this.tankRepository.findById(input.tankId),
+      () => new CustomNotFoundException("Tank"),
+    );
+    const fishTypes = await this.fishTypeRepository.findAll();
+    const targetWeight =
+      input.targetWeightGrams !== undefined
+        ? Weight.fromGrams(input.targetWeightGrams)
+        : null;
+
+    const batches = tank.getBatches().map((batch): BatchGrowthProjection => {
+      const stats = batch.getCurrentStats();
+      // A batch never weighed is assumed to hold its weight
+      const sgr = batch.getLatestGrowthRecord()?.intervalSgr ?? 0;
+      let daysToHarvest: number | null = null;
+      if (
+        targetWeight &&
+        stats.averageWeight.toGrams() >= targetWeight.toGrams()
+      ) {
+        daysToHarvest = 0;
+      } else if (targetWeight && sgr > 0) {
+        daysToHarvest = this.harvestPrediction.calculateDaysToTarget(
+          stats.averageWeight,
+          targetWeight,
+          sgr,
+        );
+      }
+      return {
+        batchId: batch.getId().toString(),
+        fishTypeId: batch.getFishTypeId(),
+        fishCount: stats.fishCount,
+        averageWeight: stats.averageWeight,
+        sgr,
+        daysToHarvest,
+      };
+    });
+
+    return forecastTankCapacity({
+      tankId: tank.getId().toString(),
+      volume: tank.getVolume(),
+      limits: tank.getCapacityLimits(),
+      batches,
+      fishTypes: new Map(
+        fishTypes.map((fishType) => [fishType.getId().toString(), fishType]),
+      ),
+      horizonDays: input.horizonDays ?? DEFAULT_CAPACITY_FORECAST_DAYS,
+      warningDays: input.warningDays ?? DEFAULT_CAPACITY_WARNING_DAYS,
+    });
+  }
+}
@@ -0,0 +1,37 @@
+import { Inject, Injectable } from "@nestjs/common";
+import { getOrThrowWith } from "effect/Option";
+import { UseCase } from "../../../../../../libs/ddd/use-case.interface";
+import { CustomNotFoundException } from "../../../../../../libs/exceptions/custom-not-found.exception";
+import {
+  FISH_TYPE_REPOSITORY,
+  TANK_REPOSITORY,
+} from "../../../../aquaculture.tokens";
+import { IFishTypeRepository } from "../../../domain/repositories/IFishTypeRepository";
+import { ITankRepository } from "../../../domain/repositories/ITankRepository";
+import { TankCapacity } from "../../../domain/types/CapacityTypes";
+
+@Injectable()
+export class GetTankCapacityUseCase implements UseCase<
+  { tankId: string },
+  TankCapacity
+> {
+  constructor(
+    @Inject(TANK_REPOSITORY)
+    private readonly tankRepository: ITankRepository,
+    @Inject(FISH_TYPE_REPOSITORY)
+    private readonly fishTypeRepository: IFishTypeRepository,
+  ) {}
+
+  async execute(input: { tankId: string }): Promise<TankCapacity> {
+    const tank = getOrThrowWith(
+      await this.tankRepository.findById(input.tankId),
+      () => new CustomNotFoundException("Tank"),
+    );
+    const fishTypes = await this.fishTypeRepository.findAll();
+    return tank.assessCapacity(
+      new Map(
+        fishTypes.map((fishType) => [fishType.getId().toString(), fishType]),
+      ),
+    );
+  }
+}
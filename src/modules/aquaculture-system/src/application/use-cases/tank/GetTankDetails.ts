@@ -0,0 +1,25 @@
+import { Inject, Injectable } from "@nestjs/common";
+import { getOrThrowWith } from "effect/Option";
+import { UseCase } from "../../../../../../libs/ddd/use-case.interface";
+import { CustomNotFoundException } from "../../../../../../libs/exceptions/custom-not-found.exception";
+import { TANK_REPOSITORY } from "../../../../aquaculture.tokens";
+import { Tank } from "../../../domain/entities/Tank";
+import { ITankRepository } from "../../../domain/repositories/ITankRepository";
+
+@Injectable()
+export class GetTankDetailsUseCase implements UseCase<
+  { tankId: string },
+  Tank
+> {
+  constructor(
+    @Inject(TANK_REPOSITORY)
+    private readonly tankRepository: ITankRepository,
+  ) {}
+
+  async execute(input: { tankId: string }): Promise<Tank> {
+    return getOrThrowWith(
+      await this.tankRepository.findById(input.tankId),
+      () => new CustomNotFoundException("Tank"),
+    );
+  }
+}
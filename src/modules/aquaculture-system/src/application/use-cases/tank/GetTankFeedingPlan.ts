@@ -0,0 +1,23 @@
+import { Injectable } from "@nestjs/common";
+import { UseCase } from "../../../../../../libs/ddd/use-case.interface";
+import { FeedingPlan } from "../../../domain/entities/FeedingPlan";
+import { toIsoDate } from "../../../shared/utils/dateHelpers";
+import { FeedingSchedulerService } from "../../services/FeedingSchedulerService";
+
+@Injectable()
+export class GetTankFeedingPlanUseCase implements UseCase<
+  { tankId: string; date?: string },
+  FeedingPlan
+> {
+  constructor(private readonly feedingScheduler: FeedingSchedulerService) {}
+
+  async execute(input: {
+    tankId: string;
+    date?: string;
+  }): Promise<FeedingPlan> {
+    return this.feedingScheduler.getTankPlan(
+      input.tankId,
+      input.date || toIsoDate(new Date()),
+    );
+  }
+}
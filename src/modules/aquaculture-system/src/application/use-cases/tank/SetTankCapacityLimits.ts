@@ -0,0 +1,31 @@
+import { Inject, Injectable } from "@nestjs/common";
+import { getOrThrowWith } from "effect/Option";
+import { UseCase } from "../../../../../../libs/ddd/use-case.interface";
+import { CustomNotFoundException } from "../../../../../../libs/exceptions/custom-not-found.exception";
+import { TANK_REPOSITORY } from "../../../../aquaculture.tokens";
+import { Tank } from "../../../domain/entities/Tank";
+import { ITankRepository } from "../../../domain/repositories/ITankRepository";
+import { SetTankCapacityLimitsDto } from "../../dtos/TankDto";
+
+@Injectable()
+export class SetTankCapacityLimitsUseCase implements UseCase<
+  SetTankCapacityLimitsDto,
+  Tank
+> {
+  constructor(
+    @Inject(TANK_REPOSITORY)
+    private readonly tankRepository: ITankRepository,
+  ) {}
+
+  async execute(input: SetTankCapacityLimitsDto): Promise<Tank> {
+    const tank = getOrThrowWith(
+      await this.tankRepository.findById(input.tankId),
+      () => new CustomNotFoundException("Tank"),
+    );
+    tank.setCapacityLimits({
+      maxStockingDensity: input.maxStockingDensity,
+      oxygenSupply: input.oxygenSupply,
+    });
+    return await this.tankRepository.save(tank);
+  }
+}
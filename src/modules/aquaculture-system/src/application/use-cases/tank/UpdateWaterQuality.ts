@@ -0,0 +1,38 @@
+import { Inject, Injectable } from "@nestjs/common";
+import { getOrThrowWith } from "effect/Option";
+import { UseCase } from "../../../../../../libs/ddd/use-case.interface";
+import { CustomNotFoundException } from "../../../../../../libs/exceptions/custom-not-found.exception";
+import { TANK_REPOSITORY } from "../../../../aquaculture.tokens";
+import { Tank } from "../../../domain/entities/Tank";
+import { ITankRepository } from "../../../domain/repositories/ITankRepository";
+import { WaterQuality } from "../../../domain/value-objects/WaterQuality";
+import { UpdateWaterQualityDto } from "../../dtos/TankDto";
+
+@Injectable()
+export class UpdateWaterQualityUseCase implements UseCase<
+  UpdateWaterQualityDto,
+  Tank
+> {
+  constructor(
+    @Inject(TANK_REPOSITORY)
+    private readonly tankRepository: ITankRepository,
+  ) {}
+
+  async execute(input: UpdateWaterQualityDto): Promise<Tank> {
+    const tank = getOrThrowWith(
+      await this.tankRepository.findById(input.tankId),
+      () => new CustomNotFoundException("Tank"),
+    );
+    tank.updateWaterQuality(
+      WaterQuality.create({
+        temperature: input.temperature,
+        dissolvedOxygen: input.dissolvedOxygen,
+        pH: input.pH,
+        totalAmmonia: input.totalAmmonia,
+        nitrite: input.nitrite,
+        measuredAt: input.measuredAt,
+      }),
+    );
+    return await this.tankRepository.save(tank);
+  }
+}
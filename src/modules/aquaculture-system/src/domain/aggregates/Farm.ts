@@ -1,7 +1,19 @@
-class FarmId {
+import { Tank } from "../entities/Tank";
+import { DomainException } from "../exceptions/DomainException";
+import { FeedingStrategy } from "../services/FeedingStrategy";
+import { DEFAULT_FEEDING_STRATEGY } from "../services/MatrixFeedingStrategy";
+import { validateSeasonalTemperatureProfile } from "../services/SeasonalTemperature";
+import { FarmStatistics } from "../types/EconomicTypes";
+import { TankStatus } from "../types/Enums";
+import { FarmFeedingRequirement, TankFeedingRequirement } from "../types/FeedingTypes";
+import { SeasonalTemperatureProfile } from "../types/WaterQualityTypes";
+import { FishType } from "../entities/FishType";
+import { Weight } from "../value-objects/Weight";
+
+export class FarmId {
   constructor(private readonly value: string) {
     if (!value || value.trim().length === 0) {
-      throw new Error('FarmId cannot be empty');
+      throw new DomainException('FarmId cannot be empty');
     }
   }
 
@@ -14,13 +26,14 @@ class FarmId {
   }
 }
 
-class Farm {
+export class Farm {
   private constructor(
     private readonly id: FarmId,
     private name: string,
     private location: string,
     private tanks: Map<string, Tank>,
-    private createdAt: Date
+    private createdAt: Date,
+    private temperatureProfile: SeasonalTemperatureProfile | null
   ) {}
 
   static create(params: {
@@ -33,7 +46,27 @@ class Farm {
       params.name,
       params.location,
       new Map(),
-      new Date()
+      new Date(),
+      null
+    );
+  }
+
+  // Rebuilds a farm from persisted state without re-running creation rules
+  static reconstitute(params: {
+    id: string;
+    name: string;
+    location: string;
+    tanks: Tank[];
+    createdAt: Date;
+    temperatureProfile: SeasonalTemperatureProfile | null;
+  }): Farm {
+    return new Farm(
+      new FarmId(params.id),
+      params.name,
+      params.location,
+      new Map(params.tanks.map((tank) => [tank.getId().toString(), tank])),
+      params.createdAt,
+      params.temperatureProfile
     );
   }
 
@@ -50,6 +83,14 @@ class Farm {
     return this.location;
   }
 
+  getCreatedAt(): Date {
+    return this.createdAt;
+  }
+
+  getTemperatureProfile(): SeasonalTemperatureProfile | null {
+    return this.temperatureProfile;
+  }
+
   getTanks(): Tank[] {
     return Array.from(this.tanks.values());
   }
@@ -60,8 +101,12 @@ class Farm {
 
   // Business Logic - Add Tank
   addTank(tank: Tank): void {
+    if (tank.getFarmId() !== this.id.toString()) {
+      throw new DomainException('Tank belongs to another farm');
+    }
+
     if (this.tanks.has(tank.getId().toString())) {
-      throw new Error('Tank already exists in farm');
+      throw new DomainException('Tank already exists in farm');
     }
     this.tanks.set(tank.getId().toString(), tank);
   }
@@ -70,11 +115,11 @@ class Farm {
   removeTank(tankId: string): void {
     const tank = this.tanks.get(tankId);
     if (!tank) {
-      throw new Error('Tank not found in farm');
+      throw new DomainException('Tank not found in farm');
     }
 
     if (tank.getBatches().length > 0) {
-      throw new Error('Cannot remove tank with active batches');
+      throw new DomainException('Cannot remove tank with active batches');
     }
 
     this.tanks.delete(tankId);
@@ -82,7 +127,9 @@ class Farm {
 
   // Business Logic - Calculate Farm-Level Feeding
   calculateFarmDailyFeed(
-    fishTypeParamsMap: Map<string, FishTypeParameters>
+    fishTypes: Map<string, FishType>,
+    feedingDate: Date = new Date(),
+    strategy: FeedingStrategy = DEFAULT_FEEDING_STRATEGY
   ): FarmFeedingRequirement {
     const tankRequirements: TankFeedingRequirement[] = [];
     let totalFeed = Weight.fromGrams(0);
@@ -92,7 +139,11 @@ class Farm {
       if (tank.getStatus() !== TankStatus.ACTIVE) continue;
 
       try {
-        const tankReq = tank.calculateTotalDailyFeed(fishTypeParamsMap);
+        const tankReq = tank.calculateTotalDailyFeed(
+          fishTypes,
+          feedingDate,
+          strategy
+        );
         tankRequirements.push(tankReq);
 
         totalFeed = Weight.fromGrams(
@@ -108,7 +159,7 @@ class Farm {
         ) {
           overallStatus = 'WARNING';
         }
-      } catch (error) {
+      } catch {
         // Skip tanks without water quality data
         continue;
       }
@@ -157,8 +208,17 @@ class Farm {
   // Business Logic - Update Farm Name
   updateName(newName: string): void {
     if (!newName || newName.trim().length === 0) {
-      throw new Error('Farm name cannot be empty');
+      throw new DomainException('Farm name cannot be empty');
     }
     this.name = newName;
   }
+
+  // Business Logic - Set the water temperatures expected through the year
+  setTemperatureProfile(profile: SeasonalTemperatureProfile): void {
+    validateSeasonalTemperatureProfile(profile);
+    this.temperatureProfile = {
+      monthlyMeanTemperatures: [...profile.monthlyMeanTemperatures],
+      variation: profile.variation,
+    };
+  }
 }
\ No newline at end of file
@@ -0,0 +1,93 @@
+import { DomainException } from "../exceptions/DomainException";
+
+export class DiagnosisId {
+  constructor(private readonly value: string) {
+    if (!value || value.trim().length === 0) {
+      throw new DomainException("DiagnosisId cannot be empty");
+    }
+  }
+
+  toString(): string {
+    return this.value;
+  }
+
+  equals(other: DiagnosisId): boolean {
+    return this.value === other.value;
+  }
+}
+
+/**
+ * A disease or condition found in a batch, from observation, a lab result
+ * or a necropsy. Treatments given for it refer back to it.
+ */
+export class Diagnosis {
+  private constructor(
+    private readonly id: DiagnosisId,
+    private readonly batchId: string,
+    private readonly condition: string,
+    private readonly diagnosedAt: Date,
+    private readonly notes: string | null,
+  ) {}
+
+  static create(params: {
+    id: string;
+    batchId: string;
+    condition: string;
+    diagnosedAt?: Date;
+    notes?: string | null;
+  }): Diagnosis {
+    if (!params.condition || params.condition.trim().length === 0) {
+      throw new DomainException("Diagnosis must name a condition");
+    }
+    const diagnosedAt = params.diagnosedAt || new Date();
+    if (diagnosedAt.getTime() > Date.now()) {
+      throw new DomainException("Cannot record a diagnosis in the future");
+    }
+
+    return Diagnosis.reconstitute({
+      id: params.id,
+      batchId: params.batchId,
+      condition: params.condition.trim(),
+      diagnosedAt,
+      notes: params.notes ?? null,
+    });
+  }
+
+  // Rebuilds a diagnosis from persisted state without re-running creation rules
+  static reconstitute(params: {
+    id: string;
+    batchId: string;
+    condition: string;
+    diagnosedAt: Date;
+    notes: string | null;
+  }): Diagnosis {
+    return new Diagnosis(
+      new DiagnosisId(params.id),
+      params.batchId,
+      params.condition,
+      params.diagnosedAt,
+      params.notes,
+    );
+  }
+
+  // Getters
+  getId(): DiagnosisId {
+    return this.id;
+  }
+
+  getBatchId(): string {
+    return this.batchId;
+  }
+
+  getCondition(): string {
+    return this.condition;
+  }
+
+  getDiagnosedAt(): Date {
+    return this.diagnosedAt;
+  }
+
+  getNotes(): string | null {
+    return this.notes;
+  }
+}
@@ -0,0 +1,114 @@
+import { DomainException } from "../exceptions/DomainException";
+import { ExpiredFeedLotException } from "../exceptions/ExpiredFeedLotException";
+
+export class FeedLotId {
+  constructor(private readonly value: string) {
+    if (!value || value.trim().length === 0) {
+      throw new DomainException("FeedLotId cannot be empty");
+    }
+  }
+
+  toString(): string {
+    return this.value;
+  }
+
+  equals(other: FeedLotId): boolean {
+    return this.value === other.value;
+  }
+}
+
+/**
+ * A manufacturer's production lot of one feed product, as printed on the
+ * bags. Lots are what export certification traces back to the supplier.
+ */
+export class FeedLot {
+  private constructor(
+    private readonly id: FeedLotId,
+    private readonly feedProductId: string,
+    private readonly lotNumber: string,
+    private readonly supplier: string,
+    private readonly manufacturedAt: Date,
+    private readonly expiresAt: Date,
+  ) {}
+
+  static create(params: {
+    id: string;
+    feedProductId: string;
+    lotNumber: string;
+    supplier: string;
+    manufacturedAt: Date;
+    expiresAt: Date;
+  }): FeedLot {
+    if (!params.lotNumber || params.lotNumber.trim().length === 0) {
+      throw new DomainException("Lot number cannot be empty");
+    }
+    if (!params.supplier || params.supplier.trim().length === 0) {
+      throw new DomainException("Supplier cannot be empty");
+    }
+    if (params.expiresAt.getTime() <= params.manufacturedAt.getTime()) {
+      throw new DomainException("A feed lot must expire after it was made");
+    }
+
+    return FeedLot.reconstitute(params);
+  }
+
+  // Rebuilds a feed lot from persisted state without re-running creation rules
+  static reconstitute(params: {
+    id: string;
+    feedProductId: string;
+    lotNumber: string;
+    supplier: string;
+    manufacturedAt: Date;
+    expiresAt: Date;
+  }): FeedLot {
+    return new FeedLot(
+      new FeedLotId(params.id),
+      params.feedProductId,
+      params.lotNumber,
+      params.supplier,
+      params.manufacturedAt,
+      params.expiresAt,
+    );
+  }
+
+  // Getters
+  getId(): FeedLotId {
+    return this.id;
+  }
+
+  getFeedProductId(): string {
+    return this.feedProductId;
+  }
+
+  getLotNumber(): string {
+    return this.lotNumber;
+  }
+
+  getSupplier(): string {
+    return this.supplier;
+  }
+
+  getManufacturedAt(): Date {
+    return this.manufacturedAt;
+  }
+
+  getExpiresAt(): Date {
+    return this.expiresAt;
+  }
+
+  isExpiredOn(date: Date): boolean {
+    return date.getTime() >= this.expiresAt.getTime();
+  }
+
+  // Business Logic - Feed from this lot on `date`
+  assertUsableOn(date: Date): void {
+    if (date.getTime() < this.manufacturedAt.getTime()) {
+      throw new DomainException(
+        `Feed lot ${this.lotNumber} was not made until ${this.manufacturedAt.toISOString()}`,
+      );
+    }
+    if (this.isExpiredOn(date)) {
+      throw new ExpiredFeedLotException(this.lotNumber, this.expiresAt);
+    }
+  }
+}
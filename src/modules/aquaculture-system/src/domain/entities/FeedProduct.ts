@@ -0,0 +1,99 @@
+import { DomainException } from "../exceptions/DomainException";
+
+export class FeedProductId {
+  constructor(private readonly value: string) {
+    if (!value || value.trim().length === 0) {
+      throw new DomainException("FeedProductId cannot be empty");
+    }
+  }
+
+  toString(): string {
+    return this.value;
+  }
+
+  equals(other: FeedProductId): boolean {
+    return this.value === other.value;
+  }
+}
+
+export interface FeedProductProps {
+  name: string;
+  brand: string;
+  pelletSizeMm: number;
+  proteinPercent: number;
+  pricePerKg: number;
+}
+
+export class FeedProduct {
+  private constructor(
+    private readonly id: FeedProductId,
+    private props: FeedProductProps,
+  ) {}
+
+  static create(params: { id: string } & FeedProductProps): FeedProduct {
+    const { id, ...props } = params;
+    FeedProduct.validate(props);
+    return new FeedProduct(new FeedProductId(id), props);
+  }
+
+  // Rebuilds a feed product from persisted state without re-running creation rules
+  static reconstitute(params: { id: string } & FeedProductProps): FeedProduct {
+    const { id, ...props } = params;
+    return new FeedProduct(new FeedProductId(id), props);
+  }
+
+  // Getters
+  getId(): FeedProductId {
+    return this.id;
+  }
+
+  getName(): string {
+    return this.props.name;
+  }
+
+  getBrand(): string {
+    return this.props.brand;
+  }
+
+  getPelletSizeMm(): number {
+    return this.props.pelletSizeMm;
+  }
+
+  getProteinPercent(): number {
+    return this.props.proteinPercent;
+  }
+
+  getPricePerKg(): number {
+    return this.props.pricePerKg;
+  }
+
+  // Business Logic - Update Catalogue Entry
+  update(params: Partial<FeedProductProps>): void {
+    const props = { ...this.props };
+    for (const [key, value] of Object.entries(params)) {
+      if (value !== undefined) {
+        Object.assign(props, { [key]: value });
+      }
+    }
+    FeedProduct.validate(props);
+    this.props = props;
+  }
+
+  private static validate(props: FeedProductProps): void {
+    if (!props.name || props.name.trim().length === 0) {
+      throw new DomainException("Feed product name cannot be empty");
+    }
+    if (!props.brand || props.brand.trim().length === 0) {
+      throw new DomainException("Feed product brand cannot be empty");
+    }
+    if (!(props.pelletSizeMm > 0)) {
+      throw new DomainException("Pellet size must be greater than 0");
+    }
+    if (!(props.proteinPercent >= 0 && props.proteinPercent <= 100)) {
+      throw new DomainException("Protein must be between 0 and 100 percent");
+    }
+    if (!(props.pricePerKg >= 0)) {
+      throw new DomainException("Price per kg cannot be negative");
+    }
+  }
+}
@@ -0,0 +1,122 @@
+import { DomainException } from "../exceptions/DomainException";
+import { BatchFeedingPlan } from "../types/FeedingTypes";
+import { WaterQuality } from "../value-objects/WaterQuality";
+import { Weight } from "../value-objects/Weight";
+
+export class FeedingPlanId {
+  constructor(private readonly value: string) {
+    if (!value || value.trim().length === 0) {
+      throw new DomainException("FeedingPlanId cannot be empty");
+    }
+  }
+
+  toString(): string {
+    return this.value;
+  }
+
+  equals(other: FeedingPlanId): boolean {
+    return this.value === other.value;
+  }
+}
+
+/**
+ * One tank's meals for one calendar day, worked out from the water quality
+ * and batches the tank had when the plan was generated.
+ */
+export class FeedingPlan {
+  private constructor(
+    private readonly id: FeedingPlanId,
+    private readonly tankId: string,
+    private readonly planDate: string, // YYYY-MM-DD
+    private readonly generatedAt: Date,
+    private readonly waterQuality: WaterQuality,
+    private readonly batches: BatchFeedingPlan[],
+  ) {}
+
+  static create(params: {
+    id: string;
+    tankId: string;
+    planDate: string;
+    waterQuality: WaterQuality;
+    batches: BatchFeedingPlan[];
+    generatedAt?: Date;
+  }): FeedingPlan {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(params.planDate)) {
+      throw new DomainException(`Invalid plan date: ${params.planDate}`);
+    }
+
+    return new FeedingPlan(
+      new FeedingPlanId(params.id),
+      params.tankId,
+      params.planDate,
+      params.generatedAt || new Date(),
+      params.waterQuality,
+      params.batches,
+    );
+  }
+
+  // Rebuilds a plan from persisted state without re-running creation rules
+  static reconstitute(params: {
+    id: string;
+    tankId: string;
+    planDate: string;
+    generatedAt: Date;
+    waterQuality: WaterQuality;
+    batches: BatchFeedingPlan[];
+  }): FeedingPlan {
+    return new FeedingPlan(
+      new FeedingPlanId(params.id),
+      params.tankId,
+      params.planDate,
+      params.generatedAt,
+      params.waterQuality,
+      params.batches,
+    );
+  }
+
+  getId(): FeedingPlanId {
+    return this.id;
+  }
+
+  getTankId(): string {
+    return this.tankId;
+  }
+
+  getPlanDate(): string {
+    return this.planDate;
+  }
+
+  getGeneratedAt(): Date {
+    return this.generatedAt;
+  }
+
+  getWaterQuality(): WaterQuality {
+    return this.waterQuality;
+  }
+
+  getBatches(): readonly BatchFeedingPlan[] {
+    return this.batches;
+  }
+
+  getBatch(batchId: string): BatchFeedingPlan | null {
+    return this.batches.find((batch) => batch.batchId === batchId) || null;
+  }
+
+  getTotalDailyFeed(): Weight {
+    return Weight.fromGrams(
+      this.batches.reduce(
+        (total, batch) => total + batch.requirement.totalDailyFeed.toGrams(),
+        0,
+      ),
+    );
+  }
+
+  getOverallStatus(): "OK" | "WARNING" | "STOPPED" {
+    const statuses = this.batches.map(
+      (batch) => batch.requirement.safetyStatus,
+    );
+    if (statuses.includes("STOPPED")) return "STOPPED";
+    if (statuses.includes("WARNING")) return "WARNING";
+    return "OK";
+  }
+}
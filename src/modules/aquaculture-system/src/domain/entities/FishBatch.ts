@@ -1,6 +1,20 @@
-import { FeedingRecord, FeedingRequirement, SafetyFactors } from "../types/FeedingTypes";
-import { FeedingRateMatrix, FishTypeParameters, MealFrequencyRule } from "../types/FishTypeParameters";
-import { GrowthRecord } from "../types/GrowthTypes";
+import { DomainException } from "../exceptions/DomainException";
+import { InactiveBatchException } from "../exceptions/InactiveBatchException";
+import { consumedFeed } from "../services/FeedingDeviation";
+import { FeedingStrategy } from "../services/FeedingStrategy";
+import { DEFAULT_FEEDING_STRATEGY } from "../services/MatrixFeedingStrategy";
+import { CountDetails, CountReconciliation } from "../types/CountTypes";
+import { BatchStatus, MortalityCause } from "../types/Enums";
+import {
+  FeedingDetails,
+  FeedingRecord,
+  FeedingRequirement,
+} from "../types/FeedingTypes";
+import { GrowthRecord, GrowthSample } from "../types/GrowthTypes";
+import { HarvestedGrade, HarvestEvent } from "../types/HarvestTypes";
+import { MortalityDetails, MortalityEvent } from "../types/MortalityTypes";
+import { BatchTransfer } from "../types/TransferTypes";
+import { FishType } from "./FishType";
 import { BatchStatistics } from "../value-objects/BatchStatistics";
 import { WaterQuality } from "../value-objects/WaterQuality";
 import { Weight } from "../value-objects/Weight";
@@ -8,7 +22,7 @@ import { Weight } from "../value-objects/Weight";
 export class FishBatchId {
   constructor(private readonly value: string) {
     if (!value || value.trim().length === 0) {
-      throw new Error('FishBatchId cannot be empty');
+      throw new DomainException('FishBatchId cannot be empty');
     }
   }
 
@@ -24,48 +38,115 @@ export class FishBatchId {
 export class FishBatch {
   private constructor(
     private readonly id: FishBatchId,
+    private readonly tankId: string,
     private readonly fishTypeId: string,
     private readonly stockedDate: Date,
     private readonly initialCount: number,
     private readonly initialWeight: Weight,
+    private readonly parentBatchIds: string[],
     private currentStats: BatchStatistics,
     private growthHistory: GrowthRecord[],
     private feedingHistory: FeedingRecord[],
+    private harvestHistory: HarvestEvent[],
+    private transferHistory: BatchTransfer[],
+    private mortalityHistory: MortalityEvent[],
+    private countHistory: CountReconciliation[],
     private status: BatchStatus
   ) {}
 
   static create(params: {
     id: string;
+    tankId: string;
     fishTypeId: string;
     fishCount: number;
     initialWeight: Weight;
     stockedDate?: Date;
+    parentBatchIds?: string[]; // set when the fish were transferred in
   }): FishBatch {
     const batchId = new FishBatchId(params.id);
     const stats = BatchStatistics.create(params.fishCount, params.initialWeight);
 
     return new FishBatch(
       batchId,
+      params.tankId,
       params.fishTypeId,
       params.stockedDate || new Date(),
       params.fishCount,
       params.initialWeight,
+      params.parentBatchIds || [],
       stats,
       [],
       [],
+      [],
+      [],
+      [],
+      [],
       BatchStatus.ACTIVE
     );
   }
 
+  // Rebuilds a batch from persisted state without re-running creation rules
+  static reconstitute(params: {
+    id: string;
+    tankId: string;
+    fishTypeId: string;
+    stockedDate: Date;
+    initialCount: number;
+    initialWeight: Weight;
+    parentBatchIds: string[];
+    currentStats: BatchStatistics;
+    growthHistory: GrowthRecord[];
+    feedingHistory: FeedingRecord[];
+    harvestHistory: HarvestEvent[];
+    transferHistory: BatchTransfer[];
+    mortalityHistory: MortalityEvent[];
+    countHistory: CountReconciliation[];
+    status: BatchStatus;
+  }): FishBatch {
+    return new FishBatch(
+      new FishBatchId(params.id),
+      params.tankId,
+      params.fishTypeId,
+      params.stockedDate,
+      params.initialCount,
+      params.initialWeight,
+      params.parentBatchIds,
+      params.currentStats,
+      params.growthHistory,
+      params.feedingHistory,
+      params.harvestHistory,
+      params.transferHistory,
+      params.mortalityHistory,
+      params.countHistory,
+      params.status
+    );
+  }
+
   // Getters
   getId(): FishBatchId {
     return this.id;
   }
 
+  getTankId(): string {
+    return this.tankId;
+  }
+
   getFishTypeId(): string {
     return this.fishTypeId;
   }
 
+  getInitialCount(): number {
+    return this.initialCount;
+  }
+
+  getInitialWeight(): Weight {
+    return this.initialWeight;
+  }
+
+  getParentBatchIds(): readonly string[] {
+    return this.parentBatchIds;
+  }
+
   getCurrentStats(): BatchStatistics {
     return this.currentStats;
   }
@@ -75,8 +156,11 @@ export class FishBatch {
   }
 
   getDaysInCulture(): number {
-    const now = new Date();
-    const diffTime = Math.abs(now.getTime() - this.stockedDate.getTime());
+    return this.getDaysInCultureOn(new Date());
+  }
+
+  getDaysInCultureOn(date: Date): number {
+    const diffTime = Math.abs(date.getTime() - this.stockedDate.getTime());
     return Math.ceil(diffTime / (1000 * 60 * 60 * 24));
   }
 
@@ -89,74 +173,249 @@ export class FishBatch {
   }
 
   // Business Logic - Growth Recording
-  recordGrowth(newAverageWeight: Weight): void {
+  // `sampledAt` backfills a record from an earlier weighing; it defaults to now
+  recordGrowth(newAverageWeight: Weight, sampledAt?: Date): GrowthRecord {
+    return this.addGrowthRecord(newAverageWeight, null, sampledAt || new Date());
+  }
+
+  // The sampled fish become the batch's average weight as of `sampledAt`
+  recordGrowthSample(sample: GrowthSample, sampledAt?: Date): GrowthRecord {
+    return this.addGrowthRecord(sample.meanWeight, sample, sampledAt || new Date());
+  }
+
+  private addGrowthRecord(
+    newAverageWeight: Weight,
+    sample: GrowthSample | null,
+    sampledAt: Date
+  ): GrowthRecord {
     if (!this.isActive()) {
-      throw new Error('Cannot record growth for inactive batch');
-    }
-
-    const daysInCulture = this.getDaysInCulture();
-    const weightGainGrams =
-      newAverageWeight.toGrams() - this.currentStats.averageWeight.toGrams();
-
-    // Calculate SGR (Specific Growth Rate)
-    const sgr =
-      ((Math.log(newAverageWeight.toGrams()) -
-        Math.log(this.initialWeight.toGrams())) /
-        daysInCulture) *
-      100;
-
-    // Calculate ADG (Average Daily Gain)
-    const adg = weightGainGrams / daysInCulture;
-
-    const growthRecord: GrowthRecord = {
-      recordedAt: new Date(),
-      statistics: this.currentStats.updateWeight(newAverageWeight),
-      weightGain: Weight.fromGrams(weightGainGrams),
-      daysInCulture,
-      sgr,
-      adg,
-    };
+      throw new InactiveBatchException('Cannot record growth for inactive batch');
+    }
+    if (sampledAt.getTime() > Date.now()) {
+      throw new DomainException('Cannot record growth in the future');
+    }
+    if (sampledAt.getTime() <= this.stockedDate.getTime()) {
+      throw new DomainException('Growth must be sampled after the batch was stocked');
+    }
 
-    this.currentStats = this.currentStats.updateWeight(newAverageWeight);
-    this.growthHistory.push(growthRecord);
+    const daysInCulture = this.getDaysInCultureOn(sampledAt);
+    if (this.growthHistory.some((record) => record.daysInCulture === daysInCulture)) {
+      throw new DomainException(
+        `Growth is already recorded for day ${daysInCulture} of culture`
+      );
+    }
+
+    const position = this.growthHistory.filter(
+      (record) => record.recordedAt.getTime() < sampledAt.getTime()
+    ).length;
+    const isLatest = position === this.growthHistory.length;
+
+    // A backfilled record keeps today's headcount; only its weight is historical
+    const record = this.withGrowthRates(
+      {
+        recordedAt: sampledAt,
+        statistics: this.currentStats.updateWeight(newAverageWeight),
+        daysInCulture,
+        sample,
+      },
+      this.growthHistory[position - 1] || null
+    );
+    this.growthHistory.splice(position, 0, record);
+
+    if (isLatest) {
+      this.currentStats = this.currentStats.updateWeight(newAverageWeight);
+    } else {
+      // The record after a backfilled one now has a shorter interval
+      this.growthHistory[position + 1] = this.withGrowthRates(
+        this.growthHistory[position + 1],
+        record
+      );
+    }
+    return record;
+  }
+
+  /**
+   * Interval rates run from the previous record (or stocking) to this one,
+   * cumulative rates from stocking.
+   * SGR = [(ln(W2) - ln(W1)) / Days] × 100, ADG = (W2 - W1) / Days
+   */
+  private withGrowthRates(
+    record: Pick<GrowthRecord, 'recordedAt' | 'statistics' | 'daysInCulture' | 'sample'>,
+    previous: GrowthRecord | null
+  ): GrowthRecord {
+    const weightGrams = record.statistics.averageWeight.toGrams();
+    const initialGrams = this.initialWeight.toGrams();
+    const previousGrams = previous
+      ? previous.statistics.averageWeight.toGrams()
+      : initialGrams;
+    const intervalDays = record.daysInCulture - (previous?.daysInCulture ?? 0);
+
+    return {
+      recordedAt: record.recordedAt,
+      statistics: record.statistics,
+      daysInCulture: record.daysInCulture,
+      sample: record.sample,
+      weightGain: Weight.fromGrams(weightGrams - previousGrams),
+      intervalDays,
+      intervalSgr:
+        ((Math.log(weightGrams) - Math.log(previousGrams)) / intervalDays) * 100,
+      intervalAdg: (weightGrams - previousGrams) / intervalDays,
+      cumulativeSgr:
+        ((Math.log(weightGrams) - Math.log(initialGrams)) / record.daysInCulture) *
+        100,
+      cumulativeAdg: (weightGrams - initialGrams) / record.daysInCulture,
+    };
   }
 
   // Business Logic - Mortality Recording
-  recordMortality(deadCount: number): void {
+  recordMortality(deadCount: number, details: MortalityDetails = {}): MortalityEvent {
+    const recordedAt = details.recordedAt || new Date();
+    this.validateMortality(deadCount, recordedAt);
+
+    const event: MortalityEvent = {
+      recordedAt,
+      deadCount,
+      fishCountBefore: this.currentStats.fishCount,
+      cause: details.cause || MortalityCause.UNKNOWN,
+      notes: details.notes ?? null,
+      attachments: details.attachments || [],
+    };
+    this.mortalityHistory.push(event);
+    this.currentStats = this.currentStats.recordMortality(
+      deadCount,
+      this.initialCount,
+      this.getHarvestedCount() + this.getTransferredCount()
+    );
+    return event;
+  }
+
+  // The checks recordMortality runs, for callers with work to do before recording
+  validateMortality(deadCount: number, recordedAt: Date = new Date()): void {
     if (!this.isActive()) {
-      throw new Error('Cannot record mortality for inactive batch');
+      throw new InactiveBatchException('Cannot record mortality for inactive batch');
+    }
+
+    if (!Number.isInteger(deadCount) || deadCount <= 0) {
+      throw new DomainException('Dead count must be a positive whole number');
     }
 
     if (deadCount > this.currentStats.fishCount) {
-      throw new Error('Dead count exceeds current fish count');
+      throw new DomainException('Dead count exceeds current fish count');
     }
 
-    this.currentStats = this.currentStats.recordMortality(
-      deadCount,
-      this.initialCount
+    if (recordedAt.getTime() > Date.now()) {
+      throw new DomainException('Cannot record mortality in the future');
+    }
+    if (recordedAt < this.stockedDate) {
+      throw new DomainException('Cannot record mortality before the batch was stocked');
+    }
+  }
+
+  // Business Logic - Counting
+  /**
+   * Sets the batch to a physical count. Whatever the count is short of the
+   * book is an unexplained loss, e.g. theft, predation or earlier miscounts.
+   * Fish keep their average weight, and a batch counted empty is LOST.
+   */
+  reconcileCount(countedCount: number, details: CountDetails = {}): CountReconciliation {
+    if (!this.isActive()) {
+      throw new InactiveBatchException('Cannot count an inactive batch');
+    }
+
+    if (!Number.isInteger(countedCount) || countedCount < 0) {
+      throw new DomainException('Counted fish must be a whole number');
+    }
+
+    const removedCount = this.getHarvestedCount() + this.getTransferredCount();
+    if (countedCount + removedCount > this.initialCount) {
+      throw new DomainException('Counted fish exceed the fish stocked');
+    }
+
+    const countedAt = details.countedAt || new Date();
+    if (countedAt.getTime() > Date.now()) {
+      throw new DomainException('Cannot record a count in the future');
+    }
+    if (countedAt < this.stockedDate) {
+      throw new DomainException('Cannot record a count before the batch was stocked');
+    }
+    const lastCount = this.countHistory[this.countHistory.length - 1];
+    if (lastCount && countedAt < lastCount.countedAt) {
+      throw new DomainException('Cannot record a count before the last count');
+    }
+
+    const reconciliation: CountReconciliation = {
+      countedAt,
+      bookCount: this.currentStats.fishCount,
+      countedCount,
+      unexplainedLoss: this.currentStats.fishCount - countedCount,
+      notes: details.notes ?? null,
+    };
+    this.countHistory.push(reconciliation);
+    this.currentStats = this.currentStats.reconcileCount(
+      countedCount,
+      this.initialCount,
+      removedCount
     );
+    if (countedCount === 0) {
+      this.status = BatchStatus.LOST;
+    }
+    return reconciliation;
   }
 
   // Business Logic - Feeding
-  recordFeeding(feedAmount: Weight, mealsPerDay: number, waterQuality: WaterQuality): void {
+  recordFeeding(
+    feedAmount: Weight,
+    mealsPerDay: number,
+    waterQuality: WaterQuality,
+    details: FeedingDetails = {}
+  ): FeedingRecord {
     if (!this.isActive()) {
-      throw new Error('Cannot feed inactive batch');
+      throw new InactiveBatchException('Cannot feed inactive batch');
+    }
+
+    const uneatenPercent = details.uneatenPercent ?? 0;
+    if (uneatenPercent < 0 || uneatenPercent > 100) {
+      throw new DomainException('Uneaten feed must be between 0 and 100 percent');
+    }
+    if (
+      details.mealNumber !== undefined &&
+      (details.mealNumber < 1 || details.mealNumber > mealsPerDay)
+    ) {
+      throw new DomainException(
+        `Meal ${details.mealNumber} is outside the day's ${mealsPerDay} meals`
+      );
+    }
+
+    const feedDate = details.fedAt || new Date();
+    if (feedDate.getTime() > Date.now()) {
+      throw new DomainException('Cannot record a feeding in the future');
+    }
+    if (feedDate < this.stockedDate) {
+      throw new DomainException('Cannot record a feeding before the batch was stocked');
     }
 
     const record: FeedingRecord = {
       feedAmount,
       mealsPerDay,
-      feedDate: new Date(),
+      feedDate,
       waterQuality,
+      mealNumber: details.mealNumber ?? null,
+      feedProductId: details.feedProductId ?? null,
+      feedLotId: details.feedLotId ?? null,
+      proteinPercent: details.proteinPercent ?? null,
+      uneatenPercent,
     };
 
     this.feedingHistory.push(record);
+    return record;
   }
 
   // Business Logic - Calculate Feed Requirements
   calculateDailyFeed(
     waterQuality: WaterQuality,
-    fishTypeParams: FishTypeParameters
+    fishType: FishType,
+    feedingDate: Date = new Date(),
+    strategy: FeedingStrategy = DEFAULT_FEEDING_STRATEGY
   ): FeedingRequirement {
     if (!this.isActive()) {
       return {
@@ -164,145 +423,192 @@ export class FishBatch {
         feedPerMeal: Weight.fromGrams(0),
         mealsPerDay: 0,
         safetyStatus: 'STOPPED',
-        factors: { temperature: 0, oxygen: 0, ammonia: 0 },
+        factors: { temperature: 0, oxygen: 0, ammonia: 0, nitrite: 0, ph: 0 },
       };
     }
 
-    const biomass = this.currentStats.getTotalBiomass();
-    const avgWeightGrams = this.currentStats.averageWeight.toGrams();
-
-    // Find base feeding rate from matrix
-    const baseFeedingRate = this.findBaseFeedingRate(
-      avgWeightGrams,
-      waterQuality.temperature,
-      fishTypeParams.feedingRateMatrix
-    );
-
-    // Calculate safety factors
-    const factors = this.calculateSafetyFactors(
+    return strategy.calculate({
+      biomass: this.currentStats.getTotalBiomass(),
+      averageWeight: this.currentStats.averageWeight,
       waterQuality,
-      fishTypeParams
-    );
+      fishType,
+      feedingDate,
+    });
+  }
 
-    // Determine safety status
-    let safetyStatus: 'OK' | 'WARNING' | 'STOPPED' = 'OK';
-    if (factors.oxygen === 0 || factors.ammonia === 0) {
-      safetyStatus = 'STOPPED';
-    } else if (factors.oxygen < 1 || factors.ammonia < 1 || factors.temperature < 1) {
-      safetyStatus = 'WARNING';
-    }
-
-    // Calculate final feeding rate
-    const finalRate =
-      baseFeedingRate *
-      factors.temperature *
-      factors.oxygen *
-      factors.ammonia;
-
-    // Calculate total daily feed
-    const dailyFeedKg = biomass.toKilograms() * (finalRate / 100);
-    const totalDailyFeed = Weight.fromKilograms(dailyFeedKg);
-
-    // Determine meals per day
-    const mealsPerDay = this.determineMealsPerDay(
-      avgWeightGrams,
-      fishTypeParams.mealFrequencyRules
-    );
+  // Business Logic - Harvest
+  /**
+   * Takes graded fish out of the batch. The fish left behind keep the
+   * biomass that was not harvested, and the batch closes with its last fish.
+   */
+  recordHarvest(params: {
+    grades: HarvestedGrade[];
+    buyer?: string;
+    harvestedAt?: Date;
+  }): HarvestEvent {
+    if (!this.isActive()) {
+      throw new InactiveBatchException('Cannot harvest from an inactive batch');
+    }
+    if (params.grades.length === 0) {
+      throw new DomainException('A harvest needs at least one grade');
+    }
+    for (const grade of params.grades) {
+      if (!Number.isInteger(grade.fishCount) || grade.fishCount <= 0) {
+        throw new DomainException(`Grade ${grade.grade} must harvest a whole number of fish`);
+      }
+      if (grade.biomass.toGrams() <= 0) {
+        throw new DomainException(`Grade ${grade.grade} must harvest some biomass`);
+      }
+    }
 
-    // Calculate feed per meal
-    const feedPerMeal = Weight.fromGrams(
-      totalDailyFeed.toGrams() / mealsPerDay
+    const harvestedAt = params.harvestedAt || new Date();
+    if (harvestedAt.getTime() > Date.now()) {
+      throw new DomainException('Cannot record a harvest in the future');
+    }
+    if (harvestedAt < this.stockedDate) {
+      throw new DomainException('Cannot record a harvest before the batch was stocked');
+    }
+
+    const fishCount = params.grades.reduce((sum, grade) => sum + grade.fishCount, 0);
+    const biomass = Weight.fromGrams(
+      params.grades.reduce((sum, grade) => sum + grade.biomass.toGrams(), 0)
     );
+    if (fishCount > this.currentStats.fishCount) {
+      throw new DomainException('Harvested count exceeds current fish count');
+    }
+    const closedBatch = fishCount === this.currentStats.fishCount;
+    if (!closedBatch && biomass.toGrams() >= this.currentStats.getTotalBiomass().toGrams()) {
+      throw new DomainException(
+        'Harvested biomass leaves nothing for the fish still in the batch'
+      );
+    }
 
-    return {
-      totalDailyFeed,
-      feedPerMeal,
-      mealsPerDay,
-      safetyStatus,
-      factors,
+    const event: HarvestEvent = {
+      harvestedAt,
+      fishCount,
+      biomass,
+      averageWeight: Weight.fromGrams(biomass.toGrams() / fishCount),
+      grades: params.grades,
+      buyer: params.buyer ?? null,
+      closedBatch,
     };
+    this.harvestHistory.push(event);
+    this.currentStats = this.currentStats.removeFish(fishCount, biomass);
+    if (closedBatch) {
+      this.status = BatchStatus.HARVESTED;
+    }
+    return event;
   }
 
-  private findBaseFeedingRate(
-    weightGrams: number,
-    temperature: number,
-    matrix: FeedingRateMatrix
-  ): number {
-    // Find weight range index
-    const weightRangeIndex = matrix.weight_ranges.findIndex(
-      (range) => weightGrams >= range.min && weightGrams <= range.max
-    );
+  // Business Logic - Transfer
+  /**
+   * Moves fish out to a child batch. They leave at the batch average unless
+   * graded fish are moved at their own average weight. A batch whose last
+   * fish leave this way is MOVED.
+   */
+  transferOut(params: {
+    toBatchId: string;
+    fishCount: number;
+    averageWeight?: Weight;
+    transferredAt?: Date;
+  }): BatchTransfer {
+    if (!this.isActive()) {
+      throw new InactiveBatchException('Cannot transfer fish from an inactive batch');
+    }
+    if (!Number.isInteger(params.fishCount) || params.fishCount <= 0) {
+      throw new DomainException('Must transfer a whole number of fish');
+    }
+    if (params.fishCount > this.currentStats.fishCount) {
+      throw new DomainException('Transferred count exceeds current fish count');
+    }
 
-    if (weightRangeIndex === -1) {
-      throw new Error(`No feeding rate found for weight: ${weightGrams}g`);
+    const transferredAt = params.transferredAt || new Date();
+    if (transferredAt.getTime() > Date.now()) {
+      throw new DomainException('Cannot record a transfer in the future');
+    }
+    if (transferredAt < this.stockedDate) {
+      throw new DomainException('Cannot record a transfer before the batch was stocked');
     }
 
-    // Find temperature index (closest match)
-    const tempIndex = matrix.temperatures.reduce((prev, curr, idx) => {
-      return Math.abs(curr - temperature) < Math.abs(matrix.temperatures[prev] - temperature)
-        ? idx
-        : prev;
-    }, 0);
+    const movesAll = params.fishCount === this.currentStats.fishCount;
+    // The last fish out take whatever biomass is left
+    const averageWeight = movesAll
+      ? this.currentStats.averageWeight
+      : params.averageWeight || this.currentStats.averageWeight;
+    const biomass = Weight.fromGrams(averageWeight.toGrams() * params.fishCount);
+    if (!movesAll && biomass.toGrams() >= this.currentStats.getTotalBiomass().toGrams()) {
+      throw new DomainException(
+        'Transferred biomass leaves nothing for the fish still in the batch'
+      );
+    }
 
-    return matrix.rates[weightRangeIndex][tempIndex];
+    const transfer: BatchTransfer = {
+      transferredAt,
+      toBatchId: params.toBatchId,
+      fishCount: params.fishCount,
+      biomass,
+      averageWeight,
+    };
+    this.transferHistory.push(transfer);
+    this.currentStats = this.currentStats.removeFish(params.fishCount, biomass);
+    if (movesAll) {
+      this.status = BatchStatus.MOVED;
+    }
+    return transfer;
   }
 
-  private calculateSafetyFactors(
-    waterQuality: WaterQuality,
-    fishTypeParams: FishTypeParameters
-  ): SafetyFactors {
-    // Temperature Factor
-    let tf = 1.0;
-    const tempDiff = waterQuality.temperature - fishTypeParams.tempOptimal;
-    if (tempDiff < -3) tf = 0.75;
-    else if (tempDiff >= -3 && tempDiff < -1) tf = 0.85;
-    else if (tempDiff > 1 && tempDiff <= 2) tf = 1.05;
-    else if (tempDiff > 2) tf = 0.95;
-
-    // Oxygen Factor
-    let df = 1.0;
-    if (waterQuality.dissolvedOxygen < fishTypeParams.doMin) df = 0.0;
-    else if (waterQuality.dissolvedOxygen < 4) df = 0.75;
-    else if (waterQuality.dissolvedOxygen < fishTypeParams.doSafe) df = 0.9;
-
-    // Ammonia Factor
-    const nh3 = waterQuality.calculateToxicAmmonia();
-    let af = 1.0;
-    if (nh3 > fishTypeParams.nh3Critical) af = 0.0;
-    else if (nh3 > 0.05) af = 0.5;
-    else if (nh3 > fishTypeParams.nh3Safe) af = 0.8;
+  // Calculate Performance Metrics
+  getTotalFeedDelivered(): Weight {
+    return Weight.fromGrams(
+      this.feedingHistory.reduce(
+        (sum, record) => sum + record.feedAmount.toGrams(),
+        0
+      )
+    );
+  }
 
-    return {
-      temperature: tf,
-      oxygen: df,
-      ammonia: af,
-    };
+  // Feed actually eaten, i.e. delivered feed less the estimated uneaten share
+  getTotalFeedConsumed(): Weight {
+    return Weight.fromGrams(
+      this.feedingHistory.reduce(
+        (sum, record) => sum + consumedFeed(record).toGrams(),
+        0
+      )
+    );
   }
 
-  private determineMealsPerDay(
-    weightGrams: number,
-    rules: MealFrequencyRule[]
-  ): number {
-    for (const rule of rules) {
-      if (rule.maxWeight === null || weightGrams <= rule.maxWeight) {
-        return rule.mealsPerDay;
-      }
-    }
-    return 2; // default
+  getHarvestedCount(): number {
+    return this.harvestHistory.reduce((sum, event) => sum + event.fishCount, 0);
   }
 
-  // Business Logic - Harvest
-  harvest(): void {
-    if (!this.isActive()) {
-      throw new Error('Batch is not active');
-    }
-    this.status = BatchStatus.HARVESTED;
+  getTotalHarvested(): Weight {
+    return Weight.fromGrams(
+      this.harvestHistory.reduce((sum, event) => sum + event.biomass.toGrams(), 0)
+    );
   }
 
-  // Calculate Performance Metrics
-  calculateFCR(totalFeedConsumed: Weight): number {
+  getTransferredCount(): number {
+    return this.transferHistory.reduce((sum, transfer) => sum + transfer.fishCount, 0);
+  }
+
+  getTotalTransferred(): Weight {
+    return Weight.fromGrams(
+      this.transferHistory.reduce((sum, transfer) => sum + transfer.biomass.toGrams(), 0)
+    );
+  }
+
+  // Biomass still in the batch plus what has been harvested or moved out of it
+  getTotalProduction(): Weight {
+    return Weight.fromGrams(
+      this.currentStats.getTotalBiomass().toGrams() +
+        this.getTotalHarvested().toGrams() +
+        this.getTotalTransferred().toGrams()
+    );
+  }
+
+  calculateFCR(totalFeedConsumed: Weight = this.getTotalFeedConsumed()): number {
     const totalWeightGain =
-      this.currentStats.getTotalBiomass().toKilograms() -
+      this.getTotalProduction().toKilograms() -
       this.initialWeight.toKilograms() * this.initialCount;
 
     return totalFeedConsumed.toKilograms() / totalWeightGain;
@@ -321,4 +627,31 @@ export class FishBatch {
   getFeedingHistory(): readonly FeedingRecord[] {
     return this.feedingHistory;
   }
+
+  getHarvestHistory(): readonly HarvestEvent[] {
+    return this.harvestHistory;
+  }
+
+  getTransferHistory(): readonly BatchTransfer[] {
+    return this.transferHistory;
+  }
+
+  getMortalityHistory(): readonly MortalityEvent[] {
+    return this.mortalityHistory;
+  }
+
+  getCountHistory(): readonly CountReconciliation[] {
+    return this.countHistory;
+  }
+
+  getUnexplainedLoss(): number {
+    return this.countHistory.reduce((sum, count) => sum + count.unexplainedLoss, 0);
+  }
+
+  // Survival as recorded deaths alone would have it, before any count
+  getBookSurvivalRate(): number {
+    const bookRate =
+      this.currentStats.survivalRate + (this.getUnexplainedLoss() / this.initialCount) * 100;
+    return Math.min(Math.max(bookRate, 0), 100);
+  }
 }
\ No newline at end of file
@@ -0,0 +1,337 @@
+import { DomainException } from "../exceptions/DomainException";
+import { InvalidFishTypeParametersException } from "../exceptions/InvalidFishTypeParametersException";
+import {
+  FeedingRateInterpolation,
+  SafetyFactorInterpolation,
+} from "../types/Enums";
+import {
+  FishTypeParameters,
+  FishTypeParameterVersion,
+  SafetyFactorCurve,
+} from "../types/FishTypeParameters";
+
+export class FishTypeId {
+  constructor(private readonly value: string) {
+    if (!value || value.trim().length === 0) {
+      throw new DomainException("FishTypeId cannot be empty");
+    }
+  }
+
+  toString(): string {
+    return this.value;
+  }
+
+  equals(other: FishTypeId): boolean {
+    return this.value === other.value;
+  }
+}
+
+export class FishType {
+  private constructor(
+    private readonly id: FishTypeId,
+    private name: string,
+    private scientificName: string | null,
+    private parameterVersions: FishTypeParameterVersion[],
+  ) {}
+
+  static create(params: {
+    id: string;
+    name: string;
+    scientificName?: string | null;
+    parameters: FishTypeParameters;
+    effectiveFrom?: Date;
+  }): FishType {
+    FishType.validateName(params.name);
+    FishType.validateParameters(params.parameters);
+
+    return new FishType(
+      new FishTypeId(params.id),
+      params.name,
+      params.scientificName ?? null,
+      [
+        {
+          version: 1,
+          effectiveFrom: params.effectiveFrom ?? new Date(),
+          parameters: params.parameters,
+        },
+      ],
+    );
+  }
+
+  // Rebuilds a fish type from persisted state without re-running creation rules
+  static reconstitute(params: {
+    id: string;
+    name: string;
+    scientificName: string | null;
+    parameterVersions: FishTypeParameterVersion[];
+  }): FishType {
+    return new FishType(
+      new FishTypeId(params.id),
+      params.name,
+      params.scientificName,
+      [...params.parameterVersions].sort(
+        (a, b) => a.effectiveFrom.getTime() - b.effectiveFrom.getTime(),
+      ),
+    );
+  }
+
+  // Getters
+  getId(): FishTypeId {
+    return this.id;
+  }
+
+  getName(): string {
+    return this.name;
+  }
+
+  getScientificName(): string | null {
+    return this.scientificName;
+  }
+
+  getParameters(): FishTypeParameters {
+    return this.getParametersAt(new Date());
+  }
+
+  getParametersAt(date: Date): FishTypeParameters {
+    return this.getParameterVersionAt(date).parameters;
+  }
+
+  getParameterVersions(): readonly FishTypeParameterVersion[] {
+    return this.parameterVersions;
+  }
+
+  getLatestParameterVersion(): FishTypeParameterVersion {
+    return this.parameterVersions[this.parameterVersions.length - 1];
+  }
+
+  /**
+   * The version in force on `date`. The first version also covers dates
+   * before it took effect, since there is nothing older to fall back to.
+   */
+  getParameterVersionAt(date: Date): FishTypeParameterVersion {
+    let effective = this.parameterVersions[0];
+    for (const version of this.parameterVersions) {
+      if (version.effectiveFrom.getTime() > date.getTime()) break;
+      effective = version;
+    }
+    return effective;
+  }
+
+  // Business Logic - Update Catalogue Entry
+  update(params: { name?: string; scientificName?: string | null }): void {
+    if (params.name !== undefined) {
+      FishType.validateName(params.name);
+      this.name = params.name;
+    }
+    if (params.scientificName !== undefined) {
+      this.scientificName = params.scientificName;
+    }
+  }
+
+  // Business Logic - Revise Parameters (appends a new immutable version)
+  reviseParameters(
+    parameters: FishTypeParameters,
+    effectiveFrom?: Date,
+  ): FishTypeParameterVersion {
+    FishType.validateParameters(parameters);
+
+    const now = new Date();
+    const from = effectiveFrom ?? now;
+    const latest = this.getLatestParameterVersion();
+
+    // Back-dating would change what past calculations were based on
+    if (from.getTime() < now.getTime()) {
+      throw new InvalidFishTypeParametersException(
+        "Parameter versions cannot take effect in the past",
+      );
+    }
+    if (from.getTime() <= latest.effectiveFrom.getTime()) {
+      throw new InvalidFishTypeParametersException(
+        `Parameter versions must take effect after version ${latest.version}`,
+      );
+    }
+
+    const version: FishTypeParameterVersion = {
+      version: latest.version + 1,
+      effectiveFrom: from,
+      parameters,
+    };
+    this.parameterVersions.push(version);
+    return version;
+  }
+
+  private static validateName(name: string): void {
+    if (!name || name.trim().length === 0) {
+      throw new DomainException("Fish type name cannot be empty");
+    }
+  }
+
+  private static validateParameters(params: FishTypeParameters): void {
+    if (params.doMin < 0 || params.doMin > params.doSafe) {
+      throw new InvalidFishTypeParametersException(
+        "doMin must be between 0 and doSafe",
+      );
+    }
+    if (params.phMin < 0 || params.phMax > 14 || params.phMin >= params.phMax) {
+      throw new InvalidFishTypeParametersException(
+        "pH range must satisfy 0 <= phMin < phMax <= 14",
+      );
+    }
+    if (params.nh3Safe < 0 || params.nh3Safe > params.nh3Critical) {
+      throw new InvalidFishTypeParametersException(
+        "nh3Safe must be between 0 and nh3Critical",
+      );
+    }
+    if (params.no2Max < 0) {
+      throw new InvalidFishTypeParametersException("no2Max cannot be negative");
+    }
+    if (
+      params.tempMin > params.tempOptimal ||
+      params.tempOptimal > params.tempMax
+    ) {
+      throw new InvalidFishTypeParametersException(
+        "tempOptimal must lie between tempMin and tempMax",
+      );
+    }
+    if (params.fcrMin <= 0 || params.fcrMin > params.fcrMax) {
+      throw new InvalidFishTypeParametersException(
+        "FCR bounds must satisfy 0 < fcrMin <= fcrMax",
+      );
+    }
+    if (params.survivalRate < 0 || params.survivalRate > 100) {
+      throw new InvalidFishTypeParametersException(
+        "Survival rate must be between 0 and 100",
+      );
+    }
+    if (params.maxStockingDensity !== null && params.maxStockingDensity <= 0) {
+      throw new InvalidFishTypeParametersException(
+        "maxStockingDensity must be positive",
+      );
+    }
+    if (params.oxygenConsumption !== null && params.oxygenConsumption <= 0) {
+      throw new InvalidFishTypeParametersException(
+        "oxygenConsumption must be positive",
+      );
+    }
+
+    if (
+      !Object.values(FeedingRateInterpolation).includes(
+        params.feedingRateInterpolation,
+      )
+    ) {
+      throw new InvalidFishTypeParametersException(
+        `Unknown feeding rate interpolation: ${params.feedingRateInterpolation}`,
+      );
+    }
+
+    FishType.validateFeedingRateMatrix(params);
+
+    for (const [name, curve] of Object.entries(params.safetyFactorCurves)) {
+      FishType.validateSafetyFactorCurve(name, curve);
+    }
+
+    if (params.mealFrequencyRules.length === 0) {
+      throw new InvalidFishTypeParametersException(
+        "At least one meal frequency rule is required",
+      );
+    }
+    for (const rule of params.mealFrequencyRules) {
+      if (!Number.isInteger(rule.mealsPerDay) || rule.mealsPerDay < 1) {
+        throw new InvalidFishTypeParametersException(
+          "mealsPerDay must be a positive integer",
+        );
+      }
+    }
+  }
+
+  private static validateFeedingRateMatrix(params: FishTypeParameters): void {
+    const matrix = params.feedingRateMatrix;
+
+    if (matrix.weight_ranges.length === 0 || matrix.temperatures.length === 0) {
+      throw new InvalidFishTypeParametersException(
+        "Feeding rate matrix needs at least one weight range and one temperature",
+      );
+    }
+
+    for (const range of matrix.weight_ranges) {
+      if (range.min < 0 || range.min >= range.max) {
+        throw new InvalidFishTypeParametersException(
+          `Invalid weight range: ${range.min}-${range.max}g`,
+        );
+      }
+    }
+
+    // Interpolation walks the weight axis in order, so ranges must ascend
+    if (params.feedingRateInterpolation === FeedingRateInterpolation.BILINEAR) {
+      for (let i = 1; i < matrix.weight_ranges.length; i++) {
+        if (matrix.weight_ranges[i].min < matrix.weight_ranges[i - 1].max) {
+          throw new InvalidFishTypeParametersException(
+            "Weight ranges must ascend without overlapping for bilinear interpolation",
+          );
+        }
+      }
+    }
+
+    for (let i = 1; i < matrix.temperatures.length; i++) {
+      if (matrix.temperatures[i] <= matrix.temperatures[i - 1]) {
+        throw new InvalidFishTypeParametersException(
+          "Matrix temperatures must be strictly increasing",
+        );
+      }
+    }
+
+    // rates is indexed [weightRangeIndex][temperatureIndex]
+    if (matrix.rates.length !== matrix.weight_ranges.length) {
+      throw new InvalidFishTypeParametersException(
+        `Matrix has ${matrix.rates.length} rate rows but ${matrix.weight_ranges.length} weight ranges`,
+      );
+    }
+    matrix.rates.forEach((row, index) => {
+      if (row.length !== matrix.temperatures.length) {
+        throw new InvalidFishTypeParametersException(
+          `Rate row ${index} has ${row.length} values but there are ${matrix.temperatures.length} temperatures`,
+        );
+      }
+      if (row.some((rate) => !Number.isFinite(rate) || rate < 0)) {
+        throw new InvalidFishTypeParametersException(
+          `Rate row ${index} contains an invalid rate`,
+        );
+      }
+    });
+  }
+
+  private static validateSafetyFactorCurve(
+    name: string,
+    curve: SafetyFactorCurve,
+  ): void {
+    if (
+      !Object.values(SafetyFactorInterpolation).includes(curve.interpolation)
+    ) {
+      throw new InvalidFishTypeParametersException(
+        `Unknown interpolation for the ${name} safety factor curve`,
+      );
+    }
+    if (curve.points.length === 0) {
+      throw new InvalidFishTypeParametersException(
+        `The ${name} safety factor curve needs at least one point`,
+      );
+    }
+    curve.points.forEach((point, index) => {
+      if (!Number.isFinite(point.at) || !Number.isFinite(point.factor)) {
+        throw new InvalidFishTypeParametersException(
+          `The ${name} safety factor curve contains an invalid point`,
+        );
+      }
+      if (point.factor < 0) {
+        throw new InvalidFishTypeParametersException(
+          `The ${name} safety factor curve has a negative factor`,
+        );
+      }
+      if (index > 0 && point.at < curve.points[index - 1].at) {
+        throw new InvalidFishTypeParametersException(
+          `The ${name} safety factor curve points must be in ascending order`,
+        );
+      }
+    });
+  }
+}
@@ -0,0 +1,119 @@
+import { DomainException } from "../exceptions/DomainException";
+
+export class MarketPriceId {
+  constructor(private readonly value: string) {
+    if (!value || value.trim().length === 0) {
+      throw new DomainException("MarketPriceId cannot be empty");
+    }
+  }
+
+  toString(): string {
+    return this.value;
+  }
+
+  equals(other: MarketPriceId): boolean {
+    return this.value === other.value;
+  }
+}
+
+/**
+ * One line of the price book: what a size grade of one fish type fetches
+ * from a date on. A price change is a new line, so the lines of a grade
+ * are its price history.
+ */
+export class MarketPrice {
+  private constructor(
+    private readonly id: MarketPriceId,
+    private readonly fishTypeId: string,
+    private readonly grade: string,
+    private readonly minWeightGrams: number,
+    private readonly maxWeightGrams: number | null, // open-ended top grade
+    private readonly pricePerKg: number,
+    private readonly effectiveFrom: Date,
+  ) {}
+
+  static create(params: {
+    id: string;
+    fishTypeId: string;
+    grade: string;
+    minWeightGrams: number;
+    maxWeightGrams: number | null;
+    pricePerKg: number;
+    effectiveFrom: Date;
+  }): MarketPrice {
+    if (!params.grade || params.grade.trim().length === 0) {
+      throw new DomainException("Grade cannot be empty");
+    }
+    if (params.minWeightGrams < 0) {
+      throw new DomainException("A grade cannot start below 0g");
+    }
+    if (
+      params.maxWeightGrams !== null &&
+      params.maxWeightGrams <= params.minWeightGrams
+    ) {
+      throw new DomainException("A grade must end above where it starts");
+    }
+    if (params.pricePerKg < 0) {
+      throw new DomainException("Price cannot be negative");
+    }
+
+    return MarketPrice.reconstitute(params);
+  }
+
+  // Rebuilds a market price from persisted state without re-running creation rules
+  static reconstitute(params: {
+    id: string;
+    fishTypeId: string;
+    grade: string;
+    minWeightGrams: number;
+    maxWeightGrams: number | null;
+    pricePerKg: number;
+    effectiveFrom: Date;
+  }): MarketPrice {
+    return new MarketPrice(
+      new MarketPriceId(params.id),
+      params.fishTypeId,
+      params.grade,
+      params.minWeightGrams,
+      params.maxWeightGrams,
+      params.pricePerKg,
+      params.effectiveFrom,
+    );
+  }
+
+  // Getters
+  getId(): MarketPriceId {
+    return this.id;
+  }
+
+  getFishTypeId(): string {
+    return this.fishTypeId;
+  }
+
+  getGrade(): string {
+    return this.grade;
+  }
+
+  getMinWeightGrams(): number {
+    return this.minWeightGrams;
+  }
+
+  getMaxWeightGrams(): number | null {
+    return this.maxWeightGrams;
+  }
+
+  getPricePerKg(): number {
+    return this.pricePerKg;
+  }
+
+  getEffectiveFrom(): Date {
+    return this.effectiveFrom;
+  }
+
+  // Weight bands are half-open: a fish on a boundary is in the upper grade
+  overlaps(other: MarketPrice): boolean {
+    const end = this.maxWeightGrams ?? Infinity;
+    const otherEnd = other.maxWeightGrams ?? Infinity;
+    return this.minWeightGrams < otherEnd && other.minWeightGrams < end;
+  }
+}
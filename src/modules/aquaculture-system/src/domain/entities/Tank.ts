@@ -1,13 +1,21 @@
+import { CarryingCapacityExceededException } from "../exceptions/CarryingCapacityExceededException";
+import { DomainException } from "../exceptions/DomainException";
+import { FeedingStrategy } from "../services/FeedingStrategy";
+import { DEFAULT_FEEDING_STRATEGY } from "../services/MatrixFeedingStrategy";
+import { assessTankCapacity } from "../services/TankCapacity";
+import { TankCapacity, TankCapacityLimits } from "../types/CapacityTypes";
+import { TankStatus } from "../types/Enums";
 import { BatchFeedingRequirement, TankFeedingRequirement } from "../types/FeedingTypes";
-import { FishTypeParameters } from "../types/FishTypeParameters";
+import { Volume } from "../value-objects/Volume";
 import { WaterQuality } from "../value-objects/WaterQuality";
 import { Weight } from "../value-objects/Weight";
 import { FishBatch } from "./FishBatch";
+import { FishType } from "./FishType";
 
-class TankId {
+export class TankId {
   constructor(private readonly value: string) {
     if (!value || value.trim().length === 0) {
-      throw new Error('TankId cannot be empty');
+      throw new DomainException('TankId cannot be empty');
     }
   }
 
@@ -20,29 +28,64 @@ class TankId {
   }
 }
 
-class Tank {
+export class Tank {
   private constructor(
     private readonly id: TankId,
+    private readonly farmId: string,
     private name: string,
     private readonly volume: Volume,
     private batches: Map<string, FishBatch>,
     private waterQuality: WaterQuality | null,
-    private status: TankStatus
+    private status: TankStatus,
+    private capacityLimits: TankCapacityLimits
   ) {}
 
   static create(params: {
     id: string;
+    farmId: string;
     name: string;
     volume: Volume;
     status?: TankStatus;
+    capacityLimits?: TankCapacityLimits;
   }): Tank {
+    const capacityLimits = params.capacityLimits || {
+      maxStockingDensity: null,
+      oxygenSupply: null,
+    };
+    Tank.validateCapacityLimits(capacityLimits);
+
     return new Tank(
       new TankId(params.id),
+      params.farmId,
       params.name,
       params.volume,
       new Map(),
       null,
-      params.status || TankStatus.EMPTY
+      params.status || TankStatus.EMPTY,
+      capacityLimits
+    );
+  }
+
+  // Rebuilds a tank from persisted state without re-running creation rules
+  static reconstitute(params: {
+    id: string;
+    farmId: string;
+    name: string;
+    volume: Volume;
+    status: TankStatus;
+    batches: FishBatch[];
+    waterQuality: WaterQuality | null;
+    capacityLimits: TankCapacityLimits;
+  }): Tank {
+    return new Tank(
+      new TankId(params.id),
+      params.farmId,
+      params.name,
+      params.volume,
+      new Map(params.batches.map((batch) => [batch.getId().toString(), batch])),
+      params.waterQuality,
+      params.status,
+      params.capacityLimits
     );
   }
 
@@ -51,6 +94,10 @@ class Tank {
     return this.id;
   }
 
+  getFarmId(): string {
+    return this.farmId;
+  }
+
   getName(): string {
     return this.name;
   }
@@ -75,14 +122,31 @@ class Tank {
     return this.batches.get(batchId) || null;
   }
 
+  getCapacityLimits(): TankCapacityLimits {
+    return { ...this.capacityLimits };
+  }
+
   // Business Logic - Add Batch
-  addBatch(batch: FishBatch): void {
-    if (this.status !== TankStatus.ACTIVE) {
-      throw new Error('Cannot add batch to inactive tank');
+  // Rejects a batch that would take the tank over its carrying capacity
+  addBatch(batch: FishBatch, fishTypes: Map<string, FishType>): void {
+    if (
+      this.status === TankStatus.MAINTENANCE ||
+      this.status === TankStatus.INACTIVE
+    ) {
+      throw new DomainException('Cannot add batch to inactive tank');
+    }
+
+    if (batch.getTankId() !== this.id.toString()) {
+      throw new DomainException('Batch belongs to another tank');
     }
 
     if (this.batches.has(batch.getId().toString())) {
-      throw new Error('Batch already exists in tank');
+      throw new DomainException('Batch already exists in tank');
+    }
+
+    const capacity = this.assessCapacity(fishTypes, new Date(), [batch]);
+    if (capacity.utilization !== null && capacity.utilization > 1) {
+      throw new CarryingCapacityExceededException(capacity);
     }
 
     this.batches.set(batch.getId().toString(), batch);
@@ -92,10 +156,21 @@ class Tank {
     }
   }
 
+  // Business Logic - Refresh Batch
+  // Swaps in a newer copy of a batch the tank already holds, e.g. one just split
+  refreshBatch(batch: FishBatch): void {
+    const batchId = batch.getId().toString();
+    if (!this.batches.has(batchId)) {
+      throw new DomainException('Batch not found in tank');
+    }
+
+    this.batches.set(batchId, batch);
+  }
+
   // Business Logic - Remove Batch
   removeBatch(batchId: string): void {
     if (!this.batches.has(batchId)) {
-      throw new Error('Batch not found in tank');
+      throw new DomainException('Batch not found in tank');
     }
 
     this.batches.delete(batchId);
@@ -112,10 +187,12 @@ class Tank {
 
   // Business Logic - Calculate Total Tank Feeding
   calculateTotalDailyFeed(
-    fishTypeParamsMap: Map<string, FishTypeParameters>
+    fishTypes: Map<string, FishType>,
+    feedingDate: Date = new Date(),
+    strategy: FeedingStrategy = DEFAULT_FEEDING_STRATEGY
   ): TankFeedingRequirement {
     if (!this.waterQuality) {
-      throw new Error('Water quality not available for tank');
+      throw new DomainException('Water quality not available for tank');
     }
 
     const batchRequirements: BatchFeedingRequirement[] = [];
@@ -125,14 +202,16 @@ class Tank {
     for (const batch of this.batches.values()) {
       if (!batch.isActive()) continue;
 
-      const fishTypeParams = fishTypeParamsMap.get(batch.getFishTypeId());
-      if (!fishTypeParams) {
-        throw new Error(`Fish type parameters not found: ${batch.getFishTypeId()}`);
+      const fishType = fishTypes.get(batch.getFishTypeId());
+      if (!fishType) {
+        throw new DomainException(`Fish type not found: ${batch.getFishTypeId()}`);
       }
 
       const requirement = batch.calculateDailyFeed(
         this.waterQuality,
-        fishTypeParams
+        fishType,
+        feedingDate,
+        strategy
       );
 
       batchRequirements.push({
@@ -179,18 +258,52 @@ class Tank {
     return this.getTotalBiomass().toKilograms() / this.volume.toCubicMeters();
   }
 
+  // Business Logic - Set Capacity Limits
+  setCapacityLimits(limits: TankCapacityLimits): void {
+    Tank.validateCapacityLimits(limits);
+    this.capacityLimits = { ...limits };
+  }
+
+  // Business Logic - Assess Carrying Capacity
+  assessCapacity(
+    fishTypes: Map<string, FishType>,
+    date: Date = new Date(),
+    incoming: FishBatch[] = []
+  ): TankCapacity {
+    return assessTankCapacity({
+      tankId: this.id.toString(),
+      volume: this.volume,
+      limits: this.capacityLimits,
+      stock: [...this.batches.values(), ...incoming].map((batch) => ({
+        fishTypeId: batch.getFishTypeId(),
+        biomass: batch.getCurrentStats().getTotalBiomass(),
+      })),
+      fishTypes,
+      date,
+    });
+  }
+
   // Business Logic - Set Maintenance Mode
   setMaintenance(): void {
     if (this.batches.size > 0) {
-      throw new Error('Cannot set maintenance mode while tank has batches');
+      throw new DomainException('Cannot set maintenance mode while tank has batches');
     }
     this.status = TankStatus.MAINTENANCE;
   }
 
   activate(): void {
     if (this.status === TankStatus.INACTIVE) {
-      throw new Error('Cannot activate inactive tank');
+      throw new DomainException('Cannot activate inactive tank');
     }
     this.status = this.batches.size === 0 ? TankStatus.EMPTY : TankStatus.ACTIVE;
   }
+
+  private static validateCapacityLimits(limits: TankCapacityLimits): void {
+    if (limits.maxStockingDensity !== null && limits.maxStockingDensity <= 0) {
+      throw new DomainException('Maximum stocking density must be positive');
+    }
+    if (limits.oxygenSupply !== null && limits.oxygenSupply <= 0) {
+      throw new DomainException('Oxygen supply must be positive');
+    }
+  }
 }
\ No newline at end of file
@@ -0,0 +1,177 @@
+import { DomainException } from "../exceptions/DomainException";
+import { TreatmentType, WithdrawalUnit } from "../types/Enums";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class TreatmentId {
+  constructor(private readonly value: string) {
+    if (!value || value.trim().length === 0) {
+      throw new DomainException("TreatmentId cannot be empty");
+    }
+  }
+
+  toString(): string {
+    return this.value;
+  }
+
+  equals(other: TreatmentId): boolean {
+    return this.value === other.value;
+  }
+}
+
+/**
+ * A course of a product given to a batch. The withdrawal period, in days
+ * or degree-days, runs from the end of the course; fish treated with a
+ * product must not be harvested for food before it is over.
+ */
+export class Treatment {
+  private constructor(
+    private readonly id: TreatmentId,
+    private readonly batchId: string,
+    private readonly diagnosisId: string | null,
+    private readonly type: TreatmentType,
+    private readonly product: string,
+    private readonly dose: number,
+    private readonly doseUnit: string, // e.g. g/L for baths, mg/kg for drugs
+    private readonly startedAt: Date,
+    private readonly durationDays: number, // 0 for a single dose
+    private readonly withdrawalPeriod: number,
+    private readonly withdrawalUnit: WithdrawalUnit,
+    private readonly notes: string | null,
+  ) {}
+
+  static create(params: {
+    id: string;
+    batchId: string;
+    diagnosisId?: string | null;
+    type: TreatmentType;
+    product: string;
+    dose: number;
+    doseUnit: string;
+    startedAt?: Date;
+    durationDays: number;
+    withdrawalPeriod: number;
+    withdrawalUnit: WithdrawalUnit;
+    notes?: string | null;
+  }): Treatment {
+    if (!params.product || params.product.trim().length === 0) {
+      throw new DomainException("Treatment must name the product given");
+    }
+    if (!(params.dose > 0)) {
+      throw new DomainException("Dose must be positive");
+    }
+    if (!params.doseUnit || params.doseUnit.trim().length === 0) {
+      throw new DomainException("Dose needs a unit");
+    }
+    if (!(params.durationDays >= 0)) {
+      throw new DomainException("Treatment duration cannot be negative");
+    }
+    if (!(params.withdrawalPeriod >= 0)) {
+      throw new DomainException("Withdrawal period cannot be negative");
+    }
+    const startedAt = params.startedAt || new Date();
+    if (startedAt.getTime() > Date.now()) {
+      throw new DomainException("Cannot record a treatment in the future");
+    }
+
+    return Treatment.reconstitute({
+      id: params.id,
+      batchId: params.batchId,
+      diagnosisId: params.diagnosisId ?? null,
+      type: params.type,
+      product: params.product.trim(),
+      dose: params.dose,
+      doseUnit: params.doseUnit.trim(),
+      startedAt,
+      durationDays: params.durationDays,
+      withdrawalPeriod: params.withdrawalPeriod,
+      withdrawalUnit: params.withdrawalUnit,
+      notes: params.notes ?? null,
+    });
+  }
+
+  // Rebuilds a treatment from persisted state without re-running creation rules
+  static reconstitute(params: {
+    id: string;
+    batchId: string;
+    diagnosisId: string | null;
+    type: TreatmentType;
+    product: string;
+    dose: number;
+    doseUnit: string;
+    startedAt: Date;
+    durationDays: number;
+    withdrawalPeriod: number;
+    withdrawalUnit: WithdrawalUnit;
+    notes: string | null;
+  }): Treatment {
+    return new Treatment(
+      new TreatmentId(params.id),
+      params.batchId,
+      params.diagnosisId,
+      params.type,
+      params.product,
+      params.dose,
+      params.doseUnit,
+      params.startedAt,
+      params.durationDays,
+      params.withdrawalPeriod,
+      params.withdrawalUnit,
+      params.notes,
+    );
+  }
+
+  // Getters
+  getId(): TreatmentId {
+    return this.id;
+  }
+
+  getBatchId(): string {
+    return this.batchId;
+  }
+
+  getDiagnosisId(): string | null {
+    return this.diagnosisId;
+  }
+
+  getType(): TreatmentType {
+    return this.type;
+  }
+
+  getProduct(): string {
+    return this.product;
+  }
+
+  getDose(): number {
+    return this.dose;
+  }
+
+  getDoseUnit(): string {
+    return this.doseUnit;
+  }
+
+  getStartedAt(): Date {
+    return this.startedAt;
+  }
+
+  getDurationDays(): number {
+    return this.durationDays;
+  }
+
+  getWithdrawalPeriod(): number {
+    return this.withdrawalPeriod;
+  }
+
+  getWithdrawalUnit(): WithdrawalUnit {
+    return this.withdrawalUnit;
+  }
+
+  getNotes(): string | null {
+    return this.notes;
+  }
+
+  // The withdrawal period starts counting from here
+  getEndedAt(): Date {
+    return new Date(this.startedAt.getTime() + this.durationDays * DAY_MS);
+  }
+}
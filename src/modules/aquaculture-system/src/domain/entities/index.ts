@@ -0,0 +1,9 @@
+export * from "./FishBatch";
+export * from "./Tank";
+export * from "./FishType";
+export * from "./FeedingPlan";
+export * from "./FeedProduct";
+export * from "./FeedLot";
+export * from "./MarketPrice";
+export * from "./Diagnosis";
+export * from "./Treatment";
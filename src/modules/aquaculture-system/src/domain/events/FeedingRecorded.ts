@@ -0,0 +1,27 @@
+import { IEvent } from "@nestjs/cqrs";
+import { DomainEvent } from "../../../../../libs/ddd/domain-event.abstract";
+
+export interface FeedingRecordedPayload {
+  batchId: string;
+  tankId: string;
+  farmId: string;
+  feedDate: Date;
+  feedAmountGrams: number;
+  consumedGrams: number;
+  uneatenPercent: number;
+  mealNumber: number | null;
+  feedProductId: string | null;
+  feedLotId: string | null;
+}
+
+export class FeedingRecordedEvent
+  extends DomainEvent<FeedingRecordedPayload>
+  implements IEvent
+{
+  constructor(
+    payload: FeedingRecordedPayload,
+    options: { correlationId?: string; version?: number } = {},
+  ) {
+    super("FeedingRecordedEvent", payload, options);
+  }
+}
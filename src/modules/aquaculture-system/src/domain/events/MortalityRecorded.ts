@@ -0,0 +1,27 @@
+import { IEvent } from "@nestjs/cqrs";
+import { DomainEvent } from "../../../../../libs/ddd/domain-event.abstract";
+import { MortalityCause } from "../types/Enums";
+import { MortalityAlert } from "../types/MortalityTypes";
+
+export interface MortalityRecordedPayload {
+  batchId: string;
+  tankId: string;
+  farmId: string;
+  recordedAt: Date;
+  deadCount: number;
+  fishCountBefore: number;
+  cause: MortalityCause;
+  alert: MortalityAlert | null; // set when the deaths amount to a mass mortality
+}
+
+export class MortalityRecordedEvent
+  extends DomainEvent<MortalityRecordedPayload>
+  implements IEvent
+{
+  constructor(
+    payload: MortalityRecordedPayload,
+    options: { correlationId?: string; version?: number } = {},
+  ) {
+    super("MortalityRecordedEvent", payload, options);
+  }
+}
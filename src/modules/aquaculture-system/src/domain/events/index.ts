@@ -0,0 +1,2 @@
+export * from "./FeedingRecorded";
+export * from "./MortalityRecorded";
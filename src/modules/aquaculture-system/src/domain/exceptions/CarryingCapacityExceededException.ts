@@ -0,0 +1,13 @@
+import { TankCapacity } from "../types/CapacityTypes";
+import { DomainException } from "./DomainException";
+
+export class CarryingCapacityExceededException extends DomainException {
+  constructor(capacity: TankCapacity) {
+    const limit = capacity.limitedBy === "OXYGEN" ? "oxygen" : "density";
+    super(
+      `Tank ${capacity.tankId} would hold ${capacity.biomass.toKilograms().toFixed(1)} kg, ` +
+        `over its ${limit}-limited carrying capacity of ` +
+        `${capacity.carryingCapacity?.toKilograms().toFixed(1)} kg`,
+    );
+  }
+}
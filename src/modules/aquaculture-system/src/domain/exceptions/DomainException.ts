@@ -0,0 +1,9 @@
+/**
+ * Base class for business rule violations raised by the aquaculture domain.
+ */
+export class DomainException extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = this.constructor.name;
+  }
+}
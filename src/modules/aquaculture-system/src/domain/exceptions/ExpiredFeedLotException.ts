@@ -0,0 +1,7 @@
+import { DomainException } from "./DomainException";
+
+export class ExpiredFeedLotException extends DomainException {
+  constructor(lotNumber: string, expiresAt: Date) {
+    super(`Feed lot ${lotNumber} expired on ${expiresAt.toISOString()}`);
+  }
+}
@@ -0,0 +1,7 @@
+import { DomainException } from "./DomainException";
+
+export class InactiveBatchException extends DomainException {
+  constructor(message: string = "Batch is not active") {
+    super(message);
+  }
+}
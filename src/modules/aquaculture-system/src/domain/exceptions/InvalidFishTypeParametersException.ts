@@ -0,0 +1,7 @@
+import { DomainException } from "./DomainException";
+
+export class InvalidFishTypeParametersException extends DomainException {
+  constructor(message: string) {
+    super(message);
+  }
+}
@@ -0,0 +1,7 @@
+import { DomainException } from "./DomainException";
+
+export class InvalidWaterQualityException extends DomainException {
+  constructor(message: string) {
+    super(message);
+  }
+}
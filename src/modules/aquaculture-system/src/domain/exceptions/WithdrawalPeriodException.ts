@@ -0,0 +1,20 @@
+import { WithdrawalStatus } from "../types/HealthTypes";
+import { DomainException } from "./DomainException";
+
+export class WithdrawalPeriodException extends DomainException {
+  constructor(status: WithdrawalStatus) {
+    const products = [
+      ...new Set(
+        status.withdrawals
+          .filter((withdrawal) => !withdrawal.cleared)
+          .map((withdrawal) => withdrawal.product),
+      ),
+    ].join(", ");
+    super(
+      `Batch ${status.batchId} is within the withdrawal period of ${products}` +
+        (status.clearsAt
+          ? ` until ${status.clearsAt.toISOString()}`
+          : ", and when it ends cannot be told without water temperatures"),
+    );
+  }
+}
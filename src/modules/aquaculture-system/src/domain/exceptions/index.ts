@@ -0,0 +1,7 @@
+export * from "./DomainException";
+export * from "./InactiveBatchException";
+export * from "./InvalidWaterQualityException";
+export * from "./InvalidFishTypeParametersException";
+export * from "./ExpiredFeedLotException";
+export * from "./CarryingCapacityExceededException";
+export * from "./WithdrawalPeriodException";
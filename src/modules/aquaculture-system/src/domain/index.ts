@@ -0,0 +1,7 @@
+export * from "./aggregates";
+export * from "./entities";
+export * from "./exceptions";
+export * from "./repositories";
+export * from "./services";
+export * from "./types";
+export * from "./value-objects";
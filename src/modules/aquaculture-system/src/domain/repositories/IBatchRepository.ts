@@ -0,0 +1,23 @@
+import { Option } from "effect/Option";
+import { FishBatch } from "../entities/FishBatch";
+import { BatchMortalityEvent } from "../types/MortalityTypes";
+
+export interface IBatchRepository {
+  findById(id: string): Promise<Option<FishBatch>>;
+
+  findByTankId(tankId: string): Promise<FishBatch[]>;
+
+  // Every batch linked to this one by transfers, in stocking order
+  findLineage(batchId: string): Promise<FishBatch[]>;
+
+  // Deaths recorded in the farm's tanks over a period, oldest first
+  findMortalityByFarm(
+    farmId: string,
+    from: Date,
+    to: Date,
+  ): Promise<BatchMortalityEvent[]>;
+
+  existsByFishTypeId(fishTypeId: string): Promise<boolean>;
+
+  save(batch: FishBatch): Promise<FishBatch>;
+}
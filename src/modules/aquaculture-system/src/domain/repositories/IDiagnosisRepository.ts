@@ -0,0 +1,11 @@
+import { Option } from "effect/Option";
+import { Diagnosis } from "../entities/Diagnosis";
+
+export interface IDiagnosisRepository {
+  findById(id: string): Promise<Option<Diagnosis>>;
+
+  // Oldest first
+  findByBatchId(batchId: string): Promise<Diagnosis[]>;
+
+  save(diagnosis: Diagnosis): Promise<Diagnosis>;
+}
@@ -0,0 +1,10 @@
+import { Option } from "effect/Option";
+import { Farm } from "../aggregates/Farm";
+
+export interface IFarmRepository {
+  findById(id: string): Promise<Option<Farm>>;
+
+  findAll(): Promise<Farm[]>;
+
+  save(farm: Farm): Promise<Farm>;
+}
@@ -0,0 +1,17 @@
+import { Option } from "effect/Option";
+import { FeedLot } from "../entities/FeedLot";
+
+export interface IFeedLotRepository {
+  findById(id: string): Promise<Option<FeedLot>>;
+
+  findByIds(ids: string[]): Promise<FeedLot[]>;
+
+  findByLotNumber(
+    feedProductId: string,
+    lotNumber: string,
+  ): Promise<Option<FeedLot>>;
+
+  findAll(feedProductId?: string): Promise<FeedLot[]>;
+
+  save(feedLot: FeedLot): Promise<FeedLot>;
+}
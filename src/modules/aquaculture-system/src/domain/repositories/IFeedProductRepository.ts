@@ -0,0 +1,12 @@
+import { Option } from "effect/Option";
+import { FeedProduct } from "../entities/FeedProduct";
+
+export interface IFeedProductRepository {
+  findById(id: string): Promise<Option<FeedProduct>>;
+
+  findByBrandAndName(brand: string, name: string): Promise<Option<FeedProduct>>;
+
+  findAll(): Promise<FeedProduct[]>;
+
+  save(feedProduct: FeedProduct): Promise<FeedProduct>;
+}
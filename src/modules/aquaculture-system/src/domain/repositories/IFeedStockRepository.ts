@@ -0,0 +1,19 @@
+import { FeedStockMovement } from "../types/FeedInventoryTypes";
+
+export interface IFeedStockRepository {
+  // Stock on hand in grams per feed product, counting movements before `before`
+  getBalances(farmId: string, before?: Date): Promise<Map<string, number>>;
+
+  // Grams fed per feed product since `since`
+  getUsageSince(farmId: string, since: Date): Promise<Map<string, number>>;
+
+  // Movements in [from, to), oldest first
+  findMovements(
+    farmId: string,
+    feedProductId: string,
+    from?: Date,
+    to?: Date,
+  ): Promise<FeedStockMovement[]>;
+
+  save(movement: FeedStockMovement): Promise<FeedStockMovement>;
+}
@@ -0,0 +1,23 @@
+import { Option } from "effect/Option";
+import { FeedingPlan } from "../entities/FeedingPlan";
+
+export interface IFeedingPlanRepository {
+  findByTankAndDate(
+    tankId: string,
+    planDate: string,
+  ): Promise<Option<FeedingPlan>>;
+
+  findByTanksAndDate(
+    tankIds: string[],
+    planDate: string,
+  ): Promise<FeedingPlan[]>;
+
+  // Plans with a line for the batch, for dates in [from, to]
+  findByBatchBetween(
+    batchId: string,
+    from: string,
+    to: string,
+  ): Promise<FeedingPlan[]>;
+
+  save(plan: FeedingPlan): Promise<FeedingPlan>;
+}
@@ -0,0 +1,14 @@
+import { Option } from "effect/Option";
+import { FishType } from "../entities/FishType";
+
+export interface IFishTypeRepository {
+  findById(id: string): Promise<Option<FishType>>;
+
+  findByName(name: string): Promise<Option<FishType>>;
+
+  findAll(): Promise<FishType[]>;
+
+  save(fishType: FishType): Promise<FishType>;
+
+  delete(id: string): Promise<void>;
+}
@@ -0,0 +1,15 @@
+import { Option } from "effect/Option";
+import { MarketPrice } from "../entities/MarketPrice";
+
+export interface IMarketPriceRepository {
+  // Every line for the fish type, oldest first
+  findByFishType(fishTypeId: string, grade?: string): Promise<MarketPrice[]>;
+
+  findByGradeAndDate(
+    fishTypeId: string,
+    grade: string,
+    effectiveFrom: Date,
+  ): Promise<Option<MarketPrice>>;
+
+  save(price: MarketPrice): Promise<MarketPrice>;
+}
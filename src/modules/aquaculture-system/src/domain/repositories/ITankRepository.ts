@@ -0,0 +1,18 @@
+import { Option } from "effect/Option";
+import { Tank } from "../entities/Tank";
+import { WaterQuality } from "../value-objects/WaterQuality";
+
+export interface ITankRepository {
+  findById(id: string): Promise<Option<Tank>>;
+
+  findByFarmId(farmId: string): Promise<Tank[]>;
+
+  // Readings in [from, to], led by the last one taken before `from`
+  findWaterQualityHistory(
+    tankId: string,
+    from: Date,
+    to: Date,
+  ): Promise<WaterQuality[]>;
+
+  save(tank: Tank): Promise<Tank>;
+}
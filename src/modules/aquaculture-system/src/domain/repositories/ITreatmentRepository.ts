@@ -0,0 +1,8 @@
+import { Treatment } from "../entities/Treatment";
+
+export interface ITreatmentRepository {
+  // Oldest first
+  findByBatchIds(batchIds: string[]): Promise<Treatment[]>;
+
+  save(treatment: Treatment): Promise<Treatment>;
+}
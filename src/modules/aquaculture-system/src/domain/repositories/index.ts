@@ -0,0 +1,11 @@
+export * from "./IFarmRepository";
+export * from "./ITankRepository";
+export * from "./IBatchRepository";
+export * from "./IFishTypeRepository";
+export * from "./IFeedingPlanRepository";
+export * from "./IFeedLotRepository";
+export * from "./IFeedProductRepository";
+export * from "./IFeedStockRepository";
+export * from "./IMarketPriceRepository";
+export * from "./IDiagnosisRepository";
+export * from "./ITreatmentRepository";
@@ -0,0 +1,108 @@
+import { FishBatch } from "../entities/FishBatch";
+import { DomainException } from "../exceptions/DomainException";
+import { InactiveBatchException } from "../exceptions/InactiveBatchException";
+import { LineagePerformance } from "../types/TransferTypes";
+import { Weight } from "../value-objects/Weight";
+
+/**
+ * Moves some or all of a batch's fish into a new child batch in `toTankId`.
+ * The child starts its own culture period at the transfer, so its growth
+ * rates cover its time in the new tank; lineage figures span the move.
+ */
+export function splitBatch(
+  source: FishBatch,
+  params: {
+    childId: string;
+    toTankId: string;
+    fishCount: number;
+    averageWeight?: Weight;
+    transferredAt?: Date;
+  },
+): FishBatch {
+  const transferredAt = params.transferredAt || new Date();
+  const transfer = source.transferOut({
+    toBatchId: params.childId,
+    fishCount: params.fishCount,
+    averageWeight: params.averageWeight,
+    transferredAt,
+  });
+  return FishBatch.create({
+    id: params.childId,
+    tankId: params.toTankId,
+    fishTypeId: source.getFishTypeId(),
+    fishCount: transfer.fishCount,
+    initialWeight: transfer.averageWeight,
+    stockedDate: transferredAt,
+    parentBatchIds: [source.getId().toString()],
+  });
+}
+
+// Moves every fish of the sources into one child at their weighted average weight
+export function mergeBatches(
+  sources: readonly FishBatch[],
+  params: { childId: string; toTankId: string; mergedAt?: Date },
+): FishBatch {
+  const ids = new Set(sources.map((batch) => batch.getId().toString()));
+  if (ids.size < 2 || ids.size !== sources.length) {
+    throw new DomainException("A merge needs at least two different batches");
+  }
+  const fishTypeId = sources[0].getFishTypeId();
+  for (const batch of sources) {
+    if (!batch.isActive()) {
+      throw new InactiveBatchException("Cannot merge an inactive batch");
+    }
+    if (batch.getFishTypeId() !== fishTypeId) {
+      throw new DomainException("Only batches of the same fish type can merge");
+    }
+  }
+
+  const mergedAt = params.mergedAt || new Date();
+  const transfers = sources.map((batch) =>
+    batch.transferOut({
+      toBatchId: params.childId,
+      fishCount: batch.getCurrentStats().fishCount,
+      transferredAt: mergedAt,
+    }),
+  );
+  const fishCount = transfers.reduce(
+    (sum, transfer) => sum + transfer.fishCount,
+    0,
+  );
+  const biomassGrams = transfers.reduce(
+    (sum, transfer) => sum + transfer.biomass.toGrams(),
+    0,
+  );
+  return FishBatch.create({
+    id: params.childId,
+    tankId: params.toTankId,
+    fishTypeId,
+    fishCount,
+    initialWeight: Weight.fromGrams(biomassGrams / fishCount),
+    stockedDate: mergedAt,
+    parentBatchIds: [...ids],
+  });
+}
+
+/**
+ * Each batch's gain counts the fish it passed on, and a child's starting
+ * biomass is what it was passed, so transferred fish cancel out and the
+ * lineage FCR is feed eaten over the gain made in every tank.
+ */
+export function calculateLineagePerformance(
+  batches: readonly FishBatch[],
+): LineagePerformance {
+  let feedGrams = 0;
+  let gainGrams = 0;
+  for (const batch of batches) {
+    feedGrams += batch.getTotalFeedConsumed().toGrams();
+    gainGrams +=
+      batch.getTotalProduction().toGrams() -
+      batch.getInitialWeight().toGrams() * batch.getInitialCount();
+  }
+  return {
+    batchIds: batches.map((batch) => batch.getId().toString()),
+    feedConsumed: Weight.fromGrams(feedGrams),
+    weightGain: Weight.fromGrams(Math.max(gainGrams, 0)),
+    fcr: gainGrams > 0 && feedGrams > 0 ? feedGrams / gainGrams : null,
+  };
+}
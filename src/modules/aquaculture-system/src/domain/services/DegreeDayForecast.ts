@@ -0,0 +1,82 @@
+import { DomainException } from "../exceptions/DomainException";
+import { DegreeDayHarvestForecast } from "../types/HarvestTypes";
+import { SeasonalTemperatureProfile } from "../types/WaterQualityTypes";
+import { WaterQuality } from "../value-objects/WaterQuality";
+import { Weight } from "../value-objects/Weight";
+import { degreeDaysBetween } from "./GrowthCurveFitting";
+import { expectedTemperatureOn } from "./SeasonalTemperature";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_FORECAST_DAYS = 3 * 365;
+
+/**
+ * Grows the fish on from their last weighing with the thermal growth
+ * coefficient: first over the degree-days the tank has recorded since, then
+ * day by day over the farm's seasonal profile until the target is reached.
+ * Running the profile warmer and cooler by its variation gives the range.
+ */
+export function forecastHarvestByDegreeDays(params: {
+  fishCount: number;
+  lastWeight: Weight;
+  lastWeighedAt: Date;
+  tgc: number;
+  readings: readonly WaterQuality[];
+  profile: SeasonalTemperatureProfile;
+  targetWeight: Weight;
+  survivalRate: number;
+  currentDate?: Date;
+}): DegreeDayHarvestForecast {
+  const currentDate = params.currentDate || new Date();
+  const { tgc, profile, targetWeight } = params;
+  if (tgc <= 0) {
+    throw new DomainException(
+      "The batch has no thermal growth to forecast from",
+    );
+  }
+
+  const degreeDaysSinceWeighing =
+    degreeDaysBetween(params.readings, params.lastWeighedAt, currentDate) ?? 0;
+  const currentRoot =
+    Math.cbrt(params.lastWeight.toGrams()) +
+    (tgc / 1000) * degreeDaysSinceWeighing;
+  const degreeDaysToHarvest = Math.max(
+    ((Math.cbrt(targetWeight.toGrams()) - currentRoot) * 1000) / tgc,
+    0,
+  );
+
+  const harvestDateAt = (offset: number): Date | null => {
+    let accumulated = 0;
+    for (let day = 0; day <= MAX_FORECAST_DAYS; day++) {
+      const date = new Date(currentDate.getTime() + day * DAY_MS);
+      if (accumulated >= degreeDaysToHarvest) return date;
+      accumulated += Math.max(expectedTemperatureOn(profile, date) + offset, 0);
+    }
+    return null;
+  };
+
+  const expectedHarvestDate = harvestDateAt(0);
+  if (!expectedHarvestDate) {
+    throw new DomainException(
+      `The batch does not reach ${targetWeight.toGrams()}g within ${MAX_FORECAST_DAYS} days at the farm's seasonal temperatures`,
+    );
+  }
+  const expectedFinalCount = Math.floor(
+    params.fishCount * (params.survivalRate / 100),
+  );
+
+  return {
+    tgc,
+    estimatedCurrentWeight: Weight.fromGrams(Math.pow(currentRoot, 3)),
+    degreeDaysSinceWeighing,
+    degreeDaysToHarvest,
+    earliestHarvestDate: harvestDateAt(profile.variation)!,
+    expectedHarvestDate,
+    latestHarvestDate: harvestDateAt(-profile.variation),
+    targetWeight,
+    expectedFinalCount,
+    finalProduction: Weight.fromKilograms(
+      targetWeight.toKilograms() * expectedFinalCount,
+    ),
+    projectedSurvivalRate: params.survivalRate,
+  };
+}
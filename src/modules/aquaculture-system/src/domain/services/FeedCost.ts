@@ -0,0 +1,35 @@
+import { FeedingRecord } from "../types/FeedingTypes";
+import { Weight } from "../value-objects/Weight";
+
+export interface FeedSpend {
+  pricedFeed: Weight;
+  spend: number; // on the priced feed
+  unpricedFeed: Weight; // from no product, or one we can't look up
+}
+
+// Delivered feed at each product's list price
+export function calculateFeedSpend(
+  feedings: readonly FeedingRecord[],
+  pricePerKgByProduct: ReadonlyMap<string, number>,
+): FeedSpend {
+  let pricedKg = 0;
+  let spend = 0;
+  let unpricedKg = 0;
+  for (const record of feedings) {
+    const price =
+      record.feedProductId !== null
+        ? pricePerKgByProduct.get(record.feedProductId)
+        : undefined;
+    if (price === undefined) {
+      unpricedKg += record.feedAmount.toKilograms();
+    } else {
+      pricedKg += record.feedAmount.toKilograms();
+      spend += record.feedAmount.toKilograms() * price;
+    }
+  }
+  return {
+    pricedFeed: Weight.fromKilograms(pricedKg),
+    spend,
+    unpricedFeed: Weight.fromKilograms(unpricedKg),
+  };
+}
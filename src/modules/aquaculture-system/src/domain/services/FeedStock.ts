@@ -0,0 +1,81 @@
+import { DomainException } from "../exceptions/DomainException";
+import { FeedStockMovementType } from "../types/Enums";
+import {
+  FeedStockLedger,
+  FeedStockLevel,
+  FeedStockMovement,
+} from "../types/FeedInventoryTypes";
+import { Weight } from "../value-objects/Weight";
+
+// Receipts add to stock on hand, consumption takes away from it
+export function signedQuantityGrams(movement: FeedStockMovement): number {
+  const grams = movement.quantity.toGrams();
+  return movement.type === FeedStockMovementType.RECEIPT ? grams : -grams;
+}
+
+export function createFeedStockMovement(
+  params: Omit<FeedStockMovement, "occurredAt"> & { occurredAt?: Date },
+): FeedStockMovement {
+  if (params.quantity.toGrams() <= 0) {
+    throw new DomainException("Feed stock movements must move some feed");
+  }
+  const occurredAt = params.occurredAt || new Date();
+  if (occurredAt.getTime() > Date.now()) {
+    throw new DomainException(
+      "Cannot record a feed stock movement in the future",
+    );
+  }
+  if (params.unitPricePerKg !== null && params.unitPricePerKg < 0) {
+    throw new DomainException("Price per kg cannot be negative");
+  }
+  return { ...params, occurredAt };
+}
+
+/**
+ * Splits the farm's daily feed requirement across products by their share
+ * of recent consumption. When nothing has been fed yet every product is
+ * assumed to carry the whole requirement on its own. A product is low on
+ * stock when it covers fewer than `lowStockDays` days.
+ */
+export function calculateStockLevels(
+  balances: ReadonlyMap<string, number>,
+  recentUsage: ReadonlyMap<string, number>,
+  dailyRequirement: Weight,
+  lowStockDays: number,
+): FeedStockLevel[] {
+  const totalUsage = [...recentUsage.values()].reduce(
+    (sum, grams) => sum + grams,
+    0,
+  );
+  const productIds = new Set([...balances.keys(), ...recentUsage.keys()]);
+
+  return [...productIds].map((feedProductId) => {
+    const onHandGrams = balances.get(feedProductId) ?? 0;
+    const share =
+      totalUsage > 0 ? (recentUsage.get(feedProductId) ?? 0) / totalUsage : 1;
+    const dailyUsageGrams = dailyRequirement.toGrams() * share;
+    const daysOfCover =
+      dailyUsageGrams > 0 ? Math.max(onHandGrams, 0) / dailyUsageGrams : null;
+
+    return {
+      feedProductId,
+      onHandGrams,
+      dailyUsage: share > 0 ? Weight.fromGrams(dailyUsageGrams) : null,
+      daysOfCover,
+      lowStock: daysOfCover !== null && daysOfCover < lowStockDays,
+    };
+  });
+}
+
+// Running balance over movements already sorted by when they happened
+export function buildStockLedger(
+  openingBalanceGrams: number,
+  movements: readonly FeedStockMovement[],
+): FeedStockLedger {
+  let balanceGrams = openingBalanceGrams;
+  const entries = movements.map((movement) => {
+    balanceGrams += signedQuantityGrams(movement);
+    return { movement, balanceGrams };
+  });
+  return { openingBalanceGrams, entries, closingBalanceGrams: balanceGrams };
+}
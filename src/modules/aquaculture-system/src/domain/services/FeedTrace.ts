@@ -0,0 +1,45 @@
+import { FeedLotUsage, FeedTrace } from "../types/FeedInventoryTypes";
+import { FeedingRecord } from "../types/FeedingTypes";
+import { Weight } from "../value-objects/Weight";
+
+/**
+ * Every feed lot a batch was fed from, with how much of each it got.
+ * Feedings logged without a lot are totalled separately so gaps in the
+ * trace are visible rather than silently dropped.
+ */
+export function traceFeedLots(
+  batchId: string,
+  records: readonly FeedingRecord[],
+): FeedTrace {
+  const lots = new Map<string, FeedLotUsage>();
+  let untracedGrams = 0;
+  let untracedFeedings = 0;
+
+  const chronological = [...records].sort(
+    (a, b) => a.feedDate.getTime() - b.feedDate.getTime(),
+  );
+  for (const record of chronological) {
+    if (!record.feedLotId) {
+      untracedGrams += record.feedAmount.toGrams();
+      untracedFeedings++;
+      continue;
+    }
+    const usage = lots.get(record.feedLotId);
+    lots.set(record.feedLotId, {
+      feedLotId: record.feedLotId,
+      feedings: (usage?.feedings ?? 0) + 1,
+      totalFeed: Weight.fromGrams(
+        (usage?.totalFeed.toGrams() ?? 0) + record.feedAmount.toGrams(),
+      ),
+      firstFedAt: usage?.firstFedAt ?? record.feedDate,
+      lastFedAt: record.feedDate,
+    });
+  }
+
+  return {
+    batchId,
+    lots: [...lots.values()],
+    untracedFeed: Weight.fromGrams(untracedGrams),
+    untracedFeedings,
+  };
+}
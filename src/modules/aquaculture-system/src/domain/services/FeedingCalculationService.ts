@@ -1,8 +1,10 @@
 import { WaterQuality } from '../value-objects/WaterQuality';
 import { Weight } from '../value-objects/Weight';
-import { BatchStatistics } from '../value-objects/BatchStatistics';
-import { FishTypeParameters, FeedingRateMatrix, MealFrequencyRule } from '../types/FishTypeParameters';
+import { FishTypeParameters } from '../types/FishTypeParameters';
 import { FeedingRequirement, SafetyFactors } from '../types/FeedingTypes';
+import { FishType } from '../entities/FishType';
+import { FeedingStrategy } from './FeedingStrategy';
+import { DEFAULT_FEEDING_STRATEGY } from './MatrixFeedingStrategy';
 
 /**
  * Domain Service: Feeding Calculation
@@ -11,7 +13,10 @@ import { FeedingRequirement, SafetyFactors } from '../types/FeedingTypes';
  * This is a domain service because the logic doesn't belong to a single entity
  */
 export class FeedingCalculationService {
-  
+  constructor(
+    private readonly strategy: FeedingStrategy = DEFAULT_FEEDING_STRATEGY
+  ) {}
+
   /**
    * Calculate daily feed requirement for a batch
    */
@@ -19,90 +24,16 @@ export class FeedingCalculationService {
     biomass: Weight,
     averageWeight: Weight,
     waterQuality: WaterQuality,
-    fishTypeParams: FishTypeParameters
+    fishType: FishType,
+    feedingDate: Date = new Date()
   ): FeedingRequirement {
-    
-    // 1. Find base feeding rate from matrix
-    const baseFeedingRate = this.findBaseFeedingRate(
-      averageWeight.toGrams(),
-      waterQuality.temperature,
-      fishTypeParams.feedingRateMatrix
-    );
-
-    // 2. Calculate safety factors
-    const factors = this.calculateSafetyFactors(
+    return this.strategy.calculate({
+      biomass,
+      averageWeight,
       waterQuality,
-      fishTypeParams
-    );
-
-    // 3. Determine safety status
-    const safetyStatus = this.determineSafetyStatus(factors);
-
-    // 4. Calculate final feeding rate
-    const finalRate = baseFeedingRate * factors.temperature * factors.oxygen * factors.ammonia;
-
-    // 5. Calculate total daily feed
-    const dailyFeedKg = biomass.toKilograms() * (finalRate / 100);
-    const totalDailyFeed = Weight.fromKilograms(dailyFeedKg);
-
-    // 6. Determine meals per day
-    const mealsPerDay = this.determineMealsPerDay(
-      averageWeight.toGrams(),
-      fishTypeParams.mealFrequencyRules
-    );
-
-    // 7. Calculate feed per meal
-    const feedPerMeal = Weight.fromGrams(totalDailyFeed.toGrams() / mealsPerDay);
-
-    return {
-      totalDailyFeed,
-      feedPerMeal,
-      mealsPerDay,
-      safetyStatus,
-      factors,
-      baseFeedingRate,
-      finalFeedingRate: finalRate,
-    };
-  }
-
-  /**
-   * Find base feeding rate from feeding matrix
-   */
-  private findBaseFeedingRate(
-    weightGrams: number,
-    temperature: number,
-    matrix: FeedingRateMatrix
-  ): number {
-    // Find weight range index
-    const weightRangeIndex = matrix.weight_ranges.findIndex(
-      (range) => weightGrams >= range.min && weightGrams <= range.max
-    );
-
-    if (weightRangeIndex === -1) {
-      // If weight is below minimum, use first range
-      if (weightGrams < matrix.weight_ranges[0].min) {
-        return matrix.rates[0][this.findClosestTemperatureIndex(temperature, matrix.temperatures)];
-      }
-      // If weight is above maximum, use last range
-      const lastIndex = matrix.weight_ranges.length - 1;
-      return matrix.rates[lastIndex][this.findClosestTemperatureIndex(temperature, matrix.temperatures)];
-    }
-
-    // Find closest temperature index
-    const tempIndex = this.findClosestTemperatureIndex(temperature, matrix.temperatures);
-
-    return matrix.rates[weightRangeIndex][tempIndex];
-  }
-
-  /**
-   * Find closest temperature index in array
-   */
-  private findClosestTemperatureIndex(temperature: number, temperatures: number[]): number {
-    return temperatures.reduce((prev, curr, idx) => {
-      return Math.abs(curr - temperature) < Math.abs(temperatures[prev] - temperature)
-        ? idx
-        : prev;
-    }, 0);
+      fishType,
+      feedingDate,
+    });
   }
 
   /**
@@ -112,82 +43,7 @@ export class FeedingCalculationService {
     waterQuality: WaterQuality,
     fishTypeParams: FishTypeParameters
   ): SafetyFactors {
-    return {
-      temperature: this.calculateTemperatureFactor(
-        waterQuality.temperature,
-        fishTypeParams.tempOptimal
-      ),
-      oxygen: this.calculateOxygenFactor(
-        waterQuality.dissolvedOxygen,
-        fishTypeParams.doMin,
-        fishTypeParams.doSafe
-      ),
-      ammonia: this.calculateAmmoniaFactor(
-        waterQuality.calculateToxicAmmonia(),
-        fishTypeParams.nh3Safe,
-        fishTypeParams.nh3Critical
-      ),
-    };
-  }
-
-  /**
-   * Calculate temperature correction factor
-   */
-  private calculateTemperatureFactor(currentTemp: number, optimalTemp: number): number {
-    const tempDiff = currentTemp - optimalTemp;
-
-    if (tempDiff < -3) return 0.75;
-    if (tempDiff >= -3 && tempDiff < -1) return 0.85;
-    if (tempDiff >= -1 && tempDiff <= 1) return 1.0;
-    if (tempDiff > 1 && tempDiff <= 2) return 1.05;
-    if (tempDiff > 2) return 0.95;
-
-    return 1.0;
-  }
-
-  /**
-   * Calculate dissolved oxygen factor
-   */
-  private calculateOxygenFactor(currentDO: number, minDO: number, safeDO: number): number {
-    if (currentDO < minDO) return 0.0; // Critical - stop feeding
-    if (currentDO < 4) return 0.75;
-    if (currentDO < safeDO) return 0.9;
-    return 1.0;
-  }
-
-  /**
-   * Calculate ammonia toxicity factor
-   */
-  private calculateAmmoniaFactor(nh3: number, safeLimit: number, criticalLimit: number): number {
-    if (nh3 > criticalLimit) return 0.0; // Critical - stop feeding
-    if (nh3 > 0.05) return 0.5;
-    if (nh3 > safeLimit) return 0.8;
-    return 1.0;
-  }
-
-  /**
-   * Determine meals per day based on fish weight
-   */
-  private determineMealsPerDay(weightGrams: number, rules: MealFrequencyRule[]): number {
-    for (const rule of rules) {
-      if (rule.maxWeight === null || weightGrams <= rule.maxWeight) {
-        return rule.mealsPerDay;
-      }
-    }
-    return 2; // Default fallback
-  }
-
-  /**
-   * Determine overall safety status
-   */
-  private determineSafetyStatus(factors: SafetyFactors): 'OK' | 'WARNING' | 'STOPPED' {
-    if (factors.oxygen === 0 || factors.ammonia === 0) {
-      return 'STOPPED';
-    }
-    if (factors.oxygen < 1 || factors.ammonia < 1 || factors.temperature < 1) {
-      return 'WARNING';
-    }
-    return 'OK';
+    return this.strategy.calculateSafetyFactors(waterQuality, fishTypeParams);
   }
 
   /**
@@ -197,13 +53,15 @@ export class FeedingCalculationService {
     biomass: Weight,
     averageWeight: Weight,
     waterQuality: WaterQuality,
-    fishTypeParams: FishTypeParameters
+    fishType: FishType,
+    feedingDate: Date = new Date()
   ): Weight {
     const requirement = this.calculateDailyFeed(
       biomass,
       averageWeight,
       waterQuality,
-      fishTypeParams
+      fishType,
+      feedingDate
     );
 
     if (requirement.safetyStatus === 'STOPPED') {
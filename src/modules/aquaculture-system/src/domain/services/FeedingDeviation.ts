@@ -0,0 +1,58 @@
+import {
+  BatchFeedingPlan,
+  FeedingDeviation,
+  FeedingRecord,
+} from "../types/FeedingTypes";
+import { Weight } from "../value-objects/Weight";
+
+// Delivered feed less the estimated uneaten share
+export function consumedFeed(record: FeedingRecord): Weight {
+  return Weight.fromGrams(
+    record.feedAmount.toGrams() * (1 - record.uneatenPercent / 100),
+  );
+}
+
+/**
+ * Compares one day's deliveries for a batch with its plan for that day.
+ * A record logged per meal counts as one meal; an older whole-day record
+ * counts as the meals it was spread over.
+ */
+export function compareFeedingWithPlan(
+  batchId: string,
+  date: string,
+  plan: BatchFeedingPlan | null,
+  records: readonly FeedingRecord[],
+): FeedingDeviation {
+  const deliveredGrams = records.reduce(
+    (sum, record) => sum + record.feedAmount.toGrams(),
+    0,
+  );
+  const consumedGrams = records.reduce(
+    (sum, record) => sum + consumedFeed(record).toGrams(),
+    0,
+  );
+  const deliveredMeals = records.reduce(
+    (sum, record) =>
+      sum + (record.mealNumber === null ? record.mealsPerDay : 1),
+    0,
+  );
+
+  const plannedGrams = plan ? plan.requirement.totalDailyFeed.toGrams() : null;
+  const deviationGrams =
+    plannedGrams === null ? null : deliveredGrams - plannedGrams;
+
+  return {
+    batchId,
+    date,
+    plannedFeed: plannedGrams === null ? null : Weight.fromGrams(plannedGrams),
+    plannedMeals: plan ? plan.meals.length : null,
+    deliveredFeed: Weight.fromGrams(deliveredGrams),
+    consumedFeed: Weight.fromGrams(consumedGrams),
+    deliveredMeals,
+    deviationGrams,
+    deviationPercent:
+      deviationGrams === null || !plannedGrams
+        ? null
+        : (deviationGrams / plannedGrams) * 100,
+  };
+}
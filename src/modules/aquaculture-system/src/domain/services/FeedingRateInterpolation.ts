@@ -0,0 +1,40 @@
+import { FeedingRateMatrix } from "../types/FishTypeParameters";
+
+/**
+ * Reads a feeding rate from the matrix by bilinear interpolation.
+ *
+ * Each weight range is represented by its midpoint, so a fish exactly in the
+ * middle of a range gets that row's rate and one near a range edge gets a
+ * blend of both neighbours. Outside the outermost midpoints and temperatures
+ * the edge values are held rather than extrapolated.
+ */
+export function interpolateFeedingRate(
+  weightGrams: number,
+  temperature: number,
+  matrix: FeedingRateMatrix,
+): number {
+  const weightMidpoints = matrix.weight_ranges.map(
+    (range) => (range.min + range.max) / 2,
+  );
+  const [w0, w1, wt] = bracket(weightMidpoints, weightGrams);
+  const [t0, t1, tt] = bracket(matrix.temperatures, temperature);
+
+  const lower = lerp(matrix.rates[w0][t0], matrix.rates[w0][t1], tt);
+  const upper = lerp(matrix.rates[w1][t0], matrix.rates[w1][t1], tt);
+  return lerp(lower, upper, wt);
+}
+
+// Returns the neighbouring indices around value and its fraction between them
+function bracket(axis: number[], value: number): [number, number, number] {
+  const last = axis.length - 1;
+  if (value <= axis[0]) return [0, 0, 0];
+  if (value >= axis[last]) return [last, last, 0];
+
+  const upper = axis.findIndex((point) => point > value);
+  const lower = upper - 1;
+  return [lower, upper, (value - axis[lower]) / (axis[upper] - axis[lower])];
+}
+
+function lerp(from: number, to: number, fraction: number): number {
+  return from + (to - from) * fraction;
+}
@@ -0,0 +1,27 @@
+import { FishType } from "../entities/FishType";
+import { FeedingRequirement, SafetyFactors } from "../types/FeedingTypes";
+import { FishTypeParameters } from "../types/FishTypeParameters";
+import { WaterQuality } from "../value-objects/WaterQuality";
+import { Weight } from "../value-objects/Weight";
+
+export interface FeedingStrategyInput {
+  biomass: Weight;
+  averageWeight: Weight;
+  waterQuality: WaterQuality;
+  fishType: FishType;
+  feedingDate: Date;
+}
+
+/**
+ * The single place a daily feed requirement is worked out. FishBatch, Tank,
+ * Farm and FeedingCalculationService all delegate to a strategy, so swapping
+ * one in changes the result at every layer alike.
+ */
+export interface FeedingStrategy {
+  calculate(input: FeedingStrategyInput): FeedingRequirement;
+
+  calculateSafetyFactors(
+    waterQuality: WaterQuality,
+    fishTypeParams: FishTypeParameters,
+  ): SafetyFactors;
+}
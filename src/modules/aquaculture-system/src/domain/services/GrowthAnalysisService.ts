@@ -1,6 +1,15 @@
+import { DomainException } from '../exceptions/DomainException';
 import { Weight } from '../value-objects/Weight';
-import { GrowthMetrics, GrowthPerformance } from '../types/GrowthTypes';
+import {
+  GrowthMetrics,
+  GrowthPerformance,
+  GrowthSample,
+  ProteinIntake,
+  SampledFish,
+} from '../types/GrowthTypes';
 import { FishTypeParameters } from '../types/FishTypeParameters';
+import { FeedingRecord } from '../types/FeedingTypes';
+import { consumedFeed } from './FeedingDeviation';
 
 /**
  * Domain Service: Growth Analysis
@@ -15,7 +24,7 @@ export class GrowthAnalysisService {
    */
   calculateSGR(initialWeight: Weight, finalWeight: Weight, days: number): number {
     if (days <= 0) {
-      throw new Error('Days must be greater than 0');
+      throw new DomainException('Days must be greater than 0');
     }
 
     const lnFinal = Math.log(finalWeight.toGrams());
@@ -30,7 +39,7 @@ export class GrowthAnalysisService {
    */
   calculateADG(initialWeight: Weight, finalWeight: Weight, days: number): number {
     if (days <= 0) {
-      throw new Error('Days must be greater than 0');
+      throw new DomainException('Days must be greater than 0');
     }
 
     const gainGrams = finalWeight.toGrams() - initialWeight.toGrams();
@@ -53,7 +62,7 @@ export class GrowthAnalysisService {
     const gainKg = totalWeightGain.toKilograms();
     
     if (gainKg <= 0) {
-      throw new Error('Weight gain must be greater than 0');
+      throw new DomainException('Weight gain must be greater than 0');
     }
 
     return totalFeedConsumed.toKilograms() / gainKg;
@@ -67,12 +76,40 @@ export class GrowthAnalysisService {
     const proteinKg = proteinConsumed.toKilograms();
     
     if (proteinKg <= 0) {
-      throw new Error('Protein consumed must be greater than 0');
+      throw new DomainException('Protein consumed must be greater than 0');
     }
 
     return weightGain.toKilograms() / proteinKg;
   }
 
+  /**
+   * Calculate protein intake feeding by feeding, using the protein content
+   * each feeding recorded for its product, so a switch from starter to
+   * grower feed is reflected and later edits to a product are not. Only the
+   * feed actually eaten counts.
+   */
+  calculateProteinIntake(feedings: readonly FeedingRecord[]): ProteinIntake {
+    let feedGrams = 0;
+    let proteinGrams = 0;
+    let unknownGrams = 0;
+
+    for (const feeding of feedings) {
+      const eatenGrams = consumedFeed(feeding).toGrams();
+      feedGrams += eatenGrams;
+      if (feeding.proteinPercent === null) {
+        unknownGrams += eatenGrams;
+      } else {
+        proteinGrams += eatenGrams * (feeding.proteinPercent / 100);
+      }
+    }
+
+    return {
+      feedConsumed: Weight.fromGrams(feedGrams),
+      proteinConsumed: Weight.fromGrams(proteinGrams),
+      unknownProteinFeed: Weight.fromGrams(unknownGrams),
+    };
+  }
+
   /**
    * Calculate Feed Efficiency (FE)
    * FE = (Weight Gain / Feed Consumed) × 100
@@ -81,7 +118,7 @@ export class GrowthAnalysisService {
     const feedKg = feedConsumed.toKilograms();
     
     if (feedKg <= 0) {
-      throw new Error('Feed consumed must be greater than 0');
+      throw new DomainException('Feed consumed must be greater than 0');
     }
 
     return (weightGain.toKilograms() / feedKg) * 100;
@@ -93,12 +130,50 @@ export class GrowthAnalysisService {
    */
   calculateConditionFactor(weight: Weight, lengthCm: number): number {
     if (lengthCm <= 0) {
-      throw new Error('Length must be greater than 0');
+      throw new DomainException('Length must be greater than 0');
     }
 
     return (weight.toGrams() / Math.pow(lengthCm, 3)) * 100;
   }
 
+  /**
+   * Summarize a sample of individually weighed and measured fish
+   * CV = (Standard Deviation / Mean Weight) × 100, using the sample standard deviation
+   */
+  summarizeSample(fish: SampledFish[]): GrowthSample {
+    if (fish.length < 2) {
+      throw new DomainException('A growth sample needs at least 2 fish');
+    }
+    if (fish.some((sampled) => sampled.weight.toGrams() <= 0)) {
+      throw new DomainException('Sampled fish weight must be greater than 0');
+    }
+
+    const weights = fish.map((sampled) => sampled.weight.toGrams());
+    const meanGrams = weights.reduce((sum, grams) => sum + grams, 0) / fish.length;
+    const variance =
+      weights.reduce((sum, grams) => sum + Math.pow(grams - meanGrams, 2), 0) /
+      (fish.length - 1);
+    const stdDev = Math.sqrt(variance);
+
+    const meanLengthCm =
+      fish.reduce((sum, sampled) => sum + sampled.lengthCm, 0) / fish.length;
+    const meanConditionFactor =
+      fish.reduce(
+        (sum, sampled) =>
+          sum + this.calculateConditionFactor(sampled.weight, sampled.lengthCm),
+        0
+      ) / fish.length;
+
+    return {
+      fish,
+      meanWeight: Weight.fromGrams(meanGrams),
+      weightStdDevGrams: stdDev,
+      weightCv: (stdDev / meanGrams) * 100,
+      meanLengthCm,
+      meanConditionFactor,
+    };
+  }
+
   /**
    * Calculate complete growth metrics
    */
@@ -106,20 +181,20 @@ export class GrowthAnalysisService {
     initialWeight: Weight,
     currentWeight: Weight,
     days: number,
-    totalFeedConsumed: Weight,
-    proteinPercentage: number
+    feedings: readonly FeedingRecord[]
   ): GrowthMetrics {
     
     const weightGain = this.calculateWeightGain(initialWeight, currentWeight);
     const sgr = this.calculateSGR(initialWeight, currentWeight, days);
     const adg = this.calculateADG(initialWeight, currentWeight, days);
-    const fcr = this.calculateFCR(totalFeedConsumed, weightGain);
+    const intake = this.calculateProteinIntake(feedings);
+    const fcr = this.calculateFCR(intake.feedConsumed, weightGain);
     
-    const proteinConsumed = Weight.fromKilograms(
-      totalFeedConsumed.toKilograms() * (proteinPercentage / 100)
-    );
-    const per = this.calculatePER(weightGain, proteinConsumed);
-    const fe = this.calculateFeedEfficiency(weightGain, totalFeedConsumed);
+    // A partial protein total would overstate PER, so leave it out instead
+    const per = intake.unknownProteinFeed.toGrams() > 0
+      ? null
+      : this.calculatePER(weightGain, intake.proteinConsumed);
+    const fe = this.calculateFeedEfficiency(weightGain, intake.feedConsumed);
 
     return {
       weightGain,
@@ -0,0 +1,77 @@
+import { FishBatch } from "../entities/FishBatch";
+import { GrowthModelType } from "../types/Enums";
+import { GrowthObservation } from "../types/GrowthModelTypes";
+import { WaterQuality } from "../value-objects/WaterQuality";
+import { GrowthCurveModel } from "./GrowthCurveModel";
+import { ThermalUnitGrowthModel } from "./ThermalUnitGrowthModel";
+import { VonBertalanffyGrowthModel } from "./VonBertalanffyGrowthModel";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const GROWTH_CURVE_MODELS: Record<GrowthModelType, GrowthCurveModel> = {
+  [GrowthModelType.VON_BERTALANFFY]: new VonBertalanffyGrowthModel(),
+  [GrowthModelType.THERMAL_UNIT]: new ThermalUnitGrowthModel(),
+};
+
+/**
+ * °C·days between two instants. Each reading holds until the next one, and
+ * the first reading also stands in for the time before it. Returns null
+ * when there are no readings at all.
+ */
+export function degreeDaysBetween(
+  readings: readonly WaterQuality[],
+  from: Date,
+  to: Date,
+): number | null {
+  if (readings.length === 0) return null;
+  const sorted = [...readings].sort(
+    (a, b) => a.measuredAt.getTime() - b.measuredAt.getTime(),
+  );
+
+  let total = 0;
+  for (let index = 0; index < sorted.length; index++) {
+    const start =
+      index === 0 ? from.getTime() : sorted[index].measuredAt.getTime();
+    const end =
+      index + 1 < sorted.length
+        ? sorted[index + 1].measuredAt.getTime()
+        : to.getTime();
+    const overlap =
+      Math.min(end, to.getTime()) - Math.max(start, from.getTime());
+    if (overlap > 0) {
+      total += (sorted[index].temperature * overlap) / DAY_MS;
+    }
+  }
+  return total;
+}
+
+// Mean water temperature over a window, or null without readings
+export function meanTemperatureBetween(
+  readings: readonly WaterQuality[],
+  from: Date,
+  to: Date,
+): number | null {
+  const degreeDays = degreeDaysBetween(readings, from, to);
+  const days = (to.getTime() - from.getTime()) / DAY_MS;
+  return degreeDays === null || days <= 0 ? null : degreeDays / days;
+}
+
+// The stocking weight followed by every growth record
+export function buildGrowthObservations(
+  batch: FishBatch,
+  readings: readonly WaterQuality[],
+): GrowthObservation[] {
+  const stockedDate = batch.getStockedDate();
+  return [
+    {
+      daysInCulture: 0,
+      weight: batch.getInitialWeight(),
+      degreeDays: readings.length > 0 ? 0 : null,
+    },
+    ...batch.getGrowthHistory().map((record) => ({
+      daysInCulture: record.daysInCulture,
+      weight: record.statistics.averageWeight,
+      degreeDays: degreeDaysBetween(readings, stockedDate, record.recordedAt),
+    })),
+  ];
+}
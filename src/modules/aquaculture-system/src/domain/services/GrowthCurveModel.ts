@@ -0,0 +1,72 @@
+import { DomainException } from "../exceptions/DomainException";
+import { GrowthModelType } from "../types/Enums";
+import { GrowthCurveFit, GrowthObservation } from "../types/GrowthModelTypes";
+import { Weight } from "../value-objects/Weight";
+
+/**
+ * A growth curve that can be fitted to a batch's weighings and then run
+ * forward from the batch's current weight. Projections are anchored at the
+ * current weight rather than read off the fitted curve, so a fit that sits
+ * slightly off the latest weighing does not shift the forecast.
+ */
+export interface GrowthCurveModel {
+  readonly type: GrowthModelType;
+
+  fit(observations: readonly GrowthObservation[]): GrowthCurveFit;
+
+  project(
+    fit: GrowthCurveFit,
+    currentWeight: Weight,
+    days: number,
+    temperature: number,
+  ): Weight;
+
+  // Null when the curve never reaches the target
+  daysToReach(
+    fit: GrowthCurveFit,
+    currentWeight: Weight,
+    targetWeight: Weight,
+    temperature: number,
+  ): number | null;
+}
+
+// Goodness of fit on weight, whatever space the model was fitted in
+export function growthCurveFit(
+  model: GrowthModelType,
+  parameters: Record<string, number>,
+  observations: readonly GrowthObservation[],
+  predict: (observation: GrowthObservation) => number,
+): GrowthCurveFit {
+  const weights = observations.map((observation) =>
+    observation.weight.toGrams(),
+  );
+  const mean = weights.reduce((sum, grams) => sum + grams, 0) / weights.length;
+  const sse = observations.reduce(
+    (sum, observation, index) =>
+      sum + Math.pow(weights[index] - predict(observation), 2),
+    0,
+  );
+  const sst = weights.reduce(
+    (sum, grams) => sum + Math.pow(grams - mean, 2),
+    0,
+  );
+
+  return {
+    model,
+    parameters,
+    rSquared: sst > 0 ? 1 - sse / sst : sse === 0 ? 1 : 0,
+    rmseGrams: Math.sqrt(sse / observations.length),
+    observations: observations.length,
+  };
+}
+
+export function requireObservations(
+  observations: readonly GrowthObservation[],
+  minimum: number,
+): void {
+  if (observations.length < minimum) {
+    throw new DomainException(
+      `Fitting a growth curve needs at least ${minimum} weighings including stocking`,
+    );
+  }
+}
@@ -1,7 +1,11 @@
+import { DomainException } from '../exceptions/DomainException';
 
 import { Weight } from '../value-objects/Weight';
 import { BatchStatistics } from '../value-objects/BatchStatistics';
-import { HarvestPrediction, HarvestEconomics } from '../types/HarvestTypes';
+import { HarvestPrediction, HarvestEconomics, GradingBreakdown } from '../types/HarvestTypes';
+import { HarvestProjectionMethod } from '../types/Enums';
+import { GrowthCurveFit } from '../types/GrowthModelTypes';
+import { GrowthCurveModel } from './GrowthCurveModel';
 
 /**
  * Domain Service: Harvest Prediction
@@ -35,7 +39,7 @@ export class HarvestPredictionService {
     sgr: number
   ): number {
     if (sgr <= 0) {
-      throw new Error('SGR must be greater than 0');
+      throw new DomainException('SGR must be greater than 0');
     }
 
     const lnTarget = Math.log(targetWeight.toGrams());
@@ -71,7 +75,7 @@ export class HarvestPredictionService {
     targetWeight: Weight,
     sgr: number,
     survivalRate: number,
-    initialCount: number,
+    _initialCount: number,
     currentDate: Date = new Date()
   ): HarvestPrediction {
     
@@ -108,6 +112,61 @@ export class HarvestPredictionService {
       finalProduction,
       currentSGR: sgr,
       projectedSurvivalRate: survivalRate,
+      method: HarvestProjectionMethod.CONSTANT_SGR,
+      growthCurve: null,
+    };
+  }
+
+  /**
+   * Calculate harvest prediction from a fitted growth curve
+   * Growth slows as the curve flattens, unlike a constant SGR
+   */
+  predictHarvestFromCurve(
+    currentStats: BatchStatistics,
+    targetWeight: Weight,
+    model: GrowthCurveModel,
+    fit: GrowthCurveFit,
+    temperature: number,
+    survivalRate: number,
+    currentDate: Date = new Date()
+  ): HarvestPrediction {
+    const days = model.daysToReach(
+      fit,
+      currentStats.averageWeight,
+      targetWeight,
+      temperature
+    );
+    if (days === null) {
+      throw new DomainException(
+        `The fitted growth curve does not reach ${targetWeight.toGrams()}g`
+      );
+    }
+    const daysToHarvest = Math.ceil(days);
+
+    const harvestDate = new Date(currentDate);
+    harvestDate.setDate(harvestDate.getDate() + daysToHarvest);
+
+    const expectedFinalCount = Math.floor(
+      currentStats.fishCount * (survivalRate / 100)
+    );
+
+    return {
+      harvestDate,
+      daysToHarvest,
+      targetWeight,
+      expectedFinalCount,
+      finalProduction: Weight.fromKilograms(
+        targetWeight.toKilograms() * expectedFinalCount
+      ),
+      currentSGR: daysToHarvest > 0
+        ? ((Math.log(targetWeight.toGrams()) -
+            Math.log(currentStats.averageWeight.toGrams())) /
+            daysToHarvest) *
+          100
+        : 0,
+      projectedSurvivalRate: survivalRate,
+      method: HarvestProjectionMethod.FITTED_CURVE,
+      growthCurve: fit,
     };
   }
 
@@ -159,12 +218,32 @@ export class HarvestPredictionService {
     };
   }
 
+  /**
+   * Calculate harvest economics at the price book's graded prices
+   * The market price is the average the grades fetch per kg
+   */
+  calculateGradedHarvestEconomics(
+    prediction: HarvestPrediction,
+    grading: GradingBreakdown,
+    averageDailyFeed: Weight,
+    feedPricePerKg: number,
+    otherCosts: number = 0
+  ): HarvestEconomics {
+    return this.calculateHarvestEconomics(
+      prediction,
+      averageDailyFeed,
+      feedPricePerKg,
+      grading.averagePricePerKg,
+      otherCosts
+    );
+  }
+
   /**
    * Determine optimal harvest timing
    * Considers economics and biological factors
    */
   determineOptimalHarvestTiming(
-    currentWeight: Weight,
+    _currentWeight: Weight,
     targetWeights: Weight[], // Array of possible market weights
     sgr: number,
     currentStats: BatchStatistics,
@@ -0,0 +1,189 @@
+import { DomainException } from "../exceptions/DomainException";
+import { GrowthRecord } from "../types/GrowthTypes";
+import { MortalityEvent } from "../types/MortalityTypes";
+import {
+  GrowthVariability,
+  HarvestSimulation,
+  PercentileBand,
+} from "../types/HarvestTypes";
+import { BatchStatistics } from "../value-objects/BatchStatistics";
+import { Weight } from "../value-objects/Weight";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// mulberry32: small, fast and the same sequence for the same seed
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const normal = (random: () => number, mean: number, stdDev: number) => {
+  // Box-Muller; 1 - random() keeps the logarithm away from zero
+  const u = 1 - random();
+  const v = random();
+  return (
+    mean + stdDev * Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v)
+  );
+};
+
+const meanAndStdDev = (values: number[]) => {
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const variance =
+    values.reduce((sum, value) => sum + (value - mean) ** 2, 0) /
+    (values.length - 1);
+  return { mean, stdDev: Math.sqrt(variance) };
+};
+
+/**
+ * Interval SGR and daily mortality between consecutive weighings, starting
+ * from stocking. Mortality comes from the deaths recorded in each interval,
+ * each against the fish alive just before it, so harvests, transfers and
+ * recounts that also lower the headcount are not taken for losses. Needs
+ * two intervals for a spread.
+ */
+export function observedGrowthVariability(
+  history: readonly GrowthRecord[],
+  mortalityHistory: readonly MortalityEvent[],
+): GrowthVariability {
+  if (history.length < 2) {
+    throw new DomainException(
+      "Simulating a harvest needs at least two growth records",
+    );
+  }
+
+  const mortality = history.map((record, index) => {
+    const from =
+      index === 0 ? -Infinity : history[index - 1].recordedAt.getTime();
+    const to = record.recordedAt.getTime();
+    const survived = mortalityHistory
+      .filter(
+        (event) =>
+          event.recordedAt.getTime() > from && event.recordedAt.getTime() <= to,
+      )
+      .reduce(
+        (share, event) =>
+          event.fishCountBefore > 0
+            ? share * (1 - event.deadCount / event.fishCountBefore)
+            : share,
+        1,
+      );
+    return record.intervalDays > 0
+      ? 1 - Math.pow(survived, 1 / record.intervalDays)
+      : 0;
+  });
+  const sgr = meanAndStdDev(history.map((record) => record.intervalSgr));
+  const losses = meanAndStdDev(mortality);
+
+  return {
+    intervals: history.length,
+    sgrMean: sgr.mean,
+    sgrStdDev: sgr.stdDev,
+    dailyMortalityMean: losses.mean,
+    dailyMortalityStdDev: losses.stdDev,
+  };
+}
+
+// Nearest-rank percentile of an ascending list
+const percentile = (sorted: number[], p: number) =>
+  sorted[Math.max(Math.ceil((p / 100) * sorted.length) - 1, 0)];
+
+const band = (values: number[]): PercentileBand<number> => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    p10: percentile(sorted, 10),
+    p50: percentile(sorted, 50),
+    p90: percentile(sorted, 90),
+  };
+};
+
+/**
+ * Each run draws an SGR and a daily mortality rate from normal
+ * distributions fitted to the batch's history and grows the current fish
+ * to the target at that pace. SGR draws that would never reach the target
+ * are redrawn; mortality draws below zero count as no losses. Each band is
+ * taken over the runs on its own, so P10 days and P10 biomass can come from
+ * different runs.
+ */
+export function simulateHarvest(params: {
+  currentStats: BatchStatistics;
+  targetWeight: Weight;
+  variability: GrowthVariability;
+  runs: number;
+  seed: number;
+  currentDate?: Date;
+}): HarvestSimulation {
+  const { currentStats, targetWeight, variability, runs, seed } = params;
+  const currentDate = params.currentDate || new Date();
+  if (variability.sgrMean <= 0) {
+    throw new DomainException("The batch is not growing");
+  }
+  if (runs < 1) {
+    throw new DomainException("A simulation needs at least one run");
+  }
+
+  const random = createSeededRandom(seed);
+  const growthNeeded = Math.max(
+    Math.log(targetWeight.toGrams()) -
+      Math.log(currentStats.averageWeight.toGrams()),
+    0,
+  );
+  const days: number[] = [];
+  const counts: number[] = [];
+
+  for (let run = 0; run < runs; run++) {
+    let sgr = normal(random, variability.sgrMean, variability.sgrStdDev);
+    for (let redraw = 0; sgr <= 0 && redraw < 100; redraw++) {
+      sgr = normal(random, variability.sgrMean, variability.sgrStdDev);
+    }
+    if (sgr <= 0) sgr = variability.sgrMean;
+    const mortality = Math.min(
+      Math.max(
+        normal(
+          random,
+          variability.dailyMortalityMean,
+          variability.dailyMortalityStdDev,
+        ),
+        0,
+      ),
+      1,
+    );
+
+    const runDays = Math.ceil((growthNeeded / sgr) * 100);
+    days.push(runDays);
+    counts.push(
+      Math.floor(currentStats.fishCount * Math.pow(1 - mortality, runDays)),
+    );
+  }
+
+  const daysBand = band(days);
+  const countBand = band(counts);
+  const dateAfter = (offset: number) =>
+    new Date(currentDate.getTime() + offset * DAY_MS);
+  const production = (count: number) =>
+    Weight.fromKilograms(targetWeight.toKilograms() * count);
+
+  return {
+    runs,
+    seed,
+    variability,
+    targetWeight,
+    daysToHarvest: daysBand,
+    harvestDate: {
+      p10: dateAfter(daysBand.p10),
+      p50: dateAfter(daysBand.p50),
+      p90: dateAfter(daysBand.p90),
+    },
+    fishCount: countBand,
+    finalProduction: {
+      p10: production(countBand.p10),
+      p50: production(countBand.p50),
+      p90: production(countBand.p90),
+    },
+  };
+}
@@ -0,0 +1,136 @@
+import { DomainException } from "../exceptions/DomainException";
+import {
+  HarvestDayProjection,
+  HarvestEvent,
+  HarvestTimingOptimization,
+  PriceCurvePoint,
+} from "../types/HarvestTypes";
+import { BatchStatistics } from "../value-objects/BatchStatistics";
+import { Weight } from "../value-objects/Weight";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Price per kg at a fish size, straight-line between the curve's points
+ * and flat beyond its ends.
+ */
+export function priceForWeight(
+  curve: readonly PriceCurvePoint[],
+  weight: Weight,
+): number {
+  if (curve.length === 0) {
+    throw new DomainException("A price curve needs at least one point");
+  }
+  const points = [...curve].sort((a, b) => a.weightGrams - b.weightGrams);
+  const grams = weight.toGrams();
+  const last = points.length - 1;
+  if (grams <= points[0].weightGrams) return points[0].pricePerKg;
+  if (grams >= points[last].weightGrams) return points[last].pricePerKg;
+
+  const upper = points.findIndex((point) => point.weightGrams > grams);
+  const lower = points[upper - 1];
+  const next = points[upper];
+  const fraction =
+    (grams - lower.weightGrams) / (next.weightGrams - lower.weightGrams);
+  return lower.pricePerKg + (next.pricePerKg - lower.pricePerKg) * fraction;
+}
+
+/**
+ * What the fish already harvested from a batch fetched, each lot priced on
+ * the curve at its own average weight.
+ */
+export function harvestedRevenue(
+  harvests: readonly HarvestEvent[],
+  curve: readonly PriceCurvePoint[],
+): number {
+  return harvests.reduce(
+    (sum, harvest) =>
+      sum +
+      harvest.biomass.toKilograms() *
+        priceForWeight(curve, harvest.averageWeight),
+    0,
+  );
+}
+
+/**
+ * Walks forward a day at a time: the fish grow at the batch's SGR, the
+ * survivors' gain is fed at its FCR, a share of the fish die and the
+ * fixed costs keep running. Margin counts every cost since stocking
+ * against every sale since stocking, so revenue from earlier partial
+ * harvests is added to each candidate day alike. The best day is the one
+ * earning most per day the batch held the tank.
+ */
+export function optimizeHarvestTiming(params: {
+  currentStats: BatchStatistics;
+  daysInCulture: number;
+  sgr: number;
+  fcr: number;
+  dailyMortalityRate: number; // fraction of fish lost per day
+  feedPricePerKg: number;
+  dailyFixedCost: number;
+  sunkCost: number;
+  harvestedRevenue?: number; // from fish already harvested
+  priceCurve: readonly PriceCurvePoint[];
+  horizonDays: number;
+  currentDate?: Date;
+}): HarvestTimingOptimization {
+  const currentDate = params.currentDate || new Date();
+  const { currentStats, priceCurve, sunkCost } = params;
+  const harvested = params.harvestedRevenue ?? 0;
+  if (params.fcr <= 0) {
+    throw new DomainException("FCR must be positive");
+  }
+  if (params.dailyMortalityRate < 0 || params.dailyMortalityRate >= 1) {
+    throw new DomainException("Daily mortality rate must be between 0 and 1");
+  }
+
+  const days: HarvestDayProjection[] = [];
+  let weightGrams = currentStats.averageWeight.toGrams();
+  let fishCount = currentStats.fishCount;
+  let feedCost = 0;
+
+  for (let day = 0; day <= params.horizonDays; day++) {
+    if (day > 0) {
+      const grownGrams = weightGrams * Math.exp(params.sgr / 100);
+      fishCount *= 1 - params.dailyMortalityRate;
+      feedCost +=
+        ((fishCount * (grownGrams - weightGrams)) / 1000) *
+        params.fcr *
+        params.feedPricePerKg;
+      weightGrams = grownGrams;
+    }
+
+    const averageWeight = Weight.fromGrams(weightGrams);
+    const count = Math.floor(fishCount);
+    const biomass = Weight.fromGrams(count * weightGrams);
+    const pricePerKg = priceForWeight(priceCurve, averageWeight);
+    const revenue = biomass.toKilograms() * pricePerKg;
+    const fixedCost = params.dailyFixedCost * day;
+    const totalCost = sunkCost + feedCost + fixedCost;
+    const margin = harvested + revenue - totalCost;
+
+    days.push({
+      day,
+      date: new Date(currentDate.getTime() + day * DAY_MS),
+      averageWeight,
+      fishCount: count,
+      biomass,
+      pricePerKg,
+      revenue,
+      feedCost,
+      fixedCost,
+      totalCost,
+      margin,
+      marginPerDay: margin / Math.max(params.daysInCulture + day, 1),
+    });
+  }
+
+  return {
+    sunkCost,
+    harvestedRevenue: harvested,
+    optimal: days.reduce((best, projection) =>
+      projection.marginPerDay > best.marginPerDay ? projection : best,
+    ),
+    days,
+  };
+}
@@ -0,0 +1,179 @@
+import { FeedingRateInterpolation } from "../types/Enums";
+import { FeedingRequirement, SafetyFactors } from "../types/FeedingTypes";
+import {
+  FeedingRateMatrix,
+  FishTypeParameters,
+  MealFrequencyRule,
+} from "../types/FishTypeParameters";
+import { WaterQuality } from "../value-objects/WaterQuality";
+import { Weight } from "../value-objects/Weight";
+import { interpolateFeedingRate } from "./FeedingRateInterpolation";
+import { FeedingStrategy, FeedingStrategyInput } from "./FeedingStrategy";
+import { evaluateSafetyFactorCurve } from "./SafetyFactorCurves";
+
+/**
+ * Feeds a % of biomass read from the fish type's feeding rate matrix, scaled
+ * by the fish type's water-quality safety factor curves and split into meals
+ * by weight.
+ */
+export class MatrixFeedingStrategy implements FeedingStrategy {
+  calculate(input: FeedingStrategyInput): FeedingRequirement {
+    // 0. Resolve the parameter version in force on the feeding date
+    const parameterVersion = input.fishType.getParameterVersionAt(
+      input.feedingDate,
+    );
+    const fishTypeParams = parameterVersion.parameters;
+    const weightGrams = input.averageWeight.toGrams();
+
+    // 1. Find base feeding rate from matrix
+    const interpolation = fishTypeParams.feedingRateInterpolation;
+    const baseFeedingRate =
+      interpolation === FeedingRateInterpolation.BILINEAR
+        ? interpolateFeedingRate(
+            weightGrams,
+            input.waterQuality.temperature,
+            fishTypeParams.feedingRateMatrix,
+          )
+        : this.findBaseFeedingRate(
+            weightGrams,
+            input.waterQuality.temperature,
+            fishTypeParams.feedingRateMatrix,
+          );
+
+    // 2. Calculate safety factors
+    const factors = this.calculateSafetyFactors(
+      input.waterQuality,
+      fishTypeParams,
+    );
+
+    // 3. Determine safety status
+    const safetyStatus = this.determineSafetyStatus(factors);
+
+    // 4. Calculate final feeding rate
+    const finalRate = Object.values(factors).reduce(
+      (rate, factor) => rate * factor,
+      baseFeedingRate,
+    );
+
+    // 5. Calculate total daily feed
+    const dailyFeedKg = input.biomass.toKilograms() * (finalRate / 100);
+    const totalDailyFeed = Weight.fromKilograms(dailyFeedKg);
+
+    // 6. Determine meals per day
+    const mealsPerDay = this.determineMealsPerDay(
+      weightGrams,
+      fishTypeParams.mealFrequencyRules,
+    );
+
+    // 7. Calculate feed per meal
+    const feedPerMeal = Weight.fromGrams(
+      totalDailyFeed.toGrams() / mealsPerDay,
+    );
+
+    return {
+      totalDailyFeed,
+      feedPerMeal,
+      mealsPerDay,
+      safetyStatus,
+      factors,
+      baseFeedingRate,
+      finalFeedingRate: finalRate,
+      parameterVersion: parameterVersion.version,
+      interpolation,
+    };
+  }
+
+  /**
+   * Calculate all safety factors from the fish type's curves
+   */
+  calculateSafetyFactors(
+    waterQuality: WaterQuality,
+    fishTypeParams: FishTypeParameters,
+  ): SafetyFactors {
+    const curves = fishTypeParams.safetyFactorCurves;
+    return {
+      temperature: evaluateSafetyFactorCurve(
+        curves.temperature,
+        waterQuality.temperature - fishTypeParams.tempOptimal,
+      ),
+      oxygen: evaluateSafetyFactorCurve(
+        curves.oxygen,
+        waterQuality.dissolvedOxygen,
+      ),
+      ammonia: evaluateSafetyFactorCurve(
+        curves.ammonia,
+        waterQuality.calculateToxicAmmonia(),
+      ),
+      nitrite: evaluateSafetyFactorCurve(curves.nitrite, waterQuality.nitrite),
+      ph: evaluateSafetyFactorCurve(curves.ph, waterQuality.pH),
+    };
+  }
+
+  /**
+   * Nearest temperature column within the matching weight range. Weights
+   * outside the matrix use the first or last range.
+   */
+  private findBaseFeedingRate(
+    weightGrams: number,
+    temperature: number,
+    matrix: FeedingRateMatrix,
+  ): number {
+    const tempIndex = this.findClosestTemperatureIndex(
+      temperature,
+      matrix.temperatures,
+    );
+
+    const weightRangeIndex = matrix.weight_ranges.findIndex(
+      (range) => weightGrams >= range.min && weightGrams <= range.max,
+    );
+
+    if (weightRangeIndex === -1) {
+      if (weightGrams < matrix.weight_ranges[0].min) {
+        return matrix.rates[0][tempIndex];
+      }
+      return matrix.rates[matrix.weight_ranges.length - 1][tempIndex];
+    }
+
+    return matrix.rates[weightRangeIndex][tempIndex];
+  }
+
+  private findClosestTemperatureIndex(
+    temperature: number,
+    temperatures: number[],
+  ): number {
+    return temperatures.reduce((prev, curr, idx) => {
+      return Math.abs(curr - temperature) <
+        Math.abs(temperatures[prev] - temperature)
+        ? idx
+        : prev;
+    }, 0);
+  }
+
+  private determineMealsPerDay(
+    weightGrams: number,
+    rules: MealFrequencyRule[],
+  ): number {
+    for (const rule of rules) {
+      if (rule.maxWeight === null || weightGrams <= rule.maxWeight) {
+        return rule.mealsPerDay;
+      }
+    }
+    return 2; // Default fallback
+  }
+
+  private determineSafetyStatus(
+    factors: SafetyFactors,
+  ): "OK" | "WARNING" | "STOPPED" {
+    const values = Object.values(factors);
+    if (values.some((factor) => factor === 0)) {
+      return "STOPPED";
+    }
+    if (values.some((factor) => factor < 1)) {
+      return "WARNING";
+    }
+    return "OK";
+  }
+}
+
+export const DEFAULT_FEEDING_STRATEGY: FeedingStrategy =
+  new MatrixFeedingStrategy();
@@ -0,0 +1,158 @@
+import { DomainException } from "../exceptions/DomainException";
+import { MortalityCause } from "../types/Enums";
+import {
+  BatchMortalityEvent,
+  MortalityAlert,
+  MortalityEvent,
+  MortalityReport,
+  MortalityTotal,
+} from "../types/MortalityTypes";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Raises a critical alert when the deaths recorded over the day up to
+ * `event` reach `thresholdPercent` of the fish alive at the start of it, so
+ * a die-off logged in several counts is still caught.
+ */
+export function detectMassMortality(params: {
+  batchId: string;
+  tankId: string;
+  history: readonly MortalityEvent[];
+  event: MortalityEvent;
+  thresholdPercent: number;
+}): MortalityAlert | null {
+  if (params.thresholdPercent <= 0 || params.thresholdPercent > 100) {
+    throw new DomainException(
+      "Mass mortality threshold must be between 0 and 100 percent",
+    );
+  }
+
+  const end = params.event.recordedAt.getTime();
+  const sameDay = params.history
+    .filter(
+      (other) =>
+        other.recordedAt.getTime() > end - DAY_MS &&
+        other.recordedAt.getTime() <= end,
+    )
+    .sort((a, b) => a.recordedAt.getTime() - b.recordedAt.getTime());
+  if (sameDay.length === 0) return null;
+
+  const deadCount = sameDay.reduce((sum, other) => sum + other.deadCount, 0);
+  const mortalityPercent = (deadCount / sameDay[0].fishCountBefore) * 100;
+  if (mortalityPercent < params.thresholdPercent) return null;
+
+  return {
+    batchId: params.batchId,
+    tankId: params.tankId,
+    severity: "CRITICAL",
+    message: `${deadCount} fish (${mortalityPercent.toFixed(1)}%) died in batch ${params.batchId} within a day`,
+    recordedAt: params.event.recordedAt,
+    deadCount,
+    mortalityPercent,
+    threshold: params.thresholdPercent,
+    action:
+      "Check oxygen and water quality, stop feeding and send fish for necropsy",
+  };
+}
+
+// Monday of the event's week, as a calendar date in the server's local time
+export function mortalityWeekStart(date: Date): string {
+  const monday = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  monday.setDate(monday.getDate() - ((monday.getDay() + 6) % 7));
+  const month = String(monday.getMonth() + 1).padStart(2, "0");
+  const day = String(monday.getDate()).padStart(2, "0");
+  return `${monday.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Totals recorded deaths between `from` and `to` by cause, tank and week,
+ * and lists the mass mortalities among them, once per batch and day. Events
+ * before `from` only count towards the day an alert looks back over. Causes
+ * with no deaths are listed too, so reports line up.
+ */
+export function buildMortalityReport(params: {
+  events: BatchMortalityEvent[];
+  from: Date;
+  to: Date;
+  thresholdPercent: number;
+}): MortalityReport {
+  if (params.from.getTime() > params.to.getTime()) {
+    throw new DomainException("Report must start before it ends");
+  }
+
+  const inRange = params.events
+    .filter(
+      ({ event }) =>
+        event.recordedAt.getTime() >= params.from.getTime() &&
+        event.recordedAt.getTime() <= params.to.getTime(),
+    )
+    .sort(
+      (a, b) => a.event.recordedAt.getTime() - b.event.recordedAt.getTime(),
+    );
+
+  const byCause = new Map<MortalityCause, MortalityTotal>(
+    Object.values(MortalityCause).map((cause) => [
+      cause,
+      { deadCount: 0, events: 0 },
+    ]),
+  );
+  const byTank = new Map<string, MortalityTotal>();
+  const byWeek = new Map<string, MortalityTotal>();
+  const total: MortalityTotal = { deadCount: 0, events: 0 };
+  const add = <K>(
+    totals: Map<K, MortalityTotal>,
+    key: K,
+    deadCount: number,
+  ) => {
+    const entry = totals.get(key) ?? { deadCount: 0, events: 0 };
+    entry.deadCount += deadCount;
+    entry.events += 1;
+    totals.set(key, entry);
+  };
+
+  const alerts: MortalityAlert[] = [];
+  const lastAlertAt = new Map<string, number>();
+  for (const { batchId, tankId, event } of inRange) {
+    total.deadCount += event.deadCount;
+    total.events += 1;
+    add(byCause, event.cause, event.deadCount);
+    add(byTank, tankId, event.deadCount);
+    add(byWeek, mortalityWeekStart(event.recordedAt), event.deadCount);
+
+    const alert = detectMassMortality({
+      batchId,
+      tankId,
+      history: params.events
+        .filter((entry) => entry.batchId === batchId)
+        .map((entry) => entry.event),
+      event,
+      thresholdPercent: params.thresholdPercent,
+    });
+    const previous = lastAlertAt.get(batchId);
+    if (
+      alert &&
+      (previous === undefined ||
+        alert.recordedAt.getTime() - previous >= DAY_MS)
+    ) {
+      alerts.push(alert);
+      lastAlertAt.set(batchId, alert.recordedAt.getTime());
+    }
+  }
+
+  return {
+    from: params.from,
+    to: params.to,
+    total,
+    byCause: Array.from(byCause, ([cause, totals]) => ({ cause, ...totals })),
+    byTank: Array.from(byTank, ([tankId, totals]) => ({
+      tankId,
+      ...totals,
+    })).sort((a, b) => b.deadCount - a.deadCount),
+    byWeek: Array.from(byWeek, ([weekStart, totals]) => ({
+      weekStart,
+      ...totals,
+    })),
+    alerts,
+  };
+}
@@ -0,0 +1,149 @@
+import { MarketPrice } from "../entities/MarketPrice";
+import { GradingBreakdown, PriceCurvePoint } from "../types/HarvestTypes";
+import { Weight } from "../value-objects/Weight";
+
+// The latest price of each grade that is in force on `date`, smallest grade first
+export function effectivePriceBook(
+  prices: readonly MarketPrice[],
+  date: Date,
+): MarketPrice[] {
+  const byGrade = new Map<string, MarketPrice>();
+  for (const price of prices) {
+    if (price.getEffectiveFrom().getTime() > date.getTime()) continue;
+    const current = byGrade.get(price.getGrade());
+    if (
+      !current ||
+      price.getEffectiveFrom().getTime() > current.getEffectiveFrom().getTime()
+    ) {
+      byGrade.set(price.getGrade(), price);
+    }
+  }
+  return [...byGrade.values()].sort(
+    (a, b) => a.getMinWeightGrams() - b.getMinWeightGrams(),
+  );
+}
+
+/**
+ * A grade that would share sizes with `price` while both are in force:
+ * on the day the price takes effect, and on every later day another
+ * line takes effect until a newer price of its own grade replaces it.
+ */
+export function overlappingGrade(
+  prices: readonly MarketPrice[],
+  price: MarketPrice,
+): MarketPrice | undefined {
+  const from = price.getEffectiveFrom().getTime();
+  const dates = [
+    price.getEffectiveFrom(),
+    ...prices
+      .map((other) => other.getEffectiveFrom())
+      .filter((date) => date.getTime() > from),
+  ];
+  for (const date of dates) {
+    const inForce = effectivePriceBook([...prices, price], date);
+    if (!inForce.includes(price)) continue;
+    const clash = inForce.find(
+      (other) => other.getGrade() !== price.getGrade() && other.overlaps(price),
+    );
+    if (clash) return clash;
+  }
+  return undefined;
+}
+
+/**
+ * A step curve holding each grade's price across its band, for the
+ * harvest timing optimizer.
+ */
+export function priceCurveFromGrades(
+  grades: readonly MarketPrice[],
+): PriceCurvePoint[] {
+  return grades.flatMap((grade) => {
+    const start = {
+      weightGrams: grade.getMinWeightGrams(),
+      pricePerKg: grade.getPricePerKg(),
+    };
+    const max = grade.getMaxWeightGrams();
+    return max === null
+      ? [start]
+      : [start, { weightGrams: max, pricePerKg: grade.getPricePerKg() }];
+  });
+}
+
+// Abramowitz and Stegun 7.1.26, accurate to about 1e-7
+const standardNormalCdf = (z: number): number => {
+  if (z === Infinity) return 1;
+  if (z === -Infinity) return 0;
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const polynomial =
+    t *
+    (0.254829592 +
+      t *
+        (-0.284496736 +
+          t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - polynomial * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+};
+
+/**
+ * Fish weights are taken as log-normal around the average with the given
+ * coefficient of variation. A grade gets the share of fish whose weight
+ * falls in its band, and the share of biomass those fish carry.
+ */
+export function gradeHarvest(
+  grades: readonly MarketPrice[],
+  averageWeight: Weight,
+  weightCv: number,
+  fishCount: number,
+): GradingBreakdown {
+  const mean = averageWeight.toGrams();
+  const production = Weight.fromGrams(mean * fishCount);
+  const sigma = Math.sqrt(Math.log(1 + (weightCv / 100) ** 2));
+  const mu = Math.log(mean) - (sigma * sigma) / 2;
+
+  // Shares of fish and of biomass lighter than `grams`
+  const below = (grams: number | null): [number, number] => {
+    if (grams === null) return [1, 1];
+    if (grams <= 0) return [0, 0];
+    if (sigma === 0) return mean < grams ? [1, 1] : [0, 0];
+    const z = (Math.log(grams) - mu) / sigma;
+    return [standardNormalCdf(z), standardNormalCdf(z - sigma)];
+  };
+
+  let gradedFish = 0;
+  let gradedGrams = 0;
+  const shares = grades.map((grade) => {
+    const [fishFrom, biomassFrom] = below(grade.getMinWeightGrams());
+    const [fishTo, biomassTo] = below(grade.getMaxWeightGrams());
+    const count = (fishTo - fishFrom) * fishCount;
+    const grams = (biomassTo - biomassFrom) * production.toGrams();
+    gradedFish += count;
+    gradedGrams += grams;
+    const biomass = Weight.fromGrams(grams);
+    return {
+      grade: grade.getGrade(),
+      minWeightGrams: grade.getMinWeightGrams(),
+      maxWeightGrams: grade.getMaxWeightGrams(),
+      pricePerKg: grade.getPricePerKg(),
+      fishCount: Math.round(count),
+      biomass,
+      revenue: biomass.toKilograms() * grade.getPricePerKg(),
+    };
+  });
+
+  const revenue = shares.reduce((sum, share) => sum + share.revenue, 0);
+  return {
+    averageWeight,
+    weightCv,
+    fishCount,
+    production,
+    grades: shares,
+    ungradedFishCount: Math.max(Math.round(fishCount - gradedFish), 0),
+    ungradedBiomass: Weight.fromGrams(
+      Math.max(production.toGrams() - gradedGrams, 0),
+    ),
+    revenue,
+    averagePricePerKg:
+      production.toKilograms() > 0 ? revenue / production.toKilograms() : 0,
+  };
+}
@@ -0,0 +1,107 @@
+import { SafetyFactorInterpolation } from "../types/Enums";
+import {
+  FishTypeParameters,
+  SafetyFactorCurve,
+  SafetyFactorCurves,
+} from "../types/FishTypeParameters";
+
+export type FishTypeParametersInput = Omit<
+  FishTypeParameters,
+  "safetyFactorCurves"
+> & {
+  safetyFactorCurves?: Partial<SafetyFactorCurves>;
+};
+
+/**
+ * Reads the factor for a water-quality reading off a curve.
+ */
+export function evaluateSafetyFactorCurve(
+  curve: SafetyFactorCurve,
+  value: number,
+): number {
+  const points = curve.points;
+  if (curve.interpolation === SafetyFactorInterpolation.STEP) {
+    // An exclusive point is only reached once the reading is past it
+    let factor = points[0].factor;
+    for (const point of points) {
+      if (value < point.at || (value === point.at && point.exclusive)) break;
+      factor = point.factor;
+    }
+    return factor;
+  }
+
+  const last = points.length - 1;
+  if (value <= points[0].at) return points[0].factor;
+  if (value >= points[last].at) return points[last].factor;
+
+  const upper = points.findIndex((point) => point.at > value);
+  const lower = points[upper - 1];
+  const next = points[upper];
+  const fraction = (value - lower.at) / (next.at - lower.at);
+  return lower.factor + (next.factor - lower.factor) * fraction;
+}
+
+/**
+ * Step tables matching the thresholds feeding used before curves were
+ * configurable, with nitrite and pH bands built from the species limits.
+ * Those thresholds held a band up to and including its upper limit above
+ * the optimum temperature and for ammonia, so those points are exclusive.
+ */
+export function defaultSafetyFactorCurves(
+  params: Omit<FishTypeParameters, "safetyFactorCurves">,
+): SafetyFactorCurves {
+  const step = (
+    points: Array<[number, number] | [number, number, "exclusive"]>,
+  ): SafetyFactorCurve => ({
+    interpolation: SafetyFactorInterpolation.STEP,
+    points: points.map(([at, factor, exclusive]) =>
+      exclusive ? { at, factor, exclusive: true } : { at, factor },
+    ),
+  });
+  const ammoniaWarning = Math.min(0.05, params.nh3Critical);
+
+  return {
+    temperature: step([
+      [-10, 0.75],
+      [-3, 0.85],
+      [-1, 1],
+      [1, 1.05, "exclusive"],
+      [2, 0.95, "exclusive"],
+    ]),
+    oxygen: step([
+      [0, 0],
+      [params.doMin, 0.75],
+      [Math.max(4, params.doMin), 0.9],
+      [Math.max(4, params.doSafe), 1],
+    ]),
+    ammonia: step([
+      [0, 1],
+      [Math.min(params.nh3Safe, ammoniaWarning), 0.8, "exclusive"],
+      [ammoniaWarning, 0.5, "exclusive"],
+      [params.nh3Critical, 0, "exclusive"],
+    ]),
+    nitrite: step([
+      [0, 1],
+      [params.no2Max, 0.5],
+      [params.no2Max * 2, 0],
+    ]),
+    ph: step([
+      [0, 0.75],
+      [params.phMin, 1],
+      [params.phMax, 0.75],
+    ]),
+  };
+}
+
+// Fills in any curve the caller left out with the species default
+export function withDefaultSafetyFactorCurves(
+  params: FishTypeParametersInput,
+): FishTypeParameters {
+  return {
+    ...params,
+    safetyFactorCurves: {
+      ...defaultSafetyFactorCurves(params),
+      ...params.safetyFactorCurves,
+    },
+  };
+}
@@ -0,0 +1,42 @@
+import { DomainException } from "../exceptions/DomainException";
+import { SeasonalTemperatureProfile } from "../types/WaterQualityTypes";
+
+export function validateSeasonalTemperatureProfile(
+  profile: SeasonalTemperatureProfile,
+): void {
+  if (profile.monthlyMeanTemperatures.length !== 12) {
+    throw new DomainException(
+      "A temperature profile needs a mean for each of the 12 months",
+    );
+  }
+  if (!profile.monthlyMeanTemperatures.every(Number.isFinite)) {
+    throw new DomainException("Monthly mean temperatures must be numbers");
+  }
+  if (!Number.isFinite(profile.variation) || profile.variation < 0) {
+    throw new DomainException("Temperature variation cannot be negative");
+  }
+}
+
+/**
+ * Each monthly mean is taken to hold at the middle of its month, with
+ * straight lines between them wrapping from December into January.
+ */
+export function expectedTemperatureOn(
+  profile: SeasonalTemperatureProfile,
+  date: Date,
+): number {
+  const means = profile.monthlyMeanTemperatures;
+  const year = date.getFullYear();
+  const month = date.getMonth();
+  const midMonth = (m: number) =>
+    new Date(year, m, 1).getTime() +
+    (new Date(year, m + 1, 1).getTime() - new Date(year, m, 1).getTime()) / 2;
+
+  const time = date.getTime();
+  const from = time < midMonth(month) ? month - 1 : month;
+  const start = midMonth(from);
+  const fraction = (time - start) / (midMonth(from + 1) - start);
+  const lower = means[(from + 12) % 12];
+  const upper = means[(from + 13) % 12];
+  return lower + (upper - lower) * fraction;
+}
@@ -0,0 +1,182 @@
+import { FishType } from "../entities/FishType";
+import { DomainException } from "../exceptions/DomainException";
+import {
+  BatchGrowthProjection,
+  CapacityForecastDay,
+  TankCapacity,
+  TankCapacityForecast,
+  TankCapacityLimits,
+} from "../types/CapacityTypes";
+import { Volume } from "../value-objects/Volume";
+import { Weight } from "../value-objects/Weight";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface StockedBiomass {
+  fishTypeId: string;
+  biomass: Weight;
+}
+
+/**
+ * Measures a tank's stock against the strictest density limit of the tank and
+ * the species in it, and against its oxygen supply. The oxygen limit holds
+ * the stock's demand per kg constant, so it only applies once fish with a
+ * known consumption are in the tank.
+ */
+export function assessTankCapacity(params: {
+  tankId: string;
+  volume: Volume;
+  limits: TankCapacityLimits;
+  stock: StockedBiomass[];
+  fishTypes: Map<string, FishType>;
+  date?: Date;
+}): TankCapacity {
+  const date = params.date || new Date();
+  let biomassKg = 0;
+  let ratedKg = 0;
+  let oxygenDemand = 0;
+  let maxStockingDensity = params.limits.maxStockingDensity;
+
+  for (const { fishTypeId, biomass } of params.stock) {
+    const fishType = params.fishTypes.get(fishTypeId);
+    if (!fishType) {
+      throw new DomainException(`Fish type not found: ${fishTypeId}`);
+    }
+    const parameters = fishType.getParametersAt(date);
+    const kg = biomass.toKilograms();
+    biomassKg += kg;
+
+    if (parameters.maxStockingDensity !== null) {
+      maxStockingDensity = Math.min(
+        maxStockingDensity ?? Infinity,
+        parameters.maxStockingDensity,
+      );
+    }
+    if (parameters.oxygenConsumption !== null) {
+      ratedKg += kg;
+      oxygenDemand += (kg * parameters.oxygenConsumption) / 1000;
+    }
+  }
+
+  const volume = params.volume.toCubicMeters();
+  const oxygenSupply = params.limits.oxygenSupply;
+  const densityCapacityKg =
+    maxStockingDensity !== null ? maxStockingDensity * volume : null;
+  // Supply beyond today's demand feeds more fish at today's demand per kg
+  const oxygenCapacityKg =
+    oxygenSupply !== null && oxygenDemand > 0
+      ? biomassKg + ((oxygenSupply - oxygenDemand) * ratedKg) / oxygenDemand
+      : null;
+
+  let carryingCapacityKg: number | null = null;
+  let limitedBy: TankCapacity["limitedBy"] = null;
+  if (densityCapacityKg !== null) {
+    carryingCapacityKg = densityCapacityKg;
+    limitedBy = "DENSITY";
+  }
+  if (
+    oxygenCapacityKg !== null &&
+    (carryingCapacityKg === null || oxygenCapacityKg < carryingCapacityKg)
+  ) {
+    carryingCapacityKg = oxygenCapacityKg;
+    limitedBy = "OXYGEN";
+  }
+
+  return {
+    tankId: params.tankId,
+    biomass: Weight.fromKilograms(biomassKg),
+    stockingDensity: biomassKg / volume,
+    maxStockingDensity,
+    oxygenDemand,
+    oxygenSupply,
+    carryingCapacity:
+      carryingCapacityKg !== null
+        ? Weight.fromKilograms(carryingCapacityKg)
+        : null,
+    headroomKg:
+      carryingCapacityKg !== null ? carryingCapacityKg - biomassKg : null,
+    utilization:
+      carryingCapacityKg !== null ? biomassKg / carryingCapacityKg : null,
+    limitedBy,
+  };
+}
+
+/**
+ * Projects a tank's stock day by day, each batch growing at its SGR until its
+ * predicted harvest takes it out of the tank. Fish counts are held, so the
+ * forecast errs towards the tank filling early.
+ */
+export function forecastTankCapacity(params: {
+  tankId: string;
+  volume: Volume;
+  limits: TankCapacityLimits;
+  batches: BatchGrowthProjection[];
+  fishTypes: Map<string, FishType>;
+  horizonDays: number;
+  warningDays: number;
+  currentDate?: Date;
+}): TankCapacityForecast {
+  if (!Number.isInteger(params.horizonDays) || params.horizonDays < 1) {
+    throw new DomainException("Forecast horizon must be a positive whole day");
+  }
+  if (params.warningDays < 0) {
+    throw new DomainException("Warning window cannot be negative");
+  }
+
+  const currentDate = params.currentDate || new Date();
+  const assessments: TankCapacity[] = [];
+  const days: CapacityForecastDay[] = [];
+
+  for (let day = 0; day <= params.horizonDays; day++) {
+    const date = new Date(currentDate.getTime() + day * DAY_MS);
+    const capacity = assessTankCapacity({
+      tankId: params.tankId,
+      volume: params.volume,
+      limits: params.limits,
+      stock: params.batches
+        .filter(
+          (batch) => batch.daysToHarvest === null || day <= batch.daysToHarvest,
+        )
+        .map((batch) => ({
+          fishTypeId: batch.fishTypeId,
+          biomass: Weight.fromGrams(
+            batch.fishCount *
+              batch.averageWeight.toGrams() *
+              Math.exp((batch.sgr * day) / 100),
+          ),
+        })),
+      fishTypes: params.fishTypes,
+      date,
+    });
+    assessments.push(capacity);
+    days.push({
+      day,
+      date,
+      biomass: capacity.biomass,
+      stockingDensity: capacity.stockingDensity,
+      utilization: capacity.utilization,
+    });
+  }
+
+  const exceeded = days.find(
+    (day) => day.utilization !== null && day.utilization > 1,
+  );
+  return {
+    current: assessments[0],
+    days,
+    exceedsOn: exceeded ? exceeded.date : null,
+    daysUntilExceeded: exceeded ? exceeded.day : null,
+    warning: exceeded !== undefined && exceeded.day <= params.warningDays,
+  };
+}
+
+// Tanks with the most room first; tanks without any limit go last
+export function rankTanksByHeadroom(
+  capacities: TankCapacity[],
+): TankCapacity[] {
+  return [...capacities].sort((a, b) => {
+    if (a.headroomKg === null) return b.headroomKg === null ? 0 : 1;
+    if (b.headroomKg === null) return -1;
+    return b.headroomKg - a.headroomKg;
+  });
+}
@@ -0,0 +1,81 @@
+import { DomainException } from "../exceptions/DomainException";
+import { GrowthModelType } from "../types/Enums";
+import { GrowthCurveFit, GrowthObservation } from "../types/GrowthModelTypes";
+import { Weight } from "../value-objects/Weight";
+import {
+  GrowthCurveModel,
+  growthCurveFit,
+  requireObservations,
+} from "./GrowthCurveModel";
+
+/**
+ * W^⅓ = W0^⅓ + (TGC / 1000) × Σ(temperature × days)
+ *
+ * The thermal-unit growth coefficient is a least-squares line through the
+ * stocking weight, so warmer spells count for more growth than cold ones.
+ */
+export class ThermalUnitGrowthModel implements GrowthCurveModel {
+  readonly type = GrowthModelType.THERMAL_UNIT;
+
+  fit(observations: readonly GrowthObservation[]): GrowthCurveFit {
+    requireObservations(observations, 2);
+    if (observations.some((observation) => observation.degreeDays === null)) {
+      throw new DomainException(
+        "Thermal-unit fitting needs water temperature readings",
+      );
+    }
+
+    const [stocking] = observations;
+    const initialRoot = Math.cbrt(stocking.weight.toGrams());
+    let sxy = 0;
+    let sxx = 0;
+    for (const observation of observations) {
+      const x = observation.degreeDays!;
+      sxy += x * (Math.cbrt(observation.weight.toGrams()) - initialRoot);
+      sxx += x * x;
+    }
+    if (sxx <= 0) {
+      throw new DomainException(
+        "Thermal-unit fitting needs weighings after some degree-days",
+      );
+    }
+
+    const tgc = (sxy / sxx) * 1000;
+    return growthCurveFit(this.type, { tgc }, observations, (observation) =>
+      Math.pow(
+        Math.max(initialRoot + (tgc / 1000) * observation.degreeDays!, 0),
+        3,
+      ),
+    );
+  }
+
+  project(
+    fit: GrowthCurveFit,
+    currentWeight: Weight,
+    days: number,
+    temperature: number,
+  ): Weight {
+    return Weight.fromGrams(
+      Math.pow(
+        Math.cbrt(currentWeight.toGrams()) +
+          (fit.parameters.tgc / 1000) * temperature * days,
+        3,
+      ),
+    );
+  }
+
+  daysToReach(
+    fit: GrowthCurveFit,
+    currentWeight: Weight,
+    targetWeight: Weight,
+    temperature: number,
+  ): number | null {
+    if (targetWeight.toGrams() <= currentWeight.toGrams()) return 0;
+    const dailyGain = (fit.parameters.tgc / 1000) * temperature;
+    if (dailyGain <= 0) return null;
+    return (
+      (Math.cbrt(targetWeight.toGrams()) - Math.cbrt(currentWeight.toGrams())) /
+      dailyGain
+    );
+  }
+}
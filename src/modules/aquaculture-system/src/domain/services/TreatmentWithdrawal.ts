@@ -0,0 +1,127 @@
+import { Treatment } from "../entities/Treatment";
+import { WithdrawalUnit } from "../types/Enums";
+import { TreatmentWithdrawal, WithdrawalStatus } from "../types/HealthTypes";
+import { SeasonalTemperatureProfile } from "../types/WaterQualityTypes";
+import { WaterQuality } from "../value-objects/WaterQuality";
+import { degreeDaysBetween } from "./GrowthCurveFitting";
+import { expectedTemperatureOn } from "./SeasonalTemperature";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_WITHDRAWAL_DAYS = 3 * 365;
+
+// °C·days over a period at the farm's seasonal temperatures
+function seasonalDegreeDays(
+  profile: SeasonalTemperatureProfile,
+  from: number,
+  to: number,
+): number {
+  let total = 0;
+  for (let start = from; start < to; start += DAY_MS) {
+    const end = Math.min(start + DAY_MS, to);
+    const temperature = expectedTemperatureOn(
+      profile,
+      new Date((start + end) / 2),
+    );
+    total += (Math.max(temperature, 0) * (end - start)) / DAY_MS;
+  }
+  return total;
+}
+
+/**
+ * Works out which treatments still keep a batch from harvest. Degree-days
+ * accrue at the temperatures recorded in the batch's tank, or at the farm's
+ * seasonal profile without readings, and are projected forward on the
+ * profile to estimate when a withdrawal ends. Without either, a degree-day
+ * withdrawal cannot be told to have ended and keeps the batch withdrawn.
+ */
+export function assessWithdrawal(params: {
+  batchId: string;
+  treatments: ReadonlyArray<Treatment>;
+  readings: readonly WaterQuality[];
+  profile: SeasonalTemperatureProfile | null;
+  asOf?: Date;
+}): WithdrawalStatus {
+  const asOf = (params.asOf || new Date()).getTime();
+  const { readings, profile } = params;
+
+  const recordedDegreeDays = (from: number, to: number): number | null => {
+    if (to <= from) return 0;
+    if (readings.length > 0) {
+      return degreeDaysBetween(readings, new Date(from), new Date(to));
+    }
+    return profile ? seasonalDegreeDays(profile, from, to) : null;
+  };
+
+  const withdrawals = params.treatments.map(
+    (treatment): TreatmentWithdrawal => {
+      const startsAt = treatment.getEndedAt();
+      const start = startsAt.getTime();
+      const required = treatment.getWithdrawalPeriod();
+      const common = {
+        treatmentId: treatment.getId().toString(),
+        batchId: treatment.getBatchId(),
+        product: treatment.getProduct(),
+        withdrawalPeriod: required,
+        withdrawalUnit: treatment.getWithdrawalUnit(),
+        startsAt,
+      };
+
+      if (treatment.getWithdrawalUnit() === WithdrawalUnit.DAYS) {
+        const clearsAt = new Date(start + required * DAY_MS);
+        return {
+          ...common,
+          degreeDaysAccrued: null,
+          clearsAt,
+          estimated: false,
+          cleared: clearsAt.getTime() <= asOf,
+        };
+      }
+
+      // Walk the days after the course until enough degree-days build up
+      let accrued = 0;
+      let clearsAt: Date | null = null;
+      let estimated = false;
+      for (let day = 0; day < MAX_WITHDRAWAL_DAYS; day++) {
+        const from = start + day * DAY_MS;
+        const to = from + DAY_MS;
+        const projected = to > asOf;
+        const increment = projected
+          ? profile && seasonalDegreeDays(profile, from, to)
+          : recordedDegreeDays(from, to);
+        if (increment === null) break;
+        if (accrued + increment >= required) {
+          const fraction = increment > 0 ? (required - accrued) / increment : 0;
+          clearsAt = new Date(from + fraction * DAY_MS);
+          estimated = projected && clearsAt.getTime() > asOf;
+          break;
+        }
+        accrued += increment;
+      }
+
+      return {
+        ...common,
+        degreeDaysAccrued: recordedDegreeDays(start, asOf),
+        clearsAt,
+        estimated,
+        cleared: clearsAt !== null && clearsAt.getTime() <= asOf,
+      };
+    },
+  );
+
+  const pending = withdrawals.filter((withdrawal) => !withdrawal.cleared);
+  const unknown = pending.some((withdrawal) => withdrawal.clearsAt === null);
+  return {
+    batchId: params.batchId,
+    assessedAt: new Date(asOf),
+    inWithdrawal: pending.length > 0,
+    clearsAt:
+      pending.length === 0 || unknown
+        ? null
+        : new Date(
+            Math.max(
+              ...pending.map((withdrawal) => withdrawal.clearsAt!.getTime()),
+            ),
+          ),
+    withdrawals,
+  };
+}
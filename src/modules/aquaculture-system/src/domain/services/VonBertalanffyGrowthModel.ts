@@ -0,0 +1,115 @@
+import { DomainException } from "../exceptions/DomainException";
+import { GrowthModelType } from "../types/Enums";
+import { GrowthCurveFit, GrowthObservation } from "../types/GrowthModelTypes";
+import { Weight } from "../value-objects/Weight";
+import {
+  GrowthCurveModel,
+  growthCurveFit,
+  requireObservations,
+} from "./GrowthCurveModel";
+
+// Asymptotic weights tried, as multiples of the heaviest weighing
+const W_INFINITY_MIN_FACTOR = 1.05;
+const W_INFINITY_MAX_FACTOR = 50;
+const W_INFINITY_STEPS = 400;
+
+/**
+ * W(t) = W∞ × (1 - e^(-K × (t - t0)))³
+ *
+ * For a given W∞ the curve is linear in t after the transform
+ * ln(1 - (W / W∞)^⅓) = K × t0 - K × t, so K and t0 come from a least-squares
+ * line and W∞ is the candidate with the smallest error on weight.
+ */
+export class VonBertalanffyGrowthModel implements GrowthCurveModel {
+  readonly type = GrowthModelType.VON_BERTALANFFY;
+
+  fit(observations: readonly GrowthObservation[]): GrowthCurveFit {
+    requireObservations(observations, 3);
+    const heaviest = Math.max(
+      ...observations.map((observation) => observation.weight.toGrams()),
+    );
+
+    let best: GrowthCurveFit | null = null;
+    const ratio = W_INFINITY_MAX_FACTOR / W_INFINITY_MIN_FACTOR;
+    for (let step = 0; step <= W_INFINITY_STEPS; step++) {
+      const wInfinity =
+        heaviest *
+        W_INFINITY_MIN_FACTOR *
+        Math.pow(ratio, step / W_INFINITY_STEPS);
+      const line = fitLine(
+        observations.map((observation) => [
+          observation.daysInCulture,
+          Math.log(1 - Math.cbrt(observation.weight.toGrams() / wInfinity)),
+        ]),
+      );
+      const k = -line.slope;
+      if (!(k > 0)) continue;
+
+      const t0 = line.intercept / k;
+      const candidate = growthCurveFit(
+        this.type,
+        { wInfinityGrams: wInfinity, k, t0 },
+        observations,
+        (observation) =>
+          wInfinity *
+          Math.pow(1 - Math.exp(-k * (observation.daysInCulture - t0)), 3),
+      );
+      if (!best || candidate.rmseGrams < best.rmseGrams) {
+        best = candidate;
+      }
+    }
+
+    if (!best) {
+      throw new DomainException(
+        "Growth history does not follow a von Bertalanffy curve",
+      );
+    }
+    return best;
+  }
+
+  project(fit: GrowthCurveFit, currentWeight: Weight, days: number): Weight {
+    const { wInfinityGrams, k } = fit.parameters;
+    const remaining = 1 - this.progress(fit, currentWeight);
+    return Weight.fromGrams(
+      wInfinityGrams * Math.pow(1 - remaining * Math.exp(-k * days), 3),
+    );
+  }
+
+  daysToReach(
+    fit: GrowthCurveFit,
+    currentWeight: Weight,
+    targetWeight: Weight,
+  ): number | null {
+    if (targetWeight.toGrams() >= fit.parameters.wInfinityGrams) return null;
+    if (targetWeight.toGrams() <= currentWeight.toGrams()) return 0;
+
+    const remaining = 1 - this.progress(fit, currentWeight);
+    const remainingAtTarget =
+      1 - Math.cbrt(targetWeight.toGrams() / fit.parameters.wInfinityGrams);
+    return Math.log(remaining / remainingAtTarget) / fit.parameters.k;
+  }
+
+  // (W / W∞)^⅓, capped just short of the asymptote
+  private progress(fit: GrowthCurveFit, weight: Weight): number {
+    return Math.min(
+      Math.cbrt(weight.toGrams() / fit.parameters.wInfinityGrams),
+      0.999999,
+    );
+  }
+}
+
+function fitLine(points: Array<[number, number]>): {
+  slope: number;
+  intercept: number;
+} {
+  const n = points.length;
+  const meanX = points.reduce((sum, [x]) => sum + x, 0) / n;
+  const meanY = points.reduce((sum, [, y]) => sum + y, 0) / n;
+  const sxx = points.reduce((sum, [x]) => sum + Math.pow(x - meanX, 2), 0);
+  const sxy = points.reduce(
+    (sum, [x, y]) => sum + (x - meanX) * (y - meanY),
+    0,
+  );
+  const slope = sxx > 0 ? sxy / sxx : 0;
+  return { slope, intercept: meanY - slope * meanX };
+}
@@ -258,8 +258,7 @@ export class WaterQualityAssessmentService {
    */
   calculateWaterExchangeRate(
     waterQuality: WaterQuality,
-    tankVolume: number, // cubic meters
-    currentBiomass: number // kg
+    tankVolume: number // cubic meters
   ): number {
     // Simplified calculation based on ammonia levels
     const nh3 = waterQuality.calculateToxicAmmonia();
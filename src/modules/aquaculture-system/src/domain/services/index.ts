@@ -0,0 +1,25 @@
+export * from "./BatchTransfer";
+export * from "./DegreeDayForecast";
+export * from "./FeedCost";
+export * from "./FeedingCalculationService";
+export * from "./FeedingDeviation";
+export * from "./FeedingRateInterpolation";
+export * from "./FeedingStrategy";
+export * from "./FeedStock";
+export * from "./FeedTrace";
+export * from "./GrowthAnalysisService";
+export * from "./GrowthCurveFitting";
+export * from "./GrowthCurveModel";
+export * from "./HarvestPredictionService";
+export * from "./HarvestSimulation";
+export * from "./HarvestTimingOptimizer";
+export * from "./MatrixFeedingStrategy";
+export * from "./MortalityReport";
+export * from "./PriceBook";
+export * from "./SafetyFactorCurves";
+export * from "./SeasonalTemperature";
+export * from "./TankCapacity";
+export * from "./ThermalUnitGrowthModel";
+export * from "./TreatmentWithdrawal";
+export * from "./VonBertalanffyGrowthModel";
+export * from "./WaterQualityAssessmentService";
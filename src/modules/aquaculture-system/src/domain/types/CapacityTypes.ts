@@ -0,0 +1,46 @@
+import { Weight } from "../value-objects/Weight";
+
+export interface TankCapacityLimits {
+  maxStockingDensity: number | null; // kg/m³, null leaves density to the species
+  oxygenSupply: number | null; // g O₂/h delivered by aeration and water exchange
+}
+
+// What a tank holds against the tightest of its density and oxygen limits
+export interface TankCapacity {
+  tankId: string;
+  biomass: Weight;
+  stockingDensity: number; // kg/m³
+  maxStockingDensity: number | null; // strictest of the tank's and its species' limits
+  oxygenDemand: number; // g O₂/h
+  oxygenSupply: number | null; // g O₂/h
+  carryingCapacity: Weight | null; // null while no limit applies
+  headroomKg: number | null; // negative once the tank is over capacity
+  utilization: number | null; // biomass over carrying capacity, 1 is full
+  limitedBy: "DENSITY" | "OXYGEN" | null;
+}
+
+// A batch growing on at its current SGR until it is harvested
+export interface BatchGrowthProjection {
+  batchId: string;
+  fishTypeId: string;
+  fishCount: number;
+  averageWeight: Weight;
+  sgr: number; // %/day
+  daysToHarvest: number | null; // null when no harvest is in sight
+}
+
+export interface CapacityForecastDay {
+  day: number;
+  date: Date;
+  biomass: Weight;
+  stockingDensity: number; // kg/m³
+  utilization: number | null;
+}
+
+export interface TankCapacityForecast {
+  current: TankCapacity;
+  days: CapacityForecastDay[];
+  exceedsOn: Date | null; // first day over capacity within the horizon
+  daysUntilExceeded: number | null;
+  warning: boolean; // capacity runs out within the warning window
+}
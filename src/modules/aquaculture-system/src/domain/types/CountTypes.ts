@@ -0,0 +1,13 @@
+// A physical count of a batch checked against the fish it should hold
+export interface CountReconciliation {
+  countedAt: Date;
+  bookCount: number; // fish on record just before the count
+  countedCount: number;
+  unexplainedLoss: number; // book less counted; negative when fish were found
+  notes: string | null;
+}
+
+export interface CountDetails {
+  countedAt?: Date;
+  notes?: string | null;
+}
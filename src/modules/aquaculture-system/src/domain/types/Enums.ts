@@ -1,13 +1,58 @@
-enum TankStatus {
+export enum TankStatus {
   ACTIVE = 'ACTIVE',
   MAINTENANCE = 'MAINTENANCE',
   EMPTY = 'EMPTY',
   INACTIVE = 'INACTIVE',
 }
 
-enum BatchStatus {
+export enum BatchStatus {
   ACTIVE = 'ACTIVE',
   HARVESTED = 'HARVESTED',
   MOVED = 'MOVED',
   LOST = 'LOST',
-}
\ No newline at end of file
+}
+
+export enum FeedingRateInterpolation {
+  NEAREST = 'NEAREST', // nearest temperature column within the matching weight range
+  BILINEAR = 'BILINEAR', // linear across both the weight and temperature axes
+}
+
+export enum SafetyFactorInterpolation {
+  STEP = 'STEP', // factor of the last point the reading has reached
+  LINEAR = 'LINEAR', // straight line between neighbouring points
+}
+
+export enum FeedStockMovementType {
+  RECEIPT = 'RECEIPT', // feed delivered into the store
+  CONSUMPTION = 'CONSUMPTION', // feed taken out for a recorded feeding
+}
+
+export enum GrowthModelType {
+  VON_BERTALANFFY = 'VON_BERTALANFFY', // size-limited curve towards an asymptotic weight
+  THERMAL_UNIT = 'THERMAL_UNIT', // thermal-unit growth coefficient over degree-days
+}
+
+export enum HarvestProjectionMethod {
+  CONSTANT_SGR = 'CONSTANT_SGR', // latest interval SGR held until harvest
+  FITTED_CURVE = 'FITTED_CURVE', // a growth curve fitted to the batch's history
+}
+
+export enum MortalityCause {
+  DISEASE = 'DISEASE',
+  OXYGEN = 'OXYGEN', // low dissolved oxygen
+  HANDLING = 'HANDLING', // grading, transfers and sampling
+  PREDATION = 'PREDATION',
+  UNKNOWN = 'UNKNOWN',
+}
+
+export enum TreatmentType {
+  BATH = 'BATH', // salt, formalin or peroxide baths
+  ANTIBIOTIC = 'ANTIBIOTIC', // medicated feed or injection
+  VACCINE = 'VACCINE',
+  OTHER = 'OTHER',
+}
+
+export enum WithdrawalUnit {
+  DAYS = 'DAYS',
+  DEGREE_DAYS = 'DEGREE_DAYS', // °C·days of water temperature
+}
@@ -0,0 +1,49 @@
+import { FeedStockMovementType } from "./Enums";
+import { Weight } from "../value-objects/Weight";
+
+export interface FeedStockMovement {
+  id: string;
+  farmId: string;
+  feedProductId: string;
+  feedLotId: string | null;
+  type: FeedStockMovementType;
+  quantity: Weight; // always positive; the type gives the direction
+  occurredAt: Date;
+  unitPricePerKg: number | null; // receipts only
+  batchId: string | null; // consumption only
+  reference: string | null; // delivery note, invoice, ...
+}
+
+export interface FeedStockLevel {
+  feedProductId: string;
+  onHandGrams: number; // negative when more was fed than was received
+  dailyUsage: Weight | null; // null while the product is not being fed
+  daysOfCover: number | null;
+  lowStock: boolean;
+}
+
+export interface FeedStockLedgerEntry {
+  movement: FeedStockMovement;
+  balanceGrams: number; // stock on hand after the movement
+}
+
+export interface FeedStockLedger {
+  openingBalanceGrams: number;
+  entries: FeedStockLedgerEntry[];
+  closingBalanceGrams: number;
+}
+
+export interface FeedLotUsage {
+  feedLotId: string;
+  feedings: number;
+  totalFeed: Weight;
+  firstFedAt: Date;
+  lastFedAt: Date;
+}
+
+export interface FeedTrace {
+  batchId: string;
+  lots: FeedLotUsage[]; // in the order the batch first ate them
+  untracedFeed: Weight; // fed without a recorded lot
+  untracedFeedings: number;
+}
@@ -1,3 +1,4 @@
+import { FeedingRateInterpolation } from "./Enums";
 import { WaterQuality } from "../value-objects/WaterQuality";
 import { Weight } from "../value-objects/Weight";
 
@@ -5,13 +6,41 @@ export interface SafetyFactors {
   temperature: number;
   oxygen: number;
   ammonia: number;
+  nitrite: number;
+  ph: number;
 }
 
 export interface FeedingRecord {
-  feedAmount: Weight;
+  feedAmount: Weight; // delivered to the tank
   mealsPerDay: number;
   feedDate: Date;
   waterQuality: WaterQuality;
+  mealNumber: number | null; // planned meal this delivery served; null for a whole day's feed
+  feedProductId: string | null;
+  feedLotId: string | null;
+  proteinPercent: number | null; // of the product as it was when fed; null if not known
+  uneatenPercent: number; // estimated share of the delivered feed left uneaten
+}
+
+export interface FeedingDetails {
+  mealNumber?: number;
+  feedProductId?: string;
+  feedLotId?: string;
+  proteinPercent?: number;
+  uneatenPercent?: number;
+  fedAt?: Date;
+}
+
+export interface FeedingDeviation {
+  batchId: string;
+  date: string; // YYYY-MM-DD
+  plannedFeed: Weight | null; // null when no plan was generated for the day
+  plannedMeals: number | null;
+  deliveredFeed: Weight;
+  consumedFeed: Weight;
+  deliveredMeals: number;
+  deviationGrams: number | null; // delivered minus planned
+  deviationPercent: number | null;
 }
 
 export interface FeedingRequirement {
@@ -20,6 +49,22 @@ export interface FeedingRequirement {
   mealsPerDay: number;
   safetyStatus: 'OK' | 'WARNING' | 'STOPPED';
   factors: SafetyFactors;
+  baseFeedingRate?: number; // % of biomass per day, from the matrix
+  finalFeedingRate?: number; // % of biomass per day, after safety factors
+  parameterVersion?: number; // fish-type parameter version the feed was based on
+  interpolation?: FeedingRateInterpolation; // how the base rate was read from the matrix
+}
+
+export interface PlannedMeal {
+  mealNumber: number; // 1-based, in serving order
+  scheduledAt: Date;
+  feedAmount: Weight;
+}
+
+export interface BatchFeedingPlan {
+  batchId: string;
+  requirement: FeedingRequirement;
+  meals: PlannedMeal[];
 }
 
 export interface BatchFeedingRequirement {
@@ -1,3 +1,5 @@
+import { FeedingRateInterpolation, SafetyFactorInterpolation } from "./Enums";
+
 export interface FeedingRateMatrix {
   weight_ranges: Array<{ min: number; max: number }>;
   temperatures: number[];
@@ -9,6 +11,26 @@ export interface MealFrequencyRule {
   mealsPerDay: number;
 }
 
+export interface SafetyFactorPoint {
+  at: number; // reading the factor applies from
+  factor: number; // multiplier on the feeding rate, 0 stops feeding
+  exclusive?: boolean; // STEP only: applies above `at` but not at it
+}
+
+// Points are ordered by `at`; readings outside the curve take the edge factor
+export interface SafetyFactorCurve {
+  interpolation: SafetyFactorInterpolation;
+  points: SafetyFactorPoint[];
+}
+
+export interface SafetyFactorCurves {
+  temperature: SafetyFactorCurve; // by °C away from tempOptimal
+  oxygen: SafetyFactorCurve; // by dissolved oxygen, mg/L
+  ammonia: SafetyFactorCurve; // by toxic NH3, mg/L
+  nitrite: SafetyFactorCurve; // by NO2, mg/L
+  ph: SafetyFactorCurve; // by pH
+}
+
 export interface FishTypeParameters {
   doMin: number;
   doSafe: number;
@@ -23,6 +45,17 @@ export interface FishTypeParameters {
   fcrMin: number;
   fcrMax: number;
   survivalRate: number;
+  maxStockingDensity: number | null; // kg/m³, null when the species sets no limit
+  oxygenConsumption: number | null; // mg O₂ per kg of fish per hour
   feedingRateMatrix: FeedingRateMatrix;
+  feedingRateInterpolation: FeedingRateInterpolation;
+  safetyFactorCurves: SafetyFactorCurves;
   mealFrequencyRules: MealFrequencyRule[];
 }
+
+// An immutable parameter set; a fish type's versions never change once saved
+export interface FishTypeParameterVersion {
+  version: number;
+  effectiveFrom: Date;
+  parameters: FishTypeParameters;
+}
@@ -0,0 +1,16 @@
+import { GrowthModelType } from "./Enums";
+import { Weight } from "../value-objects/Weight";
+
+export interface GrowthObservation {
+  daysInCulture: number;
+  weight: Weight;
+  degreeDays: number | null; // °C·days since stocking, null without temperatures
+}
+
+export interface GrowthCurveFit {
+  model: GrowthModelType;
+  parameters: Record<string, number>;
+  rSquared: number; // on weight, 1 is a perfect fit
+  rmseGrams: number;
+  observations: number;
+}
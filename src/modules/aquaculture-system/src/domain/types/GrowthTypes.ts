@@ -2,10 +2,54 @@ import { BatchStatistics } from "../value-objects/BatchStatistics";
 import { Weight } from "../value-objects/Weight";
 
 export interface GrowthRecord {
-  recordedAt: Date;
+  recordedAt: Date; // when the fish were sampled
   statistics: BatchStatistics;
+  weightGain: Weight; // since the previous record
+  daysInCulture: number;
+  intervalDays: number; // since the previous record, or stocking for the first
+  intervalSgr: number; // Specific Growth Rate over the interval
+  intervalAdg: number; // Average Daily Gain over the interval
+  cumulativeSgr: number; // since stocking
+  cumulativeAdg: number; // since stocking
+  sample: GrowthSample | null; // set when the average came from weighing fish
+}
+
+export interface SampledFish {
+  weight: Weight;
+  lengthCm: number;
+}
+
+export interface GrowthSample {
+  fish: SampledFish[];
+  meanWeight: Weight;
+  weightStdDevGrams: number;
+  weightCv: number; // coefficient of variation, percentage
+  meanLengthCm: number;
+  meanConditionFactor: number;
+}
+
+export interface GrowthMetrics {
   weightGain: Weight;
+  sgr: number;
+  adg: number;
+  fcr: number;
+  per: number | null; // Protein Efficiency Ratio, null if any feed's protein is unknown
+  feedEfficiency: number; // percentage
   daysInCulture: number;
-  sgr: number; // Specific Growth Rate
-  adg: number; // Average Daily Gain
-}
\ No newline at end of file
+}
+
+export interface ProteinIntake {
+  feedConsumed: Weight;
+  proteinConsumed: Weight;
+  unknownProteinFeed: Weight; // eaten from no product, or one we can't look up
+}
+
+export type PerformanceRating = 'EXCELLENT' | 'GOOD' | 'ACCEPTABLE' | 'POOR';
+
+export interface GrowthPerformance {
+  fcrRating: PerformanceRating;
+  sgrRating: PerformanceRating;
+  overallRating: PerformanceRating;
+  metrics: GrowthMetrics;
+  recommendations: string[];
+}
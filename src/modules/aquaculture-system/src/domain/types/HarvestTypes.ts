@@ -0,0 +1,134 @@
+import { HarvestProjectionMethod } from "./Enums";
+import { GrowthCurveFit } from "./GrowthModelTypes";
+import { Weight } from "../value-objects/Weight";
+
+export interface HarvestPrediction {
+  harvestDate: Date;
+  daysToHarvest: number;
+  targetWeight: Weight;
+  expectedFinalCount: number;
+  finalProduction: Weight;
+  currentSGR: number; // for a fitted curve, the average SGR implied until harvest
+  projectedSurvivalRate: number;
+  method: HarvestProjectionMethod;
+  growthCurve: GrowthCurveFit | null;
+}
+
+export interface HarvestedGrade {
+  grade: string;
+  fishCount: number;
+  biomass: Weight;
+}
+
+// Fish taken out of a batch in one go; the batch stays open until the last fish
+export interface HarvestEvent {
+  harvestedAt: Date;
+  fishCount: number;
+  biomass: Weight;
+  averageWeight: Weight;
+  grades: HarvestedGrade[];
+  buyer: string | null;
+  closedBatch: boolean; // took the last fish of the batch
+}
+
+export interface HarvestEconomics {
+  remainingFeed: Weight;
+  remainingFeedCost: number;
+  totalRemainingCosts: number;
+  projectedRevenue: number;
+  grossProfit: number;
+  profitMargin: number; // percentage
+  breakEvenProduction: number; // kg
+  marketPricePerKg: number;
+  feedPricePerKg: number;
+}
+
+export interface DegreeDayHarvestForecast {
+  tgc: number;
+  estimatedCurrentWeight: Weight; // grown on from the last weighing
+  degreeDaysSinceWeighing: number;
+  degreeDaysToHarvest: number;
+  earliestHarvestDate: Date; // warm season, profile + variation
+  expectedHarvestDate: Date;
+  latestHarvestDate: Date | null; // null when a cool season never gets there
+  targetWeight: Weight;
+  expectedFinalCount: number;
+  finalProduction: Weight;
+  projectedSurvivalRate: number;
+}
+
+export interface PercentileBand<T> {
+  p10: T;
+  p50: T;
+  p90: T;
+}
+
+// Spread of the batch's growth and losses between weighings
+export interface GrowthVariability {
+  intervals: number;
+  sgrMean: number;
+  sgrStdDev: number;
+  dailyMortalityMean: number; // fraction of fish lost per day
+  dailyMortalityStdDev: number;
+}
+
+export interface HarvestSimulation {
+  runs: number;
+  seed: number;
+  variability: GrowthVariability;
+  targetWeight: Weight;
+  daysToHarvest: PercentileBand<number>;
+  harvestDate: PercentileBand<Date>;
+  fishCount: PercentileBand<number>;
+  finalProduction: PercentileBand<Weight>;
+}
+
+export interface PriceCurvePoint {
+  weightGrams: number; // average fish weight
+  pricePerKg: number;
+}
+
+export interface HarvestDayProjection {
+  day: number; // from today, 0 harvests now
+  date: Date;
+  averageWeight: Weight;
+  fishCount: number;
+  biomass: Weight;
+  pricePerKg: number;
+  revenue: number; // from the fish still in the tank
+  feedCost: number; // from today until the day
+  fixedCost: number; // from today until the day
+  totalCost: number; // including sunk costs
+  margin: number; // including revenue from earlier harvests
+  marginPerDay: number; // over the whole tank occupancy since stocking
+}
+
+export interface HarvestTimingOptimization {
+  sunkCost: number;
+  harvestedRevenue: number;
+  optimal: HarvestDayProjection;
+  days: HarvestDayProjection[];
+}
+
+export interface SizeGradeShare {
+  grade: string;
+  minWeightGrams: number;
+  maxWeightGrams: number | null;
+  pricePerKg: number;
+  fishCount: number;
+  biomass: Weight;
+  revenue: number;
+}
+
+// Production split into the price book's size grades
+export interface GradingBreakdown {
+  averageWeight: Weight;
+  weightCv: number; // percentage, spread of fish weights around the average
+  fishCount: number;
+  production: Weight;
+  grades: SizeGradeShare[];
+  ungradedFishCount: number; // outside every grade, priced at nothing
+  ungradedBiomass: Weight;
+  revenue: number;
+  averagePricePerKg: number;
+}
@@ -0,0 +1,22 @@
+import { WithdrawalUnit } from "./Enums";
+
+export interface TreatmentWithdrawal {
+  treatmentId: string;
+  batchId: string; // the treated batch, an ancestor if the fish moved since
+  product: string;
+  withdrawalPeriod: number;
+  withdrawalUnit: WithdrawalUnit;
+  startsAt: Date; // end of the course
+  degreeDaysAccrued: number | null; // degree-day withdrawals only
+  clearsAt: Date | null; // null when the temperatures cannot tell
+  estimated: boolean; // clearsAt relies on the farm's seasonal profile
+  cleared: boolean;
+}
+
+export interface WithdrawalStatus {
+  batchId: string;
+  assessedAt: Date;
+  inWithdrawal: boolean;
+  clearsAt: Date | null; // when the last withdrawal ends, if it can be told
+  withdrawals: TreatmentWithdrawal[];
+}
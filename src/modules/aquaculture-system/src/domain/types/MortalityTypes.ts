@@ -0,0 +1,57 @@
+import { MortalityCause } from "./Enums";
+
+// A photo kept on disk and served from `url`
+export interface MortalityAttachment {
+  fileName: string; // as uploaded
+  contentType: string;
+  url: string;
+}
+
+export interface MortalityEvent {
+  recordedAt: Date;
+  deadCount: number;
+  fishCountBefore: number; // alive just before the loss
+  cause: MortalityCause;
+  notes: string | null; // necropsy findings and observations
+  attachments: MortalityAttachment[];
+}
+
+export interface MortalityDetails {
+  cause?: MortalityCause;
+  notes?: string | null;
+  attachments?: MortalityAttachment[];
+  recordedAt?: Date;
+}
+
+export interface MortalityAlert {
+  batchId: string;
+  tankId: string;
+  severity: "CRITICAL";
+  message: string;
+  recordedAt: Date;
+  deadCount: number; // over the day up to the alert
+  mortalityPercent: number; // of the fish alive at the start of that day
+  threshold: number;
+  action: string;
+}
+
+export interface BatchMortalityEvent {
+  batchId: string;
+  tankId: string;
+  event: MortalityEvent;
+}
+
+export interface MortalityTotal {
+  deadCount: number;
+  events: number;
+}
+
+export interface MortalityReport {
+  from: Date;
+  to: Date;
+  total: MortalityTotal;
+  byCause: Array<MortalityTotal & { cause: MortalityCause }>;
+  byTank: Array<MortalityTotal & { tankId: string }>;
+  byWeek: Array<MortalityTotal & { weekStart: string }>; // Monday, YYYY-MM-DD
+  alerts: MortalityAlert[];
+}
@@ -0,0 +1,18 @@
+import { Weight } from "../value-objects/Weight";
+
+// Fish moved out of a batch into a child batch, by a split or a merge
+export interface BatchTransfer {
+  transferredAt: Date;
+  toBatchId: string;
+  fishCount: number;
+  biomass: Weight;
+  averageWeight: Weight;
+}
+
+// Figures summed over every batch linked by transfers
+export interface LineagePerformance {
+  batchIds: string[];
+  feedConsumed: Weight;
+  weightGain: Weight;
+  fcr: number | null; // null until the lineage has eaten and gained weight
+}
@@ -0,0 +1,36 @@
+export type WaterQualityStatus =
+  "OPTIMAL" | "ACCEPTABLE" | "WARNING" | "CRITICAL";
+
+export interface WaterQualityAlert {
+  parameter: string;
+  severity: "WARNING" | "CRITICAL";
+  message: string;
+  currentValue: number;
+  threshold: number | string;
+  action: string;
+}
+
+export interface WaterQualityParameterReading {
+  value: number;
+  status: WaterQualityStatus;
+}
+
+export interface WaterQualityAssessment {
+  status: WaterQualityStatus;
+  alerts: WaterQualityAlert[];
+  parameters: {
+    dissolvedOxygen: WaterQualityParameterReading;
+    pH: WaterQualityParameterReading;
+    ammonia: WaterQualityParameterReading;
+    nitrite: WaterQualityParameterReading;
+    temperature: WaterQualityParameterReading;
+  };
+  assessedAt: Date;
+  actionRequired: boolean;
+}
+
+// Water temperature a farm expects through the year
+export interface SeasonalTemperatureProfile {
+  monthlyMeanTemperatures: number[]; // °C, January to December
+  variation: number; // ± °C around the means, spreads forecasts into a range
+}
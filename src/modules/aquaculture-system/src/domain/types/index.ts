@@ -0,0 +1,14 @@
+export * from "./CapacityTypes";
+export * from "./CountTypes";
+export * from "./EconomicTypes";
+export * from "./Enums";
+export * from "./FeedInventoryTypes";
+export * from "./FeedingTypes";
+export * from "./FishTypeParameters";
+export * from "./GrowthModelTypes";
+export * from "./GrowthTypes";
+export * from "./HarvestTypes";
+export * from "./HealthTypes";
+export * from "./MortalityTypes";
+export * from "./TransferTypes";
+export * from "./WaterQualityTypes";
@@ -1,3 +1,4 @@
+import { DomainException } from "../exceptions/DomainException";
 import { Weight } from "./Weight";
 
 export class BatchStatistics {
@@ -6,9 +7,9 @@ export class BatchStatistics {
     public readonly averageWeight: Weight,
     public readonly survivalRate: number // percentage (0-100)
   ) {
-    if (fishCount < 0) throw new Error('Fish count cannot be negative');
+    if (fishCount < 0) throw new DomainException('Fish count cannot be negative');
     if (survivalRate < 0 || survivalRate > 100) {
-      throw new Error('Survival rate must be between 0 and 100');
+      throw new DomainException('Survival rate must be between 0 and 100');
     }
   }
 
@@ -33,9 +34,14 @@ export class BatchStatistics {
     );
   }
 
-  recordMortality(deadCount: number, initialCount: number): BatchStatistics {
+  // Fish harvested or transferred out count as survivors
+  recordMortality(
+    deadCount: number,
+    initialCount: number,
+    removedCount: number = 0
+  ): BatchStatistics {
     const newCount = this.fishCount - deadCount;
-    const newSurvivalRate = (newCount / initialCount) * 100;
+    const newSurvivalRate = ((newCount + removedCount) / initialCount) * 100;
     return new BatchStatistics(
       newCount,
       this.averageWeight,
@@ -43,6 +49,34 @@ export class BatchStatistics {
     );
   }
 
+  // A physical count replaces the book count; fish removed count as survivors
+  reconcileCount(
+    countedCount: number,
+    initialCount: number,
+    removedCount: number = 0
+  ): BatchStatistics {
+    const newSurvivalRate = ((countedCount + removedCount) / initialCount) * 100;
+    return new BatchStatistics(
+      countedCount,
+      this.averageWeight,
+      newSurvivalRate
+    );
+  }
+
+  // The fish left behind carry whatever biomass was not taken out
+  removeFish(removedCount: number, removedBiomass: Weight): BatchStatistics {
+    const remainingCount = this.fishCount - removedCount;
+    const remainingGrams =
+      this.getTotalBiomass().toGrams() - removedBiomass.toGrams();
+    return new BatchStatistics(
+      remainingCount,
+      remainingCount > 0
+        ? Weight.fromGrams(remainingGrams / remainingCount)
+        : this.averageWeight,
+      this.survivalRate
+    );
+  }
+
   equals(other: BatchStatistics): boolean {
     return (
       this.fishCount === other.fishCount &&
@@ -1,7 +1,8 @@
+import { DomainException } from "../exceptions/DomainException";
 
-class Volume {
+export class Volume {
   private constructor(private readonly cubicMeters: number) {
-    if (cubicMeters <= 0) throw new Error('Volume must be positive');
+    if (cubicMeters <= 0) throw new DomainException('Volume must be positive');
   }
 
   static fromCubicMeters(m3: number): Volume {
@@ -1,3 +1,4 @@
+import { InvalidWaterQualityException } from "../exceptions/InvalidWaterQualityException";
 
 export class WaterQuality {
   private constructor(
@@ -31,13 +32,13 @@ export class WaterQuality {
 
   private validate(): void {
     if (this.temperature < 0 || this.temperature > 50) {
-      throw new Error('Invalid temperature');
+      throw new InvalidWaterQualityException('Invalid temperature');
     }
     if (this.dissolvedOxygen < 0) {
-      throw new Error('DO cannot be negative');
+      throw new InvalidWaterQualityException('DO cannot be negative');
     }
     if (this.pH < 0 || this.pH > 14) {
-      throw new Error('Invalid pH');
+      throw new InvalidWaterQualityException('Invalid pH');
     }
   }
 
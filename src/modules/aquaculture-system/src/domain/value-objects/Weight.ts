@@ -1,6 +1,8 @@
+import { DomainException } from "../exceptions/DomainException";
+
 export class Weight {
   private constructor(private readonly grams: number) {
-    if (grams < 0) throw new Error('Weight cannot be negative');
+    if (grams < 0) throw new DomainException('Weight cannot be negative');
   }
 
   static fromGrams(grams: number): Weight {
@@ -0,0 +1,4 @@
+export * from "./BatchStatistics";
+export * from "./Volume";
+export * from "./WaterQuality";
+export * from "./Weight";
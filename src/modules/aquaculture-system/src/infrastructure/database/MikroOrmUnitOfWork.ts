@@ -0,0 +1,17 @@
+import { EntityManager } from "@mikro-orm/postgresql";
+import { Injectable } from "@nestjs/common";
+import { IUnitOfWork } from "../../application/services/UnitOfWork";
+
+/**
+ * Wraps the work in a database transaction. Repositories flush through the
+ * shared entity manager, which hands them the transaction's context, so
+ * nothing they write is committed until the work succeeds.
+ */
+@Injectable()
+export class MikroOrmUnitOfWork implements IUnitOfWork {
+  constructor(private readonly em: EntityManager) {}
+
+  run<T>(work: () => Promise<T>): Promise<T> {
+    return this.em.transactional(() => work());
+  }
+}
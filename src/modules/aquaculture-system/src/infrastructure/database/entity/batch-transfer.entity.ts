@@ -0,0 +1,31 @@
+import { Entity, ManyToOne, PrimaryKey, Property, Rel } from "@mikro-orm/core";
+import { v4 } from "uuid";
+import { BaseEntity } from "../../../../../../libs/database/base.entity";
+import { FishBatchEntity } from "./fish-batch.entity";
+
+// Links a batch to the child batch its fish moved into; rows are only ever inserted
+@Entity({
+  tableName: "batch_transfers",
+})
+export class BatchTransferEntity extends BaseEntity {
+  @PrimaryKey()
+  override id: string = v4();
+
+  @ManyToOne(() => FishBatchEntity, { index: true })
+  batch!: Rel<FishBatchEntity>;
+
+  @Property({ index: true })
+  toBatchId!: string;
+
+  @Property()
+  transferredAt!: Date;
+
+  @Property()
+  fishCount!: number;
+
+  @Property({ type: "double" })
+  biomassGrams!: number;
+
+  @Property({ type: "double" })
+  averageWeightGrams!: number;
+}
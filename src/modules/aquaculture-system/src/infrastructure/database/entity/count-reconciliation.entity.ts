@@ -0,0 +1,27 @@
+import { Entity, ManyToOne, PrimaryKey, Property, Rel } from "@mikro-orm/core";
+import { v4 } from "uuid";
+import { BaseEntity } from "../../../../../../libs/database/base.entity";
+import { FishBatchEntity } from "./fish-batch.entity";
+
+@Entity({
+  tableName: "count_reconciliations",
+})
+export class CountReconciliationEntity extends BaseEntity {
+  @PrimaryKey()
+  override id: string = v4();
+
+  @ManyToOne(() => FishBatchEntity, { index: true })
+  batch!: Rel<FishBatchEntity>;
+
+  @Property()
+  countedAt!: Date;
+
+  @Property()
+  bookCount!: number;
+
+  @Property()
+  countedCount!: number;
+
+  @Property({ type: "text", nullable: true })
+  notes!: string | null;
+}
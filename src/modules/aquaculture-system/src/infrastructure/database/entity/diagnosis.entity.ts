@@ -0,0 +1,24 @@
+import { Entity, ManyToOne, PrimaryKey, Property, Rel } from "@mikro-orm/core";
+import { v4 } from "uuid";
+import { BaseEntity } from "../../../../../../libs/database/base.entity";
+import { FishBatchEntity } from "./fish-batch.entity";
+
+@Entity({
+  tableName: "diagnoses",
+})
+export class DiagnosisEntity extends BaseEntity {
+  @PrimaryKey()
+  override id: string = v4();
+
+  @ManyToOne(() => FishBatchEntity, { index: true })
+  batch!: Rel<FishBatchEntity>;
+
+  @Property()
+  condition!: string;
+
+  @Property()
+  diagnosedAt!: Date;
+
+  @Property({ type: "text", nullable: true })
+  notes!: string | null;
+}
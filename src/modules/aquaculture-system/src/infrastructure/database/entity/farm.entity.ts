@@ -0,0 +1,21 @@
+import { Entity, PrimaryKey, Property } from "@mikro-orm/core";
+import { v4 } from "uuid";
+import { BaseEntity } from "../../../../../../libs/database/base.entity";
+import { SeasonalTemperatureProfile } from "../../../domain/types/WaterQualityTypes";
+
+@Entity({
+  tableName: "farms",
+})
+export class FarmEntity extends BaseEntity {
+  @PrimaryKey()
+  override id: string = v4();
+
+  @Property()
+  name!: string;
+
+  @Property()
+  location!: string;
+
+  @Property({ type: "json", nullable: true })
+  temperatureProfile!: SeasonalTemperatureProfile | null;
+}
@@ -0,0 +1,35 @@
+import {
+  Entity,
+  ManyToOne,
+  PrimaryKey,
+  Property,
+  Rel,
+  Unique,
+} from "@mikro-orm/core";
+import { v4 } from "uuid";
+import { BaseEntity } from "../../../../../../libs/database/base.entity";
+import { FeedProductEntity } from "./feed-product.entity";
+
+@Entity({
+  tableName: "feed_lots",
+})
+@Unique({ properties: ["feedProduct", "lotNumber"] })
+export class FeedLotEntity extends BaseEntity {
+  @PrimaryKey()
+  override id: string = v4();
+
+  @ManyToOne(() => FeedProductEntity, { index: true })
+  feedProduct!: Rel<FeedProductEntity>;
+
+  @Property()
+  lotNumber!: string;
+
+  @Property()
+  supplier!: string;
+
+  @Property()
+  manufacturedAt!: Date;
+
+  @Property()
+  expiresAt!: Date;
+}
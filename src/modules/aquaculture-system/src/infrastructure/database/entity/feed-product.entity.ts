@@ -0,0 +1,27 @@
+import { Entity, PrimaryKey, Property, Unique } from "@mikro-orm/core";
+import { v4 } from "uuid";
+import { BaseEntity } from "../../../../../../libs/database/base.entity";
+
+@Entity({
+  tableName: "feed_products",
+})
+@Unique({ properties: ["brand", "name"] })
+export class FeedProductEntity extends BaseEntity {
+  @PrimaryKey()
+  override id: string = v4();
+
+  @Property()
+  name!: string;
+
+  @Property()
+  brand!: string;
+
+  @Property({ type: "double" })
+  pelletSizeMm!: number;
+
+  @Property({ type: "double" })
+  proteinPercent!: number;
+
+  @Property({ type: "double" })
+  pricePerKg!: number;
+}
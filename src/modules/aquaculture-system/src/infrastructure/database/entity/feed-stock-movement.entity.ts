@@ -0,0 +1,55 @@
+import {
+  Entity,
+  Enum,
+  Index,
+  ManyToOne,
+  PrimaryKey,
+  Property,
+  Rel,
+} from "@mikro-orm/core";
+import { v4 } from "uuid";
+import { BaseEntity } from "../../../../../../libs/database/base.entity";
+import { FeedStockMovementType } from "../../../domain/types/Enums";
+import { FarmEntity } from "./farm.entity";
+import { FeedLotEntity } from "./feed-lot.entity";
+import { FeedProductEntity } from "./feed-product.entity";
+
+/**
+ * The feed store's ledger. Rows are only ever inserted, and the quantity is
+ * signed so that stock on hand is the sum of a product's rows.
+ */
+@Entity({
+  tableName: "feed_stock_movements",
+})
+@Index({ properties: ["farm", "feedProduct", "occurredAt"] })
+export class FeedStockMovementEntity extends BaseEntity {
+  @PrimaryKey()
+  override id: string = v4();
+
+  @ManyToOne(() => FarmEntity)
+  farm!: Rel<FarmEntity>;
+
+  @ManyToOne(() => FeedProductEntity, { index: true })
+  feedProduct!: Rel<FeedProductEntity>;
+
+  @ManyToOne(() => FeedLotEntity, { nullable: true, index: true })
+  feedLot!: Rel<FeedLotEntity> | null;
+
+  @Enum({ items: () => FeedStockMovementType })
+  type!: FeedStockMovementType;
+
+  @Property({ type: "double" })
+  quantityGrams!: number;
+
+  @Property()
+  occurredAt!: Date;
+
+  @Property({ type: "double", nullable: true })
+  unitPricePerKg!: number | null;
+
+  @Property({ type: "string", nullable: true, index: true })
+  batchId!: string | null;
+
+  @Property({ type: "string", nullable: true })
+  reference!: string | null;
+}
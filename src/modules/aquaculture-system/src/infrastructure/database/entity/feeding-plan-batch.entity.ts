@@ -0,0 +1,63 @@
+import {
+  Entity,
+  Enum,
+  ManyToOne,
+  PrimaryKey,
+  Property,
+  Rel,
+} from "@mikro-orm/core";
+import { v4 } from "uuid";
+import { BaseEntity } from "../../../../../../libs/database/base.entity";
+import { FeedingRateInterpolation } from "../../../domain/types/Enums";
+import { SafetyFactors } from "../../../domain/types/FeedingTypes";
+import { FeedingPlanEntity } from "./feeding-plan.entity";
+
+export interface PlannedMealRecord {
+  mealNumber: number;
+  scheduledAt: string;
+  feedAmountGrams: number;
+}
+
+@Entity({
+  tableName: "feeding_plan_batches",
+})
+export class FeedingPlanBatchEntity extends BaseEntity {
+  @PrimaryKey()
+  override id: string = v4();
+
+  @ManyToOne(() => FeedingPlanEntity, { index: true })
+  plan!: Rel<FeedingPlanEntity>;
+
+  @Property({ index: true })
+  batchId!: string;
+
+  @Property({ type: "double" })
+  totalDailyFeedGrams!: number;
+
+  @Property({ type: "double" })
+  feedPerMealGrams!: number;
+
+  @Property()
+  mealsPerDay!: number;
+
+  @Enum({ items: ["OK", "WARNING", "STOPPED"] })
+  safetyStatus!: "OK" | "WARNING" | "STOPPED";
+
+  @Property({ type: "json" })
+  factors!: SafetyFactors;
+
+  @Property({ type: "double", nullable: true })
+  baseFeedingRate!: number | null;
+
+  @Property({ type: "double", nullable: true })
+  finalFeedingRate!: number | null;
+
+  @Property({ type: "integer", nullable: true })
+  parameterVersion!: number | null;
+
+  @Enum({ items: () => FeedingRateInterpolation, nullable: true })
+  interpolation!: FeedingRateInterpolation | null;
+
+  @Property({ type: "json" })
+  meals!: PlannedMealRecord[];
+}
@@ -0,0 +1,59 @@
+import {
+  Collection,
+  Entity,
+  ManyToOne,
+  OneToMany,
+  PrimaryKey,
+  Property,
+  Rel,
+  Unique,
+} from "@mikro-orm/core";
+import { v4 } from "uuid";
+import { BaseEntity } from "../../../../../../libs/database/base.entity";
+import { FeedingPlanBatchEntity } from "./feeding-plan-batch.entity";
+import { TankEntity } from "./tank.entity";
+
+/**
+ * Regenerating a tank's plan for a day replaces it in place, so there is at
+ * most one row per tank and date.
+ */
+@Entity({
+  tableName: "feeding_plans",
+})
+@Unique({ properties: ["tank", "planDate"] })
+export class FeedingPlanEntity extends BaseEntity {
+  @PrimaryKey()
+  override id: string = v4();
+
+  @ManyToOne(() => TankEntity)
+  tank!: Rel<TankEntity>;
+
+  @Property({ type: "date" })
+  planDate!: string;
+
+  @Property()
+  generatedAt!: Date;
+
+  @Property({ type: "double" })
+  waterTemperature!: number;
+
+  @Property({ type: "double" })
+  waterDissolvedOxygen!: number;
+
+  @Property({ type: "double" })
+  waterPH!: number;
+
+  @Property({ type: "double" })
+  waterTotalAmmonia!: number;
+
+  @Property({ type: "double" })
+  waterNitrite!: number;
+
+  @Property()
+  waterMeasuredAt!: Date;
+
+  @OneToMany(() => FeedingPlanBatchEntity, (batch) => batch.plan, {
+    orphanRemoval: true,
+  })
+  batches = new Collection<FeedingPlanBatchEntity>(this);
+}
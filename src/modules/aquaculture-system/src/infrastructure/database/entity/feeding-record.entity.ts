@@ -0,0 +1,61 @@
+import { Entity, ManyToOne, PrimaryKey, Property, Rel } from "@mikro-orm/core";
+import { v4 } from "uuid";
+import { BaseEntity } from "../../../../../../libs/database/base.entity";
+import { FishBatchEntity } from "./fish-batch.entity";
+
+/**
+ * A feeding keeps its own copy of the water quality it was fed under, so
+ * later readings on the tank do not rewrite feeding history.
+ */
+@Entity({
+  tableName: "feeding_records",
+})
+export class FeedingRecordEntity extends BaseEntity {
+  @PrimaryKey()
+  override id: string = v4();
+
+  @ManyToOne(() => FishBatchEntity, { index: true })
+  batch!: Rel<FishBatchEntity>;
+
+  @Property()
+  feedDate!: Date;
+
+  @Property({ type: "double" })
+  feedAmountGrams!: number;
+
+  @Property()
+  mealsPerDay!: number;
+
+  @Property({ type: "integer", nullable: true })
+  mealNumber!: number | null;
+
+  @Property({ type: "string", nullable: true, index: true })
+  feedProductId!: string | null;
+
+  @Property({ type: "string", nullable: true, index: true })
+  feedLotId!: string | null;
+
+  @Property({ type: "double", nullable: true })
+  proteinPercent!: number | null;
+
+  @Property({ type: "double", default: 0 })
+  uneatenPercent!: number;
+
+  @Property({ type: "double" })
+  waterTemperature!: number;
+
+  @Property({ type: "double" })
+  waterDissolvedOxygen!: number;
+
+  @Property({ type: "double" })
+  waterPH!: number;
+
+  @Property({ type: "double" })
+  waterTotalAmmonia!: number;
+
+  @Property({ type: "double" })
+  waterNitrite!: number;
+
+  @Property()
+  waterMeasuredAt!: Date;
+}
@@ -0,0 +1,90 @@
+import {
+  Collection,
+  Entity,
+  Enum,
+  ManyToOne,
+  OneToMany,
+  PrimaryKey,
+  Property,
+  QueryOrder,
+  Rel,
+} from "@mikro-orm/core";
+import { v4 } from "uuid";
+import { BaseEntity } from "../../../../../../libs/database/base.entity";
+import { BatchStatus } from "../../../domain/types/Enums";
+import { BatchTransferEntity } from "./batch-transfer.entity";
+import { FeedingRecordEntity } from "./feeding-record.entity";
+import { GrowthRecordEntity } from "./growth-record.entity";
+import { CountReconciliationEntity } from "./count-reconciliation.entity";
+import { HarvestEventEntity } from "./harvest-event.entity";
+import { MortalityEventEntity } from "./mortality-event.entity";
+import { TankEntity } from "./tank.entity";
+
+@Entity({
+  tableName: "fish_batches",
+})
+export class FishBatchEntity extends BaseEntity {
+  @PrimaryKey()
+  override id: string = v4();
+
+  @ManyToOne(() => TankEntity, { index: true })
+  tank!: Rel<TankEntity>;
+
+  @Property({ index: true })
+  fishTypeId!: string;
+
+  @Property()
+  stockedDate!: Date;
+
+  @Property()
+  initialCount!: number;
+
+  @Property({ type: "double" })
+  initialWeightGrams!: number;
+
+  // Set on batches whose fish were transferred in from other batches
+  @Property({ type: "json", nullable: true })
+  parentBatchIds!: string[] | null;
+
+  @Property()
+  fishCount!: number;
+
+  @Property({ type: "double" })
+  averageWeightGrams!: number;
+
+  @Property({ type: "double" })
+  survivalRate!: number;
+
+  @Enum({ items: () => BatchStatus })
+  status!: BatchStatus;
+
+  @OneToMany(() => GrowthRecordEntity, (record) => record.batch, {
+    orderBy: { recordedAt: QueryOrder.ASC },
+  })
+  growthRecords = new Collection<GrowthRecordEntity>(this);
+
+  @OneToMany(() => FeedingRecordEntity, (record) => record.batch, {
+    orderBy: { feedDate: QueryOrder.ASC },
+  })
+  feedingRecords = new Collection<FeedingRecordEntity>(this);
+
+  @OneToMany(() => HarvestEventEntity, (event) => event.batch, {
+    orderBy: { harvestedAt: QueryOrder.ASC },
+  })
+  harvestEvents = new Collection<HarvestEventEntity>(this);
+
+  @OneToMany(() => BatchTransferEntity, (transfer) => transfer.batch, {
+    orderBy: { transferredAt: QueryOrder.ASC },
+  })
+  transfers = new Collection<BatchTransferEntity>(this);
+
+  @OneToMany(() => MortalityEventEntity, (event) => event.batch, {
+    orderBy: { recordedAt: QueryOrder.ASC },
+  })
+  mortalityEvents = new Collection<MortalityEventEntity>(this);
+
+  @OneToMany(() => CountReconciliationEntity, (count) => count.batch, {
+    orderBy: { countedAt: QueryOrder.ASC },
+  })
+  countReconciliations = new Collection<CountReconciliationEntity>(this);
+}
@@ -0,0 +1,99 @@
+import {
+  Entity,
+  Enum,
+  ManyToOne,
+  PrimaryKey,
+  Property,
+  Rel,
+  Unique,
+} from "@mikro-orm/core";
+import { v4 } from "uuid";
+import { BaseEntity } from "../../../../../../libs/database/base.entity";
+import { FeedingRateInterpolation } from "../../../domain/types/Enums";
+import {
+  FeedingRateMatrix,
+  MealFrequencyRule,
+  SafetyFactorCurves,
+} from "../../../domain/types/FishTypeParameters";
+import { FishTypeEntity } from "./fish-type.entity";
+
+/**
+ * Rows are only ever inserted; a parameter change is a new version.
+ */
+@Entity({
+  tableName: "fish_type_parameter_versions",
+})
+@Unique({ properties: ["fishType", "version"] })
+export class FishTypeParameterVersionEntity extends BaseEntity {
+  @PrimaryKey()
+  override id: string = v4();
+
+  @ManyToOne(() => FishTypeEntity)
+  fishType!: Rel<FishTypeEntity>;
+
+  @Property()
+  version!: number;
+
+  @Property()
+  effectiveFrom!: Date;
+
+  @Property({ type: "double" })
+  doMin!: number;
+
+  @Property({ type: "double" })
+  doSafe!: number;
+
+  @Property({ type: "double" })
+  phMin!: number;
+
+  @Property({ type: "double" })
+  phMax!: number;
+
+  @Property({ type: "double" })
+  nh3Safe!: number;
+
+  @Property({ type: "double" })
+  nh3Critical!: number;
+
+  @Property({ type: "double" })
+  no2Max!: number;
+
+  @Property({ type: "double" })
+  tempMin!: number;
+
+  @Property({ type: "double" })
+  tempMax!: number;
+
+  @Property({ type: "double" })
+  tempOptimal!: number;
+
+  @Property({ type: "double" })
+  fcrMin!: number;
+
+  @Property({ type: "double" })
+  fcrMax!: number;
+
+  @Property({ type: "double" })
+  survivalRate!: number;
+
+  @Property({ type: "double", nullable: true })
+  maxStockingDensity!: number | null;
+
+  @Property({ type: "double", nullable: true })
+  oxygenConsumption!: number | null;
+
+  @Property({ type: "json" })
+  feedingRateMatrix!: FeedingRateMatrix;
+
+  @Enum({
+    items: () => FeedingRateInterpolation,
+    default: FeedingRateInterpolation.NEAREST,
+  })
+  feedingRateInterpolation!: FeedingRateInterpolation;
+
+  @Property({ type: "json" })
+  safetyFactorCurves!: SafetyFactorCurves;
+
+  @Property({ type: "json" })
+  mealFrequencyRules!: MealFrequencyRule[];
+}
@@ -0,0 +1,34 @@
+import {
+  Collection,
+  Entity,
+  OneToMany,
+  PrimaryKey,
+  Property,
+  QueryOrder,
+} from "@mikro-orm/core";
+import { v4 } from "uuid";
+import { BaseEntity } from "../../../../../../libs/database/base.entity";
+import { FishTypeParameterVersionEntity } from "./fish-type-parameter-version.entity";
+
+@Entity({
+  tableName: "fish_types",
+})
+export class FishTypeEntity extends BaseEntity {
+  @PrimaryKey()
+  override id: string = v4();
+
+  @Property({ unique: true })
+  name!: string;
+
+  @Property({ nullable: true })
+  scientificName!: string | null;
+
+  @OneToMany(
+    () => FishTypeParameterVersionEntity,
+    (version) => version.fishType,
+    {
+      orderBy: { effectiveFrom: QueryOrder.ASC },
+    },
+  )
+  parameterVersions = new Collection<FishTypeParameterVersionEntity>(this);
+}
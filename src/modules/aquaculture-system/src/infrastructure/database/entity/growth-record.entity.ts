@@ -0,0 +1,69 @@
+import { Entity, ManyToOne, PrimaryKey, Property, Rel } from "@mikro-orm/core";
+import { v4 } from "uuid";
+import { BaseEntity } from "../../../../../../libs/database/base.entity";
+import { FishBatchEntity } from "./fish-batch.entity";
+
+export interface SampledFishRecord {
+  weightGrams: number;
+  lengthCm: number;
+}
+
+@Entity({
+  tableName: "growth_records",
+})
+export class GrowthRecordEntity extends BaseEntity {
+  @PrimaryKey()
+  override id: string = v4();
+
+  @ManyToOne(() => FishBatchEntity, { index: true })
+  batch!: Rel<FishBatchEntity>;
+
+  @Property()
+  recordedAt!: Date;
+
+  @Property()
+  fishCount!: number;
+
+  @Property({ type: "double" })
+  averageWeightGrams!: number;
+
+  @Property({ type: "double" })
+  survivalRate!: number;
+
+  @Property({ type: "double" })
+  weightGainGrams!: number;
+
+  @Property()
+  daysInCulture!: number;
+
+  @Property()
+  intervalDays!: number;
+
+  @Property({ type: "double" })
+  intervalSgr!: number;
+
+  @Property({ type: "double" })
+  intervalAdg!: number;
+
+  @Property({ type: "double" })
+  cumulativeSgr!: number;
+
+  @Property({ type: "double" })
+  cumulativeAdg!: number;
+
+  // Set only for records taken from a weighed and measured sample
+  @Property({ type: "json", nullable: true })
+  sampledFish!: SampledFishRecord[] | null;
+
+  @Property({ type: "double", nullable: true })
+  weightStdDevGrams!: number | null;
+
+  @Property({ type: "double", nullable: true })
+  weightCv!: number | null;
+
+  @Property({ type: "double", nullable: true })
+  meanLengthCm!: number | null;
+
+  @Property({ type: "double", nullable: true })
+  meanConditionFactor!: number | null;
+}
@@ -0,0 +1,39 @@
+import { Entity, ManyToOne, PrimaryKey, Property, Rel } from "@mikro-orm/core";
+import { v4 } from "uuid";
+import { BaseEntity } from "../../../../../../libs/database/base.entity";
+import { FishBatchEntity } from "./fish-batch.entity";
+
+export interface HarvestedGradeRecord {
+  grade: string;
+  fishCount: number;
+  biomassGrams: number;
+}
+
+@Entity({
+  tableName: "harvest_events",
+})
+export class HarvestEventEntity extends BaseEntity {
+  @PrimaryKey()
+  override id: string = v4();
+
+  @ManyToOne(() => FishBatchEntity, { index: true })
+  batch!: Rel<FishBatchEntity>;
+
+  @Property()
+  harvestedAt!: Date;
+
+  @Property()
+  fishCount!: number;
+
+  @Property({ type: "double" })
+  biomassGrams!: number;
+
+  @Property({ type: "json" })
+  grades!: HarvestedGradeRecord[];
+
+  @Property({ type: "string", nullable: true })
+  buyer!: string | null;
+
+  @Property()
+  closedBatch!: boolean;
+}
@@ -0,0 +1,41 @@
+import {
+  Entity,
+  ManyToOne,
+  PrimaryKey,
+  Property,
+  Rel,
+  Unique,
+} from "@mikro-orm/core";
+import { v4 } from "uuid";
+import { BaseEntity } from "../../../../../../libs/database/base.entity";
+import { FishTypeEntity } from "./fish-type.entity";
+
+/**
+ * Rows are only ever inserted; a price change is a new row.
+ */
+@Entity({
+  tableName: "market_prices",
+})
+@Unique({ properties: ["fishType", "grade", "effectiveFrom"] })
+export class MarketPriceEntity extends BaseEntity {
+  @PrimaryKey()
+  override id: string = v4();
+
+  @ManyToOne(() => FishTypeEntity, { index: true })
+  fishType!: Rel<FishTypeEntity>;
+
+  @Property()
+  grade!: string;
+
+  @Property({ type: "double" })
+  minWeightGrams!: number;
+
+  @Property({ type: "double", nullable: true })
+  maxWeightGrams!: number | null;
+
+  @Property({ type: "double" })
+  pricePerKg!: number;
+
+  @Property()
+  effectiveFrom!: Date;
+}
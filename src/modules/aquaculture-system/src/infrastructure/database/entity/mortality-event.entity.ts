@@ -0,0 +1,42 @@
+import {
+  Entity,
+  Enum,
+  ManyToOne,
+  PrimaryKey,
+  Property,
+  Rel,
+} from "@mikro-orm/core";
+import { v4 } from "uuid";
+import { BaseEntity } from "../../../../../../libs/database/base.entity";
+import { MortalityCause } from "../../../domain/types/Enums";
+import { MortalityAttachment } from "../../../domain/types/MortalityTypes";
+import { FishBatchEntity } from "./fish-batch.entity";
+
+@Entity({
+  tableName: "mortality_events",
+})
+export class MortalityEventEntity extends BaseEntity {
+  @PrimaryKey()
+  override id: string = v4();
+
+  @ManyToOne(() => FishBatchEntity, { index: true })
+  batch!: Rel<FishBatchEntity>;
+
+  @Property({ index: true })
+  recordedAt!: Date;
+
+  @Property()
+  deadCount!: number;
+
+  @Property()
+  fishCountBefore!: number;
+
+  @Enum({ items: () => MortalityCause })
+  cause!: MortalityCause;
+
+  @Property({ type: "text", nullable: true })
+  notes!: string | null;
+
+  @Property({ type: "json" })
+  attachments!: MortalityAttachment[];
+}
@@ -0,0 +1,44 @@
+import {
+  Collection,
+  Entity,
+  Enum,
+  ManyToOne,
+  OneToMany,
+  PrimaryKey,
+  Property,
+  Rel,
+} from "@mikro-orm/core";
+import { v4 } from "uuid";
+import { BaseEntity } from "../../../../../../libs/database/base.entity";
+import { TankStatus } from "../../../domain/types/Enums";
+import { FarmEntity } from "./farm.entity";
+import { FishBatchEntity } from "./fish-batch.entity";
+
+@Entity({
+  tableName: "tanks",
+})
+export class TankEntity extends BaseEntity {
+  @PrimaryKey()
+  override id: string = v4();
+
+  @ManyToOne(() => FarmEntity, { index: true })
+  farm!: Rel<FarmEntity>;
+
+  @Property()
+  name!: string;
+
+  @Property({ type: "double" })
+  volumeCubicMeters!: number;
+
+  @Enum({ items: () => TankStatus })
+  status!: TankStatus;
+
+  @Property({ type: "double", nullable: true })
+  maxStockingDensity!: number | null;
+
+  @Property({ type: "double", nullable: true })
+  oxygenSupply!: number | null;
+
+  @OneToMany(() => FishBatchEntity, (batch) => batch.tank)
+  batches = new Collection<FishBatchEntity>(this);
+}
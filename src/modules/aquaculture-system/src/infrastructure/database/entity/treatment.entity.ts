@@ -0,0 +1,54 @@
+import {
+  Entity,
+  Enum,
+  ManyToOne,
+  PrimaryKey,
+  Property,
+  Rel,
+} from "@mikro-orm/core";
+import { v4 } from "uuid";
+import { BaseEntity } from "../../../../../../libs/database/base.entity";
+import { TreatmentType, WithdrawalUnit } from "../../../domain/types/Enums";
+import { DiagnosisEntity } from "./diagnosis.entity";
+import { FishBatchEntity } from "./fish-batch.entity";
+
+@Entity({
+  tableName: "treatments",
+})
+export class TreatmentEntity extends BaseEntity {
+  @PrimaryKey()
+  override id: string = v4();
+
+  @ManyToOne(() => FishBatchEntity, { index: true })
+  batch!: Rel<FishBatchEntity>;
+
+  @ManyToOne(() => DiagnosisEntity, { nullable: true })
+  diagnosis!: Rel<DiagnosisEntity> | null;
+
+  @Enum({ items: () => TreatmentType })
+  type!: TreatmentType;
+
+  @Property()
+  product!: string;
+
+  @Property({ type: "double" })
+  dose!: number;
+
+  @Property()
+  doseUnit!: string;
+
+  @Property()
+  startedAt!: Date;
+
+  @Property({ type: "double" })
+  durationDays!: number;
+
+  @Property({ type: "double" })
+  withdrawalPeriod!: number;
+
+  @Enum({ items: () => WithdrawalUnit })
+  withdrawalUnit!: WithdrawalUnit;
+
+  @Property({ type: "text", nullable: true })
+  notes!: string | null;
+}
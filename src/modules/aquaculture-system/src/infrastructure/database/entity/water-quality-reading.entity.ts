@@ -0,0 +1,41 @@
+import {
+  Entity,
+  Index,
+  ManyToOne,
+  PrimaryKey,
+  Property,
+  Rel,
+} from "@mikro-orm/core";
+import { v4 } from "uuid";
+import { BaseEntity } from "../../../../../../libs/database/base.entity";
+import { TankEntity } from "./tank.entity";
+
+@Entity({
+  tableName: "water_quality_readings",
+})
+@Index({ properties: ["tank", "measuredAt"] })
+export class WaterQualityReadingEntity extends BaseEntity {
+  @PrimaryKey()
+  override id: string = v4();
+
+  @ManyToOne(() => TankEntity)
+  tank!: Rel<TankEntity>;
+
+  @Property()
+  measuredAt!: Date;
+
+  @Property({ type: "double" })
+  temperature!: number;
+
+  @Property({ type: "double" })
+  dissolvedOxygen!: number;
+
+  @Property({ type: "double", fieldName: "ph" })
+  pH!: number;
+
+  @Property({ type: "double" })
+  totalAmmonia!: number;
+
+  @Property({ type: "double" })
+  nitrite!: number;
+}
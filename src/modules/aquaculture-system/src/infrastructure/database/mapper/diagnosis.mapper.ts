@@ -0,0 +1,32 @@
+import { Injectable } from "@nestjs/common";
+import { Mapper } from "../../../../../../libs/ddd/mapper.interface";
+import { Diagnosis } from "../../../domain/entities/Diagnosis";
+import { DiagnosisEntity } from "../entity/diagnosis.entity";
+
+/**
+ * The batch relation is attached by the repository.
+ */
+@Injectable()
+export class DiagnosisPersistenceMapper implements Mapper<
+  Diagnosis,
+  DiagnosisEntity
+> {
+  toDomain(record: DiagnosisEntity): Diagnosis {
+    return Diagnosis.reconstitute({
+      id: record.id,
+      batchId: record.batch.id,
+      condition: record.condition,
+      diagnosedAt: record.diagnosedAt,
+      notes: record.notes,
+    });
+  }
+
+  toPersistence(entity: Diagnosis): DiagnosisEntity {
+    return {
+      id: entity.getId().toString(),
+      condition: entity.getCondition(),
+      diagnosedAt: entity.getDiagnosedAt(),
+      notes: entity.getNotes(),
+    } as DiagnosisEntity;
+  }
+}
@@ -0,0 +1,32 @@
+import { Injectable } from "@nestjs/common";
+import { Mapper } from "../../../../../../libs/ddd/mapper.interface";
+import { Farm } from "../../../domain/aggregates/Farm";
+import { Tank } from "../../../domain/entities/Tank";
+import { FarmEntity } from "../entity/farm.entity";
+
+@Injectable()
+export class FarmPersistenceMapper implements Mapper<Farm, FarmEntity> {
+  /**
+   * Tanks are loaded and mapped by the tank repository and handed in here.
+   */
+  toDomain(record: FarmEntity, tanks: Tank[] = []): Farm {
+    return Farm.reconstitute({
+      id: record.id,
+      name: record.name,
+      location: record.location,
+      tanks,
+      createdAt: record.createdAt,
+      temperatureProfile: record.temperatureProfile,
+    });
+  }
+
+  toPersistence(entity: Farm): FarmEntity {
+    return {
+      id: entity.getId().toString(),
+      name: entity.getName(),
+      location: entity.getLocation(),
+      createdAt: entity.getCreatedAt(),
+      temperatureProfile: entity.getTemperatureProfile(),
+    } as FarmEntity;
+  }
+}
@@ -0,0 +1,34 @@
+import { Injectable } from "@nestjs/common";
+import { Mapper } from "../../../../../../libs/ddd/mapper.interface";
+import { FeedLot } from "../../../domain/entities/FeedLot";
+import { FeedLotEntity } from "../entity/feed-lot.entity";
+
+/**
+ * The feed product relation is attached by the repository.
+ */
+@Injectable()
+export class FeedLotPersistenceMapper implements Mapper<
+  FeedLot,
+  FeedLotEntity
+> {
+  toDomain(record: FeedLotEntity): FeedLot {
+    return FeedLot.reconstitute({
+      id: record.id,
+      feedProductId: record.feedProduct.id,
+      lotNumber: record.lotNumber,
+      supplier: record.supplier,
+      manufacturedAt: record.manufacturedAt,
+      expiresAt: record.expiresAt,
+    });
+  }
+
+  toPersistence(entity: FeedLot): FeedLotEntity {
+    return {
+      id: entity.getId().toString(),
+      lotNumber: entity.getLotNumber(),
+      supplier: entity.getSupplier(),
+      manufacturedAt: entity.getManufacturedAt(),
+      expiresAt: entity.getExpiresAt(),
+    } as FeedLotEntity;
+  }
+}
@@ -0,0 +1,32 @@
+import { Injectable } from "@nestjs/common";
+import { Mapper } from "../../../../../../libs/ddd/mapper.interface";
+import { FeedProduct } from "../../../domain/entities/FeedProduct";
+import { FeedProductEntity } from "../entity/feed-product.entity";
+
+@Injectable()
+export class FeedProductPersistenceMapper implements Mapper<
+  FeedProduct,
+  FeedProductEntity
+> {
+  toDomain(record: FeedProductEntity): FeedProduct {
+    return FeedProduct.reconstitute({
+      id: record.id,
+      name: record.name,
+      brand: record.brand,
+      pelletSizeMm: record.pelletSizeMm,
+      proteinPercent: record.proteinPercent,
+      pricePerKg: record.pricePerKg,
+    });
+  }
+
+  toPersistence(entity: FeedProduct): FeedProductEntity {
+    return {
+      id: entity.getId().toString(),
+      name: entity.getName(),
+      brand: entity.getBrand(),
+      pelletSizeMm: entity.getPelletSizeMm(),
+      proteinPercent: entity.getProteinPercent(),
+      pricePerKg: entity.getPricePerKg(),
+    } as FeedProductEntity;
+  }
+}
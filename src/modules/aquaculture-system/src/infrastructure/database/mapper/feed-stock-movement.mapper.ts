@@ -0,0 +1,42 @@
+import { Injectable } from "@nestjs/common";
+import { Mapper } from "../../../../../../libs/ddd/mapper.interface";
+import { signedQuantityGrams } from "../../../domain/services/FeedStock";
+import { FeedStockMovement } from "../../../domain/types/FeedInventoryTypes";
+import { Weight } from "../../../domain/value-objects/Weight";
+import { FeedStockMovementEntity } from "../entity/feed-stock-movement.entity";
+
+/**
+ * The farm, feed product and feed lot relations are attached by the repository.
+ */
+@Injectable()
+export class FeedStockMovementPersistenceMapper implements Mapper<
+  FeedStockMovement,
+  FeedStockMovementEntity
+> {
+  toDomain(record: FeedStockMovementEntity): FeedStockMovement {
+    return {
+      id: record.id,
+      farmId: record.farm.id,
+      feedProductId: record.feedProduct.id,
+      feedLotId: record.feedLot?.id ?? null,
+      type: record.type,
+      quantity: Weight.fromGrams(Math.abs(record.quantityGrams)),
+      occurredAt: record.occurredAt,
+      unitPricePerKg: record.unitPricePerKg,
+      batchId: record.batchId,
+      reference: record.reference,
+    };
+  }
+
+  toPersistence(entity: FeedStockMovement): FeedStockMovementEntity {
+    return {
+      id: entity.id,
+      type: entity.type,
+      quantityGrams: signedQuantityGrams(entity),
+      occurredAt: entity.occurredAt,
+      unitPricePerKg: entity.unitPricePerKg,
+      batchId: entity.batchId,
+      reference: entity.reference,
+    } as FeedStockMovementEntity;
+  }
+}
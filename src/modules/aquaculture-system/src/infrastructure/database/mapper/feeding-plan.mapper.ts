@@ -0,0 +1,96 @@
+import { Injectable } from "@nestjs/common";
+import { Mapper } from "../../../../../../libs/ddd/mapper.interface";
+import { FeedingPlan } from "../../../domain/entities/FeedingPlan";
+import { BatchFeedingPlan } from "../../../domain/types/FeedingTypes";
+import { WaterQuality } from "../../../domain/value-objects/WaterQuality";
+import { Weight } from "../../../domain/value-objects/Weight";
+import { FeedingPlanBatchEntity } from "../entity/feeding-plan-batch.entity";
+import { FeedingPlanEntity } from "../entity/feeding-plan.entity";
+
+/**
+ * Expects `batches` to be populated on the record. The tank and plan
+ * relations are attached by the repository.
+ */
+@Injectable()
+export class FeedingPlanPersistenceMapper implements Mapper<
+  FeedingPlan,
+  FeedingPlanEntity
+> {
+  toDomain(record: FeedingPlanEntity): FeedingPlan {
+    return FeedingPlan.reconstitute({
+      id: record.id,
+      tankId: record.tank.id,
+      planDate: record.planDate,
+      generatedAt: record.generatedAt,
+      waterQuality: WaterQuality.create({
+        temperature: record.waterTemperature,
+        dissolvedOxygen: record.waterDissolvedOxygen,
+        pH: record.waterPH,
+        totalAmmonia: record.waterTotalAmmonia,
+        nitrite: record.waterNitrite,
+        measuredAt: record.waterMeasuredAt,
+      }),
+      batches: record.batches
+        .getItems()
+        .map((batch) => this.toBatchFeedingPlan(batch)),
+    });
+  }
+
+  toPersistence(entity: FeedingPlan): FeedingPlanEntity {
+    const waterQuality = entity.getWaterQuality();
+    return {
+      id: entity.getId().toString(),
+      planDate: entity.getPlanDate(),
+      generatedAt: entity.getGeneratedAt(),
+      waterTemperature: waterQuality.temperature,
+      waterDissolvedOxygen: waterQuality.dissolvedOxygen,
+      waterPH: waterQuality.pH,
+      waterTotalAmmonia: waterQuality.totalAmmonia,
+      waterNitrite: waterQuality.nitrite,
+      waterMeasuredAt: waterQuality.measuredAt,
+    } as FeedingPlanEntity;
+  }
+
+  toBatchPersistence(batch: BatchFeedingPlan): FeedingPlanBatchEntity {
+    const requirement = batch.requirement;
+    return {
+      batchId: batch.batchId,
+      totalDailyFeedGrams: requirement.totalDailyFeed.toGrams(),
+      feedPerMealGrams: requirement.feedPerMeal.toGrams(),
+      mealsPerDay: requirement.mealsPerDay,
+      safetyStatus: requirement.safetyStatus,
+      factors: requirement.factors,
+      baseFeedingRate: requirement.baseFeedingRate ?? null,
+      finalFeedingRate: requirement.finalFeedingRate ?? null,
+      parameterVersion: requirement.parameterVersion ?? null,
+      interpolation: requirement.interpolation ?? null,
+      meals: batch.meals.map((meal) => ({
+        mealNumber: meal.mealNumber,
+        scheduledAt: meal.scheduledAt.toISOString(),
+        feedAmountGrams: meal.feedAmount.toGrams(),
+      })),
+    } as FeedingPlanBatchEntity;
+  }
+
+  private toBatchFeedingPlan(record: FeedingPlanBatchEntity): BatchFeedingPlan {
+    return {
+      batchId: record.batchId,
+      requirement: {
+        totalDailyFeed: Weight.fromGrams(record.totalDailyFeedGrams),
+        feedPerMeal: Weight.fromGrams(record.feedPerMealGrams),
+        mealsPerDay: record.mealsPerDay,
+        safetyStatus: record.safetyStatus,
+        factors: record.factors,
+        baseFeedingRate: record.baseFeedingRate ?? undefined,
+        finalFeedingRate: record.finalFeedingRate ?? undefined,
+        parameterVersion: record.parameterVersion ?? undefined,
+        interpolation: record.interpolation ?? undefined,
+      },
+      meals: record.meals.map((meal) => ({
+        mealNumber: meal.mealNumber,
+        scheduledAt: new Date(meal.scheduledAt),
+        feedAmount: Weight.fromGrams(meal.feedAmountGrams),
+      })),
+    };
+  }
+}
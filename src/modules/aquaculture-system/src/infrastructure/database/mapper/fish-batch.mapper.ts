@@ -0,0 +1,281 @@
+import { Injectable } from "@nestjs/common";
+import { Mapper } from "../../../../../../libs/ddd/mapper.interface";
+import { FishBatch } from "../../../domain/entities/FishBatch";
+import { FeedingRecord } from "../../../domain/types/FeedingTypes";
+import { GrowthRecord, GrowthSample } from "../../../domain/types/GrowthTypes";
+import { CountReconciliation } from "../../../domain/types/CountTypes";
+import { HarvestEvent } from "../../../domain/types/HarvestTypes";
+import { MortalityEvent } from "../../../domain/types/MortalityTypes";
+import { BatchTransfer } from "../../../domain/types/TransferTypes";
+import { BatchStatistics } from "../../../domain/value-objects/BatchStatistics";
+import { WaterQuality } from "../../../domain/value-objects/WaterQuality";
+import { Weight } from "../../../domain/value-objects/Weight";
+import { BatchTransferEntity } from "../entity/batch-transfer.entity";
+import { FeedingRecordEntity } from "../entity/feeding-record.entity";
+import { FishBatchEntity } from "../entity/fish-batch.entity";
+import { GrowthRecordEntity } from "../entity/growth-record.entity";
+import { CountReconciliationEntity } from "../entity/count-reconciliation.entity";
+import { HarvestEventEntity } from "../entity/harvest-event.entity";
+import { MortalityEventEntity } from "../entity/mortality-event.entity";
+
+/**
+ * Expects `growthRecords`, `feedingRecords`, `harvestEvents`, `transfers`,
+ * `mortalityEvents` and `countReconciliations` to be populated on the record.
+ * Relations are left out of the persistence shape; the repository attaches
+ * them as managed references.
+ */
+@Injectable()
+export class FishBatchPersistenceMapper implements Mapper<
+  FishBatch,
+  FishBatchEntity
+> {
+  toDomain(record: FishBatchEntity): FishBatch {
+    return FishBatch.reconstitute({
+      id: record.id,
+      tankId: record.tank.id,
+      fishTypeId: record.fishTypeId,
+      stockedDate: record.stockedDate,
+      initialCount: record.initialCount,
+      initialWeight: Weight.fromGrams(record.initialWeightGrams),
+      parentBatchIds: record.parentBatchIds ?? [],
+      currentStats: BatchStatistics.create(
+        record.fishCount,
+        Weight.fromGrams(record.averageWeightGrams),
+        record.survivalRate,
+      ),
+      growthHistory: record.growthRecords
+        .getItems()
+        .map((growthRecord) => this.toGrowthRecord(growthRecord)),
+      feedingHistory: record.feedingRecords
+        .getItems()
+        .map((feedingRecord) => this.toFeedingRecord(feedingRecord)),
+      harvestHistory: record.harvestEvents
+        .getItems()
+        .map((harvestEvent) => this.toHarvestEvent(harvestEvent)),
+      transferHistory: record.transfers
+        .getItems()
+        .map((transfer) => this.toTransfer(transfer)),
+      mortalityHistory: record.mortalityEvents
+        .getItems()
+        .map((mortalityEvent) => this.toMortalityEvent(mortalityEvent)),
+      countHistory: record.countReconciliations
+        .getItems()
+        .map((count) => this.toCountReconciliation(count)),
+      status: record.status,
+    });
+  }
+
+  toPersistence(entity: FishBatch): FishBatchEntity {
+    const stats = entity.getCurrentStats();
+    return {
+      id: entity.getId().toString(),
+      fishTypeId: entity.getFishTypeId(),
+      stockedDate: entity.getStockedDate(),
+      initialCount: entity.getInitialCount(),
+      initialWeightGrams: entity.getInitialWeight().toGrams(),
+      parentBatchIds:
+        entity.getParentBatchIds().length > 0
+          ? [...entity.getParentBatchIds()]
+          : null,
+      fishCount: stats.fishCount,
+      averageWeightGrams: stats.averageWeight.toGrams(),
+      survivalRate: stats.survivalRate,
+      status: entity.getStatus(),
+    } as FishBatchEntity;
+  }
+
+  toGrowthRecordPersistence(record: GrowthRecord): GrowthRecordEntity {
+    return {
+      recordedAt: record.recordedAt,
+      fishCount: record.statistics.fishCount,
+      averageWeightGrams: record.statistics.averageWeight.toGrams(),
+      survivalRate: record.statistics.survivalRate,
+      weightGainGrams: record.weightGain.toGrams(),
+      daysInCulture: record.daysInCulture,
+      intervalDays: record.intervalDays,
+      intervalSgr: record.intervalSgr,
+      intervalAdg: record.intervalAdg,
+      cumulativeSgr: record.cumulativeSgr,
+      cumulativeAdg: record.cumulativeAdg,
+      sampledFish:
+        record.sample?.fish.map((fish) => ({
+          weightGrams: fish.weight.toGrams(),
+          lengthCm: fish.lengthCm,
+        })) ?? null,
+      weightStdDevGrams: record.sample?.weightStdDevGrams ?? null,
+      weightCv: record.sample?.weightCv ?? null,
+      meanLengthCm: record.sample?.meanLengthCm ?? null,
+      meanConditionFactor: record.sample?.meanConditionFactor ?? null,
+    } as GrowthRecordEntity;
+  }
+
+  toFeedingRecordPersistence(record: FeedingRecord): FeedingRecordEntity {
+    return {
+      feedDate: record.feedDate,
+      feedAmountGrams: record.feedAmount.toGrams(),
+      mealsPerDay: record.mealsPerDay,
+      mealNumber: record.mealNumber,
+      feedProductId: record.feedProductId,
+      feedLotId: record.feedLotId,
+      proteinPercent: record.proteinPercent,
+      uneatenPercent: record.uneatenPercent,
+      waterTemperature: record.waterQuality.temperature,
+      waterDissolvedOxygen: record.waterQuality.dissolvedOxygen,
+      waterPH: record.waterQuality.pH,
+      waterTotalAmmonia: record.waterQuality.totalAmmonia,
+      waterNitrite: record.waterQuality.nitrite,
+      waterMeasuredAt: record.waterQuality.measuredAt,
+    } as FeedingRecordEntity;
+  }
+
+  toHarvestEventPersistence(event: HarvestEvent): HarvestEventEntity {
+    return {
+      harvestedAt: event.harvestedAt,
+      fishCount: event.fishCount,
+      biomassGrams: event.biomass.toGrams(),
+      grades: event.grades.map((grade) => ({
+        grade: grade.grade,
+        fishCount: grade.fishCount,
+        biomassGrams: grade.biomass.toGrams(),
+      })),
+      buyer: event.buyer,
+      closedBatch: event.closedBatch,
+    } as HarvestEventEntity;
+  }
+
+  toTransferPersistence(transfer: BatchTransfer): BatchTransferEntity {
+    return {
+      toBatchId: transfer.toBatchId,
+      transferredAt: transfer.transferredAt,
+      fishCount: transfer.fishCount,
+      biomassGrams: transfer.biomass.toGrams(),
+      averageWeightGrams: transfer.averageWeight.toGrams(),
+    } as BatchTransferEntity;
+  }
+
+  toMortalityEventPersistence(event: MortalityEvent): MortalityEventEntity {
+    return {
+      recordedAt: event.recordedAt,
+      deadCount: event.deadCount,
+      fishCountBefore: event.fishCountBefore,
+      cause: event.cause,
+      notes: event.notes,
+      attachments: event.attachments,
+    } as MortalityEventEntity;
+  }
+
+  toMortalityEvent(record: MortalityEventEntity): MortalityEvent {
+    return {
+      recordedAt: record.recordedAt,
+      deadCount: record.deadCount,
+      fishCountBefore: record.fishCountBefore,
+      cause: record.cause,
+      notes: record.notes,
+      attachments: record.attachments,
+    };
+  }
+
+  toCountReconciliationPersistence(
+    count: CountReconciliation,
+  ): CountReconciliationEntity {
+    return {
+      countedAt: count.countedAt,
+      bookCount: count.bookCount,
+      countedCount: count.countedCount,
+      notes: count.notes,
+    } as CountReconciliationEntity;
+  }
+
+  private toCountReconciliation(
+    record: CountReconciliationEntity,
+  ): CountReconciliation {
+    return {
+      countedAt: record.countedAt,
+      bookCount: record.bookCount,
+      countedCount: record.countedCount,
+      unexplainedLoss: record.bookCount - record.countedCount,
+      notes: record.notes,
+    };
+  }
+
+  private toGrowthRecord(record: GrowthRecordEntity): GrowthRecord {
+    return {
+      recordedAt: record.recordedAt,
+      statistics: BatchStatistics.create(
+        record.fishCount,
+        Weight.fromGrams(record.averageWeightGrams),
+        record.survivalRate,
+      ),
+      weightGain: Weight.fromGrams(record.weightGainGrams),
+      daysInCulture: record.daysInCulture,
+      intervalDays: record.intervalDays,
+      intervalSgr: record.intervalSgr,
+      intervalAdg: record.intervalAdg,
+      cumulativeSgr: record.cumulativeSgr,
+      cumulativeAdg: record.cumulativeAdg,
+      sample: this.toGrowthSample(record),
+    };
+  }
+
+  private toGrowthSample(record: GrowthRecordEntity): GrowthSample | null {
+    if (!record.sampledFish) return null;
+    return {
+      fish: record.sampledFish.map((fish) => ({
+        weight: Weight.fromGrams(fish.weightGrams),
+        lengthCm: fish.lengthCm,
+      })),
+      meanWeight: Weight.fromGrams(record.averageWeightGrams),
+      weightStdDevGrams: record.weightStdDevGrams ?? 0,
+      weightCv: record.weightCv ?? 0,
+      meanLengthCm: record.meanLengthCm ?? 0,
+      meanConditionFactor: record.meanConditionFactor ?? 0,
+    };
+  }
+
+  private toFeedingRecord(record: FeedingRecordEntity): FeedingRecord {
+    return {
+      feedAmount: Weight.fromGrams(record.feedAmountGrams),
+      mealsPerDay: record.mealsPerDay,
+      feedDate: record.feedDate,
+      waterQuality: WaterQuality.create({
+        temperature: record.waterTemperature,
+        dissolvedOxygen: record.waterDissolvedOxygen,
+        pH: record.waterPH,
+        totalAmmonia: record.waterTotalAmmonia,
+        nitrite: record.waterNitrite,
+        measuredAt: record.waterMeasuredAt,
+      }),
+      mealNumber: record.mealNumber,
+      feedProductId: record.feedProductId,
+      feedLotId: record.feedLotId,
+      proteinPercent: record.proteinPercent,
+      uneatenPercent: record.uneatenPercent,
+    };
+  }
+
+  private toHarvestEvent(record: HarvestEventEntity): HarvestEvent {
+    return {
+      harvestedAt: record.harvestedAt,
+      fishCount: record.fishCount,
+      biomass: Weight.fromGrams(record.biomassGrams),
+      averageWeight: Weight.fromGrams(record.biomassGrams / record.fishCount),
+      grades: record.grades.map((grade) => ({
+        grade: grade.grade,
+        fishCount: grade.fishCount,
+        biomass: Weight.fromGrams(grade.biomassGrams),
+      })),
+      buyer: record.buyer,
+      closedBatch: record.closedBatch,
+    };
+  }
+
+  private toTransfer(record: BatchTransferEntity): BatchTransfer {
+    return {
+      transferredAt: record.transferredAt,
+      toBatchId: record.toBatchId,
+      fishCount: record.fishCount,
+      biomass: Weight.fromGrams(record.biomassGrams),
+      averageWeight: Weight.fromGrams(record.averageWeightGrams),
+    };
+  }
+}
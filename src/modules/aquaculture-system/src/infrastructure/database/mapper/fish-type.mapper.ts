@@ -0,0 +1,94 @@
+import { Injectable } from "@nestjs/common";
+import { Mapper } from "../../../../../../libs/ddd/mapper.interface";
+import { FishType } from "../../../domain/entities/FishType";
+import { FishTypeParameterVersion } from "../../../domain/types/FishTypeParameters";
+import { FishTypeParameterVersionEntity } from "../entity/fish-type-parameter-version.entity";
+import { FishTypeEntity } from "../entity/fish-type.entity";
+
+/**
+ * Expects `parameterVersions` to be populated on the record. The version
+ * relation is attached by the repository.
+ */
+@Injectable()
+export class FishTypePersistenceMapper implements Mapper<
+  FishType,
+  FishTypeEntity
+> {
+  toDomain(record: FishTypeEntity): FishType {
+    return FishType.reconstitute({
+      id: record.id,
+      name: record.name,
+      scientificName: record.scientificName,
+      parameterVersions: record.parameterVersions
+        .getItems()
+        .map((version) => this.toParameterVersion(version)),
+    });
+  }
+
+  toPersistence(entity: FishType): FishTypeEntity {
+    return {
+      id: entity.getId().toString(),
+      name: entity.getName(),
+      scientificName: entity.getScientificName(),
+    } as FishTypeEntity;
+  }
+
+  toVersionPersistence(
+    version: FishTypeParameterVersion,
+  ): FishTypeParameterVersionEntity {
+    const params = version.parameters;
+    return {
+      version: version.version,
+      effectiveFrom: version.effectiveFrom,
+      doMin: params.doMin,
+      doSafe: params.doSafe,
+      phMin: params.phMin,
+      phMax: params.phMax,
+      nh3Safe: params.nh3Safe,
+      nh3Critical: params.nh3Critical,
+      no2Max: params.no2Max,
+      tempMin: params.tempMin,
+      tempMax: params.tempMax,
+      tempOptimal: params.tempOptimal,
+      fcrMin: params.fcrMin,
+      fcrMax: params.fcrMax,
+      survivalRate: params.survivalRate,
+      maxStockingDensity: params.maxStockingDensity,
+      oxygenConsumption: params.oxygenConsumption,
+      feedingRateMatrix: params.feedingRateMatrix,
+      feedingRateInterpolation: params.feedingRateInterpolation,
+      safetyFactorCurves: params.safetyFactorCurves,
+      mealFrequencyRules: params.mealFrequencyRules,
+    } as FishTypeParameterVersionEntity;
+  }
+
+  private toParameterVersion(
+    record: FishTypeParameterVersionEntity,
+  ): FishTypeParameterVersion {
+    return {
+      version: record.version,
+      effectiveFrom: record.effectiveFrom,
+      parameters: {
+        doMin: record.doMin,
+        doSafe: record.doSafe,
+        phMin: record.phMin,
+        phMax: record.phMax,
+        nh3Safe: record.nh3Safe,
+        nh3Critical: record.nh3Critical,
+        no2Max: record.no2Max,
+        tempMin: record.tempMin,
+        tempMax: record.tempMax,
+        tempOptimal: record.tempOptimal,
+        fcrMin: record.fcrMin,
+        fcrMax: record.fcrMax,
+        survivalRate: record.survivalRate,
+        maxStockingDensity: record.maxStockingDensity,
+        oxygenConsumption: record.oxygenConsumption,
+        feedingRateMatrix: record.feedingRateMatrix,
+        feedingRateInterpolation: record.feedingRateInterpolation,
+        safetyFactorCurves: record.safetyFactorCurves,
+        mealFrequencyRules: record.mealFrequencyRules,
+      },
+    };
+  }
+}
@@ -0,0 +1,36 @@
+import { Injectable } from "@nestjs/common";
+import { Mapper } from "../../../../../../libs/ddd/mapper.interface";
+import { MarketPrice } from "../../../domain/entities/MarketPrice";
+import { MarketPriceEntity } from "../entity/market-price.entity";
+
+/**
+ * The fish type relation is attached by the repository.
+ */
+@Injectable()
+export class MarketPricePersistenceMapper implements Mapper<
+  MarketPrice,
+  MarketPriceEntity
+> {
+  toDomain(record: MarketPriceEntity): MarketPrice {
+    return MarketPrice.reconstitute({
+      id: record.id,
+      fishTypeId: record.fishType.id,
+      grade: record.grade,
+      minWeightGrams: record.minWeightGrams,
+      maxWeightGrams: record.maxWeightGrams,
+      pricePerKg: record.pricePerKg,
+      effectiveFrom: record.effectiveFrom,
+    });
+  }
+
+  toPersistence(entity: MarketPrice): MarketPriceEntity {
+    return {
+      id: entity.getId().toString(),
+      grade: entity.getGrade(),
+      minWeightGrams: entity.getMinWeightGrams(),
+      maxWeightGrams: entity.getMaxWeightGrams(),
+      pricePerKg: entity.getPricePerKg(),
+      effectiveFrom: entity.getEffectiveFrom(),
+    } as MarketPriceEntity;
+  }
+}
@@ -0,0 +1,74 @@
+import { Injectable } from "@nestjs/common";
+import { Mapper } from "../../../../../../libs/ddd/mapper.interface";
+import { Tank } from "../../../domain/entities/Tank";
+import { BatchStatus } from "../../../domain/types/Enums";
+import { Volume } from "../../../domain/value-objects/Volume";
+import { WaterQuality } from "../../../domain/value-objects/WaterQuality";
+import { TankEntity } from "../entity/tank.entity";
+import { WaterQualityReadingEntity } from "../entity/water-quality-reading.entity";
+import { FishBatchPersistenceMapper } from "./fish-batch.mapper";
+
+/**
+ * Expects the active `batches` (with their histories) to be populated on the
+ * record; the tank's current water quality is its latest reading. As with
+ * batches, relations are attached by the repository.
+ */
+@Injectable()
+export class TankPersistenceMapper implements Mapper<Tank, TankEntity> {
+  constructor(private readonly batchMapper: FishBatchPersistenceMapper) {}
+
+  toDomain(
+    record: TankEntity,
+    latestReading: WaterQualityReadingEntity | null = null,
+  ): Tank {
+    return Tank.reconstitute({
+      id: record.id,
+      farmId: record.farm.id,
+      name: record.name,
+      volume: Volume.fromCubicMeters(record.volumeCubicMeters),
+      status: record.status,
+      batches: record.batches
+        .getItems()
+        .filter((batch) => batch.status === BatchStatus.ACTIVE)
+        .map((batch) => this.batchMapper.toDomain(batch)),
+      waterQuality: latestReading ? this.toWaterQuality(latestReading) : null,
+      capacityLimits: {
+        maxStockingDensity: record.maxStockingDensity,
+        oxygenSupply: record.oxygenSupply,
+      },
+    });
+  }
+
+  toPersistence(entity: Tank): TankEntity {
+    return {
+      id: entity.getId().toString(),
+      name: entity.getName(),
+      volumeCubicMeters: entity.getVolume().toCubicMeters(),
+      status: entity.getStatus(),
+      maxStockingDensity: entity.getCapacityLimits().maxStockingDensity,
+      oxygenSupply: entity.getCapacityLimits().oxygenSupply,
+    } as TankEntity;
+  }
+
+  toReadingPersistence(waterQuality: WaterQuality): WaterQualityReadingEntity {
+    return {
+      measuredAt: waterQuality.measuredAt,
+      temperature: waterQuality.temperature,
+      dissolvedOxygen: waterQuality.dissolvedOxygen,
+      pH: waterQuality.pH,
+      totalAmmonia: waterQuality.totalAmmonia,
+      nitrite: waterQuality.nitrite,
+    } as WaterQualityReadingEntity;
+  }
+
+  toWaterQuality(record: WaterQualityReadingEntity): WaterQuality {
+    return WaterQuality.create({
+      temperature: record.temperature,
+      dissolvedOxygen: record.dissolvedOxygen,
+      pH: record.pH,
+      totalAmmonia: record.totalAmmonia,
+      nitrite: record.nitrite,
+      measuredAt: record.measuredAt,
+    });
+  }
+}
@@ -0,0 +1,45 @@
+import { Injectable } from "@nestjs/common";
+import { Mapper } from "../../../../../../libs/ddd/mapper.interface";
+import { Treatment } from "../../../domain/entities/Treatment";
+import { TreatmentEntity } from "../entity/treatment.entity";
+
+/**
+ * The batch and diagnosis relations are attached by the repository.
+ */
+@Injectable()
+export class TreatmentPersistenceMapper implements Mapper<
+  Treatment,
+  TreatmentEntity
+> {
+  toDomain(record: TreatmentEntity): Treatment {
+    return Treatment.reconstitute({
+      id: record.id,
+      batchId: record.batch.id,
+      diagnosisId: record.diagnosis?.id ?? null,
+      type: record.type,
+      product: record.product,
+      dose: record.dose,
+      doseUnit: record.doseUnit,
+      startedAt: record.startedAt,
+      durationDays: record.durationDays,
+      withdrawalPeriod: record.withdrawalPeriod,
+      withdrawalUnit: record.withdrawalUnit,
+      notes: record.notes,
+    });
+  }
+
+  toPersistence(entity: Treatment): TreatmentEntity {
+    return {
+      id: entity.getId().toString(),
+      type: entity.getType(),
+      product: entity.getProduct(),
+      dose: entity.getDose(),
+      doseUnit: entity.getDoseUnit(),
+      startedAt: entity.getStartedAt(),
+      durationDays: entity.getDurationDays(),
+      withdrawalPeriod: entity.getWithdrawalPeriod(),
+      withdrawalUnit: entity.getWithdrawalUnit(),
+      notes: entity.getNotes(),
+    } as TreatmentEntity;
+  }
+}
@@ -0,0 +1,195 @@
+import { EntityRepository } from "@mikro-orm/postgresql";
+import { InjectRepository } from "@mikro-orm/nestjs";
+import { Injectable } from "@nestjs/common";
+import { fromNullable, map, Option } from "effect/Option";
+import { FishBatch } from "../../domain/entities/FishBatch";
+import { IBatchRepository } from "../../domain/repositories/IBatchRepository";
+import { BatchMortalityEvent } from "../../domain/types/MortalityTypes";
+import { BatchTransferEntity } from "../database/entity/batch-transfer.entity";
+import { FeedingRecordEntity } from "../database/entity/feeding-record.entity";
+import { FishBatchEntity } from "../database/entity/fish-batch.entity";
+import { GrowthRecordEntity } from "../database/entity/growth-record.entity";
+import { CountReconciliationEntity } from "../database/entity/count-reconciliation.entity";
+import { HarvestEventEntity } from "../database/entity/harvest-event.entity";
+import { MortalityEventEntity } from "../database/entity/mortality-event.entity";
+import { TankEntity } from "../database/entity/tank.entity";
+import { FishBatchPersistenceMapper } from "../database/mapper/fish-batch.mapper";
+
+const BATCH_POPULATE = [
+  "growthRecords",
+  "feedingRecords",
+  "harvestEvents",
+  "transfers",
+  "mortalityEvents",
+  "countReconciliations",
+] as const;
+
+@Injectable()
+export class BatchRepository implements IBatchRepository {
+  constructor(
+    @InjectRepository(FishBatchEntity)
+    private readonly mikroOrmRepository: EntityRepository<FishBatchEntity>,
+    @InjectRepository(BatchTransferEntity)
+    private readonly transferRepository: EntityRepository<BatchTransferEntity>,
+    @InjectRepository(MortalityEventEntity)
+    private readonly mortalityRepository: EntityRepository<MortalityEventEntity>,
+    private readonly mapper: FishBatchPersistenceMapper,
+  ) {}
+
+  async findById(id: string): Promise<Option<FishBatch>> {
+    const entity = await this.mikroOrmRepository.findOne(
+      { id },
+      { populate: BATCH_POPULATE },
+    );
+    return map(fromNullable(entity), (record) => this.mapper.toDomain(record));
+  }
+
+  async findByTankId(tankId: string): Promise<FishBatch[]> {
+    const entities = await this.mikroOrmRepository.find(
+      { tank: tankId },
+      {
+        populate: BATCH_POPULATE,
+        orderBy: { stockedDate: "asc" },
+      },
+    );
+    return entities.map((record) => this.mapper.toDomain(record));
+  }
+
+  async findLineage(batchId: string): Promise<FishBatch[]> {
+    // Follow transfers both ways until no new batch turns up
+    const ids = new Set([batchId]);
+    let frontier = [batchId];
+    while (frontier.length > 0) {
+      const transfers = await this.transferRepository.find({
+        $or: [{ batch: { $in: frontier } }, { toBatchId: { $in: frontier } }],
+      });
+      frontier = [];
+      for (const transfer of transfers) {
+        for (const id of [transfer.batch.id, transfer.toBatchId]) {
+          if (!ids.has(id)) {
+            ids.add(id);
+            frontier.push(id);
+          }
+        }
+      }
+    }
+
+    const entities = await this.mikroOrmRepository.find(
+      { id: { $in: [...ids] } },
+      { populate: BATCH_POPULATE, orderBy: { stockedDate: "asc" } },
+    );
+    return entities.map((record) => this.mapper.toDomain(record));
+  }
+
+  async findMortalityByFarm(
+    farmId: string,
+    from: Date,
+    to: Date,
+  ): Promise<BatchMortalityEvent[]> {
+    const records = await this.mortalityRepository.find(
+      {
+        batch: { tank: { farm: farmId } },
+        recordedAt: { $gte: from, $lte: to },
+      },
+      { populate: ["batch"], orderBy: { recordedAt: "asc" } },
+    );
+    return records.map((record) => ({
+      batchId: record.batch.id,
+      tankId: record.batch.tank.id,
+      event: this.mapper.toMortalityEvent(record),
+    }));
+  }
+
+  async existsByFishTypeId(fishTypeId: string): Promise<boolean> {
+    return (await this.mikroOrmRepository.count({ fishTypeId })) > 0;
+  }
+
+  async save(batch: FishBatch): Promise<FishBatch> {
+    const em = this.mikroOrmRepository.getEntityManager();
+    const data = this.mapper.toPersistence(batch);
+
+    const existing = await this.mikroOrmRepository.findOne(
+      { id: data.id },
+      { populate: BATCH_POPULATE },
+    );
+    const entity = existing
+      ? this.mikroOrmRepository.assign(existing, data)
+      : this.mikroOrmRepository.create({
+          ...data,
+          tank: em.getReference(TankEntity, batch.getTankId()),
+        });
+
+    // Growth records are kept in sample-date order, and a backfilled sample
+    // shifts the ones after it, so stored rows are rewritten by position
+    const storedGrowth = entity.growthRecords.getItems();
+    batch.getGrowthHistory().forEach((record, index) => {
+      const data = this.mapper.toGrowthRecordPersistence(record);
+      if (index < storedGrowth.length) {
+        em.assign(storedGrowth[index], data);
+      } else {
+        entity.growthRecords.add(
+          em.create(GrowthRecordEntity, { ...data, batch: entity }),
+        );
+      }
+    });
+    // Feeding history is append-only, so anything past the stored rows is new
+    for (const record of batch
+      .getFeedingHistory()
+      .slice(entity.feedingRecords.length)) {
+      entity.feedingRecords.add(
+        em.create(FeedingRecordEntity, {
+          ...this.mapper.toFeedingRecordPersistence(record),
+          batch: entity,
+        }),
+      );
+    }
+
+    // So are harvest, transfer, mortality and count history
+    for (const event of batch
+      .getHarvestHistory()
+      .slice(entity.harvestEvents.length)) {
+      entity.harvestEvents.add(
+        em.create(HarvestEventEntity, {
+          ...this.mapper.toHarvestEventPersistence(event),
+          batch: entity,
+        }),
+      );
+    }
+
+    for (const transfer of batch
+      .getTransferHistory()
+      .slice(entity.transfers.length)) {
+      entity.transfers.add(
+        em.create(BatchTransferEntity, {
+          ...this.mapper.toTransferPersistence(transfer),
+          batch: entity,
+        }),
+      );
+    }
+
+    for (const event of batch
+      .getMortalityHistory()
+      .slice(entity.mortalityEvents.length)) {
+      entity.mortalityEvents.add(
+        em.create(MortalityEventEntity, {
+          ...this.mapper.toMortalityEventPersistence(event),
+          batch: entity,
+        }),
+      );
+    }
+
+    for (const count of batch
+      .getCountHistory()
+      .slice(entity.countReconciliations.length)) {
+      entity.countReconciliations.add(
+        em.create(CountReconciliationEntity, {
+          ...this.mapper.toCountReconciliationPersistence(count),
+          batch: entity,
+        }),
+      );
+    }
+
+    await em.flush();
+    return batch;
+  }
+}
@@ -0,0 +1,44 @@
+import { EntityRepository } from "@mikro-orm/postgresql";
+import { InjectRepository } from "@mikro-orm/nestjs";
+import { Injectable } from "@nestjs/common";
+import { fromNullable, map, Option } from "effect/Option";
+import { Diagnosis } from "../../domain/entities/Diagnosis";
+import { IDiagnosisRepository } from "../../domain/repositories/IDiagnosisRepository";
+import { DiagnosisEntity } from "../database/entity/diagnosis.entity";
+import { FishBatchEntity } from "../database/entity/fish-batch.entity";
+import { DiagnosisPersistenceMapper } from "../database/mapper/diagnosis.mapper";
+
+@Injectable()
+export class DiagnosisRepository implements IDiagnosisRepository {
+  constructor(
+    @InjectRepository(DiagnosisEntity)
+    private readonly mikroOrmRepository: EntityRepository<DiagnosisEntity>,
+    private readonly mapper: DiagnosisPersistenceMapper,
+  ) {}
+
+  async findById(id: string): Promise<Option<Diagnosis>> {
+    return map(
+      fromNullable(await this.mikroOrmRepository.findOne({ id })),
+      (record) => this.mapper.toDomain(record),
+    );
+  }
+
+  async findByBatchId(batchId: string): Promise<Diagnosis[]> {
+    const entities = await this.mikroOrmRepository.find(
+      { batch: batchId },
+      { orderBy: { diagnosedAt: "asc" } },
+    );
+    return entities.map((record) => this.mapper.toDomain(record));
+  }
+
+  // Health records are only ever added, so saving only ever inserts
+  async save(diagnosis: Diagnosis): Promise<Diagnosis> {
+    const em = this.mikroOrmRepository.getEntityManager();
+    this.mikroOrmRepository.create({
+      ...this.mapper.toPersistence(diagnosis),
+      batch: em.getReference(FishBatchEntity, diagnosis.getBatchId()),
+    });
+    await em.flush();
+    return diagnosis;
+  }
+}
@@ -0,0 +1,57 @@
+import { EntityRepository } from "@mikro-orm/postgresql";
+import { InjectRepository } from "@mikro-orm/nestjs";
+import { Inject, Injectable } from "@nestjs/common";
+import { none, Option, some } from "effect/Option";
+import { TANK_REPOSITORY } from "../../../aquaculture.tokens";
+import { Farm } from "../../domain/aggregates/Farm";
+import { IFarmRepository } from "../../domain/repositories/IFarmRepository";
+import { ITankRepository } from "../../domain/repositories/ITankRepository";
+import { FarmEntity } from "../database/entity/farm.entity";
+import { FarmPersistenceMapper } from "../database/mapper/farm.mapper";
+
+@Injectable()
+export class FarmRepository implements IFarmRepository {
+  constructor(
+    @InjectRepository(FarmEntity)
+    private readonly mikroOrmRepository: EntityRepository<FarmEntity>,
+    @Inject(TANK_REPOSITORY)
+    private readonly tankRepository: ITankRepository,
+    private readonly mapper: FarmPersistenceMapper,
+  ) {}
+
+  async findById(id: string): Promise<Option<Farm>> {
+    const entity = await this.mikroOrmRepository.findOne({ id });
+    if (!entity) {
+      return none();
+    }
+    return some(await this.toDomain(entity));
+  }
+
+  async findAll(): Promise<Farm[]> {
+    const entities = await this.mikroOrmRepository.findAll({
+      orderBy: { createdAt: "asc" },
+    });
+    return Promise.all(entities.map((entity) => this.toDomain(entity)));
+  }
+
+  async save(farm: Farm): Promise<Farm> {
+    const data = this.mapper.toPersistence(farm);
+
+    const entity = await this.mikroOrmRepository.findOne({ id: data.id });
+    if (entity) {
+      this.mikroOrmRepository.assign(entity, data);
+    } else {
+      this.mikroOrmRepository.create(data);
+    }
+
+    await this.mikroOrmRepository.getEntityManager().flush();
+    return farm;
+  }
+
+  private async toDomain(entity: FarmEntity): Promise<Farm> {
+    return this.mapper.toDomain(
+      entity,
+      await this.tankRepository.findByFarmId(entity.id),
+    );
+  }
+}
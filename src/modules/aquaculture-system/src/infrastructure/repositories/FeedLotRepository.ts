@@ -0,0 +1,68 @@
+import { EntityRepository } from "@mikro-orm/postgresql";
+import { InjectRepository } from "@mikro-orm/nestjs";
+import { Injectable } from "@nestjs/common";
+import { fromNullable, map, Option } from "effect/Option";
+import { FeedLot } from "../../domain/entities/FeedLot";
+import { IFeedLotRepository } from "../../domain/repositories/IFeedLotRepository";
+import { FeedLotEntity } from "../database/entity/feed-lot.entity";
+import { FeedProductEntity } from "../database/entity/feed-product.entity";
+import { FeedLotPersistenceMapper } from "../database/mapper/feed-lot.mapper";
+
+@Injectable()
+export class FeedLotRepository implements IFeedLotRepository {
+  constructor(
+    @InjectRepository(FeedLotEntity)
+    private readonly mikroOrmRepository: EntityRepository<FeedLotEntity>,
+    private readonly mapper: FeedLotPersistenceMapper,
+  ) {}
+
+  async findById(id: string): Promise<Option<FeedLot>> {
+    return map(
+      fromNullable(await this.mikroOrmRepository.findOne({ id })),
+      (record) => this.mapper.toDomain(record),
+    );
+  }
+
+  async findByIds(ids: string[]): Promise<FeedLot[]> {
+    if (ids.length === 0) return [];
+    const entities = await this.mikroOrmRepository.find({ id: { $in: ids } });
+    return entities.map((record) => this.mapper.toDomain(record));
+  }
+
+  async findByLotNumber(
+    feedProductId: string,
+    lotNumber: string,
+  ): Promise<Option<FeedLot>> {
+    return map(
+      fromNullable(
+        await this.mikroOrmRepository.findOne({
+          feedProduct: feedProductId,
+          lotNumber,
+        }),
+      ),
+      (record) => this.mapper.toDomain(record),
+    );
+  }
+
+  async findAll(feedProductId?: string): Promise<FeedLot[]> {
+    const entities = await this.mikroOrmRepository.find(
+      feedProductId ? { feedProduct: feedProductId } : {},
+      { orderBy: { expiresAt: "asc" } },
+    );
+    return entities.map((record) => this.mapper.toDomain(record));
+  }
+
+  // Lots are immutable once registered, so saving only ever inserts
+  async save(feedLot: FeedLot): Promise<FeedLot> {
+    const em = this.mikroOrmRepository.getEntityManager();
+    this.mikroOrmRepository.create({
+      ...this.mapper.toPersistence(feedLot),
+      feedProduct: em.getReference(
+        FeedProductEntity,
+        feedLot.getFeedProductId(),
+      ),
+    });
+    await em.flush();
+    return feedLot;
+  }
+}
@@ -0,0 +1,53 @@
+import { EntityRepository } from "@mikro-orm/postgresql";
+import { InjectRepository } from "@mikro-orm/nestjs";
+import { Injectable } from "@nestjs/common";
+import { fromNullable, map, Option } from "effect/Option";
+import { FeedProduct } from "../../domain/entities/FeedProduct";
+import { IFeedProductRepository } from "../../domain/repositories/IFeedProductRepository";
+import { FeedProductEntity } from "../database/entity/feed-product.entity";
+import { FeedProductPersistenceMapper } from "../database/mapper/feed-product.mapper";
+
+@Injectable()
+export class FeedProductRepository implements IFeedProductRepository {
+  constructor(
+    @InjectRepository(FeedProductEntity)
+    private readonly mikroOrmRepository: EntityRepository<FeedProductEntity>,
+    private readonly mapper: FeedProductPersistenceMapper,
+  ) {}
+
+  async findById(id: string): Promise<Option<FeedProduct>> {
+    return map(
+      fromNullable(await this.mikroOrmRepository.findOne({ id })),
+      (record) => this.mapper.toDomain(record),
+    );
+  }
+
+  async findByBrandAndName(
+    brand: string,
+    name: string,
+  ): Promise<Option<FeedProduct>> {
+    return map(
+      fromNullable(await this.mikroOrmRepository.findOne({ brand, name })),
+      (record) => this.mapper.toDomain(record),
+    );
+  }
+
+  async findAll(): Promise<FeedProduct[]> {
+    const entities = await this.mikroOrmRepository.findAll({
+      orderBy: { brand: "asc", name: "asc" },
+    });
+    return entities.map((record) => this.mapper.toDomain(record));
+  }
+
+  async save(feedProduct: FeedProduct): Promise<FeedProduct> {
+    const data = this.mapper.toPersistence(feedProduct);
+    const existing = await this.mikroOrmRepository.findOne({ id: data.id });
+    if (existing) {
+      this.mikroOrmRepository.assign(existing, data);
+    } else {
+      this.mikroOrmRepository.create(data);
+    }
+    await this.mikroOrmRepository.getEntityManager().flush();
+    return feedProduct;
+  }
+}
@@ -0,0 +1,101 @@
+import { EntityRepository, QBFilterQuery, raw } from "@mikro-orm/postgresql";
+import { InjectRepository } from "@mikro-orm/nestjs";
+import { Injectable } from "@nestjs/common";
+import { IFeedStockRepository } from "../../domain/repositories/IFeedStockRepository";
+import { FeedStockMovementType } from "../../domain/types/Enums";
+import { FeedStockMovement } from "../../domain/types/FeedInventoryTypes";
+import { FarmEntity } from "../database/entity/farm.entity";
+import { FeedLotEntity } from "../database/entity/feed-lot.entity";
+import { FeedProductEntity } from "../database/entity/feed-product.entity";
+import { FeedStockMovementEntity } from "../database/entity/feed-stock-movement.entity";
+import { FeedStockMovementPersistenceMapper } from "../database/mapper/feed-stock-movement.mapper";
+
+@Injectable()
+export class FeedStockRepository implements IFeedStockRepository {
+  constructor(
+    @InjectRepository(FeedStockMovementEntity)
+    private readonly mikroOrmRepository: EntityRepository<FeedStockMovementEntity>,
+    private readonly mapper: FeedStockMovementPersistenceMapper,
+  ) {}
+
+  async getBalances(
+    farmId: string,
+    before?: Date,
+  ): Promise<Map<string, number>> {
+    return this.sumByFeedProduct({
+      farm: farmId,
+      ...(before ? { occurredAt: { $lt: before } } : {}),
+    });
+  }
+
+  async getUsageSince(
+    farmId: string,
+    since: Date,
+  ): Promise<Map<string, number>> {
+    // Consumption rows are stored negative
+    const usage = await this.sumByFeedProduct({
+      farm: farmId,
+      type: FeedStockMovementType.CONSUMPTION,
+      occurredAt: { $gte: since },
+    });
+    return new Map(
+      [...usage].map(([feedProductId, grams]) => [feedProductId, -grams]),
+    );
+  }
+
+  async findMovements(
+    farmId: string,
+    feedProductId: string,
+    from?: Date,
+    to?: Date,
+  ): Promise<FeedStockMovement[]> {
+    const entities = await this.mikroOrmRepository.find(
+      {
+        farm: farmId,
+        feedProduct: feedProductId,
+        ...(from || to
+          ? {
+              occurredAt: {
+                ...(from ? { $gte: from } : {}),
+                ...(to ? { $lt: to } : {}),
+              },
+            }
+          : {}),
+      },
+      { orderBy: { occurredAt: "asc", createdAt: "asc" } },
+    );
+    return entities.map((record) => this.mapper.toDomain(record));
+  }
+
+  async save(movement: FeedStockMovement): Promise<FeedStockMovement> {
+    const em = this.mikroOrmRepository.getEntityManager();
+    this.mikroOrmRepository.create({
+      ...this.mapper.toPersistence(movement),
+      farm: em.getReference(FarmEntity, movement.farmId),
+      feedProduct: em.getReference(FeedProductEntity, movement.feedProductId),
+      feedLot: movement.feedLotId
+        ? em.getReference(FeedLotEntity, movement.feedLotId)
+        : null,
+    });
+    await em.flush();
+    return movement;
+  }
+
+  private async sumByFeedProduct(
+    where: QBFilterQuery<FeedStockMovementEntity>,
+  ): Promise<Map<string, number>> {
+    const rows = await this.mikroOrmRepository
+      .createQueryBuilder("movement")
+      .select([
+        "movement.feed_product_id",
+        raw("sum(movement.quantity_grams) as grams"),
+      ])
+      .where(where)
+      .groupBy("movement.feed_product_id")
+      .execute<{ feed_product_id: string; grams: string | number }[]>(
+        "all",
+        false,
+      );
+    return new Map(rows.map((row) => [row.feed_product_id, Number(row.grams)]));
+  }
+}
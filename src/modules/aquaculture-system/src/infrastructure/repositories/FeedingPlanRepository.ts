@@ -0,0 +1,87 @@
+import { EntityRepository } from "@mikro-orm/postgresql";
+import { InjectRepository } from "@mikro-orm/nestjs";
+import { Injectable } from "@nestjs/common";
+import { fromNullable, map, Option } from "effect/Option";
+import { FeedingPlan } from "../../domain/entities/FeedingPlan";
+import { IFeedingPlanRepository } from "../../domain/repositories/IFeedingPlanRepository";
+import { FeedingPlanBatchEntity } from "../database/entity/feeding-plan-batch.entity";
+import { FeedingPlanEntity } from "../database/entity/feeding-plan.entity";
+import { TankEntity } from "../database/entity/tank.entity";
+import { FeedingPlanPersistenceMapper } from "../database/mapper/feeding-plan.mapper";
+
+@Injectable()
+export class FeedingPlanRepository implements IFeedingPlanRepository {
+  constructor(
+    @InjectRepository(FeedingPlanEntity)
+    private readonly mikroOrmRepository: EntityRepository<FeedingPlanEntity>,
+    private readonly mapper: FeedingPlanPersistenceMapper,
+  ) {}
+
+  async findByTankAndDate(
+    tankId: string,
+    planDate: string,
+  ): Promise<Option<FeedingPlan>> {
+    return map(
+      fromNullable(
+        await this.mikroOrmRepository.findOne(
+          { tank: tankId, planDate },
+          { populate: ["batches"] },
+        ),
+      ),
+      (record) => this.mapper.toDomain(record),
+    );
+  }
+
+  async findByTanksAndDate(
+    tankIds: string[],
+    planDate: string,
+  ): Promise<FeedingPlan[]> {
+    const entities = await this.mikroOrmRepository.find(
+      { tank: { $in: tankIds }, planDate },
+      { populate: ["batches"] },
+    );
+    return entities.map((record) => this.mapper.toDomain(record));
+  }
+
+  async findByBatchBetween(
+    batchId: string,
+    from: string,
+    to: string,
+  ): Promise<FeedingPlan[]> {
+    const entities = await this.mikroOrmRepository.find(
+      { batches: { batchId }, planDate: { $gte: from, $lte: to } },
+      { populate: ["batches"], orderBy: { planDate: "asc" } },
+    );
+    return entities.map((record) => this.mapper.toDomain(record));
+  }
+
+  async save(plan: FeedingPlan): Promise<FeedingPlan> {
+    const em = this.mikroOrmRepository.getEntityManager();
+    const data = this.mapper.toPersistence(plan);
+
+    const existing = await this.mikroOrmRepository.findOne(
+      { tank: plan.getTankId(), planDate: plan.getPlanDate() },
+      { populate: ["batches"] },
+    );
+    const entity = existing
+      ? this.mikroOrmRepository.assign(existing, { ...data, id: existing.id })
+      : this.mikroOrmRepository.create({
+          ...data,
+          tank: em.getReference(TankEntity, plan.getTankId()),
+        });
+
+    // A regenerated plan replaces the day's batch lines wholesale
+    entity.batches.removeAll();
+    for (const batch of plan.getBatches()) {
+      entity.batches.add(
+        em.create(FeedingPlanBatchEntity, {
+          ...this.mapper.toBatchPersistence(batch),
+          plan: entity,
+        }),
+      );
+    }
+
+    await em.flush();
+    return this.mapper.toDomain(entity);
+  }
+}
@@ -0,0 +1,84 @@
+import { EntityRepository } from "@mikro-orm/postgresql";
+import { InjectRepository } from "@mikro-orm/nestjs";
+import { Injectable } from "@nestjs/common";
+import { fromNullable, map, Option } from "effect/Option";
+import { FishType } from "../../domain/entities/FishType";
+import { IFishTypeRepository } from "../../domain/repositories/IFishTypeRepository";
+import { FishTypeParameterVersionEntity } from "../database/entity/fish-type-parameter-version.entity";
+import { FishTypeEntity } from "../database/entity/fish-type.entity";
+import { FishTypePersistenceMapper } from "../database/mapper/fish-type.mapper";
+
+@Injectable()
+export class FishTypeRepository implements IFishTypeRepository {
+  constructor(
+    @InjectRepository(FishTypeEntity)
+    private readonly mikroOrmRepository: EntityRepository<FishTypeEntity>,
+    private readonly mapper: FishTypePersistenceMapper,
+  ) {}
+
+  async findById(id: string): Promise<Option<FishType>> {
+    return map(
+      fromNullable(
+        await this.mikroOrmRepository.findOne(
+          { id },
+          { populate: ["parameterVersions"] },
+        ),
+      ),
+      (record) => this.mapper.toDomain(record),
+    );
+  }
+
+  async findByName(name: string): Promise<Option<FishType>> {
+    return map(
+      fromNullable(
+        await this.mikroOrmRepository.findOne(
+          { name },
+          { populate: ["parameterVersions"] },
+        ),
+      ),
+      (record) => this.mapper.toDomain(record),
+    );
+  }
+
+  async findAll(): Promise<FishType[]> {
+    const entities = await this.mikroOrmRepository.findAll({
+      populate: ["parameterVersions"],
+      orderBy: { name: "asc" },
+    });
+    return entities.map((record) => this.mapper.toDomain(record));
+  }
+
+  async save(fishType: FishType): Promise<FishType> {
+    const em = this.mikroOrmRepository.getEntityManager();
+    const data = this.mapper.toPersistence(fishType);
+
+    const existing = await this.mikroOrmRepository.findOne(
+      { id: data.id },
+      { populate: ["parameterVersions"] },
+    );
+    const entity = existing
+      ? this.mikroOrmRepository.assign(existing, data)
+      : this.mikroOrmRepository.create(data);
+
+    // Versions are immutable, so only the ones not stored yet are inserted
+    for (const version of fishType
+      .getParameterVersions()
+      .slice(entity.parameterVersions.length)) {
+      entity.parameterVersions.add(
+        em.create(FishTypeParameterVersionEntity, {
+          ...this.mapper.toVersionPersistence(version),
+          fishType: entity,
+        }),
+      );
+    }
+
+    await em.flush();
+    return fishType;
+  }
+
+  async delete(id: string): Promise<void> {
+    const em = this.mikroOrmRepository.getEntityManager();
+    await em.nativeDelete(FishTypeParameterVersionEntity, { fishType: id });
+    await this.mikroOrmRepository.nativeDelete({ id });
+  }
+}
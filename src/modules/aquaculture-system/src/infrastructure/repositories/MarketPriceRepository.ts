@@ -0,0 +1,57 @@
+import { EntityRepository } from "@mikro-orm/postgresql";
+import { InjectRepository } from "@mikro-orm/nestjs";
+import { Injectable } from "@nestjs/common";
+import { fromNullable, map, Option } from "effect/Option";
+import { MarketPrice } from "../../domain/entities/MarketPrice";
+import { IMarketPriceRepository } from "../../domain/repositories/IMarketPriceRepository";
+import { FishTypeEntity } from "../database/entity/fish-type.entity";
+import { MarketPriceEntity } from "../database/entity/market-price.entity";
+import { MarketPricePersistenceMapper } from "../database/mapper/market-price.mapper";
+
+@Injectable()
+export class MarketPriceRepository implements IMarketPriceRepository {
+  constructor(
+    @InjectRepository(MarketPriceEntity)
+    private readonly mikroOrmRepository: EntityRepository<MarketPriceEntity>,
+    private readonly mapper: MarketPricePersistenceMapper,
+  ) {}
+
+  async findByFishType(
+    fishTypeId: string,
+    grade?: string,
+  ): Promise<MarketPrice[]> {
+    const entities = await this.mikroOrmRepository.find(
+      grade ? { fishType: fishTypeId, grade } : { fishType: fishTypeId },
+      { orderBy: { effectiveFrom: "asc", minWeightGrams: "asc" } },
+    );
+    return entities.map((record) => this.mapper.toDomain(record));
+  }
+
+  async findByGradeAndDate(
+    fishTypeId: string,
+    grade: string,
+    effectiveFrom: Date,
+  ): Promise<Option<MarketPrice>> {
+    return map(
+      fromNullable(
+        await this.mikroOrmRepository.findOne({
+          fishType: fishTypeId,
+          grade,
+          effectiveFrom,
+        }),
+      ),
+      (record) => this.mapper.toDomain(record),
+    );
+  }
+
+  // Price lines are immutable, so saving only ever inserts
+  async save(price: MarketPrice): Promise<MarketPrice> {
+    const em = this.mikroOrmRepository.getEntityManager();
+    this.mikroOrmRepository.create({
+      ...this.mapper.toPersistence(price),
+      fishType: em.getReference(FishTypeEntity, price.getFishTypeId()),
+    });
+    await em.flush();
+    return price;
+  }
+}
@@ -0,0 +1,118 @@
+import { EntityRepository } from "@mikro-orm/postgresql";
+import { InjectRepository } from "@mikro-orm/nestjs";
+import { Injectable } from "@nestjs/common";
+import { none, Option, some } from "effect/Option";
+import { Tank } from "../../domain/entities/Tank";
+import { ITankRepository } from "../../domain/repositories/ITankRepository";
+import { WaterQuality } from "../../domain/value-objects/WaterQuality";
+import { BatchStatus } from "../../domain/types/Enums";
+import { FarmEntity } from "../database/entity/farm.entity";
+import { TankEntity } from "../database/entity/tank.entity";
+import { WaterQualityReadingEntity } from "../database/entity/water-quality-reading.entity";
+import { TankPersistenceMapper } from "../database/mapper/tank.mapper";
+
+// Only batches still stocked in the tank are loaded into the aggregate
+const TANK_POPULATE = {
+  populate: [
+    "batches.growthRecords",
+    "batches.feedingRecords",
+    "batches.harvestEvents",
+    "batches.transfers",
+    "batches.mortalityEvents",
+    "batches.countReconciliations",
+  ] as const,
+  populateWhere: { batches: { status: BatchStatus.ACTIVE } },
+};
+
+@Injectable()
+export class TankRepository implements ITankRepository {
+  constructor(
+    @InjectRepository(TankEntity)
+    private readonly mikroOrmRepository: EntityRepository<TankEntity>,
+    @InjectRepository(WaterQualityReadingEntity)
+    private readonly readingRepository: EntityRepository<WaterQualityReadingEntity>,
+    private readonly mapper: TankPersistenceMapper,
+  ) {}
+
+  async findById(id: string): Promise<Option<Tank>> {
+    const entity = await this.mikroOrmRepository.findOne({ id }, TANK_POPULATE);
+    if (!entity) {
+      return none();
+    }
+    return some(await this.toDomain(entity));
+  }
+
+  async findByFarmId(farmId: string): Promise<Tank[]> {
+    const entities = await this.mikroOrmRepository.find(
+      { farm: farmId },
+      { ...TANK_POPULATE, orderBy: { createdAt: "asc" } },
+    );
+    return Promise.all(entities.map((entity) => this.toDomain(entity)));
+  }
+
+  async findWaterQualityHistory(
+    tankId: string,
+    from: Date,
+    to: Date,
+  ): Promise<WaterQuality[]> {
+    const before = await this.readingRepository.findOne(
+      { tank: tankId, measuredAt: { $lt: from } },
+      { orderBy: { measuredAt: "desc" } },
+    );
+    const readings = await this.readingRepository.find(
+      { tank: tankId, measuredAt: { $gte: from, $lte: to } },
+      { orderBy: { measuredAt: "asc" } },
+    );
+    return [...(before ? [before] : []), ...readings].map((reading) =>
+      this.mapper.toWaterQuality(reading),
+    );
+  }
+
+  async save(tank: Tank): Promise<Tank> {
+    const em = this.mikroOrmRepository.getEntityManager();
+    const data = this.mapper.toPersistence(tank);
+
+    const existing = await this.mikroOrmRepository.findOne({ id: data.id });
+    const entity = existing
+      ? this.mikroOrmRepository.assign(existing, data)
+      : this.mikroOrmRepository.create({
+          ...data,
+          farm: em.getReference(FarmEntity, tank.getFarmId()),
+        });
+
+    // Every new water quality measurement is kept as a reading
+    const waterQuality = tank.getWaterQuality();
+    if (waterQuality) {
+      const latest = await this.findLatestReading(data.id);
+      if (
+        !latest ||
+        latest.measuredAt.getTime() !== waterQuality.measuredAt.getTime() ||
+        !this.mapper.toWaterQuality(latest).equals(waterQuality)
+      ) {
+        this.readingRepository.create({
+          ...this.mapper.toReadingPersistence(waterQuality),
+          tank: entity,
+        });
+      }
+    }
+
+    await em.flush();
+    return tank;
+  }
+
+  private async toDomain(entity: TankEntity): Promise<Tank> {
+    return this.mapper.toDomain(
+      entity,
+      await this.findLatestReading(entity.id),
+    );
+  }
+
+  private async findLatestReading(
+    tankId: string,
+  ): Promise<WaterQualityReadingEntity | null> {
+    return this.readingRepository.findOne(
+      { tank: tankId },
+      { orderBy: { measuredAt: "desc" } },
+    );
+  }
+}
@@ -0,0 +1,41 @@
+import { EntityRepository } from "@mikro-orm/postgresql";
+import { InjectRepository } from "@mikro-orm/nestjs";
+import { Injectable } from "@nestjs/common";
+import { Treatment } from "../../domain/entities/Treatment";
+import { ITreatmentRepository } from "../../domain/repositories/ITreatmentRepository";
+import { DiagnosisEntity } from "../database/entity/diagnosis.entity";
+import { FishBatchEntity } from "../database/entity/fish-batch.entity";
+import { TreatmentEntity } from "../database/entity/treatment.entity";
+import { TreatmentPersistenceMapper } from "../database/mapper/treatment.mapper";
+
+@Injectable()
+export class TreatmentRepository implements ITreatmentRepository {
+  constructor(
+    @InjectRepository(TreatmentEntity)
+    private readonly mikroOrmRepository: EntityRepository<TreatmentEntity>,
+    private readonly mapper: TreatmentPersistenceMapper,
+  ) {}
+
+  async findByBatchIds(batchIds: string[]): Promise<Treatment[]> {
+    const entities = await this.mikroOrmRepository.find(
+      { batch: { $in: batchIds } },
+      { orderBy: { startedAt: "asc" } },
+    );
+    return entities.map((record) => this.mapper.toDomain(record));
+  }
+
+  // Health records are only ever added, so saving only ever inserts
+  async save(treatment: Treatment): Promise<Treatment> {
+    const em = this.mikroOrmRepository.getEntityManager();
+    const diagnosisId = treatment.getDiagnosisId();
+    this.mikroOrmRepository.create({
+      ...this.mapper.toPersistence(treatment),
+      batch: em.getReference(FishBatchEntity, treatment.getBatchId()),
+      diagnosis: diagnosisId
+        ? em.getReference(DiagnosisEntity, diagnosisId)
+        : null,
+    });
+    await em.flush();
+    return treatment;
+  }
+}
@@ -0,0 +1,4 @@
+export * from "./BatchRepository";
+export * from "./FarmRepository";
+export * from "./TankRepository";
+export * from "./FishTypeRepository";
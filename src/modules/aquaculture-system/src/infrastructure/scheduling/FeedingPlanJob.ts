@@ -0,0 +1,25 @@
+import { CreateRequestContext, MikroORM } from "@mikro-orm/core";
+import { Injectable } from "@nestjs/common";
+import { Cron } from "@nestjs/schedule";
+import { FeedingSchedulerService } from "../../application/services/FeedingSchedulerService";
+import { FEEDING_PLAN_CRON } from "../../shared/constants/feedingConstants";
+import { toIsoDate } from "../../shared/utils/dateHelpers";
+
+/**
+ * Rebuilds every tank's plan each morning so it reflects the latest water
+ * quality reading and overnight mortalities.
+ */
+@Injectable()
+export class FeedingPlanJob {
+  constructor(
+    // Used by @CreateRequestContext to fork a fresh entity manager per run
+    readonly orm: MikroORM,
+    private readonly feedingSchedulerService: FeedingSchedulerService,
+  ) {}
+
+  @Cron(FEEDING_PLAN_CRON, { name: "daily-feeding-plans" })
+  @CreateRequestContext()
+  async regenerateDailyPlans(): Promise<void> {
+    await this.feedingSchedulerService.generateAllPlans(toIsoDate(new Date()));
+  }
+}
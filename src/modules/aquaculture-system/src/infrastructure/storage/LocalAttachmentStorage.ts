@@ -0,0 +1,58 @@
+import { Injectable } from "@nestjs/common";
+import { mkdir, rm, writeFile } from "fs/promises";
+import { extname, join } from "path";
+import { v4 } from "uuid";
+import {
+  IAttachmentStorage,
+  StoredAttachment,
+} from "../../application/services/AttachmentStorage";
+
+// Served by the static file handler registered in main.ts
+const PUBLIC_ROOT = join(process.cwd(), "public");
+const UPLOADS_PATH = "uploads";
+
+const EXTENSIONS: Record<string, string> = {
+  "image/jpeg": ".jpg",
+  "image/png": ".png",
+  "image/webp": ".webp",
+};
+
+/**
+ * Writes attachments under public/uploads on the server's disk. Files get
+ * generated names, so uploads never overwrite each other or escape the
+ * folder whatever they were called.
+ */
+@Injectable()
+export class LocalAttachmentStorage implements IAttachmentStorage {
+  async store(params: {
+    folder: string;
+    fileName: string;
+    contentType: string;
+    data: Buffer;
+  }): Promise<StoredAttachment> {
+    const extension =
+      EXTENSIONS[params.contentType] ?? extname(params.fileName).toLowerCase();
+    const name = `${v4()}${/^\.[a-z0-9]+$/.test(extension) ? extension : ""}`;
+    const folder = params.folder
+      .split("/")
+      .filter((part) => /^[\w-]+$/.test(part));
+    const directory = join(PUBLIC_ROOT, UPLOADS_PATH, ...folder);
+
+    await mkdir(directory, { recursive: true });
+    await writeFile(join(directory, name), params.data);
+    return { url: `/${[UPLOADS_PATH, ...folder, name].join("/")}` };
+  }
+
+  async remove(url: string): Promise<void> {
+    // Only urls shaped like the ones store hands out, never a path outside
+    const [root, ...parts] = url.split("/").filter((part) => part !== "");
+    if (
+      root !== UPLOADS_PATH ||
+      parts.length === 0 ||
+      !parts.every((part) => /^[\w.-]+$/.test(part) && !/^\.+$/.test(part))
+    ) {
+      return;
+    }
+    await rm(join(PUBLIC_ROOT, UPLOADS_PATH, ...parts), { force: true });
+  }
+}
@@ -0,0 +1,474 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Query,
+} from "@nestjs/common";
+import { ApiRole } from "../../../../../libs/api/api-role.enum";
+import {
+  AuthRoles,
+  InjectAuthUser,
+} from "../../../../../libs/decorator/auth.decorator";
+import { AuthUser } from "../../../../auth/api/rest/presentation/dto/auth-user.dto";
+import {
+  BatchDto,
+  BatchLineageDto,
+  BatchPerformanceDto,
+  BatchTransferResultDto,
+  CountReconciliationDto,
+  RecordedCountDto,
+} from "../../application/dtos/BatchDto";
+import { FeedTraceDto } from "../../application/dtos/FeedInventoryDto";
+import {
+  FeedingDeviationDto,
+  FeedingRecordDto,
+} from "../../application/dtos/FeedingDto";
+import {
+  GrowthCurveFitDto,
+  GrowthRecordDto,
+} from "../../application/dtos/GrowthDto";
+import {
+  HarvestEconomicsDto,
+  HarvestEventDto,
+  HarvestForecastDto,
+  HarvestPredictionDto,
+  HarvestSimulationDto,
+  HarvestTimingDto,
+  RecordedHarvestDto,
+} from "../../application/dtos/HarvestDto";
+import {
+  MortalityEventDto,
+  RecordedMortalityDto,
+} from "../../application/dtos/MortalityDto";
+import { BatchMapper } from "../../application/mappers/BatchMapper";
+import { FeedLotMapper } from "../../application/mappers/FeedLotMapper";
+import { CreateFishBatchUseCase } from "../../application/use-cases/batch/CreateFishBatch";
+import { FitBatchGrowthCurveUseCase } from "../../application/use-cases/batch/FitBatchGrowthCurve";
+import { ForecastHarvestByDegreeDaysUseCase } from "../../application/use-cases/batch/ForecastHarvestByDegreeDays";
+import { GetBatchDetailsUseCase } from "../../application/use-cases/batch/GetBatchDetails";
+import { GetBatchFeedTraceUseCase } from "../../application/use-cases/batch/GetBatchFeedTrace";
+import { GetBatchFeedingDeviationUseCase } from "../../application/use-cases/batch/GetBatchFeedingDeviation";
+import { GetBatchLineageUseCase } from "../../application/use-cases/batch/GetBatchLineage";
+import { GetBatchPerformanceUseCase } from "../../application/use-cases/batch/GetBatchPerformance";
+import { GetHarvestEconomicsUseCase } from "../../application/use-cases/batch/GetHarvestEconomics";
+import { HarvestBatchUseCase } from "../../application/use-cases/batch/HarvestBatch";
+import { MergeBatchesUseCase } from "../../application/use-cases/batch/MergeBatches";
+import { OptimizeHarvestTimingUseCase } from "../../application/use-cases/batch/OptimizeHarvestTiming";
+import { PredictHarvestUseCase } from "../../application/use-cases/batch/PredictHarvest";
+import { RecordFeedingUseCase } from "../../application/use-cases/batch/RecordFeeding";
+import { RecordGrowthUseCase } from "../../application/use-cases/batch/RecordGrowth";
+import { RecordGrowthSampleUseCase } from "../../application/use-cases/batch/RecordGrowthSample";
+import { RecordHarvestUseCase } from "../../application/use-cases/batch/RecordHarvest";
+import { RecordMortalityUseCase } from "../../application/use-cases/batch/RecordMortality";
+import { ReconcileFishCountUseCase } from "../../application/use-cases/batch/ReconcileFishCount";
+import { SimulateHarvestUseCase } from "../../application/use-cases/batch/SimulateHarvest";
+import { TransferBatchUseCase } from "../../application/use-cases/batch/TransferBatch";
+import {
+  GrowthModelType,
+  HarvestProjectionMethod,
+} from "../../domain/types/Enums";
+import {
+  CreateFishBatchBody,
+  FeedingDeviationQuery,
+  GrowthCurveQuery,
+  HarvestEconomicsQuery,
+  HarvestForecastQuery,
+  HarvestPredictionQuery,
+  HarvestSimulationQuery,
+  MergeBatchesBody,
+  OptimizeHarvestTimingBody,
+  RecordFeedingBody,
+  RecordGrowthBody,
+  RecordGrowthSampleBody,
+  RecordHarvestBody,
+  RecordFishCountBody,
+  RecordMortalityBody,
+  TransferBatchBody,
+  WithdrawalOverrideBody,
+} from "../validators/batchValidators";
+
+@Controller("batches")
+export class BatchController {
+  constructor(
+    private readonly createFishBatchUseCase: CreateFishBatchUseCase,
+    private readonly getBatchDetailsUseCase: GetBatchDetailsUseCase,
+    private readonly getBatchPerformanceUseCase: GetBatchPerformanceUseCase,
+    private readonly recordGrowthUseCase: RecordGrowthUseCase,
+    private readonly recordGrowthSampleUseCase: RecordGrowthSampleUseCase,
+    private readonly recordMortalityUseCase: RecordMortalityUseCase,
+    private readonly reconcileFishCountUseCase: ReconcileFishCountUseCase,
+    private readonly recordFeedingUseCase: RecordFeedingUseCase,
+    private readonly getBatchFeedingDeviationUseCase: GetBatchFeedingDeviationUseCase,
+    private readonly getBatchFeedTraceUseCase: GetBatchFeedTraceUseCase,
+    private readonly fitBatchGrowthCurveUseCase: FitBatchGrowthCurveUseCase,
+    private readonly predictHarvestUseCase: PredictHarvestUseCase,
+    private readonly forecastHarvestByDegreeDaysUseCase: ForecastHarvestByDegreeDaysUseCase,
+    private readonly simulateHarvestUseCase: SimulateHarvestUseCase,
+    private readonly optimizeHarvestTimingUseCase: OptimizeHarvestTimingUseCase,
+    private readonly getHarvestEconomicsUseCase: GetHarvestEconomicsUseCase,
+    private readonly recordHarvestUseCase: RecordHarvestUseCase,
+    private readonly harvestBatchUseCase: HarvestBatchUseCase,
+    private readonly transferBatchUseCase: TransferBatchUseCase,
+    private readonly mergeBatchesUseCase: MergeBatchesUseCase,
+    private readonly getBatchLineageUseCase: GetBatchLineageUseCase,
+    private readonly batchMapper: BatchMapper,
+    private readonly feedLotMapper: FeedLotMapper,
+  ) {}
+
+  @AuthRoles(ApiRole.MANAGER, ApiRole.TECNICAN)
+  @Post()
+  async createBatch(@Body() body: CreateFishBatchBody): Promise<BatchDto> {
+    return this.batchMapper.toResponse(
+      await this.createFishBatchUseCase.execute(body),
+    );
+  }
+
+  // Every fish of the batches goes into one new batch in the tank
+  @AuthRoles(ApiRole.MANAGER, ApiRole.TECNICAN)
+  @Post("/merges")
+  async mergeBatches(
+    @Body() body: MergeBatchesBody,
+  ): Promise<BatchTransferResultDto> {
+    return this.batchMapper.toTransferResultResponse(
+      await this.mergeBatchesUseCase.execute(body),
+    );
+  }
+
+  @AuthRoles(
+    ApiRole.ADMIN,
+    ApiRole.MANAGER,
+    ApiRole.TECNICAN,
+    ApiRole.ACCOUNTANT,
+  )
+  @Get("/:id")
+  async getBatch(@Param("id") batchId: string): Promise<BatchDto> {
+    return this.batchMapper.toResponse(
+      await this.getBatchDetailsUseCase.execute({ batchId }),
+    );
+  }
+
+  @AuthRoles(
+    ApiRole.ADMIN,
+    ApiRole.MANAGER,
+    ApiRole.TECNICAN,
+    ApiRole.ACCOUNTANT,
+  )
+  @Get("/:id/performance")
+  async getBatchPerformance(
+    @Param("id") batchId: string,
+  ): Promise<BatchPerformanceDto> {
+    return this.batchMapper.toPerformanceResponse(
+      await this.getBatchPerformanceUseCase.execute({ batchId }),
+    );
+  }
+
+  @AuthRoles(ApiRole.MANAGER, ApiRole.TECNICAN)
+  @Post("/:id/growth")
+  async recordGrowth(
+    @Param("id") batchId: string,
+    @Body() body: RecordGrowthBody,
+  ): Promise<GrowthRecordDto> {
+    return this.batchMapper.toGrowthRecordResponse(
+      await this.recordGrowthUseCase.execute({ batchId, ...body }),
+    );
+  }
+
+  // Individually weighed and measured fish; the sample mean becomes the batch average
+  @AuthRoles(ApiRole.MANAGER, ApiRole.TECNICAN)
+  @Post("/:id/growth-samples")
+  async recordGrowthSample(
+    @Param("id") batchId: string,
+    @Body() body: RecordGrowthSampleBody,
+  ): Promise<GrowthRecordDto> {
+    return this.batchMapper.toGrowthRecordResponse(
+      await this.recordGrowthSampleUseCase.execute({ batchId, ...body }),
+    );
+  }
+
+  // Photos come base64 encoded and are served back from the returned URLs
+  @AuthRoles(ApiRole.MANAGER, ApiRole.TECNICAN)
+  @HttpCode(HttpStatus.OK)
+  @Post("/:id/mortality")
+  async recordMortality(
+    @Param("id") batchId: string,
+    @Body() body: RecordMortalityBody,
+  ): Promise<RecordedMortalityDto> {
+    return this.batchMapper.toRecordedMortalityResponse(
+      await this.recordMortalityUseCase.execute({ batchId, ...body }),
+    );
+  }
+
+  @AuthRoles(
+    ApiRole.ADMIN,
+    ApiRole.MANAGER,
+    ApiRole.TECNICAN,
+    ApiRole.ACCOUNTANT,
+  )
+  @Get("/:id/mortality")
+  async getMortality(
+    @Param("id") batchId: string,
+  ): Promise<MortalityEventDto[]> {
+    const batch = await this.getBatchDetailsUseCase.execute({ batchId });
+    return batch
+      .getMortalityHistory()
+      .map((event) => this.batchMapper.toMortalityEventResponse(event));
+  }
+
+  // A physical count; the shortfall against the book is an unexplained loss
+  @AuthRoles(ApiRole.MANAGER, ApiRole.TECNICAN)
+  @Post("/:id/counts")
+  async recordFishCount(
+    @Param("id") batchId: string,
+    @Body() body: RecordFishCountBody,
+  ): Promise<RecordedCountDto> {
+    return this.batchMapper.toRecordedCountResponse(
+      await this.reconcileFishCountUseCase.execute({ batchId, ...body }),
+    );
+  }
+
+  @AuthRoles(
+    ApiRole.ADMIN,
+    ApiRole.MANAGER,
+    ApiRole.TECNICAN,
+    ApiRole.ACCOUNTANT,
+  )
+  @Get("/:id/counts")
+  async getFishCounts(
+    @Param("id") batchId: string,
+  ): Promise<CountReconciliationDto[]> {
+    const batch = await this.getBatchDetailsUseCase.execute({ batchId });
+    return batch
+      .getCountHistory()
+      .map((count) => this.batchMapper.toCountReconciliationResponse(count));
+  }
+
+  @AuthRoles(ApiRole.MANAGER, ApiRole.TECNICAN)
+  @Post("/:id/feedings")
+  async recordFeeding(
+    @Param("id") batchId: string,
+    @Body() body: RecordFeedingBody,
+  ): Promise<FeedingRecordDto> {
+    return this.batchMapper.toFeedingRecordResponse(
+      await this.recordFeedingUseCase.execute({ batchId, ...body }),
+    );
+  }
+
+  @AuthRoles(
+    ApiRole.ADMIN,
+    ApiRole.MANAGER,
+    ApiRole.TECNICAN,
+    ApiRole.ACCOUNTANT,
+  )
+  @Get("/:id/feeding-deviation")
+  async getFeedingDeviation(
+    @Param("id") batchId: string,
+    @Query() query: FeedingDeviationQuery,
+  ): Promise<FeedingDeviationDto[]> {
+    const deviations = await this.getBatchFeedingDeviationUseCase.execute({
+      batchId,
+      ...query,
+    });
+    return deviations.map((deviation) =>
+      this.batchMapper.toFeedingDeviationResponse(deviation),
+    );
+  }
+
+  // Every feed lot the batch ate, for certification back to the supplier
+  @AuthRoles(
+    ApiRole.ADMIN,
+    ApiRole.MANAGER,
+    ApiRole.TECNICAN,
+    ApiRole.ACCOUNTANT,
+  )
+  @Get("/:id/feed-trace")
+  async getFeedTrace(@Param("id") batchId: string): Promise<FeedTraceDto> {
+    return this.feedLotMapper.toTraceResponse(
+      await this.getBatchFeedTraceUseCase.execute({ batchId }),
+    );
+  }
+
+  @AuthRoles(
+    ApiRole.ADMIN,
+    ApiRole.MANAGER,
+    ApiRole.TECNICAN,
+    ApiRole.ACCOUNTANT,
+  )
+  @Get("/:id/growth-curve")
+  async getGrowthCurve(
+    @Param("id") batchId: string,
+    @Query() query: GrowthCurveQuery,
+  ): Promise<GrowthCurveFitDto> {
+    return this.batchMapper.toGrowthCurveResponse(
+      await this.fitBatchGrowthCurveUseCase.execute({
+        batchId,
+        model: query.model ?? GrowthModelType.VON_BERTALANFFY,
+      }),
+    );
+  }
+
+  @AuthRoles(
+    ApiRole.ADMIN,
+    ApiRole.MANAGER,
+    ApiRole.TECNICAN,
+    ApiRole.ACCOUNTANT,
+  )
+  @Get("/:id/harvest-prediction")
+  async predictHarvest(
+    @Param("id") batchId: string,
+    @Query() query: HarvestPredictionQuery,
+  ): Promise<HarvestPredictionDto> {
+    return this.batchMapper.toHarvestPredictionResponse(
+      batchId,
+      await this.predictHarvestUseCase.execute({
+        batchId,
+        ...query,
+        method: query.method ?? HarvestProjectionMethod.CONSTANT_SGR,
+      }),
+    );
+  }
+
+  // Harvest date range from degree-days and the farm's seasonal temperatures
+  @AuthRoles(
+    ApiRole.ADMIN,
+    ApiRole.MANAGER,
+    ApiRole.TECNICAN,
+    ApiRole.ACCOUNTANT,
+  )
+  @Get("/:id/harvest-forecast")
+  async forecastHarvest(
+    @Param("id") batchId: string,
+    @Query() query: HarvestForecastQuery,
+  ): Promise<HarvestForecastDto> {
+    return this.batchMapper.toHarvestForecastResponse(
+      batchId,
+      await this.forecastHarvestByDegreeDaysUseCase.execute({
+        batchId,
+        ...query,
+      }),
+    );
+  }
+
+  // P10/P50/P90 bands; pass the returned seed to repeat a simulation
+  @AuthRoles(
+    ApiRole.ADMIN,
+    ApiRole.MANAGER,
+    ApiRole.TECNICAN,
+    ApiRole.ACCOUNTANT,
+  )
+  @Get("/:id/harvest-simulation")
+  async simulateHarvest(
+    @Param("id") batchId: string,
+    @Query() query: HarvestSimulationQuery,
+  ): Promise<HarvestSimulationDto> {
+    return this.batchMapper.toHarvestSimulationResponse(
+      batchId,
+      await this.simulateHarvestUseCase.execute({ batchId, ...query }),
+    );
+  }
+
+  // Priced from the fish type's price book unless a market price is given
+  @AuthRoles(ApiRole.ADMIN, ApiRole.MANAGER, ApiRole.ACCOUNTANT)
+  @Get("/:id/harvest-economics")
+  async getHarvestEconomics(
+    @Param("id") batchId: string,
+    @Query() query: HarvestEconomicsQuery,
+  ): Promise<HarvestEconomicsDto> {
+    return this.batchMapper.toHarvestEconomicsResponse(
+      batchId,
+      await this.getHarvestEconomicsUseCase.execute({ batchId, ...query }),
+    );
+  }
+
+  // Day-by-day profit curve and the day with the best margin per tank day
+  @AuthRoles(ApiRole.ADMIN, ApiRole.MANAGER, ApiRole.ACCOUNTANT)
+  @HttpCode(HttpStatus.OK)
+  @Post("/:id/harvest-timing")
+  async optimizeHarvestTiming(
+    @Param("id") batchId: string,
+    @Body() body: OptimizeHarvestTimingBody,
+  ): Promise<HarvestTimingDto> {
+    return this.batchMapper.toHarvestTimingResponse(
+      batchId,
+      await this.optimizeHarvestTimingUseCase.execute({ batchId, ...body }),
+    );
+  }
+
+  // Graded fish taken out of a batch that keeps growing; the last fish closes it
+  @AuthRoles(ApiRole.MANAGER, ApiRole.TECNICAN)
+  @Post("/:id/harvests")
+  async recordHarvest(
+    @Param("id") batchId: string,
+    @Body() body: RecordHarvestBody,
+    @InjectAuthUser() user: AuthUser,
+  ): Promise<RecordedHarvestDto> {
+    return this.batchMapper.toRecordedHarvestResponse(
+      await this.recordHarvestUseCase.execute({
+        batchId,
+        ...body,
+        requestedBy: { userId: user.id, role: user.role },
+      }),
+    );
+  }
+
+  @AuthRoles(
+    ApiRole.ADMIN,
+    ApiRole.MANAGER,
+    ApiRole.TECNICAN,
+    ApiRole.ACCOUNTANT,
+  )
+  @Get("/:id/harvests")
+  async getHarvests(@Param("id") batchId: string): Promise<HarvestEventDto[]> {
+    const batch = await this.getBatchDetailsUseCase.execute({ batchId });
+    return batch
+      .getHarvestHistory()
+      .map((event) => this.batchMapper.toHarvestEventResponse(event));
+  }
+
+  // Moves all or some of the fish into a new child batch in the tank
+  @AuthRoles(ApiRole.MANAGER, ApiRole.TECNICAN)
+  @Post("/:id/transfers")
+  async transferBatch(
+    @Param("id") batchId: string,
+    @Body() body: TransferBatchBody,
+  ): Promise<BatchTransferResultDto> {
+    return this.batchMapper.toTransferResultResponse(
+      await this.transferBatchUseCase.execute({ batchId, ...body }),
+    );
+  }
+
+  // The batches linked by transfers, with FCR across all of them
+  @AuthRoles(
+    ApiRole.ADMIN,
+    ApiRole.MANAGER,
+    ApiRole.TECNICAN,
+    ApiRole.ACCOUNTANT,
+  )
+  @Get("/:id/lineage")
+  async getLineage(@Param("id") batchId: string): Promise<BatchLineageDto> {
+    return this.batchMapper.toLineageResponse(
+      await this.getBatchLineageUseCase.execute({ batchId }),
+    );
+  }
+
+  // Harvests every fish left as one ungraded lot, closing the batch
+  @AuthRoles(ApiRole.MANAGER)
+  @HttpCode(HttpStatus.OK)
+  @Post("/:id/harvest")
+  async harvestBatch(
+    @Param("id") batchId: string,
+    @Body() body: WithdrawalOverrideBody,
+    @InjectAuthUser() user: AuthUser,
+  ): Promise<BatchDto> {
+    return this.batchMapper.toResponse(
+      await this.harvestBatchUseCase.execute({
+        batchId,
+        ...body,
+        requestedBy: { userId: user.id, role: user.role },
+      }),
+    );
+  }
+}
@@ -0,0 +1,155 @@
+import { Body, Controller, Get, Param, Post, Put, Query } from "@nestjs/common";
+import { ApiRole } from "../../../../../libs/api/api-role.enum";
+import { AuthRoles } from "../../../../../libs/decorator/auth.decorator";
+import { FarmDto, FarmStatisticsDto } from "../../application/dtos/FarmDto";
+import { FarmFeedingPlanDto } from "../../application/dtos/FeedingDto";
+import { TankCapacityDto } from "../../application/dtos/TankDto";
+import { FarmMapper } from "../../application/mappers/FarmMapper";
+import { MortalityReportDto } from "../../application/dtos/MortalityDto";
+import { BatchMapper } from "../../application/mappers/BatchMapper";
+import { FeedingPlanMapper } from "../../application/mappers/FeedingPlanMapper";
+import { TankMapper } from "../../application/mappers/TankMapper";
+import { CreateFarmUseCase } from "../../application/use-cases/farm/CreateFarm";
+import { GetFarmUseCase } from "../../application/use-cases/farm/GetFarm";
+import { GetFarmCapacityUseCase } from "../../application/use-cases/farm/GetFarmCapacity";
+import { GetFarmFeedingPlanUseCase } from "../../application/use-cases/farm/GetFarmFeedingPlan";
+import { GetFarmMortalityReportUseCase } from "../../application/use-cases/farm/GetFarmMortalityReport";
+import { GetFarmStatisticsUseCase } from "../../application/use-cases/farm/GetFarmStatistics";
+import { ListFarmsUseCase } from "../../application/use-cases/farm/ListFarms";
+import { SetFarmTemperatureProfileUseCase } from "../../application/use-cases/farm/SetFarmTemperatureProfile";
+import {
+  CreateFarmBody,
+  MortalityReportQuery,
+  SetTemperatureProfileBody,
+} from "../validators/farmValidators";
+import { FeedingPlanQuery } from "../validators/tankValidators";
+
+@Controller("farms")
+export class FarmController {
+  constructor(
+    private readonly createFarmUseCase: CreateFarmUseCase,
+    private readonly getFarmUseCase: GetFarmUseCase,
+    private readonly listFarmsUseCase: ListFarmsUseCase,
+    private readonly getFarmStatisticsUseCase: GetFarmStatisticsUseCase,
+    private readonly getFarmFeedingPlanUseCase: GetFarmFeedingPlanUseCase,
+    private readonly setFarmTemperatureProfileUseCase: SetFarmTemperatureProfileUseCase,
+    private readonly getFarmCapacityUseCase: GetFarmCapacityUseCase,
+    private readonly getFarmMortalityReportUseCase: GetFarmMortalityReportUseCase,
+    private readonly farmMapper: FarmMapper,
+    private readonly batchMapper: BatchMapper,
+    private readonly feedingPlanMapper: FeedingPlanMapper,
+    private readonly tankMapper: TankMapper,
+  ) {}
+
+  @AuthRoles(ApiRole.ADMIN, ApiRole.MANAGER)
+  @Post()
+  async createFarm(@Body() body: CreateFarmBody): Promise<FarmDto> {
+    return this.farmMapper.toResponse(
+      await this.createFarmUseCase.execute(body),
+    );
+  }
+
+  @AuthRoles(
+    ApiRole.ADMIN,
+    ApiRole.MANAGER,
+    ApiRole.TECNICAN,
+    ApiRole.ACCOUNTANT,
+  )
+  @Get()
+  async getFarms(): Promise<FarmDto[]> {
+    const farms = await this.listFarmsUseCase.execute();
+    return farms.map((farm) => this.farmMapper.toResponse(farm));
+  }
+
+  @AuthRoles(
+    ApiRole.ADMIN,
+    ApiRole.MANAGER,
+    ApiRole.TECNICAN,
+    ApiRole.ACCOUNTANT,
+  )
+  @Get("/:id")
+  async getFarm(@Param("id") farmId: string): Promise<FarmDto> {
+    return this.farmMapper.toResponse(
+      await this.getFarmUseCase.execute({ farmId }),
+    );
+  }
+
+  // Expected water temperatures through the year, used for harvest forecasts
+  @AuthRoles(ApiRole.ADMIN, ApiRole.MANAGER)
+  @Put("/:id/temperature-profile")
+  async setTemperatureProfile(
+    @Param("id") farmId: string,
+    @Body() body: SetTemperatureProfileBody,
+  ): Promise<FarmDto> {
+    return this.farmMapper.toResponse(
+      await this.setFarmTemperatureProfileUseCase.execute({ farmId, ...body }),
+    );
+  }
+
+  @AuthRoles(
+    ApiRole.ADMIN,
+    ApiRole.MANAGER,
+    ApiRole.TECNICAN,
+    ApiRole.ACCOUNTANT,
+  )
+  @Get("/:id/statistics")
+  async getFarmStatistics(
+    @Param("id") farmId: string,
+  ): Promise<FarmStatisticsDto> {
+    return this.farmMapper.toStatisticsResponse(
+      await this.getFarmStatisticsUseCase.execute({ farmId }),
+    );
+  }
+
+  // Tanks that can take fish, the most room first
+  @AuthRoles(
+    ApiRole.ADMIN,
+    ApiRole.MANAGER,
+    ApiRole.TECNICAN,
+    ApiRole.ACCOUNTANT,
+  )
+  @Get("/:id/capacity")
+  async getFarmCapacity(
+    @Param("id") farmId: string,
+  ): Promise<TankCapacityDto[]> {
+    const capacities = await this.getFarmCapacityUseCase.execute({ farmId });
+    return capacities.map((capacity) =>
+      this.tankMapper.toCapacityResponse(capacity),
+    );
+  }
+
+  @AuthRoles(
+    ApiRole.ADMIN,
+    ApiRole.MANAGER,
+    ApiRole.TECNICAN,
+    ApiRole.ACCOUNTANT,
+  )
+  @Get("/:id/feeding-plan")
+  async getFarmFeedingPlan(
+    @Param("id") farmId: string,
+    @Query() query: FeedingPlanQuery,
+  ): Promise<FarmFeedingPlanDto> {
+    const { planDate, plans } = await this.getFarmFeedingPlanUseCase.execute({
+      farmId,
+      ...query,
+    });
+    return this.feedingPlanMapper.toFarmResponse(farmId, planDate, plans);
+  }
+
+  // Deaths by cause, tank and week, with the mass mortalities among them
+  @AuthRoles(
+    ApiRole.ADMIN,
+    ApiRole.MANAGER,
+    ApiRole.TECNICAN,
+    ApiRole.ACCOUNTANT,
+  )
+  @Get("/:id/mortality-report")
+  async getFarmMortalityReport(
+    @Param("id") farmId: string,
+    @Query() query: MortalityReportQuery,
+  ): Promise<MortalityReportDto> {
+    return this.batchMapper.toMortalityReportResponse(
+      await this.getFarmMortalityReportUseCase.execute({ farmId, ...query }),
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { Body, Controller, Get, Param, Post, Query } from "@nestjs/common";
+import { ApiRole } from "../../../../../libs/api/api-role.enum";
+import { AuthRoles } from "../../../../../libs/decorator/auth.decorator";
+import { FeedLotDto } from "../../application/dtos/FeedInventoryDto";
+import { FeedLotMapper } from "../../application/mappers/FeedLotMapper";
+import { CreateFeedLotUseCase } from "../../application/use-cases/feed-lot/CreateFeedLot";
+import { GetFeedLotUseCase } from "../../application/use-cases/feed-lot/GetFeedLot";
+import { ListFeedLotsUseCase } from "../../application/use-cases/feed-lot/ListFeedLots";
+import { CreateFeedLotBody, FeedLotQuery } from "../validators/feedValidators";
+
+@Controller("feed-lots")
+export class FeedLotController {
+  constructor(
+    private readonly createFeedLotUseCase: CreateFeedLotUseCase,
+    private readonly getFeedLotUseCase: GetFeedLotUseCase,
+    private readonly listFeedLotsUseCase: ListFeedLotsUseCase,
+    private readonly feedLotMapper: FeedLotMapper,
+  ) {}
+
+  @AuthRoles(ApiRole.ADMIN, ApiRole.MANAGER, ApiRole.TECNICAN)
+  @Post()
+  async createFeedLot(@Body() body: CreateFeedLotBody): Promise<FeedLotDto> {
+    return this.feedLotMapper.toResponse(
+      await this.createFeedLotUseCase.execute(body),
+    );
+  }
+
+  @AuthRoles(
+    ApiRole.ADMIN,
+    ApiRole.MANAGER,
+    ApiRole.TECNICAN,
+    ApiRole.ACCOUNTANT,
+  )
+  @Get()
+  async getFeedLots(@Query() query: FeedLotQuery): Promise<FeedLotDto[]> {
+    const feedLots = await this.listFeedLotsUseCase.execute(query);
+    return feedLots.map((feedLot) => this.feedLotMapper.toResponse(feedLot));
+  }
+
+  @AuthRoles(
+    ApiRole.ADMIN,
+    ApiRole.MANAGER,
+    ApiRole.TECNICAN,
+    ApiRole.ACCOUNTANT,
+  )
+  @Get("/:id")
+  async getFeedLot(@Param("id") feedLotId: string): Promise<FeedLotDto> {
+    return this.feedLotMapper.toResponse(
+      await this.getFeedLotUseCase.execute({ feedLotId }),
+    );
+  }
+}
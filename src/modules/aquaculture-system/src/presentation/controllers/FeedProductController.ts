@@ -0,0 +1,74 @@
+import { Body, Controller, Get, Param, Post, Put } from "@nestjs/common";
+import { ApiRole } from "../../../../../libs/api/api-role.enum";
+import { AuthRoles } from "../../../../../libs/decorator/auth.decorator";
+import { FeedProductDto } from "../../application/dtos/FeedInventoryDto";
+import { FeedProductMapper } from "../../application/mappers/FeedProductMapper";
+import { CreateFeedProductUseCase } from "../../application/use-cases/feed-product/CreateFeedProduct";
+import { GetFeedProductUseCase } from "../../application/use-cases/feed-product/GetFeedProduct";
+import { ListFeedProductsUseCase } from "../../application/use-cases/feed-product/ListFeedProducts";
+import { UpdateFeedProductUseCase } from "../../application/use-cases/feed-product/UpdateFeedProduct";
+import {
+  CreateFeedProductBody,
+  UpdateFeedProductBody,
+} from "../validators/feedValidators";
+
+@Controller("feed-products")
+export class FeedProductController {
+  constructor(
+    private readonly createFeedProductUseCase: CreateFeedProductUseCase,
+    private readonly getFeedProductUseCase: GetFeedProductUseCase,
+    private readonly listFeedProductsUseCase: ListFeedProductsUseCase,
+    private readonly updateFeedProductUseCase: UpdateFeedProductUseCase,
+    private readonly feedProductMapper: FeedProductMapper,
+  ) {}
+
+  @AuthRoles(ApiRole.ADMIN, ApiRole.MANAGER)
+  @Post()
+  async createFeedProduct(
+    @Body() body: CreateFeedProductBody,
+  ): Promise<FeedProductDto> {
+    return this.feedProductMapper.toResponse(
+      await this.createFeedProductUseCase.execute(body),
+    );
+  }
+
+  @AuthRoles(
+    ApiRole.ADMIN,
+    ApiRole.MANAGER,
+    ApiRole.TECNICAN,
+    ApiRole.ACCOUNTANT,
+  )
+  @Get()
+  async getFeedProducts(): Promise<FeedProductDto[]> {
+    const feedProducts = await this.listFeedProductsUseCase.execute();
+    return feedProducts.map((feedProduct) =>
+      this.feedProductMapper.toResponse(feedProduct),
+    );
+  }
+
+  @AuthRoles(
+    ApiRole.ADMIN,
+    ApiRole.MANAGER,
+    ApiRole.TECNICAN,
+    ApiRole.ACCOUNTANT,
+  )
+  @Get("/:id")
+  async getFeedProduct(
+    @Param("id") feedProductId: string,
+  ): Promise<FeedProductDto> {
+    return this.feedProductMapper.toResponse(
+      await this.getFeedProductUseCase.execute({ feedProductId }),
+    );
+  }
+
+  @AuthRoles(ApiRole.ADMIN, ApiRole.MANAGER)
+  @Put("/:id")
+  async updateFeedProduct(
+    @Param("id") feedProductId: string,
+    @Body() body: UpdateFeedProductBody,
+  ): Promise<FeedProductDto> {
+    return this.feedProductMapper.toResponse(
+      await this.updateFeedProductUseCase.execute({ feedProductId, ...body }),
+    );
+  }
+}
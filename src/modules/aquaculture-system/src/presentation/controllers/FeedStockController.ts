@@ -0,0 +1,88 @@
+import { Body, Controller, Get, Param, Post, Query } from "@nestjs/common";
+import { ApiRole } from "../../../../../libs/api/api-role.enum";
+import { AuthRoles } from "../../../../../libs/decorator/auth.decorator";
+import {
+  FarmFeedStockDto,
+  FeedStockLedgerDto,
+  FeedStockLevelDto,
+  FeedStockMovementDto,
+} from "../../application/dtos/FeedInventoryDto";
+import { FeedStockMapper } from "../../application/mappers/FeedStockMapper";
+import { GetFarmFeedStockUseCase } from "../../application/use-cases/feed-stock/GetFarmFeedStock";
+import { GetFeedStockLedgerUseCase } from "../../application/use-cases/feed-stock/GetFeedStockLedger";
+import { ReceiveFeedStockUseCase } from "../../application/use-cases/feed-stock/ReceiveFeedStock";
+import {
+  FeedStockLedgerQuery,
+  FeedStockQuery,
+  ReceiveFeedStockBody,
+} from "../validators/feedValidators";
+
+@Controller("farms/:id/feed-stock")
+export class FeedStockController {
+  constructor(
+    private readonly receiveFeedStockUseCase: ReceiveFeedStockUseCase,
+    private readonly getFarmFeedStockUseCase: GetFarmFeedStockUseCase,
+    private readonly getFeedStockLedgerUseCase: GetFeedStockLedgerUseCase,
+    private readonly feedStockMapper: FeedStockMapper,
+  ) {}
+
+  @AuthRoles(
+    ApiRole.ADMIN,
+    ApiRole.MANAGER,
+    ApiRole.TECNICAN,
+    ApiRole.ACCOUNTANT,
+  )
+  @Get()
+  async getFeedStock(
+    @Param("id") farmId: string,
+    @Query() query: FeedStockQuery,
+  ): Promise<FarmFeedStockDto> {
+    return this.feedStockMapper.toStockResponse(
+      await this.getFarmFeedStockUseCase.execute({ farmId, ...query }),
+    );
+  }
+
+  @AuthRoles(
+    ApiRole.ADMIN,
+    ApiRole.MANAGER,
+    ApiRole.TECNICAN,
+    ApiRole.ACCOUNTANT,
+  )
+  @Get("/alerts")
+  async getLowStockAlerts(
+    @Param("id") farmId: string,
+    @Query() query: FeedStockQuery,
+  ): Promise<FeedStockLevelDto[]> {
+    const stock = this.feedStockMapper.toStockResponse(
+      await this.getFarmFeedStockUseCase.execute({ farmId, ...query }),
+    );
+    return stock.products.filter((product) => product.lowStock);
+  }
+
+  @AuthRoles(
+    ApiRole.ADMIN,
+    ApiRole.MANAGER,
+    ApiRole.TECNICAN,
+    ApiRole.ACCOUNTANT,
+  )
+  @Get("/ledger")
+  async getFeedStockLedger(
+    @Param("id") farmId: string,
+    @Query() query: FeedStockLedgerQuery,
+  ): Promise<FeedStockLedgerDto> {
+    return this.feedStockMapper.toLedgerResponse(
+      await this.getFeedStockLedgerUseCase.execute({ farmId, ...query }),
+    );
+  }
+
+  @AuthRoles(ApiRole.MANAGER, ApiRole.TECNICAN)
+  @Post("/receipts")
+  async receiveFeedStock(
+    @Param("id") farmId: string,
+    @Body() body: ReceiveFeedStockBody,
+  ): Promise<FeedStockMovementDto> {
+    return this.feedStockMapper.toMovementResponse(
+      await this.receiveFeedStockUseCase.execute({ farmId, ...body }),
+    );
+  }
+}
@@ -0,0 +1,125 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Put,
+} from "@nestjs/common";
+import { ApiRole } from "../../../../../libs/api/api-role.enum";
+import { AuthRoles } from "../../../../../libs/decorator/auth.decorator";
+import {
+  FishTypeDto,
+  FishTypeParameterVersionDto,
+} from "../../application/dtos/FishTypeDto";
+import { FishTypeMapper } from "../../application/mappers/FishTypeMapper";
+import { CreateFishTypeUseCase } from "../../application/use-cases/fish-type/CreateFishType";
+import { DeleteFishTypeUseCase } from "../../application/use-cases/fish-type/DeleteFishType";
+import { GetFishTypeUseCase } from "../../application/use-cases/fish-type/GetFishType";
+import { ListFishTypesUseCase } from "../../application/use-cases/fish-type/ListFishTypes";
+import { ReviseFishTypeParametersUseCase } from "../../application/use-cases/fish-type/ReviseFishTypeParameters";
+import { UpdateFishTypeUseCase } from "../../application/use-cases/fish-type/UpdateFishType";
+import {
+  CreateFishTypeBody,
+  ReviseFishTypeParametersBody,
+  UpdateFishTypeBody,
+} from "../validators/fishTypeValidators";
+
+@Controller("fish-types")
+export class FishTypeController {
+  constructor(
+    private readonly createFishTypeUseCase: CreateFishTypeUseCase,
+    private readonly getFishTypeUseCase: GetFishTypeUseCase,
+    private readonly listFishTypesUseCase: ListFishTypesUseCase,
+    private readonly updateFishTypeUseCase: UpdateFishTypeUseCase,
+    private readonly deleteFishTypeUseCase: DeleteFishTypeUseCase,
+    private readonly reviseFishTypeParametersUseCase: ReviseFishTypeParametersUseCase,
+    private readonly fishTypeMapper: FishTypeMapper,
+  ) {}
+
+  @AuthRoles(ApiRole.ADMIN)
+  @Post()
+  async createFishType(@Body() body: CreateFishTypeBody): Promise<FishTypeDto> {
+    return this.fishTypeMapper.toResponse(
+      await this.createFishTypeUseCase.execute(body),
+    );
+  }
+
+  @AuthRoles(
+    ApiRole.ADMIN,
+    ApiRole.MANAGER,
+    ApiRole.TECNICAN,
+    ApiRole.ACCOUNTANT,
+  )
+  @Get()
+  async getFishTypes(): Promise<FishTypeDto[]> {
+    const fishTypes = await this.listFishTypesUseCase.execute();
+    return fishTypes.map((fishType) =>
+      this.fishTypeMapper.toResponse(fishType),
+    );
+  }
+
+  @AuthRoles(
+    ApiRole.ADMIN,
+    ApiRole.MANAGER,
+    ApiRole.TECNICAN,
+    ApiRole.ACCOUNTANT,
+  )
+  @Get("/:id")
+  async getFishType(@Param("id") fishTypeId: string): Promise<FishTypeDto> {
+    return this.fishTypeMapper.toResponse(
+      await this.getFishTypeUseCase.execute({ fishTypeId }),
+    );
+  }
+
+  @AuthRoles(ApiRole.ADMIN)
+  @Put("/:id")
+  async updateFishType(
+    @Param("id") fishTypeId: string,
+    @Body() body: UpdateFishTypeBody,
+  ): Promise<FishTypeDto> {
+    return this.fishTypeMapper.toResponse(
+      await this.updateFishTypeUseCase.execute({ fishTypeId, ...body }),
+    );
+  }
+
+  @AuthRoles(
+    ApiRole.ADMIN,
+    ApiRole.MANAGER,
+    ApiRole.TECNICAN,
+    ApiRole.ACCOUNTANT,
+  )
+  @Get("/:id/versions")
+  async getFishTypeVersions(
+    @Param("id") fishTypeId: string,
+  ): Promise<FishTypeParameterVersionDto[]> {
+    const fishType = await this.getFishTypeUseCase.execute({ fishTypeId });
+    return fishType
+      .getParameterVersions()
+      .map((version) => this.fishTypeMapper.toVersionResponse(version));
+  }
+
+  @AuthRoles(ApiRole.ADMIN)
+  @Post("/:id/versions")
+  async reviseFishTypeParameters(
+    @Param("id") fishTypeId: string,
+    @Body() body: ReviseFishTypeParametersBody,
+  ): Promise<FishTypeParameterVersionDto> {
+    return this.fishTypeMapper.toVersionResponse(
+      await this.reviseFishTypeParametersUseCase.execute({
+        fishTypeId,
+        ...body,
+      }),
+    );
+  }
+
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @AuthRoles(ApiRole.ADMIN)
+  @Delete("/:id")
+  async deleteFishType(@Param("id") fishTypeId: string): Promise<void> {
+    await this.deleteFishTypeUseCase.execute({ fishTypeId });
+  }
+}
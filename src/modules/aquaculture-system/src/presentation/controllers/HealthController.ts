@@ -0,0 +1,82 @@
+import { Body, Controller, Get, Param, Post } from "@nestjs/common";
+import { ApiRole } from "../../../../../libs/api/api-role.enum";
+import { AuthRoles } from "../../../../../libs/decorator/auth.decorator";
+import {
+  BatchHealthLogDto,
+  DiagnosisDto,
+  TreatmentDto,
+  WithdrawalStatusDto,
+} from "../../application/dtos/HealthDto";
+import { HealthMapper } from "../../application/mappers/HealthMapper";
+import { GetBatchHealthLogUseCase } from "../../application/use-cases/health/GetBatchHealthLog";
+import { GetBatchWithdrawalUseCase } from "../../application/use-cases/health/GetBatchWithdrawal";
+import { RecordDiagnosisUseCase } from "../../application/use-cases/health/RecordDiagnosis";
+import { RecordTreatmentUseCase } from "../../application/use-cases/health/RecordTreatment";
+import {
+  RecordDiagnosisBody,
+  RecordTreatmentBody,
+} from "../validators/healthValidators";
+
+@Controller("batches")
+export class HealthController {
+  constructor(
+    private readonly recordDiagnosisUseCase: RecordDiagnosisUseCase,
+    private readonly recordTreatmentUseCase: RecordTreatmentUseCase,
+    private readonly getBatchHealthLogUseCase: GetBatchHealthLogUseCase,
+    private readonly getBatchWithdrawalUseCase: GetBatchWithdrawalUseCase,
+    private readonly healthMapper: HealthMapper,
+  ) {}
+
+  @AuthRoles(ApiRole.MANAGER, ApiRole.TECNICAN)
+  @Post("/:id/diagnoses")
+  async recordDiagnosis(
+    @Param("id") batchId: string,
+    @Body() body: RecordDiagnosisBody,
+  ): Promise<DiagnosisDto> {
+    return this.healthMapper.toDiagnosisResponse(
+      await this.recordDiagnosisUseCase.execute({ batchId, ...body }),
+    );
+  }
+
+  @AuthRoles(ApiRole.MANAGER, ApiRole.TECNICAN)
+  @Post("/:id/treatments")
+  async recordTreatment(
+    @Param("id") batchId: string,
+    @Body() body: RecordTreatmentBody,
+  ): Promise<TreatmentDto> {
+    return this.healthMapper.toTreatmentResponse(
+      await this.recordTreatmentUseCase.execute({ batchId, ...body }),
+    );
+  }
+
+  // Diagnoses and treatments of the batch itself, oldest first
+  @AuthRoles(
+    ApiRole.ADMIN,
+    ApiRole.MANAGER,
+    ApiRole.TECNICAN,
+    ApiRole.ACCOUNTANT,
+  )
+  @Get("/:id/health")
+  async getHealthLog(@Param("id") batchId: string): Promise<BatchHealthLogDto> {
+    return this.healthMapper.toHealthLogResponse(
+      batchId,
+      await this.getBatchHealthLogUseCase.execute({ batchId }),
+    );
+  }
+
+  // Treatments whose withdrawal still holds back harvest, including ancestors'
+  @AuthRoles(
+    ApiRole.ADMIN,
+    ApiRole.MANAGER,
+    ApiRole.TECNICAN,
+    ApiRole.ACCOUNTANT,
+  )
+  @Get("/:id/withdrawal")
+  async getWithdrawal(
+    @Param("id") batchId: string,
+  ): Promise<WithdrawalStatusDto> {
+    return this.healthMapper.toWithdrawalResponse(
+      await this.getBatchWithdrawalUseCase.execute({ batchId }),
+    );
+  }
+}
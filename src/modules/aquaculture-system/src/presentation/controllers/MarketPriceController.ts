@@ -0,0 +1,70 @@
+import { Body, Controller, Get, Post, Query } from "@nestjs/common";
+import { ApiRole } from "../../../../../libs/api/api-role.enum";
+import { AuthRoles } from "../../../../../libs/decorator/auth.decorator";
+import {
+  MarketPriceDto,
+  PriceBookDto,
+} from "../../application/dtos/MarketPriceDto";
+import { MarketPriceMapper } from "../../application/mappers/MarketPriceMapper";
+import { GetPriceBookUseCase } from "../../application/use-cases/market-price/GetPriceBook";
+import { ListMarketPriceHistoryUseCase } from "../../application/use-cases/market-price/ListMarketPriceHistory";
+import { RecordMarketPriceUseCase } from "../../application/use-cases/market-price/RecordMarketPrice";
+import {
+  MarketPriceHistoryQuery,
+  PriceBookQuery,
+  RecordMarketPriceBody,
+} from "../validators/marketPriceValidators";
+
+@Controller("market-prices")
+export class MarketPriceController {
+  constructor(
+    private readonly recordMarketPriceUseCase: RecordMarketPriceUseCase,
+    private readonly getPriceBookUseCase: GetPriceBookUseCase,
+    private readonly listMarketPriceHistoryUseCase: ListMarketPriceHistoryUseCase,
+    private readonly marketPriceMapper: MarketPriceMapper,
+  ) {}
+
+  @AuthRoles(ApiRole.ADMIN, ApiRole.MANAGER, ApiRole.ACCOUNTANT)
+  @Post()
+  async recordMarketPrice(
+    @Body() body: RecordMarketPriceBody,
+  ): Promise<MarketPriceDto> {
+    return this.marketPriceMapper.toResponse(
+      await this.recordMarketPriceUseCase.execute(body),
+    );
+  }
+
+  // Prices in force on the date, today by default
+  @AuthRoles(
+    ApiRole.ADMIN,
+    ApiRole.MANAGER,
+    ApiRole.TECNICAN,
+    ApiRole.ACCOUNTANT,
+  )
+  @Get()
+  async getPriceBook(@Query() query: PriceBookQuery): Promise<PriceBookDto> {
+    const date = query.date ?? new Date();
+    return this.marketPriceMapper.toPriceBookResponse(
+      query.fishTypeId,
+      date,
+      await this.getPriceBookUseCase.execute({
+        fishTypeId: query.fishTypeId,
+        date,
+      }),
+    );
+  }
+
+  @AuthRoles(
+    ApiRole.ADMIN,
+    ApiRole.MANAGER,
+    ApiRole.TECNICAN,
+    ApiRole.ACCOUNTANT,
+  )
+  @Get("/history")
+  async getPriceHistory(
+    @Query() query: MarketPriceHistoryQuery,
+  ): Promise<MarketPriceDto[]> {
+    const prices = await this.listMarketPriceHistoryUseCase.execute(query);
+    return prices.map((price) => this.marketPriceMapper.toResponse(price));
+  }
+}
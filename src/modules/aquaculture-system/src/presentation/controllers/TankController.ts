@@ -0,0 +1,142 @@
+import { Body, Controller, Get, Param, Post, Put, Query } from "@nestjs/common";
+import { ApiRole } from "../../../../../libs/api/api-role.enum";
+import { AuthRoles } from "../../../../../libs/decorator/auth.decorator";
+import { FeedingPlanDto } from "../../application/dtos/FeedingDto";
+import {
+  TankCapacityDto,
+  TankCapacityForecastDto,
+  TankDto,
+} from "../../application/dtos/TankDto";
+import { FeedingPlanMapper } from "../../application/mappers/FeedingPlanMapper";
+import { TankMapper } from "../../application/mappers/TankMapper";
+import { CreateTankUseCase } from "../../application/use-cases/tank/CreateTank";
+import { ForecastTankCapacityUseCase } from "../../application/use-cases/tank/ForecastTankCapacity";
+import { GetTankCapacityUseCase } from "../../application/use-cases/tank/GetTankCapacity";
+import { GetTankDetailsUseCase } from "../../application/use-cases/tank/GetTankDetails";
+import { GetTankFeedingPlanUseCase } from "../../application/use-cases/tank/GetTankFeedingPlan";
+import { RegenerateTankFeedingPlanUseCase } from "../../application/use-cases/tank/RegenerateTankFeedingPlan";
+import { SetTankCapacityLimitsUseCase } from "../../application/use-cases/tank/SetTankCapacityLimits";
+import { UpdateWaterQualityUseCase } from "../../application/use-cases/tank/UpdateWaterQuality";
+import {
+  CapacityForecastQuery,
+  CreateTankBody,
+  FeedingPlanQuery,
+  SetTankCapacityLimitsBody,
+  UpdateWaterQualityBody,
+} from "../validators/tankValidators";
+
+@Controller("tanks")
+export class TankController {
+  constructor(
+    private readonly createTankUseCase: CreateTankUseCase,
+    private readonly getTankDetailsUseCase: GetTankDetailsUseCase,
+    private readonly updateWaterQualityUseCase: UpdateWaterQualityUseCase,
+    private readonly getTankFeedingPlanUseCase: GetTankFeedingPlanUseCase,
+    private readonly regenerateTankFeedingPlanUseCase: RegenerateTankFeedingPlanUseCase,
+    private readonly setTankCapacityLimitsUseCase: SetTankCapacityLimitsUseCase,
+    private readonly getTankCapacityUseCase: GetTankCapacityUseCase,
+    private readonly forecastTankCapacityUseCase: ForecastTankCapacityUseCase,
+    private readonly tankMapper: TankMapper,
+    private readonly feedingPlanMapper: FeedingPlanMapper,
+  ) {}
+
+  @AuthRoles(ApiRole.ADMIN, ApiRole.MANAGER)
+  @Post()
+  async createTank(@Body() body: CreateTankBody): Promise<TankDto> {
+    return this.tankMapper.toResponse(
+      await this.createTankUseCase.execute(body),
+    );
+  }
+
+  @AuthRoles(
+    ApiRole.ADMIN,
+    ApiRole.MANAGER,
+    ApiRole.TECNICAN,
+    ApiRole.ACCOUNTANT,
+  )
+  @Get("/:id")
+  async getTank(@Param("id") tankId: string): Promise<TankDto> {
+    return this.tankMapper.toResponse(
+      await this.getTankDetailsUseCase.execute({ tankId }),
+    );
+  }
+
+  @AuthRoles(ApiRole.MANAGER, ApiRole.TECNICAN)
+  @Put("/:id/water-quality")
+  async updateWaterQuality(
+    @Param("id") tankId: string,
+    @Body() body: UpdateWaterQualityBody,
+  ): Promise<TankDto> {
+    return this.tankMapper.toResponse(
+      await this.updateWaterQualityUseCase.execute({ tankId, ...body }),
+    );
+  }
+
+  @AuthRoles(
+    ApiRole.ADMIN,
+    ApiRole.MANAGER,
+    ApiRole.TECNICAN,
+    ApiRole.ACCOUNTANT,
+  )
+  @Get("/:id/feeding-plan")
+  async getFeedingPlan(
+    @Param("id") tankId: string,
+    @Query() query: FeedingPlanQuery,
+  ): Promise<FeedingPlanDto> {
+    return this.feedingPlanMapper.toResponse(
+      await this.getTankFeedingPlanUseCase.execute({ tankId, ...query }),
+    );
+  }
+
+  @AuthRoles(ApiRole.MANAGER, ApiRole.TECNICAN)
+  @Post("/:id/feeding-plan")
+  async regenerateFeedingPlan(
+    @Param("id") tankId: string,
+    @Query() query: FeedingPlanQuery,
+  ): Promise<FeedingPlanDto> {
+    return this.feedingPlanMapper.toResponse(
+      await this.regenerateTankFeedingPlanUseCase.execute({ tankId, ...query }),
+    );
+  }
+
+  @AuthRoles(ApiRole.ADMIN, ApiRole.MANAGER)
+  @Put("/:id/capacity")
+  async setCapacityLimits(
+    @Param("id") tankId: string,
+    @Body() body: SetTankCapacityLimitsBody,
+  ): Promise<TankDto> {
+    return this.tankMapper.toResponse(
+      await this.setTankCapacityLimitsUseCase.execute({ tankId, ...body }),
+    );
+  }
+
+  @AuthRoles(
+    ApiRole.ADMIN,
+    ApiRole.MANAGER,
+    ApiRole.TECNICAN,
+    ApiRole.ACCOUNTANT,
+  )
+  @Get("/:id/capacity")
+  async getCapacity(@Param("id") tankId: string): Promise<TankCapacityDto> {
+    return this.tankMapper.toCapacityResponse(
+      await this.getTankCapacityUseCase.execute({ tankId }),
+    );
+  }
+
+  // Projected density as the stock grows, warning before the tank fills up
+  @AuthRoles(
+    ApiRole.ADMIN,
+    ApiRole.MANAGER,
+    ApiRole.TECNICAN,
+    ApiRole.ACCOUNTANT,
+  )
+  @Get("/:id/capacity-forecast")
+  async forecastCapacity(
+    @Param("id") tankId: string,
+    @Query() query: CapacityForecastQuery,
+  ): Promise<TankCapacityForecastDto> {
+    return this.tankMapper.toCapacityForecastResponse(
+      await this.forecastTankCapacityUseCase.execute({ tankId, ...query }),
+    );
+  }
+}
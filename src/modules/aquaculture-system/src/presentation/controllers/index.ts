@@ -0,0 +1,4 @@
+export * from "./BatchController";
+export * from "./FarmController";
+export * from "./FishTypeController";
+export * from "./TankController";
@@ -0,0 +1,3 @@
+export * from "./controllers";
+export * from "./middleware";
+export * from "./validators";
@@ -0,0 +1,26 @@
+import {
+  ArgumentsHost,
+  Catch,
+  ExceptionFilter,
+  HttpStatus,
+} from "@nestjs/common";
+import { DomainException } from "../../domain/exceptions/DomainException";
+
+/**
+ * Turns aquaculture business rule violations into 422 responses,
+ * using the same body shape as the global HttpExceptionFilter.
+ */
+@Catch(DomainException)
+export class DomainExceptionFilter implements ExceptionFilter {
+  catch(exception: DomainException, host: ArgumentsHost) {
+    const httpHost = host.switchToHttp();
+    const response = httpHost.getResponse();
+    const request = httpHost.getRequest();
+    response.code(HttpStatus.UNPROCESSABLE_ENTITY).send({
+      statusCode: HttpStatus.UNPROCESSABLE_ENTITY,
+      message: exception.message,
+      timestamp: new Date().toISOString(),
+      path: request?.url || "unknown",
+    });
+  }
+}
@@ -0,0 +1,422 @@
+import { Type } from "class-transformer";
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsBase64,
+  IsBoolean,
+  IsDate,
+  IsEnum,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsPositive,
+  IsString,
+  IsUUID,
+  Matches,
+  Max,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from "class-validator";
+import {
+  GrowthModelType,
+  HarvestProjectionMethod,
+  MortalityCause,
+} from "../../domain/types/Enums";
+import {
+  MAX_GROWTH_SAMPLE_SIZE,
+  MAX_HARVEST_SIMULATION_RUNS,
+  MAX_HARVEST_TIMING_HORIZON_DAYS,
+} from "../../shared/constants/growthConstants";
+import {
+  MAX_MORTALITY_PHOTOS,
+  MORTALITY_PHOTO_CONTENT_TYPES,
+} from "../../shared/constants/mortalityConstants";
+
+export class CreateFishBatchBody {
+  @IsNotEmpty()
+  @IsUUID()
+  tankId!: string;
+
+  @IsNotEmpty()
+  @IsUUID()
+  fishTypeId!: string;
+
+  @IsInt()
+  @IsPositive()
+  fishCount!: number;
+
+  @IsNumber()
+  @IsPositive()
+  initialWeightGrams!: number;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  stockedDate?: Date;
+}
+
+export class RecordGrowthBody {
+  @IsNumber()
+  @IsPositive()
+  averageWeightGrams!: number;
+
+  // Backfills a weighing from an earlier date, e.g. from paper logs
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  sampledAt?: Date;
+}
+
+export class SampledFishBody {
+  @IsNumber()
+  @IsPositive()
+  weightGrams!: number;
+
+  @IsNumber()
+  @IsPositive()
+  lengthCm!: number;
+}
+
+export class RecordGrowthSampleBody {
+  @IsArray()
+  @ArrayMinSize(2)
+  @ArrayMaxSize(MAX_GROWTH_SAMPLE_SIZE)
+  @ValidateNested({ each: true })
+  @Type(() => SampledFishBody)
+  fish!: SampledFishBody[];
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  sampledAt?: Date;
+}
+
+export class MortalityPhotoBody {
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(255)
+  fileName!: string;
+
+  @IsIn(MORTALITY_PHOTO_CONTENT_TYPES)
+  contentType!: string;
+
+  @IsNotEmpty()
+  @IsBase64()
+  data!: string;
+}
+
+export class RecordMortalityBody {
+  @IsInt()
+  @IsPositive()
+  deadCount!: number;
+
+  @IsOptional()
+  @IsEnum(MortalityCause)
+  cause?: MortalityCause;
+
+  // Necropsy findings and observations
+  @IsOptional()
+  @IsString()
+  @MaxLength(4000)
+  notes?: string;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(MAX_MORTALITY_PHOTOS)
+  @ValidateNested({ each: true })
+  @Type(() => MortalityPhotoBody)
+  photos?: MortalityPhotoBody[];
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  recordedAt?: Date;
+}
+
+export class RecordFishCountBody {
+  // Zero when the batch is found empty, which closes it as LOST
+  @IsInt()
+  @Min(0)
+  countedCount!: number;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  countedAt?: Date;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(4000)
+  notes?: string;
+}
+
+export class HarvestedGradeBody {
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(50)
+  grade!: string;
+
+  @IsInt()
+  @IsPositive()
+  fishCount!: number;
+
+  @IsNumber()
+  @IsPositive()
+  biomassKg!: number;
+}
+
+// Only a manager may harvest fish still within a withdrawal period
+export class WithdrawalOverrideBody {
+  @IsOptional()
+  @IsBoolean()
+  overrideWithdrawal?: boolean;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  overrideReason?: string;
+}
+
+export class RecordHarvestBody extends WithdrawalOverrideBody {
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => HarvestedGradeBody)
+  grades!: HarvestedGradeBody[];
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  buyer?: string;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  harvestedAt?: Date;
+}
+
+export class TransferBatchBody {
+  @IsNotEmpty()
+  @IsUUID()
+  toTankId!: string;
+
+  // All of the batch's fish by default
+  @IsOptional()
+  @IsInt()
+  @IsPositive()
+  fishCount?: number;
+
+  // Of graded fish moved apart from the rest
+  @IsOptional()
+  @IsNumber()
+  @IsPositive()
+  averageWeightGrams?: number;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  transferredAt?: Date;
+}
+
+export class MergeBatchesBody {
+  @IsArray()
+  @ArrayMinSize(2)
+  @IsUUID("all", { each: true })
+  batchIds!: string[];
+
+  @IsNotEmpty()
+  @IsUUID()
+  toTankId!: string;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  mergedAt?: Date;
+}
+
+export class RecordFeedingBody {
+  @IsNumber()
+  @IsPositive()
+  feedAmountKg!: number;
+
+  @IsInt()
+  @Min(1)
+  @Max(24)
+  mealsPerDay!: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(24)
+  mealNumber?: number;
+
+  @IsOptional()
+  @IsUUID()
+  feedProductId?: string;
+
+  @IsOptional()
+  @IsUUID()
+  feedLotId?: string;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  uneatenPercent?: number;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  fedAt?: Date;
+}
+
+export class FeedingDeviationQuery {
+  @IsOptional()
+  @Matches(/^\d{4}-\d{2}-\d{2}$/, { message: "from must be YYYY-MM-DD" })
+  from?: string;
+
+  @IsOptional()
+  @Matches(/^\d{4}-\d{2}-\d{2}$/, { message: "to must be YYYY-MM-DD" })
+  to?: string;
+}
+
+export class GrowthCurveQuery {
+  @IsOptional()
+  @IsEnum(GrowthModelType)
+  model?: GrowthModelType;
+}
+
+export class HarvestPredictionQuery {
+  @Type(() => Number)
+  @IsNumber()
+  @IsPositive()
+  targetWeightGrams!: number;
+
+  @IsOptional()
+  @IsEnum(HarvestProjectionMethod)
+  method?: HarvestProjectionMethod;
+
+  // Only used with the fitted-curve method
+  @IsOptional()
+  @IsEnum(GrowthModelType)
+  model?: GrowthModelType;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  projectedSurvivalRate?: number;
+}
+
+export class HarvestForecastQuery {
+  @Type(() => Number)
+  @IsNumber()
+  @IsPositive()
+  targetWeightGrams!: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  projectedSurvivalRate?: number;
+}
+
+export class HarvestSimulationQuery {
+  @Type(() => Number)
+  @IsNumber()
+  @IsPositive()
+  targetWeightGrams!: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(MAX_HARVEST_SIMULATION_RUNS)
+  runs?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  @Max(2 ** 32 - 1)
+  seed?: number;
+}
+
+export class PriceCurvePointBody {
+  @IsNumber()
+  @IsPositive()
+  weightGrams!: number;
+
+  @IsNumber()
+  @Min(0)
+  pricePerKg!: number;
+}
+
+export class OptimizeHarvestTimingBody {
+  // Market price by average fish size; the price book's grades by default
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(50)
+  @ValidateNested({ each: true })
+  @Type(() => PriceCurvePointBody)
+  priceCurve?: PriceCurvePointBody[];
+
+  @IsNumber()
+  @Min(0)
+  dailyFixedCost!: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  otherSunkCost?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @IsPositive()
+  feedPricePerKg?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(MAX_HARVEST_TIMING_HORIZON_DAYS)
+  horizonDays?: number;
+}
+
+export class HarvestEconomicsQuery {
+  @Type(() => Number)
+  @IsNumber()
+  @IsPositive()
+  targetWeightGrams!: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  projectedSurvivalRate?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @IsPositive()
+  feedPricePerKg?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  marketPricePerKg?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  otherCosts?: number;
+}
@@ -0,0 +1,51 @@
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  MaxLength,
+  Min,
+} from "class-validator";
+
+export class CreateFarmBody {
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(255)
+  name!: string;
+
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(255)
+  location!: string;
+}
+
+export class SetTemperatureProfileBody {
+  // January to December
+  @IsArray()
+  @ArrayMinSize(12)
+  @ArrayMaxSize(12)
+  @IsNumber({}, { each: true })
+  @Min(-5, { each: true })
+  @Max(45, { each: true })
+  monthlyMeanTemperatures!: number[];
+
+  @IsNumber()
+  @Min(0)
+  @Max(15)
+  variation!: number;
+}
+
+export class MortalityReportQuery {
+  @IsOptional()
+  @Matches(/^\d{4}-\d{2}-\d{2}$/, { message: "from must be YYYY-MM-DD" })
+  from?: string;
+
+  @IsOptional()
+  @Matches(/^\d{4}-\d{2}-\d{2}$/, { message: "to must be YYYY-MM-DD" })
+  to?: string;
+}
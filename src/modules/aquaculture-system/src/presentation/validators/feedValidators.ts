@@ -0,0 +1,150 @@
+import { Type } from "class-transformer";
+import {
+  IsDate,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsPositive,
+  IsString,
+  IsUUID,
+  Matches,
+  Max,
+  MaxLength,
+  Min,
+} from "class-validator";
+
+export class CreateFeedProductBody {
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(255)
+  name!: string;
+
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(255)
+  brand!: string;
+
+  @IsNumber()
+  @IsPositive()
+  pelletSizeMm!: number;
+
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  proteinPercent!: number;
+
+  @IsNumber()
+  @Min(0)
+  pricePerKg!: number;
+}
+
+export class UpdateFeedProductBody {
+  @IsOptional()
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(255)
+  name?: string;
+
+  @IsOptional()
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(255)
+  brand?: string;
+
+  @IsOptional()
+  @IsNumber()
+  @IsPositive()
+  pelletSizeMm?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  proteinPercent?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  pricePerKg?: number;
+}
+
+export class ReceiveFeedStockBody {
+  @IsNotEmpty()
+  @IsUUID()
+  feedProductId!: string;
+
+  @IsOptional()
+  @IsUUID()
+  feedLotId?: string;
+
+  @IsNumber()
+  @IsPositive()
+  quantityKg!: number;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  receivedAt?: Date;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  unitPricePerKg?: number;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  reference?: string;
+}
+
+export class FeedStockQuery {
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @IsPositive()
+  lowStockDays?: number;
+}
+
+export class FeedStockLedgerQuery {
+  @IsNotEmpty()
+  @IsUUID()
+  feedProductId!: string;
+
+  @IsOptional()
+  @Matches(/^\d{4}-\d{2}-\d{2}$/, { message: "from must be YYYY-MM-DD" })
+  from?: string;
+
+  @IsOptional()
+  @Matches(/^\d{4}-\d{2}-\d{2}$/, { message: "to must be YYYY-MM-DD" })
+  to?: string;
+}
+
+export class CreateFeedLotBody {
+  @IsNotEmpty()
+  @IsUUID()
+  feedProductId!: string;
+
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(100)
+  lotNumber!: string;
+
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(255)
+  supplier!: string;
+
+  @Type(() => Date)
+  @IsDate()
+  manufacturedAt!: Date;
+
+  @Type(() => Date)
+  @IsDate()
+  expiresAt!: Date;
+}
+
+export class FeedLotQuery {
+  @IsOptional()
+  @IsUUID()
+  feedProductId?: string;
+}
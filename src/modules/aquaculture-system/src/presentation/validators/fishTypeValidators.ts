@@ -0,0 +1,246 @@
+import { Type } from "class-transformer";
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsBoolean,
+  IsDate,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsPositive,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+  ValidateIf,
+  ValidateNested,
+} from "class-validator";
+import {
+  FeedingRateInterpolation,
+  SafetyFactorInterpolation,
+} from "../../domain/types/Enums";
+
+export class WeightRangeBody {
+  @IsNumber()
+  @Min(0)
+  min!: number;
+
+  @IsNumber()
+  @IsPositive()
+  max!: number;
+}
+
+// Dimensions of `rates` against the axes are checked by the domain
+export class FeedingRateMatrixBody {
+  @IsArray()
+  @ArrayNotEmpty()
+  @ValidateNested({ each: true })
+  @Type(() => WeightRangeBody)
+  weight_ranges!: WeightRangeBody[];
+
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsNumber({}, { each: true })
+  temperatures!: number[];
+
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsArray({ each: true })
+  rates!: number[][];
+}
+
+export class MealFrequencyRuleBody {
+  @ValidateIf((_, value) => value !== null)
+  @IsNumber()
+  @IsPositive()
+  maxWeight!: number | null;
+
+  @IsInt()
+  @Min(1)
+  mealsPerDay!: number;
+}
+
+export class SafetyFactorPointBody {
+  @IsNumber()
+  at!: number;
+
+  @IsNumber()
+  @Min(0)
+  factor!: number;
+
+  // A step point that takes effect only above `at`
+  @IsOptional()
+  @IsBoolean()
+  exclusive?: boolean;
+}
+
+export class SafetyFactorCurveBody {
+  @IsEnum(SafetyFactorInterpolation)
+  interpolation!: SafetyFactorInterpolation;
+
+  @IsArray()
+  @ArrayNotEmpty()
+  @ValidateNested({ each: true })
+  @Type(() => SafetyFactorPointBody)
+  points!: SafetyFactorPointBody[];
+}
+
+// Any curve left out falls back to the species default
+export class SafetyFactorCurvesBody {
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => SafetyFactorCurveBody)
+  temperature?: SafetyFactorCurveBody;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => SafetyFactorCurveBody)
+  oxygen?: SafetyFactorCurveBody;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => SafetyFactorCurveBody)
+  ammonia?: SafetyFactorCurveBody;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => SafetyFactorCurveBody)
+  nitrite?: SafetyFactorCurveBody;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => SafetyFactorCurveBody)
+  ph?: SafetyFactorCurveBody;
+}
+
+export class FishTypeParametersBody {
+  @IsNumber()
+  @Min(0)
+  doMin!: number;
+
+  @IsNumber()
+  @Min(0)
+  doSafe!: number;
+
+  @IsNumber()
+  @Min(0)
+  @Max(14)
+  phMin!: number;
+
+  @IsNumber()
+  @Min(0)
+  @Max(14)
+  phMax!: number;
+
+  @IsNumber()
+  @Min(0)
+  nh3Safe!: number;
+
+  @IsNumber()
+  @Min(0)
+  nh3Critical!: number;
+
+  @IsNumber()
+  @Min(0)
+  no2Max!: number;
+
+  @IsNumber()
+  tempMin!: number;
+
+  @IsNumber()
+  tempMax!: number;
+
+  @IsNumber()
+  tempOptimal!: number;
+
+  @IsNumber()
+  @IsPositive()
+  fcrMin!: number;
+
+  @IsNumber()
+  @IsPositive()
+  fcrMax!: number;
+
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  survivalRate!: number;
+
+  // kg/m³
+  @IsOptional()
+  @IsNumber()
+  @IsPositive()
+  maxStockingDensity: number | null = null;
+
+  // mg O₂ per kg of fish per hour
+  @IsOptional()
+  @IsNumber()
+  @IsPositive()
+  oxygenConsumption: number | null = null;
+
+  @ValidateNested()
+  @Type(() => FeedingRateMatrixBody)
+  feedingRateMatrix!: FeedingRateMatrixBody;
+
+  @IsEnum(FeedingRateInterpolation)
+  feedingRateInterpolation: FeedingRateInterpolation =
+    FeedingRateInterpolation.NEAREST;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => SafetyFactorCurvesBody)
+  safetyFactorCurves?: SafetyFactorCurvesBody;
+
+  @IsArray()
+  @ArrayNotEmpty()
+  @ValidateNested({ each: true })
+  @Type(() => MealFrequencyRuleBody)
+  mealFrequencyRules!: MealFrequencyRuleBody[];
+}
+
+export class CreateFishTypeBody {
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(255)
+  name!: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  scientificName?: string | null;
+
+  @ValidateNested()
+  @Type(() => FishTypeParametersBody)
+  parameters!: FishTypeParametersBody;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  effectiveFrom?: Date;
+}
+
+export class UpdateFishTypeBody {
+  @IsOptional()
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(255)
+  name?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  scientificName?: string | null;
+}
+
+export class ReviseFishTypeParametersBody {
+  @ValidateNested()
+  @Type(() => FishTypeParametersBody)
+  parameters!: FishTypeParametersBody;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  effectiveFrom?: Date;
+}
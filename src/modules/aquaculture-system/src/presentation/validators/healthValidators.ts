@@ -0,0 +1,78 @@
+import { Type } from "class-transformer";
+import {
+  IsDate,
+  IsEnum,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsPositive,
+  IsString,
+  IsUUID,
+  MaxLength,
+  Min,
+} from "class-validator";
+import { TreatmentType, WithdrawalUnit } from "../../domain/types/Enums";
+
+export class RecordDiagnosisBody {
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(255)
+  condition!: string;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  diagnosedAt?: Date;
+
+  // Signs, lab results and necropsy findings
+  @IsOptional()
+  @IsString()
+  @MaxLength(4000)
+  notes?: string;
+}
+
+export class RecordTreatmentBody {
+  @IsOptional()
+  @IsUUID()
+  diagnosisId?: string;
+
+  @IsEnum(TreatmentType)
+  type!: TreatmentType;
+
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(255)
+  product!: string;
+
+  @IsNumber()
+  @IsPositive()
+  dose!: number;
+
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(50)
+  doseUnit!: string;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  startedAt?: Date;
+
+  // 0 for a single dose
+  @IsNumber()
+  @Min(0)
+  durationDays!: number;
+
+  // From the product label, counted from the end of the course
+  @IsNumber()
+  @Min(0)
+  withdrawalPeriod!: number;
+
+  @IsEnum(WithdrawalUnit)
+  withdrawalUnit!: WithdrawalUnit;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(4000)
+  notes?: string;
+}
@@ -0,0 +1,7 @@
+export * from "./batchValidators";
+export * from "./farmValidators";
+export * from "./feedValidators";
+export * from "./fishTypeValidators";
+export * from "./healthValidators";
+export * from "./marketPriceValidators";
+export * from "./tankValidators";
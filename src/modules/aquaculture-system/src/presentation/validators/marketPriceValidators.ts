@@ -0,0 +1,63 @@
+import { Type } from "class-transformer";
+import {
+  IsDate,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsPositive,
+  IsString,
+  IsUUID,
+  MaxLength,
+  Min,
+} from "class-validator";
+
+export class RecordMarketPriceBody {
+  @IsNotEmpty()
+  @IsUUID()
+  fishTypeId!: string;
+
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(50)
+  grade!: string;
+
+  @IsNumber()
+  @Min(0)
+  minWeightGrams!: number;
+
+  // Leave out for an open-ended top grade
+  @IsOptional()
+  @IsNumber()
+  @IsPositive()
+  maxWeightGrams?: number;
+
+  @IsNumber()
+  @Min(0)
+  pricePerKg!: number;
+
+  @Type(() => Date)
+  @IsDate()
+  effectiveFrom!: Date;
+}
+
+export class PriceBookQuery {
+  @IsNotEmpty()
+  @IsUUID()
+  fishTypeId!: string;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  date?: Date;
+}
+
+export class MarketPriceHistoryQuery {
+  @IsNotEmpty()
+  @IsUUID()
+  fishTypeId!: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  grade?: string;
+}
@@ -0,0 +1,114 @@
+import { Type } from "class-transformer";
+import {
+  IsDate,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsPositive,
+  IsString,
+  IsUUID,
+  Matches,
+  Max,
+  MaxLength,
+  Min,
+} from "class-validator";
+import { MAX_CAPACITY_FORECAST_DAYS } from "../../shared/constants/growthConstants";
+
+export class CreateTankBody {
+  @IsNotEmpty()
+  @IsUUID()
+  farmId!: string;
+
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(255)
+  name!: string;
+
+  @IsNumber()
+  @IsPositive()
+  volumeCubicMeters!: number;
+
+  // kg/m³
+  @IsOptional()
+  @IsNumber()
+  @IsPositive()
+  maxStockingDensity?: number | null;
+
+  // g O₂/h
+  @IsOptional()
+  @IsNumber()
+  @IsPositive()
+  oxygenSupply?: number | null;
+}
+
+// Replaces both limits; leaving one out removes it
+export class SetTankCapacityLimitsBody {
+  // kg/m³
+  @IsOptional()
+  @IsNumber()
+  @IsPositive()
+  maxStockingDensity: number | null = null;
+
+  // g O₂/h
+  @IsOptional()
+  @IsNumber()
+  @IsPositive()
+  oxygenSupply: number | null = null;
+}
+
+export class UpdateWaterQualityBody {
+  @IsNumber()
+  @Min(0)
+  @Max(50)
+  temperature!: number;
+
+  @IsNumber()
+  @Min(0)
+  dissolvedOxygen!: number;
+
+  @IsNumber()
+  @Min(0)
+  @Max(14)
+  pH!: number;
+
+  @IsNumber()
+  @Min(0)
+  totalAmmonia!: number;
+
+  @IsNumber()
+  @Min(0)
+  nitrite!: number;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  measuredAt?: Date;
+}
+
+export class FeedingPlanQuery {
+  @IsOptional()
+  @Matches(/^\d{4}-\d{2}-\d{2}$/, { message: "date must be YYYY-MM-DD" })
+  date?: string;
+}
+
+export class CapacityForecastQuery {
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @IsPositive()
+  targetWeightGrams?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(MAX_CAPACITY_FORECAST_DAYS)
+  horizonDays?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  warningDays?: number;
+}
@@ -0,0 +1,15 @@
+// Daylight hours meals are spread across when no FEEDING_DAY_* is configured
+export const DEFAULT_FEEDING_DAY_START_HOUR = 7;
+export const DEFAULT_FEEDING_DAY_END_HOUR = 17;
+
+// Plans are regenerated every morning before the first meal
+export const FEEDING_PLAN_CRON = "0 5 * * *";
+
+// Longest window a plan-versus-actual report covers in one request
+export const MAX_FEEDING_DEVIATION_DAYS = 92;
+
+// Feed stock covering fewer days than this raises a low-stock alert
+export const DEFAULT_LOW_STOCK_DAYS = 7;
+
+// Recent consumption used to split the farm's daily feed across products
+export const FEED_USAGE_WINDOW_DAYS = 14;
@@ -0,0 +1,26 @@
+// Upper bound on fish in one weighing sample, to keep request bodies sane
+export const MAX_GROWTH_SAMPLE_SIZE = 200;
+
+// Recent water temperature thermal-unit projections assume will hold
+export const GROWTH_PROJECTION_TEMPERATURE_DAYS = 14;
+
+// Monte Carlo runs for a harvest simulation, by default and at most
+export const DEFAULT_HARVEST_SIMULATION_RUNS = 1000;
+export const MAX_HARVEST_SIMULATION_RUNS = 10000;
+
+// Days ahead a harvest timing search looks, by default and at most
+export const DEFAULT_HARVEST_TIMING_HORIZON_DAYS = 365;
+export const MAX_HARVEST_TIMING_HORIZON_DAYS = 730;
+
+// Grade logged when a whole batch is harvested without grading
+export const UNGRADED_HARVEST_GRADE = "ungraded";
+
+// Weight CV (%) assumed when grading a batch no sample has been weighed from
+export const DEFAULT_WEIGHT_CV = 20;
+
+// Days ahead a tank capacity forecast looks, by default and at most
+export const DEFAULT_CAPACITY_FORECAST_DAYS = 90;
+export const MAX_CAPACITY_FORECAST_DAYS = 365;
+
+// A forecast warns when a tank fills up within this many days
+export const DEFAULT_CAPACITY_WARNING_DAYS = 14;
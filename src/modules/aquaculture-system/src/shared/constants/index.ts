@@ -0,0 +1,3 @@
+export * from "./feedingConstants";
+export * from "./growthConstants";
+export * from "./mortalityConstants";
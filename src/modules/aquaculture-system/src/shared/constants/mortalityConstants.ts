@@ -0,0 +1,17 @@
+// Deaths within a day, as a percentage of the batch, that raise a critical
+// alert when no MASS_MORTALITY_PERCENT is configured
+export const DEFAULT_MASS_MORTALITY_PERCENT = 5;
+
+// Photos that can be attached to a mortality record
+export const MORTALITY_PHOTO_CONTENT_TYPES = [
+  "image/jpeg",
+  "image/png",
+  "image/webp",
+];
+export const MAX_MORTALITY_PHOTOS = 3;
+export const MAX_MORTALITY_PHOTO_BYTES = 4 * 1024 * 1024;
+
+// Period a mortality report covers unless asked otherwise, and the longest
+// it covers in one request
+export const DEFAULT_MORTALITY_REPORT_DAYS = 30;
+export const MAX_MORTALITY_REPORT_DAYS = 366;
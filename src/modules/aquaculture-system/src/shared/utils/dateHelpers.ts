@@ -0,0 +1,17 @@
+// Calendar date (YYYY-MM-DD) of a moment in the server's local time
+export function toIsoDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+// The moment `minutes` after local midnight on a calendar date (YYYY-MM-DD)
+export function atLocalTime(isoDate: string, minutes: number): Date {
+  const [year, month, day] = isoDate.split("-").map(Number);
+  return new Date(year, month - 1, day, 0, minutes);
+}
+
+// The calendar date (YYYY-MM-DD) `days` after another one
+export function addDays(isoDate: string, days: number): string {
+  return toIsoDate(atLocalTime(isoDate, days * 24 * 60));
+}
@@ -0,0 +1,135 @@
+import { HttpStatus, INestApplication } from '@nestjs/common';
+import { MikroORM } from '@mikro-orm/core';
+import { initializeApp, resetDatabase } from '../util/setup-e2e-test.util';
+import * as request from 'supertest';
+import { CreateFarmBody } from '../../../src/modules/aquaculture-system/src/presentation/validators/farmValidators';
+
+describe('Aquaculture (E2E)', () => {
+  let app: INestApplication;
+  let orm: MikroORM;
+
+  beforeAll(async () => {
+    ({ app, orm } = await initializeApp());
+    await resetDatabase(orm);
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  const farm: CreateFarmBody = {
+    name: 'Nile Valley Fish Farm',
+    location: 'Alexandria, Egypt',
+  };
+
+  it('should not be possible to create a farm without authentication', async () => {
+    await request(app.getHttpServer())
+      .post('/farms')
+      .send(farm)
+      .expect(HttpStatus.FORBIDDEN);
+  });
+
+  it('should be possible to create a farm with a tank by an admin', async () => {
+    const token = await getAdminToken();
+    const farmResponse = await request(app.getHttpServer())
+      .post('/farms')
+      .set('Authorization', `Bearer ${token}`)
+      .send(farm)
+      .expect(HttpStatus.CREATED);
+
+    await request(app.getHttpServer())
+      .post('/tanks')
+      .set('Authorization', `Bearer ${token}`)
+      .send({
+        farmId: farmResponse.body.id,
+        name: 'Tank A1',
+        volumeCubicMeters: 50,
+      })
+      .expect(HttpStatus.CREATED);
+
+    const response = await request(app.getHttpServer())
+      .get(`/farms/${farmResponse.body.id}`)
+      .set('Authorization', `Bearer ${token}`)
+      .expect(HttpStatus.OK);
+    expect(response.body.tanks.length).toBe(1);
+    expect(response.body.statistics.totalTanks).toBe(1);
+  });
+
+  it('should not be possible to stock a batch by an admin', async () => {
+    await request(app.getHttpServer())
+      .post('/batches')
+      .set('Authorization', `Bearer ${await getAdminToken()}`)
+      .send({})
+      .expect(HttpStatus.FORBIDDEN);
+  });
+
+  it('should list the seeded fish types', async () => {
+    const response = await request(app.getHttpServer())
+      .get('/fish-types')
+      .set('Authorization', `Bearer ${await getAdminToken()}`)
+      .expect(HttpStatus.OK);
+    expect(response.body.map((fishType) => fishType.name)).toEqual(
+      expect.arrayContaining([
+        'Nile tilapia',
+        'African catfish',
+        'Mullet',
+        'European sea bass',
+      ]),
+    );
+  });
+
+  it('should not be possible to create a fish type with a mismatched feeding matrix', async () => {
+    const token = await getAdminToken();
+    const [fishType] = (
+      await request(app.getHttpServer())
+        .get('/fish-types')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(HttpStatus.OK)
+    ).body;
+    const parameters = {
+      ...fishType.parameters,
+      feedingRateMatrix: {
+        ...fishType.parameters.feedingRateMatrix,
+        rates: fishType.parameters.feedingRateMatrix.rates.slice(1),
+      },
+    };
+
+    await request(app.getHttpServer())
+      .post('/fish-types')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ name: 'Broken matrix', parameters })
+      .expect(HttpStatus.UNPROCESSABLE_ENTITY);
+  });
+
+  it('should not be possible to revise fish type parameters retroactively', async () => {
+    const token = await getAdminToken();
+    const [fishType] = (
+      await request(app.getHttpServer())
+        .get('/fish-types')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(HttpStatus.OK)
+    ).body;
+
+    await request(app.getHttpServer())
+      .post(`/fish-types/${fishType.id}/versions`)
+      .set('Authorization', `Bearer ${token}`)
+      .send({ parameters: fishType.parameters, effectiveFrom: '2000-01-01' })
+      .expect(HttpStatus.UNPROCESSABLE_ENTITY);
+
+    const versions = (
+      await request(app.getHttpServer())
+        .get(`/fish-types/${fishType.id}/versions`)
+        .set('Authorization', `Bearer ${token}`)
+        .expect(HttpStatus.OK)
+    ).body;
+    expect(versions[0].version).toBe(1);
+  });
+
+  const getAdminToken = async () => {
+    const adminLoginResponse = await request(app.getHttpServer())
+      .post('/auth/login')
+      .send({ email: 'admin@email.com', password: 'Test1234!' })
+      .expect(HttpStatus.CREATED);
+    return adminLoginResponse.body.token;
+  };
+});
@@ -0,0 +1,155 @@
+import { FishBatch } from '../../../src/modules/aquaculture-system/src/domain/entities/FishBatch';
+import { DomainException } from '../../../src/modules/aquaculture-system/src/domain/exceptions/DomainException';
+import {
+  calculateLineagePerformance,
+  mergeBatches,
+  splitBatch,
+} from '../../../src/modules/aquaculture-system/src/domain/services/BatchTransfer';
+import { BatchStatus } from '../../../src/modules/aquaculture-system/src/domain/types/Enums';
+import { BatchStatistics } from '../../../src/modules/aquaculture-system/src/domain/value-objects/BatchStatistics';
+import { WaterQuality } from '../../../src/modules/aquaculture-system/src/domain/value-objects/WaterQuality';
+import { Weight } from '../../../src/modules/aquaculture-system/src/domain/value-objects/Weight';
+
+const waterQuality = WaterQuality.create({
+  temperature: 28,
+  dissolvedOxygen: 7,
+  pH: 7.5,
+  totalAmmonia: 0.2,
+  nitrite: 0.1,
+  measuredAt: new Date('2026-05-01T08:00:00'),
+});
+
+const batchOf = (
+  id: string,
+  fishCount: number,
+  grams: number,
+  fishTypeId = 'tilapia',
+) =>
+  FishBatch.reconstitute({
+    id,
+    tankId: 'tank-1',
+    fishTypeId,
+    stockedDate: new Date('2026-03-01T08:00:00'),
+    initialCount: fishCount,
+    initialWeight: Weight.fromGrams(10),
+    parentBatchIds: [],
+    currentStats: BatchStatistics.create(fishCount, Weight.fromGrams(grams)),
+    growthHistory: [],
+    feedingHistory: [],
+    harvestHistory: [],
+    transferHistory: [],
+    mortalityHistory: [],
+    countHistory: [],
+    status: BatchStatus.ACTIVE,
+  });
+
+const movedAt = new Date('2026-05-01T08:00:00');
+
+describe('batch split', () => {
+  it('moves part of a batch into a child that remembers its parent', () => {
+    const source = batchOf('batch-1', 1000, 200);
+    const child = splitBatch(source, {
+      childId: 'batch-2',
+      toTankId: 'tank-2',
+      fishCount: 400,
+      averageWeight: Weight.fromGrams(250),
+      transferredAt: movedAt,
+    });
+
+    expect(child.getTankId()).toBe('tank-2');
+    expect(child.getParentBatchIds()).toEqual(['batch-1']);
+    expect(child.getInitialCount()).toBe(400);
+    expect(child.getInitialWeight().toGrams()).toBe(250);
+    expect(child.getStockedDate()).toEqual(movedAt);
+
+    expect(source.getStatus()).toBe(BatchStatus.ACTIVE);
+    expect(source.getCurrentStats().fishCount).toBe(600);
+    expect(source.getCurrentStats().averageWeight.toGrams()).toBeCloseTo(
+      (200000 - 100000) / 600,
+    );
+    expect(source.getTransferHistory()[0].toBatchId).toBe('batch-2');
+  });
+
+  it('leaves the source MOVED when every fish goes', () => {
+    const source = batchOf('batch-1', 1000, 200);
+    const child = splitBatch(source, {
+      childId: 'batch-2',
+      toTankId: 'tank-2',
+      fishCount: 1000,
+      averageWeight: Weight.fromGrams(500),
+      transferredAt: movedAt,
+    });
+
+    expect(source.getStatus()).toBe(BatchStatus.MOVED);
+    expect(source.getCurrentStats().fishCount).toBe(0);
+    expect(source.getCurrentStats().survivalRate).toBe(100);
+    // The last fish take the batch average, whatever was asked for
+    expect(child.getInitialWeight().toGrams()).toBe(200);
+  });
+
+  it('rejects moving more fish than the batch holds', () => {
+    expect(() =>
+      splitBatch(batchOf('batch-1', 100, 200), {
+        childId: 'batch-2',
+        toTankId: 'tank-2',
+        fishCount: 101,
+      }),
+    ).toThrow(DomainException);
+  });
+});
+
+describe('batch merge', () => {
+  it('joins batches at their weighted average weight', () => {
+    const first = batchOf('batch-1', 300, 100);
+    const second = batchOf('batch-2', 100, 300);
+    const merged = mergeBatches([first, second], {
+      childId: 'batch-3',
+      toTankId: 'tank-2',
+      mergedAt: movedAt,
+    });
+
+    expect(merged.getInitialCount()).toBe(400);
+    expect(merged.getInitialWeight().toGrams()).toBeCloseTo(150);
+    expect(merged.getParentBatchIds()).toEqual(['batch-1', 'batch-2']);
+    expect(first.getStatus()).toBe(BatchStatus.MOVED);
+    expect(second.getStatus()).toBe(BatchStatus.MOVED);
+  });
+
+  it('only merges different batches of one fish type', () => {
+    const params = { childId: 'batch-3', toTankId: 'tank-2' };
+    const batch = batchOf('batch-1', 300, 100);
+
+    expect(() => mergeBatches([batch, batch], params)).toThrow(DomainException);
+    expect(() =>
+      mergeBatches([batch, batchOf('batch-2', 100, 300, 'carp')], params),
+    ).toThrow(DomainException);
+  });
+});
+
+describe('lineage performance', () => {
+  it('computes FCR across a move from the feed of every tank', () => {
+    const source = batchOf('batch-1', 1000, 100);
+    source.recordFeeding(Weight.fromKilograms(135), 3, waterQuality, {
+      fedAt: new Date('2026-04-01T08:00:00'),
+    });
+    const child = splitBatch(source, {
+      childId: 'batch-2',
+      toTankId: 'tank-2',
+      fishCount: 1000,
+      transferredAt: movedAt,
+    });
+    child.recordGrowth(Weight.fromGrams(200), new Date('2026-06-01T08:00:00'));
+    child.recordFeeding(Weight.fromKilograms(150), 3, waterQuality, {
+      fedAt: new Date('2026-05-15T08:00:00'),
+    });
+
+    const lineage = calculateLineagePerformance([source, child]);
+
+    // 10g to 200g over 1000 fish on 285 kg of feed
+    expect(lineage.weightGain.toKilograms()).toBeCloseTo(190);
+    expect(lineage.feedConsumed.toKilograms()).toBeCloseTo(285);
+    expect(lineage.fcr).toBeCloseTo(1.5);
+    expect(source.calculateFCR()).toBeCloseTo(1.5);
+    expect(child.calculateFCR()).toBeCloseTo(1.5);
+  });
+});
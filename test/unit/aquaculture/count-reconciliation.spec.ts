@@ -0,0 +1,88 @@
+import { FishBatch } from '../../../src/modules/aquaculture-system/src/domain/entities/FishBatch';
+import { DomainException } from '../../../src/modules/aquaculture-system/src/domain/exceptions/DomainException';
+import { InactiveBatchException } from '../../../src/modules/aquaculture-system/src/domain/exceptions/InactiveBatchException';
+import { BatchStatus } from '../../../src/modules/aquaculture-system/src/domain/types/Enums';
+import { Weight } from '../../../src/modules/aquaculture-system/src/domain/value-objects/Weight';
+
+const newBatch = () =>
+  FishBatch.create({
+    id: 'batch-1',
+    tankId: 'tank-1',
+    fishTypeId: 'tilapia',
+    fishCount: 1000,
+    initialWeight: Weight.fromGrams(200),
+    stockedDate: new Date('2026-05-01T08:00:00'),
+  });
+
+describe('fish count reconciliation', () => {
+  it('books the shortfall against the count as unexplained loss', () => {
+    const batch = newBatch();
+    batch.recordMortality(50, { recordedAt: new Date('2026-05-10T08:00:00') });
+    const count = batch.reconcileCount(900, {
+      countedAt: new Date('2026-06-01T08:00:00'),
+      notes: 'Net damaged on the north side',
+    });
+
+    expect(count.bookCount).toBe(950);
+    expect(count.unexplainedLoss).toBe(50);
+    expect(count.notes).toBe('Net damaged on the north side');
+
+    const stats = batch.getCurrentStats();
+    expect(stats.fishCount).toBe(900);
+    expect(stats.averageWeight.toGrams()).toBe(200);
+    expect(stats.survivalRate).toBe(90);
+    expect(batch.getBookSurvivalRate()).toBe(95);
+    expect(batch.getUnexplainedLoss()).toBe(50);
+  });
+
+  it('carries counted losses into later mortality and harvests', () => {
+    const batch = newBatch();
+    batch.reconcileCount(950, { countedAt: new Date('2026-06-01T08:00:00') });
+    batch.recordHarvest({
+      grades: [
+        { grade: 'large', fishCount: 450, biomass: Weight.fromKilograms(100) },
+      ],
+      harvestedAt: new Date('2026-06-02T08:00:00'),
+    });
+    batch.recordMortality(10, { recordedAt: new Date('2026-06-03T08:00:00') });
+
+    expect(batch.getCurrentStats().fishCount).toBe(490);
+    expect(batch.getCurrentStats().survivalRate).toBe(94);
+    expect(batch.getBookSurvivalRate()).toBe(99);
+  });
+
+  it('nets fish found against fish missing', () => {
+    const batch = newBatch();
+    batch.recordMortality(100, { recordedAt: new Date('2026-05-10T08:00:00') });
+    batch.reconcileCount(880, { countedAt: new Date('2026-06-01T08:00:00') });
+    const recount = batch.reconcileCount(920, {
+      countedAt: new Date('2026-06-02T08:00:00'),
+    });
+
+    expect(recount.unexplainedLoss).toBe(-40);
+    expect(batch.getUnexplainedLoss()).toBe(-20);
+    expect(batch.getCurrentStats().survivalRate).toBe(92);
+    expect(batch.getBookSurvivalRate()).toBe(90);
+  });
+
+  it('loses a batch counted empty', () => {
+    const batch = newBatch();
+    batch.reconcileCount(0, { countedAt: new Date('2026-06-01T08:00:00') });
+
+    expect(batch.getStatus()).toBe(BatchStatus.LOST);
+    expect(batch.getCurrentStats().survivalRate).toBe(0);
+    expect(() => batch.reconcileCount(0)).toThrow(InactiveBatchException);
+  });
+
+  it('rejects counts it cannot reconcile', () => {
+    const batch = newBatch();
+    batch.reconcileCount(990, { countedAt: new Date('2026-06-01T08:00:00') });
+
+    expect(() => batch.reconcileCount(1001)).toThrow(DomainException);
+    expect(() => batch.reconcileCount(10.5)).toThrow(DomainException);
+    expect(() =>
+      batch.reconcileCount(980, { countedAt: new Date('2026-05-20T08:00:00') }),
+    ).toThrow(DomainException);
+    expect(batch.getCountHistory()).toHaveLength(1);
+  });
+});
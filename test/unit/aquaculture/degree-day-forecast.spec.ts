@@ -0,0 +1,124 @@
+import { Farm } from '../../../src/modules/aquaculture-system/src/domain/aggregates/Farm';
+import { DomainException } from '../../../src/modules/aquaculture-system/src/domain/exceptions/DomainException';
+import { forecastHarvestByDegreeDays } from '../../../src/modules/aquaculture-system/src/domain/services/DegreeDayForecast';
+import { expectedTemperatureOn } from '../../../src/modules/aquaculture-system/src/domain/services/SeasonalTemperature';
+import { SeasonalTemperatureProfile } from '../../../src/modules/aquaculture-system/src/domain/types/WaterQualityTypes';
+import { WaterQuality } from '../../../src/modules/aquaculture-system/src/domain/value-objects/WaterQuality';
+import { Weight } from '../../../src/modules/aquaculture-system/src/domain/value-objects/Weight';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const flatProfile = (
+  temperature: number,
+  variation: number,
+): SeasonalTemperatureProfile => ({
+  monthlyMeanTemperatures: Array(12).fill(temperature),
+  variation,
+});
+
+const reading = (temperature: number, measuredAt: Date) =>
+  WaterQuality.create({
+    temperature,
+    dissolvedOxygen: 7,
+    pH: 7.5,
+    totalAmmonia: 0.2,
+    nitrite: 0.1,
+    measuredAt,
+  });
+
+describe('seasonal temperature profile', () => {
+  const profile: SeasonalTemperatureProfile = {
+    monthlyMeanTemperatures: [10, 12, 16, 20, 24, 28, 30, 30, 27, 23, 20, 20],
+    variation: 2,
+  };
+
+  it('holds each monthly mean at the middle of its month', () => {
+    expect(
+      expectedTemperatureOn(profile, new Date(2026, 0, 16, 12)),
+    ).toBeCloseTo(10);
+    expect(
+      expectedTemperatureOn(profile, new Date(2026, 6, 16, 12)),
+    ).toBeCloseTo(30);
+  });
+
+  it('interpolates across the turn of the year', () => {
+    expect(expectedTemperatureOn(profile, new Date(2026, 0, 1))).toBeCloseTo(
+      15,
+    );
+  });
+
+  it('is only accepted by a farm with twelve months and a positive spread', () => {
+    const farm = Farm.create({ id: 'farm-1', name: 'Farm', location: 'Delta' });
+
+    expect(() =>
+      farm.setTemperatureProfile({
+        monthlyMeanTemperatures: Array(11).fill(25),
+        variation: 2,
+      }),
+    ).toThrow(DomainException);
+    expect(() => farm.setTemperatureProfile(flatProfile(25, -1))).toThrow(
+      DomainException,
+    );
+
+    farm.setTemperatureProfile(flatProfile(25, 2));
+    expect(farm.getTemperatureProfile()?.variation).toBe(2);
+  });
+});
+
+describe('degree-day harvest forecast', () => {
+  const currentDate = new Date('2026-06-01T08:00:00');
+  const lastWeighedAt = new Date(currentDate.getTime() - 10 * DAY_MS);
+  const tgc = 2.5;
+  // 250 °C·days since the weighing, then 490 more to reach the target
+  const currentRoot = Math.cbrt(100) + (tgc / 1000) * 250;
+  const targetWeight = Weight.fromGrams(
+    Math.pow(currentRoot + (tgc / 1000) * 490, 3),
+  );
+
+  const forecast = (profile: SeasonalTemperatureProfile) =>
+    forecastHarvestByDegreeDays({
+      fishCount: 1000,
+      lastWeight: Weight.fromGrams(100),
+      lastWeighedAt,
+      tgc,
+      readings: [reading(25, lastWeighedAt)],
+      profile,
+      targetWeight,
+      survivalRate: 90,
+      currentDate,
+    });
+
+  it('grows the fish on over recorded degree-days since the last weighing', () => {
+    const result = forecast(flatProfile(25, 5));
+
+    expect(result.degreeDaysSinceWeighing).toBeCloseTo(250);
+    expect(result.estimatedCurrentWeight.toGrams()).toBeCloseTo(
+      Math.pow(currentRoot, 3),
+    );
+    expect(result.degreeDaysToHarvest).toBeCloseTo(490);
+    expect(result.expectedFinalCount).toBe(900);
+  });
+
+  it('returns a date range from warmer and cooler seasons', () => {
+    const result = forecast(flatProfile(25, 5));
+    const daysFromNow = (date: Date | null) =>
+      Math.round((date!.getTime() - currentDate.getTime()) / DAY_MS);
+
+    expect(daysFromNow(result.earliestHarvestDate)).toBe(17);
+    expect(daysFromNow(result.expectedHarvestDate)).toBe(20);
+    expect(daysFromNow(result.latestHarvestDate)).toBe(25);
+  });
+
+  it('leaves the latest date open when a cool season stops growth', () => {
+    const result = forecast(flatProfile(4, 5));
+
+    expect(result.latestHarvestDate).toBeNull();
+    expect(result.expectedHarvestDate.getTime()).toBeGreaterThan(
+      result.earliestHarvestDate.getTime(),
+    );
+  });
+
+  it('rejects a target the expected temperatures never reach', () => {
+    expect(() => forecast(flatProfile(0, 0))).toThrow(DomainException);
+  });
+});
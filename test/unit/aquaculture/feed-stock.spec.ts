@@ -0,0 +1,221 @@
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { fromNullable } from 'effect/Option';
+import { IUnitOfWork } from '../../../src/modules/aquaculture-system/src/application/services/UnitOfWork';
+import { RecordFeedingUseCase } from '../../../src/modules/aquaculture-system/src/application/use-cases/batch/RecordFeeding';
+import { FeedProduct } from '../../../src/modules/aquaculture-system/src/domain/entities/FeedProduct';
+import { FishBatch } from '../../../src/modules/aquaculture-system/src/domain/entities/FishBatch';
+import { Tank } from '../../../src/modules/aquaculture-system/src/domain/entities/Tank';
+import { DomainException } from '../../../src/modules/aquaculture-system/src/domain/exceptions/DomainException';
+import {
+  buildStockLedger,
+  calculateStockLevels,
+  createFeedStockMovement,
+} from '../../../src/modules/aquaculture-system/src/domain/services/FeedStock';
+import { IBatchRepository } from '../../../src/modules/aquaculture-system/src/domain/repositories/IBatchRepository';
+import { IFeedLotRepository } from '../../../src/modules/aquaculture-system/src/domain/repositories/IFeedLotRepository';
+import { IFeedProductRepository } from '../../../src/modules/aquaculture-system/src/domain/repositories/IFeedProductRepository';
+import { IFeedStockRepository } from '../../../src/modules/aquaculture-system/src/domain/repositories/IFeedStockRepository';
+import { ITankRepository } from '../../../src/modules/aquaculture-system/src/domain/repositories/ITankRepository';
+import {
+  FeedStockMovementType,
+  TankStatus,
+} from '../../../src/modules/aquaculture-system/src/domain/types/Enums';
+import { FeedStockMovement } from '../../../src/modules/aquaculture-system/src/domain/types/FeedInventoryTypes';
+import { Volume } from '../../../src/modules/aquaculture-system/src/domain/value-objects/Volume';
+import { WaterQuality } from '../../../src/modules/aquaculture-system/src/domain/value-objects/WaterQuality';
+import { Weight } from '../../../src/modules/aquaculture-system/src/domain/value-objects/Weight';
+
+const movement = (
+  type: FeedStockMovementType,
+  kg: number,
+  occurredAt: string,
+) =>
+  createFeedStockMovement({
+    id: `${type}-${occurredAt}`,
+    farmId: 'farm-1',
+    feedProductId: 'grower',
+    feedLotId: null,
+    type,
+    quantity: Weight.fromKilograms(kg),
+    occurredAt: new Date(occurredAt),
+    unitPricePerKg: type === FeedStockMovementType.RECEIPT ? 1.2 : null,
+    batchId: type === FeedStockMovementType.CONSUMPTION ? 'batch-1' : null,
+    reference: null,
+  });
+
+describe('feed stock', () => {
+  it('keeps a running balance through receipts and consumption', () => {
+    const ledger = buildStockLedger(100_000, [
+      movement(FeedStockMovementType.RECEIPT, 500, '2026-06-01T08:00:00'),
+      movement(FeedStockMovementType.CONSUMPTION, 40, '2026-06-01T12:00:00'),
+      movement(FeedStockMovementType.CONSUMPTION, 60, '2026-06-02T12:00:00'),
+    ]);
+
+    expect(ledger.entries.map((entry) => entry.balanceGrams)).toEqual([
+      600_000, 560_000, 500_000,
+    ]);
+    expect(ledger.closingBalanceGrams).toBe(500_000);
+  });
+
+  it('splits the daily requirement by recent usage to work out days of cover', () => {
+    const levels = calculateStockLevels(
+      new Map([
+        ['grower', 300_000],
+        ['starter', 20_000],
+        ['finisher', 50_000],
+      ]),
+      new Map([
+        ['grower', 750_000],
+        ['starter', 250_000],
+      ]),
+      Weight.fromKilograms(40),
+      7,
+    );
+    const byProduct = new Map(
+      levels.map((level) => [level.feedProductId, level]),
+    );
+
+    expect(byProduct.get('grower')?.dailyUsage?.toKilograms()).toBe(30);
+    expect(byProduct.get('grower')?.daysOfCover).toBe(10);
+    expect(byProduct.get('grower')?.lowStock).toBe(false);
+    expect(byProduct.get('starter')?.daysOfCover).toBe(2);
+    expect(byProduct.get('starter')?.lowStock).toBe(true);
+    // Not being fed, so it cannot run out
+    expect(byProduct.get('finisher')?.daysOfCover).toBeNull();
+    expect(byProduct.get('finisher')?.lowStock).toBe(false);
+  });
+
+  it('counts overdrawn stock as no cover at all', () => {
+    const [level] = calculateStockLevels(
+      new Map([['grower', -5_000]]),
+      new Map(),
+      Weight.fromKilograms(10),
+      3,
+    );
+
+    expect(level.daysOfCover).toBe(0);
+    expect(level.lowStock).toBe(true);
+  });
+
+  it('rejects movements dated in the future', () => {
+    expect(() =>
+      movement(FeedStockMovementType.RECEIPT, 10, '2999-01-01T00:00:00'),
+    ).toThrow(DomainException);
+  });
+});
+
+describe('feeding stock deduction', () => {
+  // Writes made inside a unit of work are kept only if all of it succeeds
+  const recordFeeding = (stockFails = false) => {
+    const committed: Array<FishBatch | FeedStockMovement> = [];
+    const pending: Array<FishBatch | FeedStockMovement> = [];
+    const unitOfWork: IUnitOfWork = {
+      run: async (work) => {
+        try {
+          const result = await work();
+          committed.push(...pending);
+          return result;
+        } finally {
+          pending.length = 0;
+        }
+      },
+    };
+    const batch = FishBatch.create({
+      id: 'batch-1',
+      tankId: 'tank-1',
+      fishTypeId: 'tilapia',
+      fishCount: 1000,
+      initialWeight: Weight.fromGrams(50),
+      stockedDate: new Date('2026-05-01T08:00:00'),
+    });
+    const tank = Tank.reconstitute({
+      id: 'tank-1',
+      farmId: 'farm-1',
+      name: 'tank-1',
+      volume: Volume.fromCubicMeters(10),
+      status: TankStatus.ACTIVE,
+      batches: [batch],
+      waterQuality: WaterQuality.create({
+        temperature: 28,
+        dissolvedOxygen: 7,
+        pH: 7.5,
+        totalAmmonia: 0.2,
+        nitrite: 0.1,
+        measuredAt: new Date('2026-06-01T06:00:00'),
+      }),
+      capacityLimits: { maxStockingDensity: null, oxygenSupply: null },
+    });
+    const grower = FeedProduct.create({
+      id: 'grower',
+      name: 'Grower',
+      brand: 'Aqua',
+      pelletSizeMm: 3,
+      proteinPercent: 32,
+      pricePerKg: 1.2,
+    });
+    const feedStockRepository = {
+      save: async (movement: FeedStockMovement) => {
+        if (stockFails) throw new Error('connection lost');
+        pending.push(movement);
+        return movement;
+      },
+    } as IFeedStockRepository;
+    const eventEmitter = new EventEmitter2();
+    const emitted = jest.fn();
+    eventEmitter.on('feeding.recorded', emitted);
+
+    const useCase = new RecordFeedingUseCase(
+      {
+        findById: async (id: string) =>
+          fromNullable(id === 'batch-1' ? batch : null),
+        save: async (saved: FishBatch) => {
+          pending.push(saved);
+          return saved;
+        },
+      } as IBatchRepository,
+      {
+        findById: async (id: string) =>
+          fromNullable(id === 'tank-1' ? tank : null),
+      } as ITankRepository,
+      {
+        findById: async (id: string) =>
+          fromNullable(id === 'grower' ? grower : null),
+      } as IFeedProductRepository,
+      {} as IFeedLotRepository,
+      feedStockRepository,
+      unitOfWork,
+      eventEmitter,
+    );
+    const feed = () =>
+      useCase.execute({
+        batchId: 'batch-1',
+        feedAmountKg: 12,
+        mealsPerDay: 3,
+        feedProductId: 'grower',
+        fedAt: new Date('2026-06-01T08:00:00'),
+      });
+    return { feed, committed, emitted };
+  };
+
+  it('stores the feeding and its deduction together', async () => {
+    const { feed, committed, emitted } = recordFeeding();
+
+    await feed();
+
+    const [, deduction] = committed as [FishBatch, FeedStockMovement];
+    expect(committed).toHaveLength(2);
+    expect(deduction.type).toBe(FeedStockMovementType.CONSUMPTION);
+    expect(deduction.quantity.toKilograms()).toBeCloseTo(12);
+    expect(deduction.farmId).toBe('farm-1');
+    expect(deduction.batchId).toBe('batch-1');
+    expect(emitted).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps neither when the deduction fails', async () => {
+    const { feed, committed, emitted } = recordFeeding(true);
+
+    await expect(feed()).rejects.toThrow('connection lost');
+    expect(committed).toHaveLength(0);
+    expect(emitted).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,89 @@
+import { FeedLot } from '../../../src/modules/aquaculture-system/src/domain/entities/FeedLot';
+import { FishBatch } from '../../../src/modules/aquaculture-system/src/domain/entities/FishBatch';
+import { DomainException } from '../../../src/modules/aquaculture-system/src/domain/exceptions/DomainException';
+import { ExpiredFeedLotException } from '../../../src/modules/aquaculture-system/src/domain/exceptions/ExpiredFeedLotException';
+import { traceFeedLots } from '../../../src/modules/aquaculture-system/src/domain/services/FeedTrace';
+import { WaterQuality } from '../../../src/modules/aquaculture-system/src/domain/value-objects/WaterQuality';
+import { Weight } from '../../../src/modules/aquaculture-system/src/domain/value-objects/Weight';
+
+const waterQuality = WaterQuality.create({
+  temperature: 28,
+  dissolvedOxygen: 6,
+  pH: 7.5,
+  totalAmmonia: 0.2,
+  nitrite: 0.1,
+  measuredAt: new Date('2026-06-01T06:00:00'),
+});
+
+const lot = () =>
+  FeedLot.create({
+    id: 'lot-1',
+    feedProductId: 'grower',
+    lotNumber: 'L-2026-041',
+    supplier: 'Aqua Feeds Ltd',
+    manufacturedAt: new Date('2026-04-01T00:00:00'),
+    expiresAt: new Date('2026-07-01T00:00:00'),
+  });
+
+describe('feed lots', () => {
+  it('can be fed from between manufacture and expiry', () => {
+    expect(() =>
+      lot().assertUsableOn(new Date('2026-06-30T12:00:00')),
+    ).not.toThrow();
+  });
+
+  it('blocks feeding from an expired lot', () => {
+    expect(() => lot().assertUsableOn(new Date('2026-07-01T00:00:00'))).toThrow(
+      ExpiredFeedLotException,
+    );
+  });
+
+  it('rejects a lot that expires before it was made', () => {
+    expect(() =>
+      FeedLot.create({
+        id: 'lot-2',
+        feedProductId: 'grower',
+        lotNumber: 'L-1',
+        supplier: 'Aqua Feeds Ltd',
+        manufacturedAt: new Date('2026-04-01T00:00:00'),
+        expiresAt: new Date('2026-03-01T00:00:00'),
+      }),
+    ).toThrow(DomainException);
+  });
+});
+
+describe('feed trace', () => {
+  it('totals feed per lot in the order the batch first ate them', () => {
+    const batch = FishBatch.create({
+      id: 'batch-1',
+      tankId: 'tank-1',
+      fishTypeId: 'tilapia',
+      fishCount: 1000,
+      initialWeight: Weight.fromGrams(10),
+      stockedDate: new Date('2026-05-01T08:00:00'),
+    });
+    const feed = (fedAt: string, kg: number, feedLotId?: string) =>
+      batch.recordFeeding(Weight.fromKilograms(kg), 2, waterQuality, {
+        feedProductId: 'grower',
+        feedLotId,
+        fedAt: new Date(fedAt),
+      });
+    feed('2026-06-02T08:00:00', 2, 'lot-b');
+    feed('2026-06-01T08:00:00', 1, 'lot-a');
+    feed('2026-06-01T16:00:00', 1.5);
+    feed('2026-06-03T08:00:00', 3, 'lot-a');
+
+    const trace = traceFeedLots('batch-1', batch.getFeedingHistory());
+
+    expect(trace.lots.map((usage) => usage.feedLotId)).toEqual([
+      'lot-a',
+      'lot-b',
+    ]);
+    expect(trace.lots[0].feedings).toBe(2);
+    expect(trace.lots[0].totalFeed.toKilograms()).toBeCloseTo(4);
+    expect(trace.lots[0].firstFedAt).toEqual(new Date('2026-06-01T08:00:00'));
+    expect(trace.lots[0].lastFedAt).toEqual(new Date('2026-06-03T08:00:00'));
+    expect(trace.untracedFeed.toKilograms()).toBeCloseTo(1.5);
+    expect(trace.untracedFeedings).toBe(1);
+  });
+});
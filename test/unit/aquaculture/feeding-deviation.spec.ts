@@ -0,0 +1,141 @@
+import { FishBatch } from '../../../src/modules/aquaculture-system/src/domain/entities/FishBatch';
+import { DomainException } from '../../../src/modules/aquaculture-system/src/domain/exceptions/DomainException';
+import { compareFeedingWithPlan } from '../../../src/modules/aquaculture-system/src/domain/services/FeedingDeviation';
+import { BatchStatus } from '../../../src/modules/aquaculture-system/src/domain/types/Enums';
+import { BatchFeedingPlan } from '../../../src/modules/aquaculture-system/src/domain/types/FeedingTypes';
+import { BatchStatistics } from '../../../src/modules/aquaculture-system/src/domain/value-objects/BatchStatistics';
+import { WaterQuality } from '../../../src/modules/aquaculture-system/src/domain/value-objects/WaterQuality';
+import { Weight } from '../../../src/modules/aquaculture-system/src/domain/value-objects/Weight';
+
+const waterQuality = WaterQuality.create({
+  temperature: 28,
+  dissolvedOxygen: 6,
+  pH: 7.5,
+  totalAmmonia: 0.2,
+  nitrite: 0.1,
+  measuredAt: new Date('2026-06-01T06:00:00'),
+});
+
+const newBatch = () =>
+  FishBatch.create({
+    id: 'batch-1',
+    tankId: 'tank-1',
+    fishTypeId: 'tilapia',
+    fishCount: 1000,
+    initialWeight: Weight.fromGrams(10),
+    stockedDate: new Date('2026-05-01T08:00:00'),
+  });
+
+const plan = (totalGrams: number, meals: number): BatchFeedingPlan => ({
+  batchId: 'batch-1',
+  requirement: {
+    totalDailyFeed: Weight.fromGrams(totalGrams),
+    feedPerMeal: Weight.fromGrams(totalGrams / meals),
+    mealsPerDay: meals,
+    safetyStatus: 'OK',
+    factors: { temperature: 1, oxygen: 1, ammonia: 1, nitrite: 1, ph: 1 },
+  },
+  meals: Array.from({ length: meals }, (_, index) => ({
+    mealNumber: index + 1,
+    scheduledAt: new Date(
+      `2026-06-01T${String(7 + index * 5).padStart(2, '0')}:00:00`,
+    ),
+    feedAmount: Weight.fromGrams(totalGrams / meals),
+  })),
+});
+
+describe('feeding against the plan', () => {
+  it('records each delivered meal with its product and uneaten share', () => {
+    const batch = newBatch();
+    const record = batch.recordFeeding(Weight.fromGrams(400), 3, waterQuality, {
+      mealNumber: 1,
+      feedProductId: 'feed-grower-32',
+      uneatenPercent: 10,
+      fedAt: new Date('2026-06-01T07:05:00'),
+    });
+
+    expect(record.mealNumber).toBe(1);
+    expect(record.feedProductId).toBe('feed-grower-32');
+    expect(batch.getTotalFeedDelivered().toGrams()).toBe(400);
+    expect(batch.getTotalFeedConsumed().toGrams()).toBeCloseTo(360);
+  });
+
+  it('rejects an uneaten share outside 0-100% and meals outside the day', () => {
+    const batch = newBatch();
+    expect(() =>
+      batch.recordFeeding(Weight.fromGrams(400), 3, waterQuality, {
+        uneatenPercent: 120,
+      }),
+    ).toThrow(DomainException);
+    expect(() =>
+      batch.recordFeeding(Weight.fromGrams(400), 3, waterQuality, {
+        mealNumber: 4,
+      }),
+    ).toThrow(DomainException);
+  });
+
+  it('bases FCR on feed eaten rather than feed delivered', () => {
+    const batch = FishBatch.reconstitute({
+      id: 'batch-1',
+      tankId: 'tank-1',
+      fishTypeId: 'tilapia',
+      stockedDate: new Date('2026-05-01T08:00:00'),
+      initialCount: 1000,
+      initialWeight: Weight.fromGrams(10),
+      parentBatchIds: [],
+      currentStats: BatchStatistics.create(1000, Weight.fromGrams(20)),
+      growthHistory: [],
+      feedingHistory: [],
+      harvestHistory: [],
+      transferHistory: [],
+      mortalityHistory: [],
+      countHistory: [],
+      status: BatchStatus.ACTIVE,
+    });
+    batch.recordFeeding(Weight.fromKilograms(15), 3, waterQuality, {
+      uneatenPercent: 20,
+      fedAt: new Date('2026-06-01T12:00:00'),
+    });
+
+    // 12 kg eaten for 10 kg of gain
+    expect(batch.calculateFCR()).toBeCloseTo(1.2);
+  });
+
+  it('reports the day’s deviation from plan per batch', () => {
+    const batch = newBatch();
+    for (const [mealNumber, hour] of [
+      [1, '07'],
+      [2, '12'],
+    ] as const) {
+      batch.recordFeeding(Weight.fromGrams(500), 3, waterQuality, {
+        mealNumber,
+        uneatenPercent: 5,
+        fedAt: new Date(`2026-06-01T${hour}:10:00`),
+      });
+    }
+
+    const deviation = compareFeedingWithPlan(
+      'batch-1',
+      '2026-06-01',
+      plan(1500, 3),
+      batch.getFeedingHistory(),
+    );
+
+    expect(deviation.plannedFeed?.toGrams()).toBe(1500);
+    expect(deviation.plannedMeals).toBe(3);
+    expect(deviation.deliveredFeed.toGrams()).toBe(1000);
+    expect(deviation.consumedFeed.toGrams()).toBeCloseTo(950);
+    expect(deviation.deliveredMeals).toBe(2);
+    expect(deviation.deviationGrams).toBe(-500);
+    expect(deviation.deviationPercent).toBeCloseTo(-33.33, 2);
+  });
+
+  it('leaves the deviation empty on days without a plan', () => {
+    const deviation = compareFeedingWithPlan('batch-1', '2026-06-02', null, []);
+
+    expect(deviation.plannedFeed).toBeNull();
+    expect(deviation.deviationGrams).toBeNull();
+    expect(deviation.deviationPercent).toBeNull();
+    expect(deviation.deliveredMeals).toBe(0);
+  });
+});
@@ -0,0 +1,75 @@
+import { ConfigService } from '@nestjs/config';
+import { FeedingSchedulerService } from '../../../src/modules/aquaculture-system/src/application/services/FeedingSchedulerService';
+import { IFarmRepository } from '../../../src/modules/aquaculture-system/src/domain/repositories/IFarmRepository';
+import { IFeedingPlanRepository } from '../../../src/modules/aquaculture-system/src/domain/repositories/IFeedingPlanRepository';
+import { IFishTypeRepository } from '../../../src/modules/aquaculture-system/src/domain/repositories/IFishTypeRepository';
+import { ITankRepository } from '../../../src/modules/aquaculture-system/src/domain/repositories/ITankRepository';
+import { FeedingRequirement } from '../../../src/modules/aquaculture-system/src/domain/types/FeedingTypes';
+import { Weight } from '../../../src/modules/aquaculture-system/src/domain/value-objects/Weight';
+
+const scheduler = (config: Record<string, unknown> = {}) =>
+  new FeedingSchedulerService(
+    {} as ITankRepository,
+    {} as IFarmRepository,
+    {} as IFishTypeRepository,
+    {} as IFeedingPlanRepository,
+    new ConfigService(config),
+  );
+
+const requirement = (
+  mealsPerDay: number,
+  safetyStatus: FeedingRequirement['safetyStatus'] = 'OK',
+): FeedingRequirement => ({
+  totalDailyFeed: Weight.fromGrams(1200),
+  feedPerMeal: Weight.fromGrams(1200 / mealsPerDay),
+  mealsPerDay,
+  safetyStatus,
+  factors: {
+    temperature: 1,
+    oxygen: 1,
+    ammonia: 1,
+    nitrite: 1,
+    ph: 1,
+  },
+});
+
+const localTime = (date: Date) =>
+  `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+
+describe('FeedingSchedulerService', () => {
+  it('spreads meals evenly from the start to the end of the feeding day', () => {
+    const meals = scheduler().scheduleMeals(requirement(3), '2026-06-01');
+
+    expect(meals.map((meal) => meal.mealNumber)).toEqual([1, 2, 3]);
+    expect(meals.map((meal) => localTime(meal.scheduledAt))).toEqual([
+      '07:00',
+      '12:00',
+      '17:00',
+    ]);
+    expect(meals.every((meal) => meal.feedAmount.toGrams() === 400)).toBe(true);
+    expect(meals[0].scheduledAt.getDate()).toBe(1);
+  });
+
+  it('serves a single meal in the middle of the configured window', () => {
+    const meals = scheduler({
+      FEEDING_DAY_START_HOUR: '6',
+      FEEDING_DAY_END_HOUR: '18',
+    }).scheduleMeals(requirement(1), '2026-06-01');
+
+    expect(meals).toHaveLength(1);
+    expect(localTime(meals[0].scheduledAt)).toBe('12:00');
+    expect(meals[0].feedAmount.toGrams()).toBe(1200);
+  });
+
+  it('plans no meals while feeding is stopped', () => {
+    expect(
+      scheduler().scheduleMeals(requirement(3, 'STOPPED'), '2026-06-01'),
+    ).toEqual([]);
+  });
+
+  it('rejects a feeding day that ends before it starts', () => {
+    expect(() =>
+      scheduler({ FEEDING_DAY_START_HOUR: '18', FEEDING_DAY_END_HOUR: '6' }),
+    ).toThrow('Invalid feeding day');
+  });
+});
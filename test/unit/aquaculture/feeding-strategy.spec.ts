@@ -0,0 +1,456 @@
+import { Farm } from '../../../src/modules/aquaculture-system/src/domain/aggregates/Farm';
+import { FishBatch } from '../../../src/modules/aquaculture-system/src/domain/entities/FishBatch';
+import { FishType } from '../../../src/modules/aquaculture-system/src/domain/entities/FishType';
+import { Tank } from '../../../src/modules/aquaculture-system/src/domain/entities/Tank';
+import { FeedingCalculationService } from '../../../src/modules/aquaculture-system/src/domain/services/FeedingCalculationService';
+import { interpolateFeedingRate } from '../../../src/modules/aquaculture-system/src/domain/services/FeedingRateInterpolation';
+import {
+  FeedingStrategy,
+  FeedingStrategyInput,
+} from '../../../src/modules/aquaculture-system/src/domain/services/FeedingStrategy';
+import { MatrixFeedingStrategy } from '../../../src/modules/aquaculture-system/src/domain/services/MatrixFeedingStrategy';
+import {
+  defaultSafetyFactorCurves,
+  evaluateSafetyFactorCurve,
+  withDefaultSafetyFactorCurves,
+} from '../../../src/modules/aquaculture-system/src/domain/services/SafetyFactorCurves';
+import { InvalidFishTypeParametersException } from '../../../src/modules/aquaculture-system/src/domain/exceptions/InvalidFishTypeParametersException';
+import {
+  FeedingRateInterpolation,
+  SafetyFactorInterpolation,
+} from '../../../src/modules/aquaculture-system/src/domain/types/Enums';
+import { FeedingRequirement } from '../../../src/modules/aquaculture-system/src/domain/types/FeedingTypes';
+import { FishTypeParameters } from '../../../src/modules/aquaculture-system/src/domain/types/FishTypeParameters';
+import { Volume } from '../../../src/modules/aquaculture-system/src/domain/value-objects/Volume';
+import { WaterQuality } from '../../../src/modules/aquaculture-system/src/domain/value-objects/WaterQuality';
+import { Weight } from '../../../src/modules/aquaculture-system/src/domain/value-objects/Weight';
+
+const FEEDING_DATE = new Date('2026-06-01T08:00:00Z');
+
+const parameters = (
+  feedingRateInterpolation: FeedingRateInterpolation,
+): FishTypeParameters =>
+  withDefaultSafetyFactorCurves({
+    doMin: 3,
+    doSafe: 5,
+    phMin: 6.5,
+    phMax: 8.5,
+    nh3Safe: 0.02,
+    nh3Critical: 0.1,
+    no2Max: 0.5,
+    tempMin: 22,
+    tempMax: 32,
+    tempOptimal: 28,
+    fcrMin: 1.4,
+    fcrMax: 1.8,
+    survivalRate: 85,
+    maxStockingDensity: null,
+    oxygenConsumption: null,
+    feedingRateMatrix: {
+      weight_ranges: [
+        { min: 1, max: 20 },
+        { min: 20, max: 100 },
+        { min: 100, max: 500 },
+      ],
+      temperatures: [22, 26, 30],
+      rates: [
+        [6, 8, 7],
+        [3, 4, 3.5],
+        [1.5, 2, 1.8],
+      ],
+    },
+    feedingRateInterpolation,
+    mealFrequencyRules: [
+      { maxWeight: 20, mealsPerDay: 5 },
+      { maxWeight: 100, mealsPerDay: 4 },
+      { maxWeight: null, mealsPerDay: 2 },
+    ],
+  });
+
+const waterQualities = {
+  optimal: { temperature: 28, dissolvedOxygen: 6, pH: 7, totalAmmonia: 0.1 },
+  cool: { temperature: 24.9, dissolvedOxygen: 4.5, pH: 7, totalAmmonia: 0.1 },
+  lowOxygen: { temperature: 27, dissolvedOxygen: 2, pH: 7, totalAmmonia: 0.1 },
+  highAmmonia: {
+    temperature: 30,
+    dissolvedOxygen: 6,
+    pH: 8.5,
+    totalAmmonia: 2,
+  },
+};
+
+const buildFarm = (
+  fishType: FishType,
+  averageWeightGrams: number,
+  water: (typeof waterQualities)[keyof typeof waterQualities],
+) => {
+  const farm = Farm.create({ id: 'farm-1', name: 'Farm', location: 'Delta' });
+  const tank = Tank.create({
+    id: 'tank-1',
+    farmId: 'farm-1',
+    name: 'Tank 1',
+    volume: Volume.fromCubicMeters(50),
+  });
+  const batch = FishBatch.create({
+    id: 'batch-1',
+    tankId: 'tank-1',
+    fishTypeId: fishType.getId().toString(),
+    fishCount: 2000,
+    initialWeight: Weight.fromGrams(averageWeightGrams),
+    stockedDate: new Date('2026-05-01T00:00:00Z'),
+  });
+  tank.addBatch(batch, new Map([[fishType.getId().toString(), fishType]]));
+  tank.updateWaterQuality(
+    WaterQuality.create({ ...water, nitrite: 0.1, measuredAt: FEEDING_DATE }),
+  );
+  farm.addTank(tank);
+  return { farm, tank, batch };
+};
+
+const comparable = (requirement: FeedingRequirement) => ({
+  ...requirement,
+  totalDailyFeed: requirement.totalDailyFeed.toGrams(),
+  feedPerMeal: requirement.feedPerMeal.toGrams(),
+});
+
+describe('Feeding strategy', () => {
+  describe.each([
+    FeedingRateInterpolation.NEAREST,
+    FeedingRateInterpolation.BILINEAR,
+  ])('with %s interpolation', (interpolation) => {
+    const fishType = FishType.create({
+      id: 'fish-type-1',
+      name: 'Tilapia',
+      parameters: parameters(interpolation),
+      effectiveFrom: new Date('2026-01-01T00:00:00Z'),
+    });
+    const fishTypes = new Map([[fishType.getId().toString(), fishType]]);
+
+    // 0.5g and 800g fall outside the matrix and are clamped to its edges
+    it.each(
+      [0.5, 10, 19.9, 20.1, 60, 250, 800].flatMap((weight) =>
+        Object.keys(waterQualities).map(
+          (water) => [weight, water] as [number, keyof typeof waterQualities],
+        ),
+      ),
+    )(
+      'should give the same requirement at every layer for %sg in %s water',
+      (weight, water) => {
+        const { farm, tank, batch } = buildFarm(
+          fishType,
+          weight,
+          waterQualities[water],
+        );
+
+        const fromService = new FeedingCalculationService().calculateDailyFeed(
+          batch.getCurrentStats().getTotalBiomass(),
+          batch.getCurrentStats().averageWeight,
+          tank.getWaterQuality()!,
+          fishType,
+          FEEDING_DATE,
+        );
+        const fromBatch = batch.calculateDailyFeed(
+          tank.getWaterQuality()!,
+          fishType,
+          FEEDING_DATE,
+        );
+        const fromTank = tank.calculateTotalDailyFeed(fishTypes, FEEDING_DATE);
+        const fromFarm = farm.calculateFarmDailyFeed(fishTypes, FEEDING_DATE);
+
+        expect(fromService.interpolation).toBe(interpolation);
+        expect(comparable(fromBatch)).toEqual(comparable(fromService));
+        expect(comparable(fromTank.batchRequirements[0].requirement)).toEqual(
+          comparable(fromService),
+        );
+        expect(
+          comparable(
+            fromFarm.tankRequirements[0].batchRequirements[0].requirement,
+          ),
+        ).toEqual(comparable(fromService));
+        expect(fromFarm.totalDailyFeed.toGrams()).toBeCloseTo(
+          fromService.totalDailyFeed.toGrams(),
+        );
+      },
+    );
+  });
+
+  it('should stop feeding when dissolved oxygen is below the minimum', () => {
+    const fishType = FishType.create({
+      id: 'fish-type-1',
+      name: 'Tilapia',
+      parameters: parameters(FeedingRateInterpolation.NEAREST),
+    });
+    const { batch, tank } = buildFarm(fishType, 60, waterQualities.lowOxygen);
+
+    const requirement = batch.calculateDailyFeed(
+      tank.getWaterQuality()!,
+      fishType,
+    );
+
+    expect(requirement.safetyStatus).toBe('STOPPED');
+    expect(requirement.totalDailyFeed.toGrams()).toBe(0);
+  });
+
+  it('should pass a custom strategy down from the farm to every batch', () => {
+    const fishType = FishType.create({
+      id: 'fish-type-1',
+      name: 'Tilapia',
+      parameters: parameters(FeedingRateInterpolation.NEAREST),
+    });
+    const fishTypes = new Map([[fishType.getId().toString(), fishType]]);
+    const { farm } = buildFarm(fishType, 60, waterQualities.optimal);
+
+    const matrix = new MatrixFeedingStrategy();
+    const calls: FeedingStrategyInput[] = [];
+    const halfRation: FeedingStrategy = {
+      calculate: (input) => {
+        calls.push(input);
+        const requirement = matrix.calculate(input);
+        return {
+          ...requirement,
+          totalDailyFeed: Weight.fromGrams(
+            requirement.totalDailyFeed.toGrams() / 2,
+          ),
+        };
+      },
+      calculateSafetyFactors: (waterQuality, fishTypeParams) =>
+        matrix.calculateSafetyFactors(waterQuality, fishTypeParams),
+    };
+
+    const standard = farm.calculateFarmDailyFeed(fishTypes, FEEDING_DATE);
+    const custom = farm.calculateFarmDailyFeed(
+      fishTypes,
+      FEEDING_DATE,
+      halfRation,
+    );
+
+    expect(calls).toHaveLength(1);
+    expect(calls[0].feedingDate).toBe(FEEDING_DATE);
+    expect(custom.totalDailyFeed.toGrams()).toBeCloseTo(
+      standard.totalDailyFeed.toGrams() / 2,
+    );
+  });
+
+  it('should use the parameter version in force on the feeding date', () => {
+    const fishType = FishType.create({
+      id: 'fish-type-1',
+      name: 'Tilapia',
+      parameters: parameters(FeedingRateInterpolation.NEAREST),
+      effectiveFrom: new Date('2026-01-01T00:00:00Z'),
+    });
+    const revisedFrom = new Date(Date.now() + 24 * 60 * 60 * 1000);
+    fishType.reviseParameters(
+      parameters(FeedingRateInterpolation.BILINEAR),
+      revisedFrom,
+    );
+    const { batch, tank } = buildFarm(fishType, 60, waterQualities.optimal);
+
+    const before = batch.calculateDailyFeed(
+      tank.getWaterQuality()!,
+      fishType,
+      FEEDING_DATE,
+    );
+    const after = batch.calculateDailyFeed(
+      tank.getWaterQuality()!,
+      fishType,
+      revisedFrom,
+    );
+
+    expect(before.parameterVersion).toBe(1);
+    expect(before.interpolation).toBe(FeedingRateInterpolation.NEAREST);
+    expect(after.parameterVersion).toBe(2);
+    expect(after.interpolation).toBe(FeedingRateInterpolation.BILINEAR);
+  });
+
+  describe('bilinear feeding rate', () => {
+    // Weight ranges sit at their midpoints: 10.5g, 60g and 300g
+    const matrix = parameters(
+      FeedingRateInterpolation.BILINEAR,
+    ).feedingRateMatrix;
+
+    it('should blend the four surrounding rates', () => {
+      // Halfway between 10.5g and 60g and between 22 and 26 °C:
+      // rows blend to 7 and 3.5, which blend to 5.25
+      expect(interpolateFeedingRate(35.25, 24, matrix)).toBeCloseTo(5.25);
+      // A quarter of the way from 60g to 300g at 28 °C: 3.75 and 1.9
+      expect(interpolateFeedingRate(120, 28, matrix)).toBeCloseTo(
+        3.75 + (1.9 - 3.75) * 0.25,
+      );
+    });
+
+    it('should return the table rate at a range midpoint and temperature', () => {
+      expect(interpolateFeedingRate(60, 26, matrix)).toBe(4);
+    });
+
+    it('should not jump at a weight range edge', () => {
+      const below = interpolateFeedingRate(19.999, 26, matrix);
+      const above = interpolateFeedingRate(20.001, 26, matrix);
+      const atEdge = 8 + (4 - 8) * ((20 - 10.5) / (60 - 10.5));
+
+      expect(below).toBeCloseTo(atEdge, 3);
+      expect(above).toBeCloseTo(atEdge, 3);
+      expect(Math.abs(above - below)).toBeLessThan(0.001);
+    });
+
+    it('should hold the edge values outside the table', () => {
+      expect(interpolateFeedingRate(0.5, 18, matrix)).toBe(6);
+      expect(interpolateFeedingRate(5, 35, matrix)).toBe(7);
+      expect(interpolateFeedingRate(800, 35, matrix)).toBe(1.8);
+      expect(interpolateFeedingRate(800, 28, matrix)).toBeCloseTo(1.9);
+    });
+
+    it('should feed the interpolated rate as the base rate', () => {
+      const fishType = FishType.create({
+        id: 'fish-type-1',
+        name: 'Tilapia',
+        parameters: parameters(FeedingRateInterpolation.BILINEAR),
+      });
+      const { batch } = buildFarm(fishType, 35.25, waterQualities.optimal);
+
+      const requirement = batch.calculateDailyFeed(
+        WaterQuality.create({
+          ...waterQualities.optimal,
+          temperature: 24,
+          nitrite: 0.1,
+          measuredAt: FEEDING_DATE,
+        }),
+        fishType,
+        FEEDING_DATE,
+      );
+
+      expect(requirement.baseFeedingRate).toBeCloseTo(5.25);
+    });
+  });
+
+  describe('safety factor curves', () => {
+    const strategy = new MatrixFeedingStrategy();
+    const water = (
+      overrides: Partial<Parameters<typeof WaterQuality.create>[0]>,
+    ) =>
+      WaterQuality.create({
+        ...waterQualities.optimal,
+        nitrite: 0.1,
+        ...overrides,
+      });
+
+    it('should report every factor in the breakdown', () => {
+      const factors = strategy.calculateSafetyFactors(
+        water({}),
+        parameters(FeedingRateInterpolation.NEAREST),
+      );
+
+      expect(factors).toEqual({
+        temperature: 1,
+        oxygen: 1,
+        ammonia: 1,
+        nitrite: 1,
+        ph: 1,
+      });
+    });
+
+    it('should cut feeding on high nitrite and stop it past twice the limit', () => {
+      const params = parameters(FeedingRateInterpolation.NEAREST);
+
+      expect(
+        strategy.calculateSafetyFactors(water({ nitrite: 0.6 }), params)
+          .nitrite,
+      ).toBe(0.5);
+      expect(
+        strategy.calculateSafetyFactors(water({ nitrite: 1.2 }), params)
+          .nitrite,
+      ).toBe(0);
+    });
+
+    it('should cut feeding when pH leaves the species range', () => {
+      const params = parameters(FeedingRateInterpolation.NEAREST);
+
+      expect(strategy.calculateSafetyFactors(water({ pH: 6 }), params).ph).toBe(
+        0.75,
+      );
+    });
+
+    it('should interpolate along a linear curve', () => {
+      const params = parameters(FeedingRateInterpolation.NEAREST);
+      params.safetyFactorCurves.oxygen = {
+        interpolation: SafetyFactorInterpolation.LINEAR,
+        points: [
+          { at: 2, factor: 0 },
+          { at: 6, factor: 1 },
+        ],
+      };
+
+      expect(
+        strategy.calculateSafetyFactors(water({ dissolvedOxygen: 5 }), params)
+          .oxygen,
+      ).toBeCloseTo(0.75);
+    });
+
+    describe('default curves', () => {
+      // The thresholds feeding used before curves were configurable
+      const oldTemperatureFactor = (diff: number) => {
+        if (diff < -3) return 0.75;
+        if (diff < -1) return 0.85;
+        if (diff <= 1) return 1;
+        if (diff <= 2) return 1.05;
+        return 0.95;
+      };
+      const oldOxygenFactor = (value: number) => {
+        if (value < 3) return 0;
+        if (value < 4) return 0.75;
+        if (value < 5) return 0.9;
+        return 1;
+      };
+      const oldAmmoniaFactor = (value: number) => {
+        if (value > 0.1) return 0;
+        if (value > 0.05) return 0.5;
+        if (value > 0.02) return 0.8;
+        return 1;
+      };
+      const curves = defaultSafetyFactorCurves(
+        parameters(FeedingRateInterpolation.NEAREST),
+      );
+      const around = (boundaries: number[]) =>
+        boundaries.flatMap((at) => [at - 0.001, at, at + 0.001]);
+
+      it.each(around([-10, -3, -1, 1, 2]))(
+        'should keep the old temperature factor %s °C from optimal',
+        (diff) => {
+          expect(evaluateSafetyFactorCurve(curves.temperature, diff)).toBe(
+            oldTemperatureFactor(diff),
+          );
+        },
+      );
+
+      it.each(around([0, 3, 4, 5]))(
+        'should keep the old oxygen factor at %s mg/L',
+        (value) => {
+          expect(evaluateSafetyFactorCurve(curves.oxygen, value)).toBe(
+            oldOxygenFactor(value),
+          );
+        },
+      );
+
+      it.each(around([0.02, 0.05, 0.1]))(
+        'should keep the old ammonia factor at %s mg/L',
+        (value) => {
+          expect(evaluateSafetyFactorCurve(curves.ammonia, value)).toBe(
+            oldAmmoniaFactor(value),
+          );
+        },
+      );
+    });
+
+    it('should reject a curve whose points are out of order', () => {
+      const params = parameters(FeedingRateInterpolation.NEAREST);
+      params.safetyFactorCurves.ph.points.reverse();
+
+      expect(() =>
+        FishType.create({
+          id: 'fish-type-1',
+          name: 'Tilapia',
+          parameters: params,
+        }),
+      ).toThrow(InvalidFishTypeParametersException);
+    });
+  });
+});
@@ -0,0 +1,155 @@
+import { FishBatch } from '../../../src/modules/aquaculture-system/src/domain/entities/FishBatch';
+import { DomainException } from '../../../src/modules/aquaculture-system/src/domain/exceptions/DomainException';
+import { GrowthAnalysisService } from '../../../src/modules/aquaculture-system/src/domain/services/GrowthAnalysisService';
+import { WaterQuality } from '../../../src/modules/aquaculture-system/src/domain/value-objects/WaterQuality';
+import { Weight } from '../../../src/modules/aquaculture-system/src/domain/value-objects/Weight';
+
+const waterQuality = WaterQuality.create({
+  temperature: 28,
+  dissolvedOxygen: 6,
+  pH: 7.5,
+  totalAmmonia: 0.2,
+  nitrite: 0.1,
+  measuredAt: new Date('2026-06-01T06:00:00'),
+});
+
+const proteinByProduct = new Map([
+  ['starter', 40],
+  ['grower', 30],
+]);
+
+const fedBatch = (
+  feedings: Array<[string, number, string | undefined, number?]>,
+) => {
+  const batch = FishBatch.create({
+    id: 'batch-1',
+    tankId: 'tank-1',
+    fishTypeId: 'tilapia',
+    fishCount: 1000,
+    initialWeight: Weight.fromGrams(10),
+    stockedDate: new Date('2026-05-01T08:00:00'),
+  });
+  for (const [fedAt, kg, feedProductId, uneatenPercent] of feedings) {
+    batch.recordFeeding(Weight.fromKilograms(kg), 2, waterQuality, {
+      feedProductId,
+      proteinPercent: proteinByProduct.get(feedProductId ?? ''),
+      uneatenPercent,
+      fedAt: new Date(fedAt),
+    });
+  }
+  return batch;
+};
+
+describe('GrowthAnalysisService', () => {
+  const service = new GrowthAnalysisService();
+
+  it('weights protein by the product each feeding came from', () => {
+    const batch = fedBatch([
+      ['2026-05-10T08:00:00', 10, 'starter'],
+      ['2026-06-10T08:00:00', 20, 'grower'],
+    ]);
+
+    const intake = service.calculateProteinIntake(batch.getFeedingHistory());
+
+    expect(intake.feedConsumed.toKilograms()).toBeCloseTo(30);
+    expect(intake.proteinConsumed.toKilograms()).toBeCloseTo(
+      10 * 0.4 + 20 * 0.3,
+    );
+    expect(intake.unknownProteinFeed.toGrams()).toBe(0);
+  });
+
+  it('keeps the protein content each feeding was recorded with', () => {
+    const batch = fedBatch([['2026-05-10T08:00:00', 10, 'starter']]);
+    // The starter is reformulated after the first feeding
+    batch.recordFeeding(Weight.fromKilograms(10), 2, waterQuality, {
+      feedProductId: 'starter',
+      proteinPercent: 35,
+      fedAt: new Date('2026-05-11T08:00:00'),
+    });
+
+    const intake = service.calculateProteinIntake(batch.getFeedingHistory());
+
+    expect(batch.getFeedingHistory().map((f) => f.proteinPercent)).toEqual([
+      40, 35,
+    ]);
+    expect(intake.proteinConsumed.toKilograms()).toBeCloseTo(4 + 3.5);
+  });
+
+  it('counts only the feed that was eaten', () => {
+    const batch = fedBatch([['2026-05-10T08:00:00', 10, 'starter', 25]]);
+
+    const intake = service.calculateProteinIntake(batch.getFeedingHistory());
+
+    expect(intake.feedConsumed.toKilograms()).toBeCloseTo(7.5);
+    expect(intake.proteinConsumed.toKilograms()).toBeCloseTo(3);
+  });
+
+  it('keeps feed of unknown protein apart and withholds PER', () => {
+    const batch = fedBatch([
+      ['2026-05-10T08:00:00', 10, 'starter'],
+      ['2026-05-11T08:00:00', 5, undefined],
+    ]);
+
+    const metrics = service.calculateGrowthMetrics(
+      Weight.fromKilograms(10),
+      Weight.fromKilograms(25),
+      30,
+      batch.getFeedingHistory(),
+    );
+
+    expect(metrics.fcr).toBeCloseTo(1);
+    expect(metrics.per).toBeNull();
+    expect(metrics.feedEfficiency).toBeCloseTo(100);
+  });
+
+  it('computes PER across a starter to grower switch', () => {
+    const batch = fedBatch([
+      ['2026-05-10T08:00:00', 10, 'starter'],
+      ['2026-06-10T08:00:00', 20, 'grower'],
+    ]);
+
+    const metrics = service.calculateGrowthMetrics(
+      Weight.fromKilograms(10),
+      Weight.fromKilograms(30),
+      60,
+      batch.getFeedingHistory(),
+    );
+
+    expect(metrics.per).toBeCloseTo(20 / 10);
+  });
+
+  it('summarizes a weighed and measured sample', () => {
+    const sample = service.summarizeSample([
+      { weight: Weight.fromGrams(90), lengthCm: 18 },
+      { weight: Weight.fromGrams(100), lengthCm: 19 },
+      { weight: Weight.fromGrams(110), lengthCm: 20 },
+    ]);
+
+    expect(sample.meanWeight.toGrams()).toBeCloseTo(100);
+    expect(sample.weightStdDevGrams).toBeCloseTo(10);
+    expect(sample.weightCv).toBeCloseTo(10);
+    expect(sample.meanLengthCm).toBeCloseTo(19);
+    expect(sample.meanConditionFactor).toBeCloseTo(
+      ((90 / 18 ** 3 + 100 / 19 ** 3 + 110 / 20 ** 3) * 100) / 3,
+    );
+  });
+
+  it('needs at least two fish to describe spread', () => {
+    expect(() =>
+      service.summarizeSample([{ weight: Weight.fromGrams(90), lengthCm: 18 }]),
+    ).toThrow(DomainException);
+  });
+
+  it('moves the batch average to the sample mean and keeps the sample', () => {
+    const batch = fedBatch([]);
+    const sample = service.summarizeSample([
+      { weight: Weight.fromGrams(40), lengthCm: 12 },
+      { weight: Weight.fromGrams(60), lengthCm: 14 },
+    ]);
+
+    batch.recordGrowthSample(sample);
+
+    expect(batch.getCurrentStats().averageWeight.toGrams()).toBeCloseTo(50);
+    expect(batch.getLatestGrowthRecord()?.sample).toBe(sample);
+  });
+});
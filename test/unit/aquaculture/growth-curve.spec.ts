@@ -0,0 +1,177 @@
+import { DomainException } from '../../../src/modules/aquaculture-system/src/domain/exceptions/DomainException';
+import {
+  degreeDaysBetween,
+  GROWTH_CURVE_MODELS,
+} from '../../../src/modules/aquaculture-system/src/domain/services/GrowthCurveFitting';
+import { HarvestPredictionService } from '../../../src/modules/aquaculture-system/src/domain/services/HarvestPredictionService';
+import {
+  GrowthModelType,
+  HarvestProjectionMethod,
+} from '../../../src/modules/aquaculture-system/src/domain/types/Enums';
+import { GrowthObservation } from '../../../src/modules/aquaculture-system/src/domain/types/GrowthModelTypes';
+import { BatchStatistics } from '../../../src/modules/aquaculture-system/src/domain/value-objects/BatchStatistics';
+import { WaterQuality } from '../../../src/modules/aquaculture-system/src/domain/value-objects/WaterQuality';
+import { Weight } from '../../../src/modules/aquaculture-system/src/domain/value-objects/Weight';
+
+const vonBertalanffy = GROWTH_CURVE_MODELS[GrowthModelType.VON_BERTALANFFY];
+const thermalUnit = GROWTH_CURVE_MODELS[GrowthModelType.THERMAL_UNIT];
+
+// W(t) = 800 × (1 − e^(−0.01 × (t + 20)))³
+const vbWeight = (day: number) =>
+  800 * Math.pow(1 - Math.exp(-0.01 * (day + 20)), 3);
+
+const observation = (
+  day: number,
+  grams: number,
+  degreeDays: number | null = null,
+): GrowthObservation => ({
+  daysInCulture: day,
+  weight: Weight.fromGrams(grams),
+  degreeDays,
+});
+
+const reading = (temperature: number, measuredAt: string) =>
+  WaterQuality.create({
+    temperature,
+    dissolvedOxygen: 7,
+    pH: 7.5,
+    totalAmmonia: 0.2,
+    nitrite: 0.1,
+    measuredAt: new Date(measuredAt),
+  });
+
+describe('growth curve fitting', () => {
+  it('recovers von Bertalanffy parameters from weighings on the curve', () => {
+    const fit = vonBertalanffy.fit(
+      [0, 30, 60, 90, 120, 150].map((day) => observation(day, vbWeight(day))),
+    );
+
+    expect(fit.model).toBe(GrowthModelType.VON_BERTALANFFY);
+    expect(fit.parameters.wInfinityGrams).toBeGreaterThan(700);
+    expect(fit.parameters.wInfinityGrams).toBeLessThan(900);
+    expect(fit.rSquared).toBeGreaterThan(0.99);
+    expect(fit.observations).toBe(6);
+
+    const projected = vonBertalanffy.project(
+      fit,
+      Weight.fromGrams(vbWeight(150)),
+      60,
+      0,
+    );
+    expect(projected.toGrams()).toBeCloseTo(vbWeight(210), -1);
+  });
+
+  it('slows down towards the asymptote where constant SGR does not', () => {
+    const fit = vonBertalanffy.fit(
+      [0, 30, 60, 90, 120].map((day) => observation(day, vbWeight(day))),
+    );
+    const current = Weight.fromGrams(vbWeight(120));
+
+    const days = vonBertalanffy.daysToReach(
+      fit,
+      current,
+      Weight.fromGrams(600),
+      0,
+    );
+    const lastSgr =
+      ((Math.log(vbWeight(120)) - Math.log(vbWeight(90))) / 30) * 100;
+    const constantSgrDays =
+      ((Math.log(600) - Math.log(vbWeight(120))) / lastSgr) * 100;
+
+    expect(days).not.toBeNull();
+    expect(days!).toBeGreaterThan(constantSgrDays);
+    expect(
+      vonBertalanffy.daysToReach(fit, current, Weight.fromGrams(5000), 0),
+    ).toBeNull();
+  });
+
+  it('needs at least three weighings for a von Bertalanffy fit', () => {
+    expect(() =>
+      vonBertalanffy.fit([observation(0, 10), observation(30, 40)]),
+    ).toThrow(DomainException);
+  });
+
+  it('fits a thermal growth coefficient against degree-days', () => {
+    const tgc = 2.5;
+    const weight = (degreeDays: number) =>
+      Math.pow(Math.cbrt(10) + (tgc / 1000) * degreeDays, 3);
+    const fit = thermalUnit.fit(
+      [0, 250, 500, 750].map((degreeDays, index) =>
+        observation(index * 10, weight(degreeDays), degreeDays),
+      ),
+    );
+
+    expect(fit.parameters.tgc).toBeCloseTo(tgc, 6);
+    expect(fit.rSquared).toBeCloseTo(1, 6);
+    expect(
+      thermalUnit.project(fit, Weight.fromGrams(weight(750)), 10, 25).toGrams(),
+    ).toBeCloseTo(weight(1000), 6);
+  });
+
+  it('refuses a thermal-unit fit without temperatures', () => {
+    expect(() =>
+      thermalUnit.fit([observation(0, 10), observation(30, 40)]),
+    ).toThrow(DomainException);
+  });
+
+  it('sums degree-days with each reading holding until the next', () => {
+    const readings = [
+      reading(30, '2026-05-11T00:00:00'),
+      reading(20, '2026-05-01T00:00:00'),
+    ];
+
+    expect(
+      degreeDaysBetween(
+        readings,
+        new Date('2026-05-01T00:00:00'),
+        new Date('2026-05-21T00:00:00'),
+      ),
+    ).toBeCloseTo(20 * 10 + 30 * 10);
+    expect(
+      degreeDaysBetween(
+        [],
+        new Date('2026-05-01T00:00:00'),
+        new Date('2026-05-21T00:00:00'),
+      ),
+    ).toBeNull();
+  });
+});
+
+describe('harvest prediction from a fitted curve', () => {
+  const service = new HarvestPredictionService();
+  const fit = vonBertalanffy.fit(
+    [0, 30, 60, 90, 120].map((day) => observation(day, vbWeight(day))),
+  );
+  const stats = BatchStatistics.create(1000, Weight.fromGrams(vbWeight(120)));
+
+  it('projects the harvest date along the curve', () => {
+    const prediction = service.predictHarvestFromCurve(
+      stats,
+      Weight.fromGrams(500),
+      vonBertalanffy,
+      fit,
+      0,
+      90,
+      new Date('2026-05-01T08:00:00'),
+    );
+
+    expect(prediction.method).toBe(HarvestProjectionMethod.FITTED_CURVE);
+    expect(prediction.growthCurve).toBe(fit);
+    expect(prediction.expectedFinalCount).toBe(900);
+    expect(prediction.finalProduction.toKilograms()).toBeCloseTo(450);
+    expect(prediction.daysToHarvest).toBeGreaterThan(0);
+  });
+
+  it('rejects a target beyond the fitted asymptotic weight', () => {
+    expect(() =>
+      service.predictHarvestFromCurve(
+        stats,
+        Weight.fromGrams(5000),
+        vonBertalanffy,
+        fit,
+        0,
+        100,
+      ),
+    ).toThrow(DomainException);
+  });
+});
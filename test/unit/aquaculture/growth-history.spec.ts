@@ -0,0 +1,66 @@
+import { FishBatch } from '../../../src/modules/aquaculture-system/src/domain/entities/FishBatch';
+import { DomainException } from '../../../src/modules/aquaculture-system/src/domain/exceptions/DomainException';
+import { Weight } from '../../../src/modules/aquaculture-system/src/domain/value-objects/Weight';
+
+const newBatch = () =>
+  FishBatch.create({
+    id: 'batch-1',
+    tankId: 'tank-1',
+    fishTypeId: 'tilapia',
+    fishCount: 1000,
+    initialWeight: Weight.fromGrams(10),
+    stockedDate: new Date('2026-05-01T08:00:00'),
+  });
+
+const sgr = (from: number, to: number, days: number) =>
+  ((Math.log(to) - Math.log(from)) / days) * 100;
+
+describe('growth history', () => {
+  it('keeps interval rates since the previous record apart from cumulative ones', () => {
+    const batch = newBatch();
+    batch.recordGrowth(Weight.fromGrams(20), new Date('2026-05-11T08:00:00'));
+    const record = batch.recordGrowth(
+      Weight.fromGrams(50),
+      new Date('2026-05-31T08:00:00'),
+    );
+
+    expect(record.daysInCulture).toBe(30);
+    expect(record.intervalDays).toBe(20);
+    expect(record.weightGain.toGrams()).toBeCloseTo(30);
+    expect(record.intervalAdg).toBeCloseTo(30 / 20);
+    expect(record.intervalSgr).toBeCloseTo(sgr(20, 50, 20));
+    expect(record.cumulativeAdg).toBeCloseTo(40 / 30);
+    expect(record.cumulativeSgr).toBeCloseTo(sgr(10, 50, 30));
+  });
+
+  it('backfills an earlier sample and shortens the following interval', () => {
+    const batch = newBatch();
+    batch.recordGrowth(Weight.fromGrams(50), new Date('2026-05-31T08:00:00'));
+    batch.recordGrowth(Weight.fromGrams(20), new Date('2026-05-11T08:00:00'));
+
+    const [first, second] = batch.getGrowthHistory();
+    expect(first.recordedAt).toEqual(new Date('2026-05-11T08:00:00'));
+    expect(first.intervalDays).toBe(10);
+    expect(first.intervalSgr).toBeCloseTo(sgr(10, 20, 10));
+    expect(second.intervalDays).toBe(20);
+    expect(second.weightGain.toGrams()).toBeCloseTo(30);
+    expect(second.intervalSgr).toBeCloseTo(sgr(20, 50, 20));
+    // The batch average stays with the most recent weighing
+    expect(batch.getCurrentStats().averageWeight.toGrams()).toBe(50);
+  });
+
+  it('rejects samples before stocking, in the future or twice on one day', () => {
+    const batch = newBatch();
+    batch.recordGrowth(Weight.fromGrams(20), new Date('2026-05-11T08:00:00'));
+
+    expect(() =>
+      batch.recordGrowth(Weight.fromGrams(5), new Date('2026-04-30T08:00:00')),
+    ).toThrow(DomainException);
+    expect(() =>
+      batch.recordGrowth(Weight.fromGrams(30), new Date(Date.now() + 60_000)),
+    ).toThrow(DomainException);
+    expect(() =>
+      batch.recordGrowth(Weight.fromGrams(21), new Date('2026-05-11T07:00:00')),
+    ).toThrow(DomainException);
+  });
+});
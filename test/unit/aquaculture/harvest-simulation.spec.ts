@@ -0,0 +1,186 @@
+import { FishBatch } from '../../../src/modules/aquaculture-system/src/domain/entities/FishBatch';
+import { DomainException } from '../../../src/modules/aquaculture-system/src/domain/exceptions/DomainException';
+import { HarvestPredictionService } from '../../../src/modules/aquaculture-system/src/domain/services/HarvestPredictionService';
+import { splitBatch } from '../../../src/modules/aquaculture-system/src/domain/services/BatchTransfer';
+import {
+  createSeededRandom,
+  observedGrowthVariability,
+  simulateHarvest,
+} from '../../../src/modules/aquaculture-system/src/domain/services/HarvestSimulation';
+import { BatchStatistics } from '../../../src/modules/aquaculture-system/src/domain/value-objects/BatchStatistics';
+import { Weight } from '../../../src/modules/aquaculture-system/src/domain/value-objects/Weight';
+
+const currentDate = new Date('2026-06-01T08:00:00');
+
+// `meanwhile` runs between the last two weighings
+const grownBatch = (meanwhile: (batch: FishBatch) => void = () => {}) => {
+  const batch = FishBatch.create({
+    id: 'batch-1',
+    tankId: 'tank-1',
+    fishTypeId: 'tilapia',
+    fishCount: 1000,
+    initialWeight: Weight.fromGrams(10),
+    stockedDate: new Date('2026-04-01T08:00:00'),
+  });
+  batch.recordGrowth(Weight.fromGrams(20), new Date('2026-04-21T08:00:00'));
+  batch.recordMortality(20, { recordedAt: new Date('2026-05-01T08:00:00') });
+  batch.recordGrowth(Weight.fromGrams(45), new Date('2026-05-11T08:00:00'));
+  batch.recordMortality(5, { recordedAt: new Date('2026-05-20T08:00:00') });
+  meanwhile(batch);
+  batch.recordGrowth(Weight.fromGrams(80), new Date('2026-05-31T08:00:00'));
+  return batch;
+};
+
+const variabilityOf = (batch: FishBatch) =>
+  observedGrowthVariability(
+    batch.getGrowthHistory(),
+    batch.getMortalityHistory(),
+  );
+
+const simulate = (seed: number) => {
+  const batch = grownBatch();
+  return simulateHarvest({
+    currentStats: batch.getCurrentStats(),
+    targetWeight: Weight.fromGrams(400),
+    variability: variabilityOf(batch),
+    runs: 500,
+    seed,
+    currentDate,
+  });
+};
+
+describe('harvest simulation', () => {
+  it('draws the same numbers for the same seed', () => {
+    const first = createSeededRandom(42);
+    const second = createSeededRandom(42);
+    const draws = Array.from({ length: 5 }, () => first());
+
+    expect(draws).toEqual(Array.from({ length: 5 }, () => second()));
+    expect(draws.every((draw) => draw >= 0 && draw < 1)).toBe(true);
+    expect(createSeededRandom(43)()).not.toBe(draws[0]);
+  });
+
+  it('measures SGR and mortality spread between weighings', () => {
+    const variability = variabilityOf(grownBatch());
+    const dailyLoss = 1 - Math.pow(980 / 1000, 1 / 20);
+
+    expect(variability.intervals).toBe(3);
+    expect(variability.sgrStdDev).toBeGreaterThan(0);
+    expect(variability.dailyMortalityMean).toBeGreaterThan(0);
+    expect(variability.dailyMortalityMean).toBeLessThan(dailyLoss);
+  });
+
+  it('does not take harvested, moved or recounted fish for deaths', () => {
+    const plain = variabilityOf(grownBatch());
+    const thinned = variabilityOf(
+      grownBatch((batch) => {
+        batch.recordHarvest({
+          grades: [
+            {
+              grade: 'small',
+              fishCount: 300,
+              biomass: Weight.fromKilograms(12),
+            },
+          ],
+          harvestedAt: new Date('2026-05-22T08:00:00'),
+        });
+        splitBatch(batch, {
+          childId: 'batch-2',
+          toTankId: 'tank-2',
+          fishCount: 200,
+          transferredAt: new Date('2026-05-24T08:00:00'),
+        });
+        batch.reconcileCount(450, {
+          countedAt: new Date('2026-05-26T08:00:00'),
+        });
+      }),
+    );
+
+    expect(thinned.dailyMortalityMean).toBeCloseTo(
+      plain.dailyMortalityMean,
+      12,
+    );
+    expect(thinned.dailyMortalityStdDev).toBeCloseTo(
+      plain.dailyMortalityStdDev,
+      12,
+    );
+    expect(thinned.dailyMortalityMean).toBeGreaterThanOrEqual(0);
+  });
+
+  it('needs two growth records for a spread', () => {
+    const batch = FishBatch.create({
+      id: 'batch-2',
+      tankId: 'tank-1',
+      fishTypeId: 'tilapia',
+      fishCount: 1000,
+      initialWeight: Weight.fromGrams(10),
+      stockedDate: new Date('2026-04-01T08:00:00'),
+    });
+    batch.recordGrowth(Weight.fromGrams(20), new Date('2026-04-21T08:00:00'));
+
+    expect(() => variabilityOf(batch)).toThrow(DomainException);
+  });
+
+  it('is reproducible under a seed', () => {
+    const first = simulate(7);
+    const second = simulate(7);
+
+    expect(second.daysToHarvest).toEqual(first.daysToHarvest);
+    expect(second.fishCount).toEqual(first.fishCount);
+    expect(second.harvestDate.p50).toEqual(first.harvestDate.p50);
+    expect(simulate(8).daysToHarvest).not.toEqual(first.daysToHarvest);
+  });
+
+  it('returns ordered percentile bands', () => {
+    const result = simulate(7);
+
+    expect(result.runs).toBe(500);
+    expect(result.daysToHarvest.p10).toBeLessThanOrEqual(
+      result.daysToHarvest.p50,
+    );
+    expect(result.daysToHarvest.p50).toBeLessThanOrEqual(
+      result.daysToHarvest.p90,
+    );
+    expect(result.harvestDate.p10.getTime()).toBeLessThanOrEqual(
+      result.harvestDate.p90.getTime(),
+    );
+    expect(result.fishCount.p10).toBeLessThanOrEqual(result.fishCount.p90);
+    expect(result.fishCount.p90).toBeLessThanOrEqual(975);
+    expect(result.finalProduction.p50.toKilograms()).toBeCloseTo(
+      result.fishCount.p50 * 0.4,
+    );
+  });
+
+  it('collapses to the constant-SGR prediction without any spread', () => {
+    const stats = BatchStatistics.create(1000, Weight.fromGrams(50));
+    const result = simulateHarvest({
+      currentStats: stats,
+      targetWeight: Weight.fromGrams(400),
+      variability: {
+        intervals: 2,
+        sgrMean: 2,
+        sgrStdDev: 0,
+        dailyMortalityMean: 0,
+        dailyMortalityStdDev: 0,
+      },
+      runs: 50,
+      seed: 1,
+      currentDate,
+    });
+    const prediction = new HarvestPredictionService().predictHarvest(
+      stats,
+      Weight.fromGrams(400),
+      2,
+      100,
+      1000,
+      currentDate,
+    );
+
+    expect(result.daysToHarvest).toEqual({
+      p10: prediction.daysToHarvest,
+      p50: prediction.daysToHarvest,
+      p90: prediction.daysToHarvest,
+    });
+    expect(result.fishCount.p50).toBe(1000);
+  });
+});
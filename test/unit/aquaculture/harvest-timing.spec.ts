@@ -0,0 +1,115 @@
+import { DomainException } from '../../../src/modules/aquaculture-system/src/domain/exceptions/DomainException';
+import {
+  harvestedRevenue,
+  optimizeHarvestTiming,
+  priceForWeight,
+} from '../../../src/modules/aquaculture-system/src/domain/services/HarvestTimingOptimizer';
+import {
+  HarvestEvent,
+  PriceCurvePoint,
+} from '../../../src/modules/aquaculture-system/src/domain/types/HarvestTypes';
+import { BatchStatistics } from '../../../src/modules/aquaculture-system/src/domain/value-objects/BatchStatistics';
+import { Weight } from '../../../src/modules/aquaculture-system/src/domain/value-objects/Weight';
+
+const priceCurve: PriceCurvePoint[] = [
+  { weightGrams: 500, pricePerKg: 6 },
+  { weightGrams: 300, pricePerKg: 3 },
+  { weightGrams: 480, pricePerKg: 3 },
+];
+
+const optimize = (
+  overrides: Partial<Parameters<typeof optimizeHarvestTiming>[0]> = {},
+) =>
+  optimizeHarvestTiming({
+    currentStats: BatchStatistics.create(1000, Weight.fromGrams(400)),
+    daysInCulture: 120,
+    sgr: 1,
+    fcr: 1.5,
+    dailyMortalityRate: 0.001,
+    feedPricePerKg: 1.2,
+    dailyFixedCost: 5,
+    sunkCost: 800,
+    priceCurve,
+    horizonDays: 90,
+    currentDate: new Date('2026-06-01T08:00:00'),
+    ...overrides,
+  });
+
+describe('price curve', () => {
+  it('interpolates between sizes and holds flat beyond the ends', () => {
+    expect(priceForWeight(priceCurve, Weight.fromGrams(490))).toBeCloseTo(4.5);
+    expect(priceForWeight(priceCurve, Weight.fromGrams(100))).toBe(3);
+    expect(priceForWeight(priceCurve, Weight.fromGrams(900))).toBe(6);
+  });
+
+  it('needs a point', () => {
+    expect(() => priceForWeight([], Weight.fromGrams(100))).toThrow(
+      DomainException,
+    );
+  });
+});
+
+describe('harvest timing optimizer', () => {
+  it('returns a projection for every day of the horizon', () => {
+    const result = optimize();
+
+    expect(result.days).toHaveLength(91);
+    expect(result.days[0].fishCount).toBe(1000);
+    expect(result.days[0].totalCost).toBe(800);
+    expect(result.days[0].revenue).toBeCloseTo(400 * 3);
+  });
+
+  it('feeds the survivors gain at the FCR and runs fixed costs daily', () => {
+    const [, first] = optimize().days;
+    const grown = 400 * Math.exp(0.01);
+
+    expect(first.averageWeight.toGrams()).toBeCloseTo(grown);
+    expect(first.feedCost).toBeCloseTo(
+      ((999 * (grown - 400)) / 1000) * 1.5 * 1.2,
+    );
+    expect(first.fixedCost).toBe(5);
+    expect(first.totalCost).toBeCloseTo(800 + first.feedCost + 5);
+  });
+
+  it('picks the day with the best margin per day of occupancy', () => {
+    const result = optimize();
+    const best = Math.max(...result.days.map((day) => day.marginPerDay));
+
+    expect(result.optimal.marginPerDay).toBe(best);
+    // Waiting for the size premium pays off
+    expect(result.optimal.averageWeight.toGrams()).toBeGreaterThanOrEqual(500);
+    expect(result.optimal.marginPerDay).toBeCloseTo(
+      result.optimal.margin / (120 + result.optimal.day),
+    );
+  });
+
+  it('harvests now when the fish stop growing', () => {
+    expect(optimize({ sgr: 0 }).optimal.day).toBe(0);
+  });
+
+  it('credits revenue from earlier harvests to every candidate day', () => {
+    const harvest: HarvestEvent = {
+      harvestedAt: new Date('2026-05-01T08:00:00'),
+      fishCount: 500,
+      biomass: Weight.fromKilograms(245),
+      averageWeight: Weight.fromGrams(490),
+      grades: [],
+      buyer: null,
+      closedBatch: false,
+    };
+    const taken = harvestedRevenue([harvest], priceCurve);
+    const plain = optimize();
+    const partial = optimize({ harvestedRevenue: taken });
+
+    expect(taken).toBeCloseTo(245 * 4.5);
+    expect(partial.harvestedRevenue).toBe(taken);
+    partial.days.forEach((day, index) => {
+      expect(day.revenue).toBe(plain.days[index].revenue);
+      expect(day.margin).toBeCloseTo(plain.days[index].margin + taken);
+    });
+  });
+
+  it('rejects impossible mortality rates', () => {
+    expect(() => optimize({ dailyMortalityRate: 1 })).toThrow(DomainException);
+  });
+});
@@ -0,0 +1,182 @@
+import { FishBatch } from '../../../src/modules/aquaculture-system/src/domain/entities/FishBatch';
+import { DomainException } from '../../../src/modules/aquaculture-system/src/domain/exceptions/DomainException';
+import {
+  buildMortalityReport,
+  detectMassMortality,
+  mortalityWeekStart,
+} from '../../../src/modules/aquaculture-system/src/domain/services/MortalityReport';
+import { MortalityCause } from '../../../src/modules/aquaculture-system/src/domain/types/Enums';
+import {
+  BatchMortalityEvent,
+  MortalityEvent,
+} from '../../../src/modules/aquaculture-system/src/domain/types/MortalityTypes';
+import { Weight } from '../../../src/modules/aquaculture-system/src/domain/value-objects/Weight';
+
+const newBatch = () =>
+  FishBatch.create({
+    id: 'batch-1',
+    tankId: 'tank-1',
+    fishTypeId: 'tilapia',
+    fishCount: 1000,
+    initialWeight: Weight.fromGrams(10),
+    stockedDate: new Date('2026-05-01T08:00:00'),
+  });
+
+const death = (
+  recordedAt: string,
+  deadCount: number,
+  fishCountBefore: number,
+  cause = MortalityCause.UNKNOWN,
+): MortalityEvent => ({
+  recordedAt: new Date(recordedAt),
+  deadCount,
+  fishCountBefore,
+  cause,
+  notes: null,
+  attachments: [],
+});
+
+describe('mortality recording', () => {
+  it('keeps the cause, notes and fish alive before the loss', () => {
+    const batch = newBatch();
+    const event = batch.recordMortality(20, {
+      cause: MortalityCause.OXYGEN,
+      notes: 'Gasping at the surface, gills pale',
+      attachments: [
+        {
+          fileName: 'gills.jpg',
+          contentType: 'image/jpeg',
+          url: '/uploads/mortality/batch-1/a.jpg',
+        },
+      ],
+      recordedAt: new Date('2026-06-01T06:00:00'),
+    });
+    batch.recordMortality(10, { recordedAt: new Date('2026-06-02T06:00:00') });
+
+    expect(event.fishCountBefore).toBe(1000);
+    expect(event.attachments).toHaveLength(1);
+    expect(batch.getMortalityHistory().map((e) => e.cause)).toEqual([
+      MortalityCause.OXYGEN,
+      MortalityCause.UNKNOWN,
+    ]);
+    expect(batch.getMortalityHistory()[1].fishCountBefore).toBe(980);
+    expect(batch.getCurrentStats().fishCount).toBe(970);
+  });
+
+  it('rejects deaths before stocking or in the future', () => {
+    const batch = newBatch();
+
+    expect(() =>
+      batch.recordMortality(1, { recordedAt: new Date('2026-04-30T08:00:00') }),
+    ).toThrow(DomainException);
+    expect(() =>
+      batch.recordMortality(1, {
+        recordedAt: new Date(Date.now() + 60 * 60 * 1000),
+      }),
+    ).toThrow(DomainException);
+    expect(batch.getMortalityHistory()).toHaveLength(0);
+  });
+
+  it('checks a loss without recording it', () => {
+    const batch = newBatch();
+
+    expect(() =>
+      batch.validateMortality(1001, new Date('2026-06-01T06:00:00')),
+    ).toThrow(DomainException);
+    expect(() =>
+      batch.validateMortality(1, new Date('2026-04-30T08:00:00')),
+    ).toThrow(DomainException);
+    batch.validateMortality(1000, new Date('2026-06-01T06:00:00'));
+    expect(batch.getMortalityHistory()).toHaveLength(0);
+    expect(batch.getCurrentStats().fishCount).toBe(1000);
+  });
+});
+
+describe('mass mortality detection', () => {
+  const history = [
+    death('2026-06-01T06:00:00', 20, 1000),
+    death('2026-06-01T18:00:00', 25, 980),
+    death('2026-06-02T05:00:00', 10, 955),
+  ];
+  const detect = (event: MortalityEvent, thresholdPercent = 5) =>
+    detectMassMortality({
+      batchId: 'batch-1',
+      tankId: 'tank-1',
+      history,
+      event,
+      thresholdPercent,
+    });
+
+  it('adds up the counts logged over a day', () => {
+    expect(detect(history[1])).toBeNull();
+
+    const alert = detect(history[2]);
+    // 55 of the 1000 alive when the die-off started
+    expect(alert?.severity).toBe('CRITICAL');
+    expect(alert?.deadCount).toBe(55);
+    expect(alert?.mortalityPercent).toBeCloseTo(5.5);
+  });
+
+  it('needs a threshold within 0 and 100 percent', () => {
+    expect(() => detect(history[2], 0)).toThrow(DomainException);
+  });
+});
+
+describe('mortality report', () => {
+  const events: BatchMortalityEvent[] = [
+    {
+      batchId: 'batch-1',
+      tankId: 'tank-1',
+      event: death('2026-05-31T20:00:00', 30, 1000, MortalityCause.OXYGEN),
+    },
+    {
+      batchId: 'batch-1',
+      tankId: 'tank-1',
+      event: death('2026-06-01T06:00:00', 30, 970, MortalityCause.OXYGEN),
+    },
+    {
+      batchId: 'batch-1',
+      tankId: 'tank-1',
+      event: death('2026-06-01T07:00:00', 5, 940, MortalityCause.OXYGEN),
+    },
+    {
+      batchId: 'batch-2',
+      tankId: 'tank-2',
+      event: death('2026-06-09T10:00:00', 2, 500, MortalityCause.PREDATION),
+    },
+  ];
+  const report = buildMortalityReport({
+    events,
+    from: new Date('2026-06-01T00:00:00'),
+    to: new Date('2026-06-30T23:59:59'),
+    thresholdPercent: 5,
+  });
+
+  it('totals deaths in the period by cause, tank and week', () => {
+    expect(report.total).toEqual({ deadCount: 37, events: 3 });
+    expect(report.byCause).toHaveLength(Object.values(MortalityCause).length);
+    expect(
+      report.byCause.find((entry) => entry.cause === MortalityCause.OXYGEN),
+    ).toEqual({ cause: MortalityCause.OXYGEN, deadCount: 35, events: 2 });
+    expect(report.byTank.map((entry) => entry.tankId)).toEqual([
+      'tank-1',
+      'tank-2',
+    ]);
+    expect(report.byWeek.map((entry) => entry.weekStart)).toEqual([
+      '2026-06-01',
+      '2026-06-08',
+    ]);
+  });
+
+  it('alerts once a day per batch, counting deaths just before the period', () => {
+    expect(report.alerts).toHaveLength(1);
+    expect(report.alerts[0].batchId).toBe('batch-1');
+    expect(report.alerts[0].deadCount).toBe(60);
+  });
+
+  it('starts weeks on Monday', () => {
+    expect(mortalityWeekStart(new Date('2026-06-07T23:00:00'))).toBe(
+      '2026-06-01',
+    );
+  });
+});
@@ -0,0 +1,188 @@
+import { fromNullable } from 'effect/Option';
+import { TreatmentWithdrawalService } from '../../../src/modules/aquaculture-system/src/application/services/TreatmentWithdrawalService';
+import { HarvestBatchUseCase } from '../../../src/modules/aquaculture-system/src/application/use-cases/batch/HarvestBatch';
+import { FishBatch } from '../../../src/modules/aquaculture-system/src/domain/entities/FishBatch';
+import { Tank } from '../../../src/modules/aquaculture-system/src/domain/entities/Tank';
+import { DomainException } from '../../../src/modules/aquaculture-system/src/domain/exceptions/DomainException';
+import { InactiveBatchException } from '../../../src/modules/aquaculture-system/src/domain/exceptions/InactiveBatchException';
+import { IBatchRepository } from '../../../src/modules/aquaculture-system/src/domain/repositories/IBatchRepository';
+import { IFarmRepository } from '../../../src/modules/aquaculture-system/src/domain/repositories/IFarmRepository';
+import { ITankRepository } from '../../../src/modules/aquaculture-system/src/domain/repositories/ITankRepository';
+import { ITreatmentRepository } from '../../../src/modules/aquaculture-system/src/domain/repositories/ITreatmentRepository';
+import {
+  BatchStatus,
+  TankStatus,
+} from '../../../src/modules/aquaculture-system/src/domain/types/Enums';
+import { BatchStatistics } from '../../../src/modules/aquaculture-system/src/domain/value-objects/BatchStatistics';
+import { Volume } from '../../../src/modules/aquaculture-system/src/domain/value-objects/Volume';
+import { Weight } from '../../../src/modules/aquaculture-system/src/domain/value-objects/Weight';
+
+const newBatch = () =>
+  FishBatch.reconstitute({
+    id: 'batch-1',
+    tankId: 'tank-1',
+    fishTypeId: 'tilapia',
+    stockedDate: new Date('2026-03-01T08:00:00'),
+    initialCount: 1000,
+    initialWeight: Weight.fromGrams(10),
+    parentBatchIds: [],
+    currentStats: BatchStatistics.create(1000, Weight.fromGrams(400)),
+    growthHistory: [],
+    feedingHistory: [],
+    harvestHistory: [],
+    transferHistory: [],
+    mortalityHistory: [],
+    countHistory: [],
+    status: BatchStatus.ACTIVE,
+  });
+
+const harvestedAt = new Date('2026-06-01T08:00:00');
+
+describe('partial harvest', () => {
+  it('takes the big fish out and leaves the rest averaging lighter', () => {
+    const batch = newBatch();
+    const event = batch.recordHarvest({
+      grades: [
+        { grade: 'large', fishCount: 200, biomass: Weight.fromKilograms(120) },
+        { grade: 'medium', fishCount: 100, biomass: Weight.fromKilograms(45) },
+      ],
+      buyer: 'Market Co',
+      harvestedAt,
+    });
+
+    expect(event.fishCount).toBe(300);
+    expect(event.biomass.toKilograms()).toBeCloseTo(165);
+    expect(event.averageWeight.toGrams()).toBeCloseTo(550);
+    expect(event.buyer).toBe('Market Co');
+    expect(event.closedBatch).toBe(false);
+
+    const stats = batch.getCurrentStats();
+    expect(batch.getStatus()).toBe(BatchStatus.ACTIVE);
+    expect(stats.fishCount).toBe(700);
+    expect(stats.getTotalBiomass().toKilograms()).toBeCloseTo(400 - 165);
+    expect(stats.averageWeight.toGrams()).toBeCloseTo(235000 / 700);
+    // Harvested fish are not losses
+    expect(stats.survivalRate).toBe(100);
+    expect(batch.getTotalProduction().toKilograms()).toBeCloseTo(400);
+  });
+
+  it('counts harvested fish as survivors when later fish die', () => {
+    const batch = newBatch();
+    batch.recordHarvest({
+      grades: [
+        { grade: 'large', fishCount: 500, biomass: Weight.fromKilograms(250) },
+      ],
+      harvestedAt,
+    });
+    batch.recordMortality(50);
+
+    expect(batch.getCurrentStats().fishCount).toBe(450);
+    expect(batch.getCurrentStats().survivalRate).toBe(95);
+  });
+
+  it('closes the batch with the last fish', () => {
+    const batch = newBatch();
+    batch.recordHarvest({
+      grades: [
+        { grade: 'large', fishCount: 600, biomass: Weight.fromKilograms(270) },
+      ],
+      harvestedAt,
+    });
+    const last = batch.recordHarvest({
+      grades: [
+        { grade: 'small', fishCount: 400, biomass: Weight.fromKilograms(130) },
+      ],
+      harvestedAt,
+    });
+
+    expect(last.closedBatch).toBe(true);
+    expect(batch.getStatus()).toBe(BatchStatus.HARVESTED);
+    expect(batch.getCurrentStats().fishCount).toBe(0);
+    expect(batch.getHarvestedCount()).toBe(1000);
+    expect(batch.getTotalHarvested().toKilograms()).toBeCloseTo(400);
+    expect(() =>
+      batch.recordHarvest({
+        grades: [
+          { grade: 'small', fishCount: 1, biomass: Weight.fromGrams(300) },
+        ],
+      }),
+    ).toThrow(InactiveBatchException);
+  });
+
+  it('rejects more fish or biomass than the batch holds', () => {
+    const batch = newBatch();
+
+    expect(() =>
+      batch.recordHarvest({
+        grades: [
+          { grade: 'all', fishCount: 1001, biomass: Weight.fromKilograms(400) },
+        ],
+      }),
+    ).toThrow(DomainException);
+    expect(() =>
+      batch.recordHarvest({
+        grades: [
+          {
+            grade: 'large',
+            fishCount: 999,
+            biomass: Weight.fromKilograms(400),
+          },
+        ],
+      }),
+    ).toThrow(DomainException);
+    expect(() => batch.recordHarvest({ grades: [] })).toThrow(DomainException);
+    expect(batch.getHarvestHistory()).toHaveLength(0);
+  });
+});
+
+describe('whole batch harvest', () => {
+  it('logs every fish left as one ungraded harvest and frees the tank', async () => {
+    const batch = newBatch();
+    const tank = Tank.reconstitute({
+      id: 'tank-1',
+      farmId: 'farm-1',
+      name: 'tank-1',
+      volume: Volume.fromCubicMeters(10),
+      status: TankStatus.ACTIVE,
+      batches: [batch],
+      waterQuality: null,
+      capacityLimits: { maxStockingDensity: null, oxygenSupply: null },
+    });
+    const tankRepository = {
+      findById: async (id: string) =>
+        fromNullable(id === 'tank-1' ? tank : null),
+      save: async (saved: Tank) => saved,
+    } as ITankRepository;
+    const untreated: ITreatmentRepository = {
+      findByBatchIds: async () => [],
+      save: async (treatment) => treatment,
+    };
+    const harvestBatch = new HarvestBatchUseCase(
+      {
+        findById: async (id: string) =>
+          fromNullable(id === 'batch-1' ? batch : null),
+        save: async (saved: FishBatch) => saved,
+      } as IBatchRepository,
+      tankRepository,
+      new TreatmentWithdrawalService(
+        {} as IBatchRepository,
+        tankRepository,
+        {} as IFarmRepository,
+        untreated,
+      ),
+    );
+
+    await harvestBatch.execute({ batchId: 'batch-1' });
+
+    const [event] = batch.getHarvestHistory();
+    expect(batch.getHarvestHistory()).toHaveLength(1);
+    expect(event.grades.map((grade) => grade.grade)).toEqual(['ungraded']);
+    expect(event.fishCount).toBe(1000);
+    expect(event.biomass.toKilograms()).toBeCloseTo(400);
+    expect(event.closedBatch).toBe(true);
+    expect(batch.getStatus()).toBe(BatchStatus.HARVESTED);
+    expect(batch.getCurrentStats().fishCount).toBe(0);
+    expect(batch.getTotalProduction().toKilograms()).toBeCloseTo(400);
+    expect(tank.getBatches()).toHaveLength(0);
+  });
+});
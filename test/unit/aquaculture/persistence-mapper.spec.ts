@@ -0,0 +1,152 @@
+import { Farm } from '../../../src/modules/aquaculture-system/src/domain/aggregates/Farm';
+import { FishBatch } from '../../../src/modules/aquaculture-system/src/domain/entities/FishBatch';
+import { Tank } from '../../../src/modules/aquaculture-system/src/domain/entities/Tank';
+import { TankStatus } from '../../../src/modules/aquaculture-system/src/domain/types/Enums';
+import { Volume } from '../../../src/modules/aquaculture-system/src/domain/value-objects/Volume';
+import { WaterQuality } from '../../../src/modules/aquaculture-system/src/domain/value-objects/WaterQuality';
+import { Weight } from '../../../src/modules/aquaculture-system/src/domain/value-objects/Weight';
+import { FarmEntity } from '../../../src/modules/aquaculture-system/src/infrastructure/database/entity/farm.entity';
+import { FishBatchEntity } from '../../../src/modules/aquaculture-system/src/infrastructure/database/entity/fish-batch.entity';
+import { TankEntity } from '../../../src/modules/aquaculture-system/src/infrastructure/database/entity/tank.entity';
+import { FarmPersistenceMapper } from '../../../src/modules/aquaculture-system/src/infrastructure/database/mapper/farm.mapper';
+import { FishBatchPersistenceMapper } from '../../../src/modules/aquaculture-system/src/infrastructure/database/mapper/fish-batch.mapper';
+import { TankPersistenceMapper } from '../../../src/modules/aquaculture-system/src/infrastructure/database/mapper/tank.mapper';
+
+// Stands in for a populated MikroORM collection
+const collectionOf = <T>(items: T[]) => ({ getItems: () => items });
+
+const waterQuality = WaterQuality.create({
+  temperature: 27.5,
+  dissolvedOxygen: 6.2,
+  pH: 7.4,
+  totalAmmonia: 0.15,
+  nitrite: 0.05,
+  measuredAt: new Date('2026-05-10T06:00:00'),
+});
+
+const batchMapper = new FishBatchPersistenceMapper();
+
+// Domain → ORM entity → domain, as the repository loads it back
+const roundTripBatch = (batch: FishBatch) =>
+  batchMapper.toDomain({
+    ...batchMapper.toPersistence(batch),
+    tank: { id: batch.getTankId() },
+    growthRecords: collectionOf(
+      batch
+        .getGrowthHistory()
+        .map((record) => batchMapper.toGrowthRecordPersistence(record)),
+    ),
+    feedingRecords: collectionOf(
+      batch
+        .getFeedingHistory()
+        .map((record) => batchMapper.toFeedingRecordPersistence(record)),
+    ),
+    harvestEvents: collectionOf([]),
+    transfers: collectionOf([]),
+    mortalityEvents: collectionOf(
+      batch
+        .getMortalityHistory()
+        .map((event) => batchMapper.toMortalityEventPersistence(event)),
+    ),
+    countReconciliations: collectionOf([]),
+  } as unknown as FishBatchEntity);
+
+const stockedBatch = () => {
+  const batch = FishBatch.create({
+    id: 'batch-1',
+    tankId: 'tank-1',
+    fishTypeId: 'tilapia',
+    fishCount: 1000,
+    initialWeight: Weight.fromGrams(10),
+    stockedDate: new Date('2026-05-01T08:00:00'),
+  });
+  batch.recordFeeding(Weight.fromKilograms(2), 3, waterQuality, {
+    feedProductId: 'starter',
+    proteinPercent: 40,
+    fedAt: new Date('2026-05-10T08:00:00'),
+  });
+  batch.recordGrowth(Weight.fromGrams(25), new Date('2026-05-15T08:00:00'));
+  batch.recordMortality(40);
+  return batch;
+};
+
+describe('persistence mappers', () => {
+  it('round-trips a farm', () => {
+    const mapper = new FarmPersistenceMapper();
+    const farm = Farm.create({
+      id: 'farm-1',
+      name: 'North Ponds',
+      location: 'Lake Road',
+    });
+
+    const restored = mapper.toDomain(
+      mapper.toPersistence(farm) as FarmEntity,
+      [],
+    );
+
+    expect(restored).toEqual(farm);
+  });
+
+  it('round-trips a batch with its growth and feeding history', () => {
+    const batch = stockedBatch();
+
+    const restored = roundTripBatch(batch);
+
+    expect(restored).toEqual(batch);
+    expect(restored.getCurrentStats().fishCount).toBe(960);
+    expect(restored.getCurrentStats().survivalRate).toBe(96);
+    expect(restored.getGrowthHistory()[0].statistics.averageWeight).toEqual(
+      Weight.fromGrams(25),
+    );
+    expect(restored.getFeedingHistory()[0].waterQuality).toEqual(waterQuality);
+  });
+
+  it('round-trips a tank with its active batches and latest reading', () => {
+    const mapper = new TankPersistenceMapper(batchMapper);
+    const tank = Tank.create({
+      id: 'tank-1',
+      farmId: 'farm-1',
+      name: 'Tank 1',
+      volume: Volume.fromCubicMeters(12.5),
+      status: TankStatus.ACTIVE,
+      capacityLimits: { maxStockingDensity: 40, oxygenSupply: 90 },
+    });
+    tank.updateWaterQuality(waterQuality);
+    const batch = stockedBatch();
+
+    const restored = mapper.toDomain(
+      {
+        ...mapper.toPersistence(tank),
+        farm: { id: 'farm-1' },
+        batches: collectionOf([
+          {
+            ...batchMapper.toPersistence(batch),
+            tank: { id: 'tank-1' },
+            growthRecords: collectionOf([]),
+            feedingRecords: collectionOf([]),
+            harvestEvents: collectionOf([]),
+            transfers: collectionOf([]),
+            mortalityEvents: collectionOf([]),
+            countReconciliations: collectionOf([]),
+          },
+        ]),
+      } as unknown as TankEntity,
+      mapper.toReadingPersistence(waterQuality),
+    );
+
+    expect(restored.getFarmId()).toBe('farm-1');
+    expect(restored.getVolume().toCubicMeters()).toBe(12.5);
+    expect(restored.getStatus()).toBe(TankStatus.ACTIVE);
+    expect(restored.getCapacityLimits()).toEqual({
+      maxStockingDensity: 40,
+      oxygenSupply: 90,
+    });
+    expect(restored.getWaterQuality()).toEqual(waterQuality);
+    expect(restored.getBatches().map((b) => b.getId().toString())).toEqual([
+      'batch-1',
+    ]);
+    expect(restored.getBatches()[0].getCurrentStats()).toEqual(
+      batch.getCurrentStats(),
+    );
+  });
+});
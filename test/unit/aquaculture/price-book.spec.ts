@@ -0,0 +1,168 @@
+import { MarketPrice } from '../../../src/modules/aquaculture-system/src/domain/entities/MarketPrice';
+import { DomainException } from '../../../src/modules/aquaculture-system/src/domain/exceptions/DomainException';
+import { priceForWeight } from '../../../src/modules/aquaculture-system/src/domain/services/HarvestTimingOptimizer';
+import { HarvestPredictionService } from '../../../src/modules/aquaculture-system/src/domain/services/HarvestPredictionService';
+import {
+  effectivePriceBook,
+  gradeHarvest,
+  overlappingGrade,
+  priceCurveFromGrades,
+} from '../../../src/modules/aquaculture-system/src/domain/services/PriceBook';
+import { BatchStatistics } from '../../../src/modules/aquaculture-system/src/domain/value-objects/BatchStatistics';
+import { Weight } from '../../../src/modules/aquaculture-system/src/domain/value-objects/Weight';
+
+const price = (
+  grade: string,
+  minWeightGrams: number,
+  maxWeightGrams: number | null,
+  pricePerKg: number,
+  effectiveFrom = '2026-01-01T00:00:00',
+) =>
+  MarketPrice.create({
+    id: `${grade}-${effectiveFrom}`,
+    fishTypeId: 'tilapia',
+    grade,
+    minWeightGrams,
+    maxWeightGrams,
+    pricePerKg,
+    effectiveFrom: new Date(effectiveFrom),
+  });
+
+const book = [
+  price('large', 500, null, 6),
+  price('small', 0, 300, 3),
+  price('medium', 300, 500, 4),
+  price('medium', 300, 500, 4.5, '2026-06-01T00:00:00'),
+];
+
+describe('price book', () => {
+  it('keeps the latest price of each grade in force on the date', () => {
+    const may = effectivePriceBook(book, new Date('2026-05-01T00:00:00'));
+    const july = effectivePriceBook(book, new Date('2026-07-01T00:00:00'));
+
+    expect(may.map((line) => line.getGrade())).toEqual([
+      'small',
+      'medium',
+      'large',
+    ]);
+    expect(may[1].getPricePerKg()).toBe(4);
+    expect(july[1].getPricePerKg()).toBe(4.5);
+    expect(effectivePriceBook(book, new Date('2025-12-31T00:00:00'))).toEqual(
+      [],
+    );
+  });
+
+  it('rejects a grade that ends where it starts', () => {
+    expect(() => price('odd', 300, 300, 4)).toThrow(DomainException);
+  });
+
+  it('detects grades sharing sizes', () => {
+    expect(price('a', 0, 300, 3).overlaps(price('b', 300, 500, 4))).toBe(false);
+    expect(price('a', 0, 350, 3).overlaps(price('b', 300, 500, 4))).toBe(true);
+    expect(price('a', 600, null, 3).overlaps(price('b', 500, null, 4))).toBe(
+      true,
+    );
+  });
+
+  it('checks a new line against the books in force while it is', () => {
+    // Medium widens to 550 g from June, so large starts at 550 g then
+    const widened = [
+      ...book,
+      price('medium', 300, 550, 4.5, '2026-06-15T00:00:00'),
+    ];
+    const backdated = price('large', 500, null, 6.5, '2026-05-01T00:00:00');
+    const replaced = [
+      ...widened,
+      price('large', 550, null, 6.5, '2026-06-15T00:00:00'),
+    ];
+
+    expect(overlappingGrade(book, backdated)).toBeUndefined();
+    expect(overlappingGrade(widened, backdated)?.getGrade()).toBe('medium');
+    expect(overlappingGrade(replaced, backdated)).toBeUndefined();
+    expect(
+      overlappingGrade(book, price('jumbo', 450, null, 7))?.getGrade(),
+    ).toBe('medium');
+  });
+
+  it('turns grades into a step price curve', () => {
+    const curve = priceCurveFromGrades(
+      effectivePriceBook(book, new Date('2026-05-01T00:00:00')),
+    );
+
+    expect(priceForWeight(curve, Weight.fromGrams(150))).toBe(3);
+    expect(priceForWeight(curve, Weight.fromGrams(400))).toBe(4);
+    expect(priceForWeight(curve, Weight.fromGrams(900))).toBe(6);
+  });
+});
+
+describe('harvest grading', () => {
+  const grades = effectivePriceBook(book, new Date('2026-05-01T00:00:00'));
+
+  it('splits every fish and gram of production across the grades', () => {
+    const grading = gradeHarvest(grades, Weight.fromGrams(400), 20, 1000);
+    const fish = grading.grades.reduce((sum, g) => sum + g.fishCount, 0);
+    const grams = grading.grades.reduce(
+      (sum, g) => sum + g.biomass.toGrams(),
+      0,
+    );
+
+    expect(fish).toBeGreaterThanOrEqual(999);
+    expect(fish).toBeLessThanOrEqual(1001);
+    expect(grams).toBeCloseTo(grading.production.toGrams(), 0);
+    expect(grading.production.toKilograms()).toBeCloseTo(400);
+    expect(grading.ungradedFishCount).toBe(0);
+    // Most fish sit in the grade around the average
+    expect(grading.grades[1].fishCount).toBeGreaterThan(600);
+    expect(grading.averagePricePerKg).toBeGreaterThan(3);
+    expect(grading.averagePricePerKg).toBeLessThan(6);
+  });
+
+  it('puts a uniform batch entirely in one grade', () => {
+    const grading = gradeHarvest(grades, Weight.fromGrams(400), 0, 1000);
+
+    expect(grading.grades.map((g) => g.fishCount)).toEqual([0, 1000, 0]);
+    expect(grading.revenue).toBeCloseTo(400 * 4);
+    expect(grading.averagePricePerKg).toBeCloseTo(4);
+  });
+
+  it('leaves fish outside every grade ungraded', () => {
+    const grading = gradeHarvest(
+      [price('medium', 300, 500, 4)],
+      Weight.fromGrams(400),
+      30,
+      1000,
+    );
+
+    expect(grading.ungradedFishCount).toBeGreaterThan(0);
+    expect(
+      grading.grades[0].biomass.toGrams() + grading.ungradedBiomass.toGrams(),
+    ).toBeCloseTo(grading.production.toGrams(), 0);
+  });
+
+  it('prices harvest economics at the graded average price', () => {
+    const service = new HarvestPredictionService();
+    const prediction = service.predictHarvest(
+      BatchStatistics.create(1000, Weight.fromGrams(200)),
+      Weight.fromGrams(400),
+      2,
+      90,
+      1000,
+      new Date('2026-05-01T08:00:00'),
+    );
+    const grading = gradeHarvest(
+      grades,
+      prediction.targetWeight,
+      20,
+      prediction.expectedFinalCount,
+    );
+    const economics = service.calculateGradedHarvestEconomics(
+      prediction,
+      grading,
+      Weight.fromKilograms(5),
+      1.2,
+    );
+
+    expect(economics.marketPricePerKg).toBeCloseTo(grading.averagePricePerKg);
+    expect(economics.projectedRevenue).toBeCloseTo(grading.revenue);
+  });
+});
@@ -0,0 +1,262 @@
+import { fromNullable, some } from 'effect/Option';
+import { MergeBatchesUseCase } from '../../../src/modules/aquaculture-system/src/application/use-cases/batch/MergeBatches';
+import { FishBatch } from '../../../src/modules/aquaculture-system/src/domain/entities/FishBatch';
+import { FishType } from '../../../src/modules/aquaculture-system/src/domain/entities/FishType';
+import { Tank } from '../../../src/modules/aquaculture-system/src/domain/entities/Tank';
+import { CarryingCapacityExceededException } from '../../../src/modules/aquaculture-system/src/domain/exceptions/CarryingCapacityExceededException';
+import { IBatchRepository } from '../../../src/modules/aquaculture-system/src/domain/repositories/IBatchRepository';
+import { IFishTypeRepository } from '../../../src/modules/aquaculture-system/src/domain/repositories/IFishTypeRepository';
+import { ITankRepository } from '../../../src/modules/aquaculture-system/src/domain/repositories/ITankRepository';
+import { InvalidFishTypeParametersException } from '../../../src/modules/aquaculture-system/src/domain/exceptions/InvalidFishTypeParametersException';
+import { splitBatch } from '../../../src/modules/aquaculture-system/src/domain/services/BatchTransfer';
+import { withDefaultSafetyFactorCurves } from '../../../src/modules/aquaculture-system/src/domain/services/SafetyFactorCurves';
+import {
+  forecastTankCapacity,
+  rankTanksByHeadroom,
+} from '../../../src/modules/aquaculture-system/src/domain/services/TankCapacity';
+import { TankCapacityLimits } from '../../../src/modules/aquaculture-system/src/domain/types/CapacityTypes';
+import { FeedingRateInterpolation } from '../../../src/modules/aquaculture-system/src/domain/types/Enums';
+import { Volume } from '../../../src/modules/aquaculture-system/src/domain/value-objects/Volume';
+import { Weight } from '../../../src/modules/aquaculture-system/src/domain/value-objects/Weight';
+
+const fishTypeWith = (
+  maxStockingDensity: number | null,
+  oxygenConsumption: number | null,
+) =>
+  FishType.create({
+    id: 'tilapia',
+    name: 'Tilapia',
+    parameters: withDefaultSafetyFactorCurves({
+      doMin: 3,
+      doSafe: 5,
+      phMin: 6.5,
+      phMax: 8.5,
+      nh3Safe: 0.02,
+      nh3Critical: 0.1,
+      no2Max: 0.5,
+      tempMin: 22,
+      tempMax: 32,
+      tempOptimal: 28,
+      fcrMin: 1.4,
+      fcrMax: 1.8,
+      survivalRate: 85,
+      maxStockingDensity,
+      oxygenConsumption,
+      feedingRateMatrix: {
+        weight_ranges: [{ min: 0, max: 1000 }],
+        temperatures: [28],
+        rates: [[2]],
+      },
+      feedingRateInterpolation: FeedingRateInterpolation.NEAREST,
+      mealFrequencyRules: [{ maxWeight: null, mealsPerDay: 3 }],
+    }),
+    effectiveFrom: new Date('2020-01-01T00:00:00Z'),
+  });
+
+const typesOf = (fishType: FishType) =>
+  new Map([[fishType.getId().toString(), fishType]]);
+
+const tankWith = (capacityLimits: TankCapacityLimits, id = 'tank-1') =>
+  Tank.create({
+    id,
+    farmId: 'farm-1',
+    name: id,
+    volume: Volume.fromCubicMeters(10),
+    capacityLimits,
+  });
+
+const batchOf = (id: string, fishCount: number, grams: number) =>
+  FishBatch.create({
+    id,
+    tankId: 'tank-1',
+    fishTypeId: 'tilapia',
+    fishCount,
+    initialWeight: Weight.fromGrams(grams),
+    stockedDate: new Date('2026-05-01T08:00:00Z'),
+  });
+
+describe('tank carrying capacity', () => {
+  it('holds the tank to the strictest density limit', () => {
+    const fishTypes = typesOf(fishTypeWith(40, null));
+    const tank = tankWith({ maxStockingDensity: 50, oxygenSupply: null });
+    tank.addBatch(batchOf('batch-1', 1000, 200), fishTypes);
+
+    const capacity = tank.assessCapacity(fishTypes);
+
+    expect(capacity.stockingDensity).toBeCloseTo(20);
+    expect(capacity.maxStockingDensity).toBe(40);
+    expect(capacity.carryingCapacity?.toKilograms()).toBeCloseTo(400);
+    expect(capacity.headroomKg).toBeCloseTo(200);
+    expect(capacity.utilization).toBeCloseTo(0.5);
+    expect(capacity.limitedBy).toBe('DENSITY');
+  });
+
+  it('caps biomass at what the oxygen supply can carry', () => {
+    const fishTypes = typesOf(fishTypeWith(null, 300));
+    const tank = tankWith({ maxStockingDensity: 50, oxygenSupply: 90 });
+    tank.addBatch(batchOf('batch-1', 1000, 200), fishTypes);
+
+    const capacity = tank.assessCapacity(fishTypes);
+
+    // 200 kg at 300 mg/kg/h breathe 60 g/h of the 90 supplied
+    expect(capacity.oxygenDemand).toBeCloseTo(60);
+    expect(capacity.carryingCapacity?.toKilograms()).toBeCloseTo(300);
+    expect(capacity.headroomKg).toBeCloseTo(100);
+    expect(capacity.limitedBy).toBe('OXYGEN');
+  });
+
+  it('has no carrying capacity without any limit', () => {
+    const fishTypes = typesOf(fishTypeWith(null, null));
+    const tank = tankWith({ maxStockingDensity: null, oxygenSupply: null });
+    tank.addBatch(batchOf('batch-1', 10000, 500), fishTypes);
+
+    const capacity = tank.assessCapacity(fishTypes);
+
+    expect(capacity.carryingCapacity).toBeNull();
+    expect(capacity.headroomKg).toBeNull();
+    expect(capacity.utilization).toBeNull();
+  });
+
+  it('refuses a batch the tank has no room for', () => {
+    const fishTypes = typesOf(fishTypeWith(40, null));
+    const tank = tankWith({ maxStockingDensity: null, oxygenSupply: null });
+    tank.addBatch(batchOf('batch-1', 1000, 300), fishTypes);
+
+    expect(() =>
+      tank.addBatch(batchOf('batch-2', 1000, 101), fishTypes),
+    ).toThrow(CarryingCapacityExceededException);
+    expect(tank.getBatches()).toHaveLength(1);
+
+    tank.addBatch(batchOf('batch-2', 1000, 100), fishTypes);
+    expect(tank.getBatches()).toHaveLength(2);
+  });
+
+  it('has room for a split within a nearly full tank', () => {
+    const fishTypes = typesOf(fishTypeWith(40, null));
+    const tank = tankWith({ maxStockingDensity: null, oxygenSupply: null });
+    tank.addBatch(batchOf('batch-1', 1000, 360), fishTypes);
+    // The source as loaded on its own, apart from the tank's copy
+    const source = batchOf('batch-1', 1000, 360);
+    const child = splitBatch(source, {
+      childId: 'batch-2',
+      toTankId: 'tank-1',
+      fishCount: 300,
+      transferredAt: new Date('2026-05-10T08:00:00Z'),
+    });
+
+    expect(() => tank.addBatch(child, fishTypes)).toThrow(
+      CarryingCapacityExceededException,
+    );
+
+    tank.refreshBatch(source);
+    tank.addBatch(child, fishTypes);
+    expect(tank.getTotalBiomass().toKilograms()).toBeCloseTo(360);
+    expect(tank.assessCapacity(fishTypes).utilization).toBeCloseTo(0.9);
+  });
+
+  it('has room for a merge within a nearly full tank', async () => {
+    const fishType = fishTypeWith(40, null);
+    const tank = tankWith({ maxStockingDensity: null, oxygenSupply: null });
+    tank.addBatch(batchOf('batch-1', 1000, 180), typesOf(fishType));
+    tank.addBatch(batchOf('batch-2', 1000, 180), typesOf(fishType));
+    // Batches load apart from the tank's copies, as from the database
+    const merge = new MergeBatchesUseCase(
+      {
+        findById: async (id: string) => some(batchOf(id, 1000, 180)),
+        save: async (batch: FishBatch) => batch,
+      } as IBatchRepository,
+      {
+        findById: async (id: string) =>
+          fromNullable(id === 'tank-1' ? tank : null),
+        save: async (saved: Tank) => saved,
+      } as ITankRepository,
+      { findAll: async () => [fishType] } as IFishTypeRepository,
+    );
+
+    const { child } = await merge.execute({
+      batchIds: ['batch-1', 'batch-2'],
+      toTankId: 'tank-1',
+      mergedAt: new Date('2026-05-10T08:00:00Z'),
+    });
+
+    expect(tank.getBatches()).toEqual([child]);
+    expect(tank.assessCapacity(typesOf(fishType)).utilization).toBeCloseTo(0.9);
+  });
+
+  it('rejects limits that are not positive', () => {
+    expect(() => fishTypeWith(0, null)).toThrow(
+      InvalidFishTypeParametersException,
+    );
+    expect(() =>
+      tankWith({ maxStockingDensity: null, oxygenSupply: -5 }),
+    ).toThrow();
+  });
+});
+
+describe('tank capacity forecast', () => {
+  const currentDate = new Date('2026-06-01T08:00:00Z');
+  const forecast = (daysToHarvest: number | null) =>
+    forecastTankCapacity({
+      tankId: 'tank-1',
+      volume: Volume.fromCubicMeters(10),
+      limits: { maxStockingDensity: 40, oxygenSupply: null },
+      batches: [
+        {
+          batchId: 'batch-1',
+          fishTypeId: 'tilapia',
+          fishCount: 1000,
+          averageWeight: Weight.fromGrams(200),
+          sgr: 1,
+          daysToHarvest,
+        },
+      ],
+      fishTypes: typesOf(fishTypeWith(null, null)),
+      horizonDays: 90,
+      warningDays: 80,
+      currentDate,
+    });
+
+  it('warns on the day growth takes the tank over capacity', () => {
+    const result = forecast(null);
+    // 200 kg doubles to the 400 kg limit after ln(2) / 1% a day
+    const expectedDay = Math.floor(Math.log(2) * 100) + 1;
+
+    expect(result.days).toHaveLength(91);
+    expect(result.current.utilization).toBeCloseTo(0.5);
+    expect(result.daysUntilExceeded).toBe(expectedDay);
+    expect(result.exceedsOn).toEqual(
+      new Date(currentDate.getTime() + expectedDay * 24 * 60 * 60 * 1000),
+    );
+    expect(result.warning).toBe(true);
+  });
+
+  it('stays clear when the batch is harvested before the tank fills', () => {
+    const result = forecast(60);
+
+    expect(result.daysUntilExceeded).toBeNull();
+    expect(result.warning).toBe(false);
+    expect(result.days[61].biomass.toKilograms()).toBe(0);
+  });
+});
+
+describe('farm capacity ranking', () => {
+  it('puts the tanks with most room first and unlimited tanks last', () => {
+    const fishTypes = typesOf(fishTypeWith(null, null));
+    const roomy = tankWith({ maxStockingDensity: 40, oxygenSupply: null });
+    const full = tankWith({ maxStockingDensity: 25, oxygenSupply: null });
+    const open = tankWith({ maxStockingDensity: null, oxygenSupply: null });
+    full.addBatch(batchOf('batch-1', 1000, 200), fishTypes);
+
+    const ranked = rankTanksByHeadroom([
+      open.assessCapacity(fishTypes),
+      full.assessCapacity(fishTypes),
+      roomy.assessCapacity(fishTypes),
+    ]);
+
+    expect(ranked.map((capacity) => capacity.headroomKg)).toEqual([
+      400,
+      50,
+      null,
+    ]);
+  });
+});
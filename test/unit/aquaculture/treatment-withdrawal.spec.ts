@@ -0,0 +1,258 @@
+import { fromNullable } from 'effect/Option';
+import { TreatmentWithdrawalService } from '../../../src/modules/aquaculture-system/src/application/services/TreatmentWithdrawalService';
+import { RecordHarvestUseCase } from '../../../src/modules/aquaculture-system/src/application/use-cases/batch/RecordHarvest';
+import { Farm } from '../../../src/modules/aquaculture-system/src/domain/aggregates/Farm';
+import { FishBatch } from '../../../src/modules/aquaculture-system/src/domain/entities/FishBatch';
+import { Tank } from '../../../src/modules/aquaculture-system/src/domain/entities/Tank';
+import { Treatment } from '../../../src/modules/aquaculture-system/src/domain/entities/Treatment';
+import { DomainException } from '../../../src/modules/aquaculture-system/src/domain/exceptions/DomainException';
+import { WithdrawalPeriodException } from '../../../src/modules/aquaculture-system/src/domain/exceptions/WithdrawalPeriodException';
+import { IBatchRepository } from '../../../src/modules/aquaculture-system/src/domain/repositories/IBatchRepository';
+import { IFarmRepository } from '../../../src/modules/aquaculture-system/src/domain/repositories/IFarmRepository';
+import { ITankRepository } from '../../../src/modules/aquaculture-system/src/domain/repositories/ITankRepository';
+import { ITreatmentRepository } from '../../../src/modules/aquaculture-system/src/domain/repositories/ITreatmentRepository';
+import { assessWithdrawal } from '../../../src/modules/aquaculture-system/src/domain/services/TreatmentWithdrawal';
+import {
+  TankStatus,
+  TreatmentType,
+  WithdrawalUnit,
+} from '../../../src/modules/aquaculture-system/src/domain/types/Enums';
+import { SeasonalTemperatureProfile } from '../../../src/modules/aquaculture-system/src/domain/types/WaterQualityTypes';
+import { Volume } from '../../../src/modules/aquaculture-system/src/domain/value-objects/Volume';
+import { WaterQuality } from '../../../src/modules/aquaculture-system/src/domain/value-objects/WaterQuality';
+import { Weight } from '../../../src/modules/aquaculture-system/src/domain/value-objects/Weight';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const startedAt = new Date('2026-05-01T08:00:00');
+const daysAfterStart = (days: number) =>
+  new Date(startedAt.getTime() + days * DAY_MS);
+
+const treatment = (
+  withdrawalPeriod: number,
+  withdrawalUnit: WithdrawalUnit,
+  durationDays = 0,
+) =>
+  Treatment.create({
+    id: `treatment-${withdrawalUnit}`,
+    batchId: 'batch-1',
+    type: TreatmentType.ANTIBIOTIC,
+    product: 'Oxytetracycline',
+    dose: 75,
+    doseUnit: 'mg/kg',
+    startedAt,
+    durationDays,
+    withdrawalPeriod,
+    withdrawalUnit,
+  });
+
+const readingAt = (temperature: number) =>
+  WaterQuality.create({
+    temperature,
+    dissolvedOxygen: 7,
+    pH: 7.5,
+    totalAmmonia: 0.2,
+    nitrite: 0.1,
+    measuredAt: startedAt,
+  });
+
+const flatProfile: SeasonalTemperatureProfile = {
+  monthlyMeanTemperatures: Array(12).fill(10),
+  variation: 0,
+};
+
+describe('treatment withdrawal', () => {
+  it('counts a withdrawal in days from the end of the course', () => {
+    const treatments = [treatment(10, WithdrawalUnit.DAYS, 5)];
+    const during = assessWithdrawal({
+      batchId: 'batch-1',
+      treatments,
+      readings: [],
+      profile: null,
+      asOf: daysAfterStart(10),
+    });
+
+    expect(during.inWithdrawal).toBe(true);
+    expect(during.clearsAt).toEqual(daysAfterStart(15));
+    expect(during.withdrawals[0].startsAt).toEqual(daysAfterStart(5));
+    expect(during.withdrawals[0].estimated).toBe(false);
+
+    const after = assessWithdrawal({
+      batchId: 'batch-1',
+      treatments,
+      readings: [],
+      profile: null,
+      asOf: daysAfterStart(16),
+    });
+    expect(after.inWithdrawal).toBe(false);
+    expect(after.clearsAt).toBeNull();
+    expect(after.withdrawals[0].cleared).toBe(true);
+  });
+
+  it('clears degree-days on the temperatures the tank recorded', () => {
+    const status = assessWithdrawal({
+      batchId: 'batch-1',
+      treatments: [treatment(500, WithdrawalUnit.DEGREE_DAYS)],
+      readings: [readingAt(20)],
+      profile: flatProfile,
+      asOf: daysAfterStart(30),
+    });
+
+    // 500 °C·days at 20 °C take 25 days
+    expect(status.inWithdrawal).toBe(false);
+    expect(status.withdrawals[0].clearsAt?.getTime()).toBeCloseTo(
+      daysAfterStart(25).getTime(),
+      -3,
+    );
+    expect(status.withdrawals[0].degreeDaysAccrued).toBeCloseTo(600);
+  });
+
+  it('projects the rest of a degree-day withdrawal on the seasonal profile', () => {
+    const status = assessWithdrawal({
+      batchId: 'batch-1',
+      treatments: [treatment(500, WithdrawalUnit.DEGREE_DAYS)],
+      readings: [readingAt(10)],
+      profile: flatProfile,
+      asOf: daysAfterStart(30),
+    });
+
+    expect(status.inWithdrawal).toBe(true);
+    expect(status.withdrawals[0].degreeDaysAccrued).toBeCloseTo(300);
+    expect(status.withdrawals[0].estimated).toBe(true);
+    expect(status.clearsAt?.getTime()).toBeCloseTo(
+      daysAfterStart(50).getTime(),
+      -3,
+    );
+  });
+
+  it('keeps the batch withdrawn when no temperature can tell', () => {
+    const status = assessWithdrawal({
+      batchId: 'batch-1',
+      treatments: [
+        treatment(500, WithdrawalUnit.DEGREE_DAYS),
+        treatment(3, WithdrawalUnit.DAYS),
+      ],
+      readings: [],
+      profile: null,
+      asOf: daysAfterStart(365),
+    });
+
+    expect(status.inWithdrawal).toBe(true);
+    expect(status.clearsAt).toBeNull();
+    expect(status.withdrawals[0].clearsAt).toBeNull();
+    expect(status.withdrawals[1].cleared).toBe(true);
+    expect(new WithdrawalPeriodException(status).message).toContain(
+      'Oxytetracycline',
+    );
+  });
+
+  it('rejects treatments without a dose or in the future', () => {
+    expect(() =>
+      Treatment.create({
+        id: 'treatment-1',
+        batchId: 'batch-1',
+        type: TreatmentType.BATH,
+        product: 'Salt',
+        dose: 0,
+        doseUnit: 'g/L',
+        durationDays: 0,
+        withdrawalPeriod: 0,
+        withdrawalUnit: WithdrawalUnit.DAYS,
+      }),
+    ).toThrow(DomainException);
+    expect(() =>
+      Treatment.create({
+        id: 'treatment-1',
+        batchId: 'batch-1',
+        type: TreatmentType.BATH,
+        product: 'Salt',
+        dose: 5,
+        doseUnit: 'g/L',
+        startedAt: new Date(Date.now() + DAY_MS),
+        durationDays: 0,
+        withdrawalPeriod: 0,
+        withdrawalUnit: WithdrawalUnit.DAYS,
+      }),
+    ).toThrow(DomainException);
+  });
+});
+
+describe('harvest withdrawal check', () => {
+  // A batch treated on 1 May with a ten-day withdrawal after a five-day course
+  const recordHarvest = () => {
+    const batch = FishBatch.create({
+      id: 'batch-1',
+      tankId: 'tank-1',
+      fishTypeId: 'tilapia',
+      fishCount: 1000,
+      initialWeight: Weight.fromGrams(300),
+      stockedDate: new Date('2026-03-01T08:00:00'),
+    });
+    const tank = Tank.reconstitute({
+      id: 'tank-1',
+      farmId: 'farm-1',
+      name: 'tank-1',
+      volume: Volume.fromCubicMeters(10),
+      status: TankStatus.ACTIVE,
+      batches: [batch],
+      waterQuality: null,
+      capacityLimits: { maxStockingDensity: null, oxygenSupply: null },
+    });
+    const tankRepository: ITankRepository = {
+      findById: async (id) => fromNullable(id === 'tank-1' ? tank : null),
+      findByFarmId: async () => [tank],
+      findWaterQualityHistory: async () => [],
+      save: async (saved) => saved,
+    };
+    const treatments: ITreatmentRepository = {
+      findByBatchIds: async () => [treatment(10, WithdrawalUnit.DAYS, 5)],
+      save: async (saved) => saved,
+    };
+    const useCase = new RecordHarvestUseCase(
+      {
+        findById: async (id: string) =>
+          fromNullable(id === 'batch-1' ? batch : null),
+        save: async (saved: FishBatch) => saved,
+      } as IBatchRepository,
+      tankRepository,
+      new TreatmentWithdrawalService(
+        {} as IBatchRepository,
+        tankRepository,
+        {
+          findById: async (id: string) =>
+            fromNullable(
+              id === 'farm-1'
+                ? Farm.create({ id, name: 'Farm', location: 'Lake' })
+                : null,
+            ),
+        } as IFarmRepository,
+        treatments,
+      ),
+    );
+    return {
+      batch,
+      harvestOn: (harvestedAt: Date) =>
+        useCase.execute({
+          batchId: 'batch-1',
+          grades: [{ grade: 'medium', fishCount: 100, biomassKg: 30 }],
+          harvestedAt,
+        }),
+    };
+  };
+
+  it('holds a harvest backdated into the withdrawal period', async () => {
+    const { batch, harvestOn } = recordHarvest();
+
+    await expect(harvestOn(daysAfterStart(10))).rejects.toThrow(
+      WithdrawalPeriodException,
+    );
+    expect(batch.getHarvestHistory()).toHaveLength(0);
+  });
+
+  it('allows a harvest backdated to before the treatment or after it cleared', async () => {
+    const { batch, harvestOn } = recordHarvest();
+
+    await harvestOn(daysAfterStart(-1));
+    await harvestOn(daysAfterStart(16));
+    expect(batch.getHarvestHistory()).toHaveLength(2);
+  });
+});